@@ -0,0 +1,75 @@
+/**
+ * Fits the logistic leak model on seeded main-burst replays and writes the next
+ * src/models/leak-logistic-vN.json, or version N when given. Every replay is generated
+ * from the seeds below and pipe ages count to a fixed year, so running it again
+ * reproduces the same weights.
+ *
+ * Burst sites here are picked without regard to pipe age or material, so the replays
+ * say nothing about either; coefficients are held at 0 or above so those inputs cannot
+ * come out as factors that lower risk.
+ *
+ *   npm run train:leak-model [-- N]
+ */
+import { writeFileSync } from "node:fs";
+
+import { cityConfigs, resolveCityLayout } from "../src/lib/city-config";
+import type { GridCell } from "../src/lib/grid";
+import { applyHydraulics, solveHydraulics } from "../src/lib/hydraulics";
+import { fitLeakLogistic, leakFeatures, leakModels, type LeakFeatures } from "../src/lib/leak-risk";
+import { buildDemoNetwork } from "../src/lib/network";
+import { runScenario, type Scenario } from "../src/lib/simulator";
+
+const REPLAYS = 60;
+const BURST_AT = 60; // s
+const DURATION = 1200; // s
+// Pipe ages count to this year.
+const AS_OF_YEAR = 2025;
+
+const layout = resolveCityLayout(cityConfigs.default);
+const layoutCells: GridCell[] = layout.cells.map((c, i) => ({
+  id: c.id,
+  row: c.row,
+  col: c.col,
+  zone: c.zone,
+  wqi: 80,
+  pressure: 45,
+  flow: 120 + Math.sin(i / 2) * 20,
+  leakRisk: 0,
+}));
+const network = buildDemoNetwork(layoutCells, layout.tile);
+const steady = applyHydraulics(layoutCells, network, solveHydraulics(network, { time: 0 }));
+const baseline = new Map(steady.map((c) => [c.id, c]));
+
+const examples: Array<{ features: LeakFeatures; leak: boolean }> = [];
+for (let k = 0; k < REPLAYS; k++) {
+  const cellId = steady[(k * 7) % steady.length].id;
+  const scenario: Scenario = {
+    id: `train-${k}`,
+    name: `Training burst ${k}`,
+    seed: 5000 + k,
+    stepSec: 5,
+    // Weak to full-bore bursts, so the model also sees ones that barely move the readings.
+    events: [{ type: "main-burst", at: BURST_AT, cellId, severity: 0.3 + 0.7 * ((k * 3) % 10) / 9, radius: 1 }],
+  };
+  const start = Date.parse("2025-09-01T00:00:00Z");
+  for (const r of runScenario(steady, scenario, DURATION)) {
+    const t = (Date.parse(r.timestamp) - start) / 1000;
+    // One example per cell-minute.
+    if (t % 60 !== 0) continue;
+    const cell = { ...baseline.get(r.cellId)!, pressure: r.pressure!, flow: r.flow! };
+    examples.push({ features: leakFeatures(cell, { baseline, network, asOfYear: AS_OF_YEAR }), leak: r.cellId === cellId && t >= BURST_AT });
+  }
+}
+
+const positives = examples.filter((e) => e.leak).length;
+const version = Number(process.argv[2]) || Math.max(0, ...leakModels.filter((m) => m.id === "logistic").map((m) => m.version)) + 1;
+const weights = fitLeakLogistic(examples, {
+  version,
+  nonNegative: true,
+  trainedOn:
+    `${REPLAYS} seeded main-burst replays of the ${layout.rows} × ${layout.cols} demo city ` +
+    `(${examples.length.toLocaleString("en-US")} cell-minutes, ${positives} at a burst; pipe ages as of ${AS_OF_YEAR}; scripts/train-leak-model.ts)`,
+});
+const file = new URL(`../src/models/leak-logistic-v${version}.json`, import.meta.url);
+writeFileSync(file, `${JSON.stringify(weights, null, 2)}\n`);
+console.log(`Wrote ${file.pathname}`, weights);
@@ -1,4 +1,4 @@
-import React, { useMemo, useState } from "react";
+import React, { useEffect, useMemo, useRef, useState } from "react";
 import { motion } from "motion/react";
 import {
   Activity,
@@ -7,6 +7,7 @@ import {
   CheckCircle2,
   Droplets,
   Factory,
+  FlaskConical,
   Gauge,
   Leaf,
   Map as MapIcon,
@@ -16,6 +17,7 @@ import {
   Users,
   Wallet,
   Wrench,
+  X,
 } from "lucide-react";
 import {
   Card,
@@ -35,49 +37,94 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from ".
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "./components/ui/dialog";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "./components/ui/tooltip";
 import { Progress } from "./components/ui/progress";
+import { AcousticCorrelator } from "./components/AcousticCorrelator";
+import { CompliancePanel } from "./components/CompliancePanel";
+import { DemandForecastPanel, ForecastChart } from "./components/DemandForecastPanel";
+import { DetectorPanel } from "./components/DetectorPanel";
+import { IsolationPlanner } from "./components/IsolationPlanner";
+import { LinkDetails, NetworkOverlay } from "./components/NetworkOverlay";
+import { NightFlowPanel } from "./components/NightFlowPanel";
+import { PlaybackTimeline } from "./components/PlaybackTimeline";
+import { PumpSchedulePanel } from "./components/PumpSchedulePanel";
+import { RenewalPlanner } from "./components/RenewalPlanner";
+import { ResidualPanel } from "./components/ResidualPanel";
+import { SensorDrilldown, type SensorFilter } from "./components/SensorDrilldown";
+import { TankPanel } from "./components/TankPanel";
+import { WaterBalancePanel } from "./components/WaterBalancePanel";
+import { WqiBreakdown } from "./components/WqiBreakdown";
 import { ResponsiveContainer, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip as RTooltip, BarChart, Bar } from "recharts"
+import { locateLeakAlert, type LeakLocation } from "./lib/acoustic";
+import { anomalyAlerts, resolveDetectors, type DetectorSpec } from "./lib/anomaly";
+import { deriveLeakRisk, round1, type AlertItem, type GridCell } from "./lib/grid";
+import { createSimulatorSource, scenariosFor, type Scenario } from "./lib/simulator";
+import { cityLayoutFromEnv, type LayoutCell } from "./lib/city-config";
+import { describeTrace, formatTravel, qualityObservations, traceContamination, type ContaminationTrace } from "./lib/contamination";
+import { complianceAlerts, DEFAULT_STANDARD_ID, drinkingAdvice, standards, type Standard } from "./lib/compliance";
+import { cityForecast, forecastAlerts, forecastCells, type DemandForecast, type Weather } from "./lib/demand-forecast";
+import { exportInp, parseInp } from "./lib/epanet";
+import { applyHydraulics, solveHydraulics, type HydraulicResult } from "./lib/hydraulics";
+import { hasOutline, type GeoExtent } from "./lib/geojson";
+import { describeIsolation, planIsolation, type IsolationPlan, type IsolationTarget } from "./lib/isolation";
+import { compareLeakModels, DEFAULT_LEAK_MODEL, findLeakModel, leakModelKey, leakModels, scoreLeakRisk, type LeakContext, type LeakModel } from "./lib/leak-risk";
+import { RANGES, type HistoryRange } from "./lib/history-store";
+import { buildDemoNetwork, setLinkStatus, type Network, type NetworkLink, type Pipe } from "./lib/network";
+import { districtNightFlow, nightFlowAlerts, nightFlowAnalysis, type NightFlowSeries } from "./lib/night-flow";
+import { cellQuality, DEFAULT_DECAY, MIN_RESIDUAL, simulateQuality, type DecayOptions, type WaterQuality } from "./lib/quality-transport";
+import { describeChange, HOUSEHOLD_LS, predictSandbox, sandboxImpacts, type SandboxChange } from "./lib/sandbox";
+import { demoSensorRegistry, sensorHealth, summarizeSensors, type SensorHealth } from "./lib/sensors";
+import { tankAlerts, tankStatus, type TankStatus } from "./lib/tanks";
+import { recordsHistory, telemetrySourceFromEnv } from "./lib/telemetry";
+import { useAnomalyDetection } from "./lib/use-anomaly";
+import { useAggregates, useCellHistory, useHistoryRecorder } from "./lib/use-history";
+import { useHydraulics } from "./lib/use-hydraulics";
+import { useSandbox } from "./lib/use-sandbox";
+import { classifyWqi, computeWqi, DEFAULT_WQI_METHOD, hasQuality, QUALITY_PARAMS, synthesizeQuality, WQI_METHODS, withWqi, type WqiMethod } from "./lib/wqi";
+import { useTelemetry } from "./lib/use-telemetry";
+import { ALL_DISTRICTS, balanceTrend, cityBillingMonths, districtInfrastructure, type BillingMonth, type DistrictInfrastructure } from "./lib/water-balance";
 
 // ------------------------- MOCK DATA LAYERS ------------------------- //
 
-type GridCell = {
-  id: string;
-  row: number;
-  col: number;
-  wqi: number; // 0 - 100
-  pressure: number; // psi
-  flow: number; // L/min
-  leakRisk: number; // 0-1
-};
+// City shape, naming and zones come from src/config/<VITE_CITY>.json.
+const cityLayout = cityLayoutFromEnv();
 
-type AlertItem = {
-  id: string;
-  type: "Leak Suspected" | "Pressure Drop" | "Unauthorized Usage" | "Quality Alert";
-  severity: "low" | "medium" | "high";
-  cellId: string;
-  timestamp: string;
-  description: string;
-  assignedTo?: string;
-  status: "open" | "ack" | "dispatched" | "resolved";
-};
+// Synthetic starting readings for layout cells that carry no measured values. Raw
+// quality parameters are generated to match the target WQI and the index is then
+// computed from them. Flow doubles as the demo network's demand; pressure is
+// replaced by the hydraulic solution.
+const seedCells = (layout: LayoutCell[], cols: number): GridCell[] =>
+  layout.map((cell) => {
+    const { row, col } = cell;
+    const i = row * cols + col;
+    const baseWqi = cell.initial?.wqi ?? 80 + Math.sin(i) * 10 - (row === 3 && col > 2 ? 25 : 0);
+    const quality = synthesizeQuality((98 - baseWqi) / 58);
+    const wqi = Math.round(computeWqi(quality).wqi);
+    const pressure = cell.initial?.pressure ?? 45 + (Math.cos(i) * 8 - (row === 3 ? 12 : 0));
+    const flow = cell.initial?.flow ?? 120 + (Math.sin(i / 2) * 20);
+    return {
+      id: cell.id,
+      row,
+      col,
+      rowSpan: cell.rowSpan,
+      colSpan: cell.colSpan,
+      zone: cell.zone,
+      outline: cell.outline,
+      anchor: cell.anchor,
+      wqi,
+      pressure: Math.round(pressure * 10) / 10,
+      flow: Math.round(flow * 10) / 10,
+      leakRisk: cell.initial?.leakRisk ?? deriveLeakRisk(wqi, pressure),
+      quality,
+    } as GridCell;
+  });
+
+const layoutGrid = seedCells(cityLayout.cells, cityLayout.cols);
 
-const seedGrid: GridCell[] = Array.from({ length: 36 }).map((_, i) => {
-  const row = Math.floor(i / 6);
-  const col = i % 6;
-  const baseWqi = 80 + Math.sin(i) * 10 - (row === 3 && col > 2 ? 25 : 0);
-  const wqi = Math.max(40, Math.min(98, Math.round(baseWqi)));
-  const pressure = 45 + (Math.cos(i) * 8 - (row === 3 ? 12 : 0));
-  const flow = 120 + (Math.sin(i / 2) * 20);
-  const leakRisk = Math.max(0, Math.min(1, (75 - wqi) / 40 + (pressure < 36 ? 0.3 : 0)));
-  return {
-    id: `C${row + 1}-${col + 1}`,
-    row,
-    col,
-    wqi,
-    pressure: Math.round(pressure * 10) / 10,
-    flow: Math.round(flow * 10) / 10,
-    leakRisk: Math.round(leakRisk * 100) / 100,
-  } as GridCell;
-});
+// Pipe network laid over the city; replaced wholesale when a real model is imported.
+const demoNetwork = buildDemoNetwork(layoutGrid, cityLayout.tile);
+
+// Pressure and flow start from the network's steady state at midnight, a fixed state
+// scenarios can replay from; the live view moves to the time of day with the first solve.
+const seedGrid = applyHydraulics(layoutGrid, demoNetwork, solveHydraulics(demoNetwork, { time: 0 }));
 
 const demoUsage = Array.from({ length: 12 }).map((_, m) => ({
   month: ["Jan","Feb","Mar","Apr","May","Jun","Jul","Aug","Sep","Oct","Nov","Dec"][m],
@@ -85,7 +132,7 @@ const demoUsage = Array.from({ length: 12 }).map((_, m) => ({
   bill: 320 + m * 6 + (m % 2 ? 18 : 0),
 }));
 
-const initialAlerts: AlertItem[] = [
+const demoAlerts: AlertItem[] = [
   {
     id: "AL-2091",
     type: "Leak Suspected",
@@ -101,7 +148,7 @@ const initialAlerts: AlertItem[] = [
     severity: "medium",
     cellId: "C4-5",
     timestamp: new Date(Date.now() - 1000 * 60 * 42).toISOString(),
-    description: "WQI trending down (potential contamination pathway).",
+    description: "WQI trending down; trace it to find the likely entry point.",
     status: "ack",
     assignedTo: "Team-Blue",
   },
@@ -117,35 +164,133 @@ const initialAlerts: AlertItem[] = [
   },
 ];
 
+const demoReports = [
+  { id: "R-8841", type: "Leak", cellId: "C4-4", notes: "Water pooling near manhole", user: "@gaurav" },
+  { id: "R-8842", type: "Quality", cellId: "C2-2", notes: "Rusty taste since morning", user: "@neha" },
+];
+
+// Only keep demo alerts whose cell exists in the configured city.
+const initialAlerts = demoAlerts.filter((a) => seedGrid.some((c) => c.id === a.cellId));
+
+// Hourly history read for night flow and demand forecasts: five weeks, four for the
+// night-flow background level plus one to compare against, and five of each weekday.
+const HOURLY_HISTORY_MS = 35 * 86_400_000;
+
 // ------------------------- UTILS ------------------------- //
 
-const wqiBand = (wqi: number) => {
-  if (wqi >= 90) return { label: "Excellent", tone: "bg-emerald-400/30", text: "text-emerald-400" };
-  if (wqi >= 75) return { label: "Good", tone: "bg-teal-400/30", text: "text-teal-400" };
-  if (wqi >= 60) return { label: "Moderate", tone: "bg-amber-400/30", text: "text-amber-400" };
-  return { label: "Poor", tone: "bg-rose-500/30", text: "text-rose-400" };
+// Bands follow the thresholds of the WQI method that produced the value.
+const wqiBand = (wqi: number, method: WqiMethod = DEFAULT_WQI_METHOD) => {
+  const label = classifyWqi(wqi, method);
+  if (label === "Excellent") return { label, tone: "bg-emerald-400/30", text: "text-emerald-400" };
+  if (label === "Good") return { label, tone: "bg-teal-400/30", text: "text-teal-400" };
+  if (label === "Moderate") return { label, tone: "bg-amber-400/30", text: "text-amber-400" };
+  return { label, tone: "bg-rose-500/30", text: "text-rose-400" };
 };
 
+// Residual chlorine: under the minimum, under the ideal, and at or above it.
+const residualBand = (chlorine?: number) => {
+  if (chlorine === undefined) return { tone: "bg-slate-700/30", text: "text-slate-400" };
+  if (chlorine < MIN_RESIDUAL) return { tone: "bg-rose-500/30", text: "text-rose-400" };
+  if (chlorine < QUALITY_PARAMS.chlorine.ideal) return { tone: "bg-amber-400/30", text: "text-amber-400" };
+  return { tone: "bg-emerald-400/30", text: "text-emerald-400" };
+};
+
+// Water age: under a day, up to three days, and older.
+const ageBand = (hours?: number) => {
+  if (hours === undefined) return { tone: "bg-slate-700/30", text: "text-slate-400" };
+  if (hours < 24) return { tone: "bg-emerald-400/30", text: "text-emerald-400" };
+  if (hours < 72) return { tone: "bg-amber-400/30", text: "text-amber-400" };
+  return { tone: "bg-rose-500/30", text: "text-rose-400" };
+};
+
+// Seconds since midnight as HH:MM.
+const clockTime = (sec: number) =>
+  `${String(Math.floor(sec / 3600) % 24).padStart(2, "0")}:${String(Math.floor(sec / 60) % 60).padStart(2, "0")}`;
+
 const leakColor = (risk: number) =>
   risk > 0.66 ? "fill-rose-500" : risk > 0.33 ? "fill-amber-400" : "fill-emerald-400";
 
 // ------------------------- SVG GRID MAP ------------------------- //
 
+/** What colours the cells: the WQI, or modelled residual chlorine or water age. */
+type MapLayer = "wqi" | "chlorine" | "age";
+
+const MAP_LAYERS: Record<MapLayer, string> = { wqi: "WQI", chlorine: "Chlorine residual", age: "Water age" };
+
 type GridMapProps = {
   cells: GridCell[];
   onSelect: (cell: GridCell) => void;
   highlight?: string | null;
+  tile?: number;
+  /** Map-space size of district polygons; square grids size themselves from rows × cols. */
+  extent?: GeoExtent;
+  network?: Network;
+  selectedLinkId?: string | null;
+  onSelectLink?: (link: NetworkLink) => void;
+  wqiMethod?: WqiMethod;
+  /** Model behind the leak dots, named in their hover card. */
+  leakModel?: LeakModel;
+  /** Outlines candidate contamination sources (rose) and the cells downstream (cyan). */
+  trace?: ContaminationTrace | null;
+  /** Shut-off segment drawn on the pipe network. */
+  isolation?: IsolationPlan | null;
+  /** Acoustic dig locations marked on the pipe network. */
+  leaks?: LeakLocation[];
+  layer?: MapLayer;
+  /** Modelled residual and age per cell, for the chlorine and water-age layers. */
+  residuals?: Map<string, WaterQuality> | null;
 };
 
-const GridMap: React.FC<GridMapProps> = ({ cells, onSelect, highlight }) => {
-  const size = 6;
-  const tile = 52;
+const GridMap: React.FC<GridMapProps> = ({ cells, onSelect, highlight, tile = 52, extent, network, selectedLinkId, onSelectLink, wqiMethod, leakModel, trace, isolation, leaks, layer = "wqi", residuals }) => {
+  // Grid extent follows the cells themselves, so any configured city shape fits.
+  const rows = Math.max(1, ...cells.map((c) => c.row + (c.rowSpan ?? 1)));
+  const cols = Math.max(1, ...cells.map((c) => c.col + (c.colSpan ?? 1)));
+  const width = extent?.width ?? tile * cols;
+  const height = extent?.height ?? tile * rows;
   const padding = 16;
+  // Labels only stay legible while the map is a handful of tiles across.
+  const showLabels = cols <= 12;
+  // Leak dot under the pointer, positioned relative to the map container.
+  const box = useRef<HTMLDivElement>(null);
+  const [hover, setHover] = useState<{ id: string; x: number; y: number } | null>(null);
+  const hovered = hover && cells.find((c) => c.id === hover.id);
+  const dotEvents = (c: GridCell) => ({
+    onMouseMove: (e: React.MouseEvent) => {
+      const r = box.current?.getBoundingClientRect();
+      if (r) setHover({ id: c.id, x: e.clientX - r.left, y: e.clientY - r.top });
+    },
+    onMouseLeave: () => setHover(null),
+  });
+  // Outline drawn over a cell's tile or polygon, for trace highlights.
+  const ring = (c: GridCell, className: string, dashed = false) => {
+    const props = { className: `fill-none pointer-events-none ${className}`, strokeDasharray: dashed ? "4 3" : undefined };
+    if (hasOutline(c)) return <path key={c.id} d={c.outline} {...props} />;
+    return (
+      <rect
+        key={c.id}
+        x={c.col * tile}
+        y={c.row * tile}
+        width={tile * (c.colSpan ?? 1) - 6}
+        height={tile * (c.rowSpan ?? 1) - 6}
+        rx={Math.min(10, tile / 5)}
+        {...props}
+      />
+    );
+  };
+  const byId = new Map(cells.map((c) => [c.id, c]));
+  const bandOf = (c: GridCell) =>
+    layer === "chlorine" ? residualBand(residuals?.get(c.id)?.chlorine) : layer === "age" ? ageBand(residuals?.get(c.id)?.age) : wqiBand(c.wqi, wqiMethod);
+  const reading = (c: GridCell) => {
+    const q = residuals?.get(c.id);
+    if (layer === "chlorine") return q ? `Cl ${q.chlorine.toFixed(2)}` : "Cl –";
+    if (layer === "age") return q ? `${Math.round(q.age)} h old` : "Age –";
+    return `WQI ${c.wqi}`;
+  };
   return (
-    <div className="w-full">
+    <div className="w-full relative" ref={box}>
       <svg
         className="w-full"
-        viewBox={`0 0 ${padding * 2 + tile * size} ${padding * 2 + tile * size}`}
+        viewBox={`0 0 ${padding * 2 + width} ${padding * 2 + height}`}
       >
         <defs>
           <filter id="shadow" x="-20%" y="-20%" width="140%" height="140%">
@@ -154,16 +299,46 @@ const GridMap: React.FC<GridMapProps> = ({ cells, onSelect, highlight }) => {
         </defs>
         <g transform={`translate(${padding},${padding})`}>
           {cells.map((c) => {
+            const band = bandOf(c);
+            const isHL = highlight === c.id;
+            if (hasOutline(c)) {
+              const [ax, ay] = c.anchor;
+              return (
+                <g key={c.id}>
+                  <title>{c.zone ? `${c.id} · ${c.zone}` : c.id}</title>
+                  <path
+                    d={c.outline}
+                    className={`stroke-slate-700/60 ${band.tone} ${isHL ? "stroke-2" : "stroke"}`}
+                    filter="url(#shadow)"
+                    onClick={() => onSelect(c)}
+                    style={{ cursor: "pointer" }}
+                  />
+                  {/* Leak risk dot */}
+                  <circle cx={ax + 18} cy={ay - 14} r={6} className={leakColor(c.leakRisk)} {...dotEvents(c)} />
+                  {/* Label */}
+                  {showLabels && (
+                    <>
+                      <text x={ax} y={ay} textAnchor="middle" className={`text-[10px] ${band.text} select-none pointer-events-none`}>
+                        {c.id}
+                      </text>
+                      <text x={ax} y={ay + 14} textAnchor="middle" className="text-[9px] fill-slate-400 select-none pointer-events-none">
+                        {reading(c)}
+                      </text>
+                    </>
+                  )}
+                </g>
+              );
+            }
             const x = c.col * tile;
             const y = c.row * tile;
-            const band = wqiBand(c.wqi);
-            const isHL = highlight === c.id;
+            const w = tile * (c.colSpan ?? 1);
             return (
               <g key={c.id} transform={`translate(${x},${y})`}>
+                <title>{c.zone ? `${c.id} · ${c.zone}` : c.id}</title>
                 <rect
-                  width={tile - 6}
-                  height={tile - 6}
-                  rx={10}
+                  width={w - 6}
+                  height={tile * (c.rowSpan ?? 1) - 6}
+                  rx={Math.min(10, tile / 5)}
                   className={`stroke-slate-700/60 ${band.tone} ${isHL ? "stroke-2" : "stroke"}`}
                   filter="url(#shadow)"
                   onClick={() => onSelect(c)}
@@ -171,28 +346,69 @@ const GridMap: React.FC<GridMapProps> = ({ cells, onSelect, highlight }) => {
                 />
                 {/* Leak risk dot */}
                 <circle
-                  cx={tile - 16}
-                  cy={14}
-                  r={6}
+                  cx={w - Math.min(16, tile / 3)}
+                  cy={Math.min(14, tile / 3)}
+                  r={Math.min(6, tile / 8)}
                   className={leakColor(c.leakRisk)}
+                  {...dotEvents(c)}
                 />
                 {/* Label */}
-                <text x={10} y={20} className={`text-[10px] ${band.text} select-none`}>
-                  {c.id}
-                </text>
-                <text x={10} y={34} className="text-[9px] fill-slate-400 select-none">
-                  WQI {c.wqi}
-                </text>
+                {showLabels && (
+                  <>
+                    <text x={10} y={20} className={`text-[10px] ${band.text} select-none`}>
+                      {c.id}
+                    </text>
+                    <text x={10} y={34} className="text-[9px] fill-slate-400 select-none">
+                      {reading(c)}
+                    </text>
+                  </>
+                )}
               </g>
             );
           })}
+          {trace && (
+            <g>
+              {trace.affected.map((a) => byId.get(a.cellId)).filter((c): c is GridCell => !!c).map((c) => ring(c, "stroke-cyan-300 stroke-2", true))}
+              {trace.candidates.slice(0, 3).map((s, i) => byId.get(s.cellId) && ring(byId.get(s.cellId)!, `stroke-rose-400 ${i === 0 ? "stroke-[3]" : "stroke-1"}`))}
+            </g>
+          )}
+          {isolation && (
+            <g>{isolation.cells.map((id) => byId.get(id)).filter((c): c is GridCell => !!c).map((c) => ring(c, "stroke-amber-400 stroke-2", isolation.cutOff.includes(c.id)))}</g>
+          )}
+          {network && (
+            <NetworkOverlay network={network} selectedLinkId={selectedLinkId} onSelectLink={(l) => onSelectLink?.(l)} isolation={isolation} leaks={leaks} />
+          )}
         </g>
       </svg>
+      {hovered && (
+        <div
+          className="absolute z-20 pointer-events-none w-60 rounded-lg border border-slate-700 bg-slate-900/95 px-3 py-2 text-xs shadow-lg"
+          style={{ left: Math.min(hover.x + 12, (box.current?.clientWidth ?? 0) - 240), top: hover.y + 12 }}
+        >
+          <div className="text-slate-100 font-semibold">{hovered.id} · Leak risk {Math.round(hovered.leakRisk * 100)}%</div>
+          {leakModel && <div className="text-[11px] text-slate-500">{leakModel.label}</div>}
+          {(hovered.leakFactors ?? []).slice(0, 4).map((f) => (
+            <div key={f.label} className="flex justify-between gap-2 mt-1">
+              <span className="text-slate-300">{f.label}</span>
+              <span className={f.contribution > 0 ? "text-rose-300" : "text-emerald-300"}>
+                {f.contribution > 0 ? "+" : "−"}{leakModel?.unit === "log-odds" ? Math.abs(f.contribution).toFixed(2) : `${Math.round(Math.abs(f.contribution) * 100)}%`}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
       <div className="flex items-center gap-3 mt-2 text-xs text-slate-400">
         <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-full bg-emerald-400 inline-block"/> Low risk</span>
         <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-full bg-amber-400 inline-block"/> Medium</span>
         <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-full bg-rose-500 inline-block"/> High</span>
-        <span className="ml-auto">Tap a tile to inspect</span>
+        {isolation && <span className="flex items-center gap-1"><span className="w-3 h-3 rounded border-2 border-amber-400 inline-block"/> Without water</span>}
+        {trace && (
+          <>
+            <span className="flex items-center gap-1"><span className="w-3 h-3 rounded border-2 border-rose-400 inline-block"/> Likely source</span>
+            <span className="flex items-center gap-1"><span className="w-3 h-3 rounded border-2 border-dashed border-cyan-300 inline-block"/> Downstream</span>
+          </>
+        )}
+        <span className="ml-auto">Tap a {extent ? "district" : "tile"} to inspect</span>
       </div>
     </div>
   );
@@ -202,16 +418,21 @@ const GridMap: React.FC<GridMapProps> = ({ cells, onSelect, highlight }) => {
 
 type CitizenProps = {
   grid: GridCell[];
+  extent?: GeoExtent;
+  wqiMethod: WqiMethod;
+  standard: Standard;
+  leakModel: LeakModel;
   onReport: (payload: { cellId?: string; type: string; notes: string; photo?: string }) => void;
 };
 
-const CitizenPortal: React.FC<CitizenProps> = ({ grid, onReport }) => {
+const CitizenPortal: React.FC<CitizenProps> = ({ grid, extent, wqiMethod, standard, leakModel, onReport }) => {
   const [highlight, setHighlight] = useState<string | null>(null);
   const [ecoPoints, setEcoPoints] = useState<number>(420);
   const [billDue] = useState({ amount: 486, due: "Sep 18, 2025" });
   const avgUsage = useMemo(() => demoUsage.reduce((a, b) => a + b.usageKL, 0) / demoUsage.length, []);
 
   const selected = grid.find((g) => g.id === highlight) ?? grid[0];
+  const advice = selected ? drinkingAdvice(selected.quality, standard) : null;
 
   return (
     <div className="space-y-6">
@@ -295,23 +516,44 @@ const CitizenPortal: React.FC<CitizenProps> = ({ grid, onReport }) => {
               cells={grid}
               onSelect={(c) => setHighlight(c.id)}
               highlight={highlight}
+              tile={cityLayout.tile}
+              extent={extent}
+              wqiMethod={wqiMethod}
+              leakModel={leakModel}
             />
             {selected && (
               <div className="rounded-xl border border-slate-800 p-3 bg-slate-900/60">
                 <div className="flex items-center justify-between">
-                  <div className="text-sm text-slate-300">Section <span className="font-semibold text-slate-100">{selected.id}</span></div>
-                  <Badge className={`${wqiBand(selected.wqi).tone} ${wqiBand(selected.wqi).text} border-slate-700`}>{wqiBand(selected.wqi).label}</Badge>
+                  <div className="text-sm text-slate-300">Section <span className="font-semibold text-slate-100">{selected.id}</span>{selected.zone && <span className="text-slate-400"> · {selected.zone}</span>}</div>
+                  <Badge className={`${wqiBand(selected.wqi, wqiMethod).tone} ${wqiBand(selected.wqi, wqiMethod).text} border-slate-700`}>{wqiBand(selected.wqi, wqiMethod).label}</Badge>
                 </div>
                 <div className="grid grid-cols-3 gap-2 mt-2 text-sm">
                   <div className="rounded-lg bg-slate-950/40 p-2"><div className="text-[11px] text-slate-400">WQI</div><div className="text-slate-100 font-semibold">{selected.wqi}</div></div>
                   <div className="rounded-lg bg-slate-950/40 p-2"><div className="text-[11px] text-slate-400">Pressure</div><div className="text-slate-100 font-semibold">{selected.pressure} psi</div></div>
                   <div className="rounded-lg bg-slate-950/40 p-2"><div className="text-[11px] text-slate-400">Flow</div><div className="text-slate-100 font-semibold">{selected.flow} L/min</div></div>
                 </div>
+                {advice && (
+                  <div
+                    className={`rounded-lg mt-2 p-2 text-sm ${
+                      advice.level === "do-not-drink"
+                        ? "bg-rose-500/15 text-rose-300"
+                        : advice.level === "boil"
+                          ? "bg-amber-400/15 text-amber-300"
+                          : "bg-emerald-500/15 text-emerald-300"
+                    }`}
+                  >
+                    <div className="font-semibold flex items-center gap-1">
+                      {advice.level === "safe" || advice.level === "advisory" ? <CheckCircle2 className="w-4 h-4"/> : <AlertCircle className="w-4 h-4"/>}
+                      {advice.headline}
+                    </div>
+                    <div className="text-[11px] text-slate-300 mt-0.5">{advice.detail}</div>
+                  </div>
+                )}
               </div>
             )}
           </CardContent>
           <CardFooter className="justify-end">
-            <ReportDialog onSubmit={onReport} defaultCell={highlight ?? undefined} />
+            <ReportDialog onSubmit={onReport} defaultCell={highlight ?? undefined} cells={grid} />
           </CardFooter>
         </Card>
       </div>
@@ -323,13 +565,16 @@ const CitizenPortal: React.FC<CitizenProps> = ({ grid, onReport }) => {
 
 type ReportProps = {
   defaultCell?: string;
+  cells: GridCell[];
   onSubmit: (payload: { cellId?: string; type: string; notes: string; photo?: string }) => void;
 };
 
-const ReportDialog: React.FC<ReportProps> = ({ defaultCell, onSubmit }) => {
+const ReportDialog: React.FC<ReportProps> = ({ defaultCell, cells, onSubmit }) => {
   const [cellId, setCellId] = useState<string | undefined>(defaultCell);
   const [type, setType] = useState("Leak");
   const [notes, setNotes] = useState("");
+  const cell = cellId ? cells.find((c) => c.id.toLowerCase() === cellId.trim().toLowerCase()) : undefined;
+  const unknownCell = !!cellId?.trim() && !cell;
 
   return (
     <Dialog>
@@ -347,7 +592,12 @@ const ReportDialog: React.FC<ReportProps> = ({ defaultCell, onSubmit }) => {
           <div className="grid grid-cols-2 gap-3">
             <div>
               <div className="text-xs text-slate-400 mb-1">Nearest Grid Cell</div>
-              <Input placeholder="e.g. C4-4" value={cellId ?? ""} onChange={(e) => setCellId(e.target.value)} />
+              <Input placeholder={`e.g. ${cells[0]?.id ?? "C4-4"}`} list="report-cells" value={cellId ?? ""} onChange={(e) => setCellId(e.target.value)} />
+              <datalist id="report-cells">
+                {cells.map((c) => (<option key={c.id} value={c.id}>{c.zone}</option>))}
+              </datalist>
+              {unknownCell && <div className="text-[11px] text-rose-400 mt-1">No cell with that id in this city</div>}
+              {cell?.zone && <div className="text-[11px] text-slate-400 mt-1">Zone: {cell.zone}</div>}
             </div>
             <div>
               <div className="text-xs text-slate-400 mb-1">Type</div>
@@ -370,28 +620,363 @@ const ReportDialog: React.FC<ReportProps> = ({ defaultCell, onSubmit }) => {
         </div>
         <div className="flex justify-end gap-2">
           <Button variant="secondary" className="bg-slate-800" onClick={() => { setCellId(undefined); setType("Leak"); setNotes(""); }}>Reset</Button>
-          <Button onClick={() => onSubmit({ cellId, type, notes })}>Submit Report</Button>
+          <Button disabled={unknownCell} onClick={() => onSubmit({ cellId: cell?.id, type, notes })}>Submit Report</Button>
         </div>
       </DialogContent>
     </Dialog>
   );
 };
 
+// ------------------------- WHAT-IF SANDBOX ------------------------- //
+
+type SandboxProps = {
+  /** Live sections, leak risk already scored. */
+  grid: GridCell[];
+  extent?: GeoExtent;
+  network: Network;
+  hydraulics: HydraulicResult | null;
+  demandMultiplier: number;
+  wqiMethod: WqiMethod;
+  leakModel: LeakModel;
+  leakContext: LeakContext;
+  onClose: () => void;
+};
+
+type ChangeKind = "valve" | "pump" | "demand" | "setpoint";
+
+const CHANGE_KINDS: Record<ChangeKind, string> = {
+  valve: "Close a valve or pipe",
+  pump: "Take a pump offline",
+  demand: "Add a housing colony",
+  setpoint: "Raise the pressure setpoint",
+};
+
+// Sections listed in the comparison before the rest are summarised.
+const SANDBOX_ROWS = 12;
+
+// Live → predicted, the change tinted by whether it helps; `better` says which way is good.
+const Shift: React.FC<{ from: number; to: number; better: "up" | "down"; format?: (v: number) => string }> = ({ from, to, better, format = (v) => String(round1(v)) }) => {
+  const d = to - from;
+  const good = better === "up" ? d > 0 : d < 0;
+  return (
+    <span>
+      {format(from)} → {format(to)}
+      {Math.abs(d) > 1e-9 && <span className={`ml-1 ${good ? "text-emerald-300" : "text-rose-300"}`}>({d > 0 ? "+" : "−"}{format(Math.abs(d))})</span>}
+    </span>
+  );
+};
+
+/**
+ * What-if sandbox: hypothetical changes on a copy of the network, predicted side by side
+ * with the live grid. Its state stays here, so nothing in it raises alerts or dispatches.
+ */
+const SandboxConsole: React.FC<SandboxProps> = ({ grid, extent, network, hydraulics, demandMultiplier, wqiMethod, leakModel, leakContext, onClose }) => {
+  const [changes, setChanges] = useState<SandboxChange[]>([]);
+  const [kind, setKind] = useState<ChangeKind>("valve");
+  const [linkId, setLinkId] = useState("");
+  const [pumpId, setPumpId] = useState("");
+  const [cellId, setCellId] = useState(grid[0]?.id ?? "");
+  const [homes, setHomes] = useState("500");
+  const [colony, setColony] = useState("");
+  const [sourceId, setSourceId] = useState("all");
+  const [delta, setDelta] = useState("5");
+
+  const pumps = network.links.filter((l) => l.kind === "pump");
+  const sources = network.nodes.filter((n) => n.kind === "reservoir");
+  // Solved in a worker; predictions pair each solution with the live solve it was compared to.
+  const { solved, solving, error } = useSandbox(network, hydraulics, changes, demandMultiplier);
+  const solution = solved?.solution ?? null;
+  const predicted = useMemo(
+    () => (solved ? scoreLeakRisk(predictSandbox(grid, solved.network, solved.live, solved.solution, wqiMethod), leakModel, leakContext) : null),
+    [solved, grid, wqiMethod, leakModel, leakContext],
+  );
+  const impacts = useMemo(() => (solution && predicted ? sandboxImpacts(grid, predicted, solution.cutOff) : []), [solution, predicted, grid]);
+
+  const link = network.links.find((l) => l.id === linkId.trim() && l.kind !== "pump");
+  const cell = grid.find((c) => c.id === cellId.trim());
+  const draft = ((): SandboxChange | null => {
+    if (kind === "valve") return link ? { kind: "link", linkId: link.id, status: "closed" } : null;
+    if (kind === "pump") return pumps.some((p) => p.id === pumpId) ? { kind: "link", linkId: pumpId, status: "closed" } : null;
+    if (kind === "demand") {
+      const n = Number(homes);
+      return cell && n > 0 ? { kind: "demand", cellId: cell.id, flow: n * HOUSEHOLD_LS, label: colony.trim() || `${n} homes` } : null;
+    }
+    const d = Number(delta);
+    return Number.isFinite(d) && d !== 0 ? { kind: "setpoint", nodeId: sourceId === "all" ? undefined : sourceId, delta: d } : null;
+  })();
+
+  // Clicking a pipe on the sandbox map closes it there, or undoes that change.
+  const toggleLink = (l: NetworkLink) => {
+    const i = changes.findIndex((c) => c.kind === "link" && c.linkId === l.id);
+    if (i >= 0) setChanges((cs) => cs.filter((_, k) => k !== i));
+    else setChanges((cs) => [...cs, { kind: "link", linkId: l.id, status: l.status === "open" ? "closed" : "open" }]);
+  };
+
+  const mean = (cells: GridCell[], f: (c: GridCell) => number) => cells.reduce((s, c) => s + f(c), 0) / Math.max(1, cells.length);
+  const highRisk = (cells: GridCell[]) => cells.filter((c) => c.leakRisk > 0.66).length;
+  const pct = (v: number) => `${Math.round(v * 100)}%`;
+
+  return (
+    <Card className="bg-slate-900/50 border-slate-800">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-slate-100">
+          <FlaskConical className="w-5 h-5"/> What-if Sandbox
+          <Button size="sm" variant="ghost" className="ml-auto h-7 text-slate-400" onClick={onClose}>Leave sandbox</Button>
+        </CardTitle>
+        <CardDescription>Try changes on a copy of the network; live alerts and dispatch are not affected</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3 text-xs">
+        <div className="flex items-end gap-2 flex-wrap">
+          <Select value={kind} onValueChange={(v) => setKind(v as ChangeKind)}>
+            <SelectTrigger className="w-[210px] h-7 text-xs"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {(Object.keys(CHANGE_KINDS) as ChangeKind[]).map((k) => (<SelectItem key={k} value={k}>{CHANGE_KINDS[k]}</SelectItem>))}
+            </SelectContent>
+          </Select>
+          {kind === "valve" && (
+            <>
+              <Input className="h-7 w-44 text-xs" placeholder="Valve or pipe id" list="sandbox-links" value={linkId} onChange={(e) => setLinkId(e.target.value)} />
+              <datalist id="sandbox-links">
+                {network.links.filter((l) => l.kind === "valve").map((l) => (<option key={l.id} value={l.id} />))}
+              </datalist>
+              <span className="text-slate-500">or click a pipe on the sandbox map</span>
+            </>
+          )}
+          {kind === "pump" && (
+            <Select value={pumpId} onValueChange={setPumpId}>
+              <SelectTrigger className="w-[160px] h-7 text-xs"><SelectValue placeholder={pumps.length ? "Pump" : "No pumps"} /></SelectTrigger>
+              <SelectContent>
+                {pumps.map((p) => (<SelectItem key={p.id} value={p.id}>{p.id}</SelectItem>))}
+              </SelectContent>
+            </Select>
+          )}
+          {kind === "demand" && (
+            <>
+              <Input className="h-7 w-24 text-xs" placeholder="Section" list="sandbox-cells" value={cellId} onChange={(e) => setCellId(e.target.value)} />
+              <datalist id="sandbox-cells">
+                {grid.map((c) => (<option key={c.id} value={c.id}>{c.zone}</option>))}
+              </datalist>
+              <Input type="number" min={1} className="h-7 w-20 text-xs" value={homes} onChange={(e) => setHomes(e.target.value)} />
+              <span className="text-slate-400">homes</span>
+              <Input className="h-7 w-36 text-xs" placeholder="Colony name" value={colony} onChange={(e) => setColony(e.target.value)} />
+              {Number(homes) > 0 && <span className="text-slate-500">≈ {round1(Number(homes) * HOUSEHOLD_LS)} L/s</span>}
+            </>
+          )}
+          {kind === "setpoint" && (
+            <>
+              <Select value={sourceId} onValueChange={setSourceId}>
+                <SelectTrigger className="w-[160px] h-7 text-xs"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Every source</SelectItem>
+                  {sources.map((s) => (<SelectItem key={s.id} value={s.id}>{s.id}</SelectItem>))}
+                </SelectContent>
+              </Select>
+              <Input type="number" step="1" className="h-7 w-20 text-xs" value={delta} onChange={(e) => setDelta(e.target.value)} />
+              <span className="text-slate-400">m of head</span>
+            </>
+          )}
+          <Button size="sm" className="h-7" disabled={!draft} onClick={() => draft && setChanges((cs) => [...cs, draft])}>Apply</Button>
+        </div>
+
+        {changes.length > 0 && (
+          <div className="flex flex-wrap items-center gap-1">
+            {changes.map((c, i) => (
+              <Badge key={i} className="bg-cyan-500/15 text-cyan-200 gap-1">
+                {describeChange(network, c)}
+                <button className="text-cyan-300 hover:text-white" title="Undo" onClick={() => setChanges((cs) => cs.filter((_, k) => k !== i))}><X className="w-3 h-3"/></button>
+              </Badge>
+            ))}
+            <Button size="sm" variant="ghost" className="h-6 text-slate-400" onClick={() => setChanges([])}>Reset</Button>
+          </div>
+        )}
+
+        {error && <div className="text-rose-300">Sandbox solve failed: {error}</div>}
+        {!solution || !predicted ? (
+          <div className="text-slate-500">Waiting for the hydraulic solution…</div>
+        ) : (
+          <>
+            <div className="grid md:grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <div className="text-slate-400">Live</div>
+                <GridMap cells={grid} onSelect={(c) => setCellId(c.id)} highlight={cell?.id ?? null} tile={cityLayout.tile} extent={extent} network={network} wqiMethod={wqiMethod} leakModel={leakModel} />
+              </div>
+              <div className="space-y-1">
+                <div className="text-slate-400">
+                  Sandbox{solving && <span className="text-slate-500"> • solving…</span>}
+                  {!solution.result.converged && <span className="text-amber-300"> • solver did not converge</span>}
+                </div>
+                <GridMap
+                  cells={predicted}
+                  onSelect={(c) => setCellId(c.id)}
+                  highlight={cell?.id ?? null}
+                  tile={cityLayout.tile}
+                  extent={extent}
+                  network={solution.network}
+                  onSelectLink={toggleLink}
+                  wqiMethod={wqiMethod}
+                  leakModel={leakModel}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+              <div className="rounded-lg bg-slate-950/40 p-2">
+                <div className="text-[11px] text-slate-400">Sections affected</div>
+                <div className="text-slate-100 font-semibold">{impacts.length}</div>
+                <div className={`text-[11px] ${solution.cutOff.length ? "text-rose-300" : "text-slate-500"}`}>{solution.cutOff.length} cut off from supply</div>
+              </div>
+              <div className="rounded-lg bg-slate-950/40 p-2">
+                <div className="text-[11px] text-slate-400">Lowest pressure, psi</div>
+                <div className="text-slate-100"><Shift from={Math.min(...grid.map((c) => c.pressure))} to={Math.min(...predicted.map((c) => c.pressure))} better="up" /></div>
+              </div>
+              <div className="rounded-lg bg-slate-950/40 p-2">
+                <div className="text-[11px] text-slate-400">Mean WQI</div>
+                <div className="text-slate-100"><Shift from={mean(grid, (c) => c.wqi)} to={mean(predicted, (c) => c.wqi)} better="up" /></div>
+              </div>
+              <div className="rounded-lg bg-slate-950/40 p-2">
+                <div className="text-[11px] text-slate-400">High leak risk sections</div>
+                <div className="text-slate-100"><Shift from={highRisk(grid)} to={highRisk(predicted)} better="down" /></div>
+              </div>
+            </div>
+
+            {changes.length === 0 ? (
+              <div className="text-slate-500">Apply a change to see its predicted effect on each section.</div>
+            ) : impacts.length === 0 ? (
+              <div className="text-emerald-300">No section moves noticeably with these changes.</div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-left">
+                  <thead className="text-[11px] text-slate-400">
+                    <tr><th className="py-1">Section</th><th>Pressure, psi</th><th>WQI</th><th>Leak risk</th></tr>
+                  </thead>
+                  <tbody className="text-slate-200">
+                    {impacts.slice(0, SANDBOX_ROWS).map((im) => (
+                      <tr key={im.cellId} className="border-t border-slate-800 cursor-pointer hover:bg-slate-800/40" onClick={() => setCellId(im.cellId)}>
+                        <td className="py-1">{im.cellId}{im.cutOff && <Badge className="ml-2 bg-rose-500/20 text-rose-300">Cut off</Badge>}</td>
+                        <td><Shift from={im.live.pressure} to={im.predicted.pressure} better="up" /></td>
+                        <td><Shift from={im.live.wqi} to={im.predicted.wqi} better="up" /></td>
+                        <td><Shift from={im.live.leakRisk} to={im.predicted.leakRisk} better="down" format={pct} /></td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {impacts.length > SANDBOX_ROWS && <div className="text-slate-500 mt-1">and {impacts.length - SANDBOX_ROWS} more sections</div>}
+              </div>
+            )}
+            <div className="text-slate-500">
+              Predictions shift live readings by the difference between the model with and without the changes, at the current demand and tank levels.
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
 // ------------------------- DEPARTMENT CONSOLE ------------------------- //
 
 type DeptProps = {
   grid: GridCell[];
-  initialAlerts: AlertItem[];
+  extent?: GeoExtent;
+  alerts: AlertItem[];
+  onAlertsChange: React.Dispatch<React.SetStateAction<AlertItem[]>>;
+  scenarioId: string;
+  /** Scenarios that can play on the current cells. */
+  scenarios: Scenario[];
+  onScenarioChange: (id: string) => void;
+  network: Network;
+  onNetworkChange: (network: Network) => void;
+  /** Replaces the network and cell layout with an EPANET model. */
+  onImportModel: (inp: string, fileName: string) => void;
+  hydraulics: { result: HydraulicResult | null; solving: boolean; error: string | null };
+  demandMultiplier: number;
+  onDemandMultiplierChange: (multiplier: number) => void;
+  wqiMethod: WqiMethod;
+  onWqiMethodChange: (method: WqiMethod) => void;
+  standard: Standard;
+  onStandardChange: (id: string) => void;
+  leakModel: LeakModel;
+  onLeakModelChange: (key: string) => void;
+  leakContext: LeakContext;
+  detectors: DetectorSpec[];
+  onDetectorToggle: (id: string, enabled: boolean) => void;
+  /** Mains, connections and pressure per district, for the water balance's ILI. */
+  infrastructure: Map<string, DistrictInfrastructure>;
+  /** This city's billing exports, limited to the districts on the map. */
+  billingMonths: BillingMonth[];
+  nightFlow: { cells: NightFlowSeries[]; districts: NightFlowSeries[]; error: string | null };
+  forecast: { cells: Map<string, DemandForecast>; city: DemandForecast | null; error: string | null };
+  tanks: TankStatus[];
+  /** Registered loggers with their live health, behind the System Health figures. */
+  sensors: SensorHealth[];
+  weather?: Weather;
+  onWeatherChange: (weather: Weather | undefined) => void;
 };
 
-const DepartmentConsole: React.FC<DeptProps> = ({ grid, initialAlerts }) => {
-  const [alerts, setAlerts] = useState<AlertItem[]>(initialAlerts);
-  const [selected, setSelected] = useState<GridCell | null>(grid.find((g) => g.id === "C4-4") ?? grid[0]);
+const DepartmentConsole: React.FC<DeptProps> = ({ grid, extent, alerts, onAlertsChange: setAlerts, scenarioId, scenarios, onScenarioChange, network, onNetworkChange, onImportModel, hydraulics, demandMultiplier, onDemandMultiplierChange, wqiMethod, onWqiMethodChange, standard, onStandardChange, leakModel, onLeakModelChange, leakContext, detectors, onDetectorToggle, infrastructure, billingMonths, nightFlow, forecast, weather, onWeatherChange, tanks, sensors }) => {
+  const [selectedId, setSelectedId] = useState<string>("C4-4");
+  const [playback, setPlayback] = useState<{ cells: GridCell[]; at: number } | null>(null);
+  const [showPipes, setShowPipes] = useState(false);
+  const [sandbox, setSandbox] = useState(false);
+  const [layer, setLayer] = useState<MapLayer>("wqi");
+  const [decay, setDecay] = useState<DecayOptions>(DEFAULT_DECAY);
+  // Water quality is only transported while a layer shows it.
+  const residuals = useMemo(
+    () => (layer !== "wqi" && hydraulics.result ? cellQuality(network, simulateQuality(network, hydraulics.result, decay)) : null),
+    [layer, network, hydraulics.result, decay],
+  );
+  const [selectedLinkId, setSelectedLinkId] = useState<string | null>(null);
+  const selectedLink = network.links.find((l) => l.id === selectedLinkId) ?? null;
+  const shown = useMemo(() => (playback ? scoreLeakRisk(playback.cells, leakModel, leakContext) : grid), [playback, grid, leakModel, leakContext]);
+  // Track the id rather than the cell so the panel follows live telemetry updates.
+  const selected = shown.find((g) => g.id === selectedId) ?? shown[0] ?? null;
   const [autoDispatch, setAutoDispatch] = useState(true);
+  const [sensorFilter, setSensorFilter] = useState<SensorFilter | null>(null);
+  const sensorSummary = useMemo(() => summarizeSensors(sensors), [sensors]);
+  const [compareKey, setCompareKey] = useState<string>("none");
+  const comparison = useMemo(() => {
+    if (compareKey === "none") return null;
+    const other = findLeakModel(compareKey);
+    return { other, ...compareLeakModels(grid, leakModel, other, leakContext) };
+  }, [compareKey, grid, leakModel, leakContext]);
+
+  // Repair being planned, and the alert it was opened from.
+  const [isolating, setIsolating] = useState<{ target: IsolationTarget; alertId?: string } | null>(null);
+  const isolation = useMemo(() => (isolating ? planIsolation(network, isolating.target) : null), [isolating, network]);
+  const planRepair = (target: IsolationTarget, alertId?: string) => {
+    setIsolating({ target, alertId });
+    setShowPipes(true);
+  };
+  const attachIsolation = (id: string, plan: IsolationPlan) => {
+    setAlerts((prev) => prev.map((a) => (a.id === id ? { ...a, isolation: plan } : a)));
+  };
+
+  // Pipe whose hydrophone recordings are being correlated, and the fixes already on open alerts.
+  const [correlatingId, setCorrelatingId] = useState<string | null>(null);
+  const correlating = network.links.find((l): l is Pipe => l.id === correlatingId && l.kind === "pipe");
+  const leaks = alerts.filter((a) => a.location && a.status !== "resolved").map((a) => a.location!);
+
+  // Quality alert whose likely entry point and downstream reach are drawn on the map.
+  const [traceAlertId, setTraceAlertId] = useState<string | null>(null);
+  const traceAlert = alerts.find((a) => a.id === traceAlertId && a.status !== "resolved");
+  const trace = useMemo(
+    () =>
+      traceAlert && hydraulics.result
+        ? traceContamination(network, hydraulics.result, traceAlert.cellId, qualityObservations(grid, alerts, leakContext.baseline))
+        : null,
+    [traceAlert, hydraulics.result, network, grid, alerts, leakContext],
+  );
 
-  const wqiTrend = useMemo(() =>
-    Array.from({ length: 14 }).map((_, i) => ({ t: `T-${14 - i}`, wqi: Math.max(42, Math.min(98, (selected?.wqi ?? 80) + Math.sin(i / 1.7) * 4 - (selected?.id === "C4-4" ? 10 : 0))) })),
-  [selected]);
+  const zoneOf = (cellId: string) => grid.find((g) => g.id === cellId)?.zone;
+  const [range, setRange] = useState<HistoryRange>("hour");
+  // The cell chart shows WQI history, or flow against the demand forecast.
+  const [cellChart, setCellChart] = useState<"wqi" | "demand">("wqi");
+  const cellForecast = selected ? forecast.cells.get(selected.id) : undefined;
+  const history = useCellHistory(selected?.id, range);
+  const formatTick = (t: number) =>
+    range === "hour" || range === "day"
+      ? new Date(t).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })
+      : new Date(t).toLocaleDateString([], { month: "short", day: "numeric" });
 
   const acknowledge = (id: string) => {
     setAlerts((prev) => prev.map((a) => (a.id === id ? { ...a, status: "ack" } : a)));
@@ -403,100 +988,355 @@ const DepartmentConsole: React.FC<DeptProps> = ({ grid, initialAlerts }) => {
     setAlerts((prev) => prev.map((a) => (a.id === id ? { ...a, status: "resolved" } : a)));
   };
 
+  const inpInput = useRef<HTMLInputElement>(null);
+  const importInp = async (file: File | undefined) => {
+    if (!file) return;
+    onImportModel(await file.text(), file.name);
+    setSelectedLinkId(null);
+    setShowPipes(true);
+  };
+  const exportModel = () => {
+    const url = URL.createObjectURL(new Blob([exportInp(network)], { type: "text/plain" }));
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `${(network.title ?? "hydrogrid").replace(/[^\w-]+/g, "_")}.inp`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
   return (
     <div className="space-y-6">
       <div className="grid lg:grid-cols-3 gap-4">
         <Card className="bg-slate-900/50 border-slate-800 lg:col-span-2">
           <CardHeader>
-            <CardTitle className="flex items-center gap-2 text-slate-100"><Factory className="w-5 h-5"/> City Grid – Live View</CardTitle>
-            <CardDescription>WQI overlay, pressure & flow by section</CardDescription>
+            <CardTitle className="flex items-center gap-2 text-slate-100"><Factory className="w-5 h-5"/> City Grid – {playback ? "Playback" : "Live View"}</CardTitle>
+            <CardDescription>
+              {playback ? `Grid state at ${new Date(playback.at).toLocaleString()}` : `${MAP_LAYERS[layer]} overlay, pressure & flow by section`}
+            </CardDescription>
           </CardHeader>
           <CardContent className="space-y-3">
             <GridMap
-              cells={grid}
-              onSelect={(c) => setSelected(c)}
+              cells={shown}
+              onSelect={(c) => setSelectedId(c.id)}
               highlight={selected?.id ?? null}
+              tile={cityLayout.tile}
+              extent={extent}
+              network={showPipes ? network : undefined}
+              selectedLinkId={selectedLinkId}
+              onSelectLink={(l) => setSelectedLinkId(l.id)}
+              wqiMethod={wqiMethod}
+              leakModel={leakModel}
+              trace={trace}
+              isolation={isolation}
+              leaks={leaks}
+              layer={layer}
+              residuals={residuals}
+            />
+            <div className="flex items-center gap-2 text-xs text-slate-400 flex-wrap">
+              <span>Layer</span>
+              <Select value={layer} onValueChange={(v) => setLayer(v as MapLayer)}>
+                <SelectTrigger className="w-[150px] h-7 text-xs"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(MAP_LAYERS) as MapLayer[]).map((l) => (<SelectItem key={l} value={l}>{MAP_LAYERS[l]}</SelectItem>))}
+                </SelectContent>
+              </Select>
+              <span>Leak model</span>
+              <Select value={leakModelKey(leakModel)} onValueChange={onLeakModelChange}>
+                <SelectTrigger className="w-[200px] h-7 text-xs" title={leakModel.description}><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {leakModels.map((m) => (<SelectItem key={leakModelKey(m)} value={leakModelKey(m)}>{m.label}</SelectItem>))}
+                </SelectContent>
+              </Select>
+              <span>vs</span>
+              <Select value={compareKey} onValueChange={setCompareKey}>
+                <SelectTrigger className="w-[200px] h-7 text-xs"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No comparison</SelectItem>
+                  {leakModels.filter((m) => m !== leakModel).map((m) => (<SelectItem key={leakModelKey(m)} value={leakModelKey(m)}>{m.label}</SelectItem>))}
+                </SelectContent>
+              </Select>
+              {comparison && (
+                <span title={comparison.other.description}>
+                  Mean |Δ| {Math.round(comparison.meanAbsDelta * 100)} pts • top {comparison.top} overlap {comparison.topOverlap}/{comparison.top}
+                </span>
+              )}
+            </div>
+            {layer !== "wqi" && (
+              <ResidualPanel residuals={residuals} decay={decay} onDecayChange={setDecay} onSelectCell={setSelectedId} />
+            )}
+            {showPipes && (
+              <div className="flex items-center gap-2 text-xs text-slate-400">
+                <Gauge className="w-4 h-4"/>
+                {hydraulics.error
+                  ? <span className="text-rose-300">Hydraulics failed: {hydraulics.error}</span>
+                  : hydraulics.solving || !hydraulics.result
+                    ? <span>Solving network…</span>
+                    : <span>
+                        Steady state at {clockTime(hydraulics.result.time)}
+                        {" "}• {hydraulics.result.converged ? `${hydraulics.result.iterations} iterations` : "did not converge"}
+                        {hydraulics.result.disconnected.length > 0 && <span className="text-rose-300"> • {hydraulics.result.disconnected.length} junctions cut off</span>}
+                      </span>}
+                <Select value={String(demandMultiplier)} onValueChange={(v) => onDemandMultiplierChange(Number(v))}>
+                  <SelectTrigger className="w-[130px] h-7 text-xs ml-auto"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {[0.5, 1, 1.25, 1.5, 2].map((m) => (<SelectItem key={m} value={String(m)}>Demand ×{m}</SelectItem>))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            {showPipes && selectedLink && (
+              <LinkDetails
+                network={network}
+                link={selectedLink}
+                flow={hydraulics.result?.flows[selectedLink.id]}
+                alerts={alerts}
+                onToggleStatus={(l) => onNetworkChange(setLinkStatus(network, l.id, l.status === "open" ? "closed" : "open"))}
+                onPlanIsolation={(l) => planRepair({ kind: "link", id: l.id })}
+                onCorrelate={(p) => setCorrelatingId(p.id)}
+                onClose={() => setSelectedLinkId(null)}
+              />
+            )}
+            {showPipes && correlating && (
+              <AcousticCorrelator
+                key={correlating.id}
+                pipe={correlating}
+                onLocate={(pipe, result) => setAlerts((prev) => locateLeakAlert(prev, network, pipe, result))}
+                onClose={() => setCorrelatingId(null)}
+              />
+            )}
+            {isolation && (
+              <IsolationPlanner
+                key={`${isolation.target.kind}:${isolation.target.id}`}
+                plan={isolation}
+                alerts={alerts}
+                alertId={isolating?.alertId}
+                onAttach={attachIsolation}
+                onClose={() => setIsolating(null)}
+              />
+            )}
+            {trace && (
+              <div className="rounded-xl border border-slate-800 bg-slate-950/60 p-3 text-xs space-y-2">
+                <div className="flex items-center gap-2">
+                  <span className="text-slate-100 font-semibold">Contamination trace from {trace.cellId}</span>
+                  <Button size="sm" variant="ghost" className="ml-auto h-6 text-slate-400" onClick={() => setTraceAlertId(null)}>Clear</Button>
+                </div>
+                <div className="text-slate-300">{describeTrace(trace)}</div>
+                <div className="grid sm:grid-cols-2 gap-3">
+                  <div>
+                    <div className="text-slate-400 mb-1">Candidate sources</div>
+                    {trace.candidates.slice(0, 3).map((c) => (
+                      <div key={c.cellId} className="flex justify-between gap-2" title={[c.unexplained.length ? `Cannot reach ${c.unexplained.join(", ")}` : "", c.contradicted.length ? `Reaches clean ${c.contradicted.join(", ")} first` : ""].filter(Boolean).join(" • ")}>
+                        <span className="text-rose-300">{c.cellId}</span>
+                        <span className="text-slate-400">{Math.round(c.consistency * 100)}% • explains {c.explained.length} • {formatTravel(c.travelSec)} up</span>
+                      </div>
+                    ))}
+                    {trace.candidates.length === 0 && <div className="text-slate-500">No upstream cells at current flows.</div>}
+                  </div>
+                  <div>
+                    <div className="text-slate-400 mb-1">Downstream, by arrival</div>
+                    {trace.affected.slice(0, 5).map((a) => (
+                      <div key={a.cellId} className="flex justify-between gap-2">
+                        <span className="text-cyan-300">{a.cellId}</span>
+                        <span className="text-slate-400">{formatTravel(a.etaSec)}</span>
+                      </div>
+                    ))}
+                    {trace.affected.length > 5 && <div className="text-slate-500">+{trace.affected.length - 5} more</div>}
+                    {trace.affected.length === 0 && <div className="text-slate-500">Nothing downstream at current flows.</div>}
+                  </div>
+                </div>
+              </div>
+            )}
+            <PlaybackTimeline
+              cells={grid}
+              alerts={alerts}
+              onFrame={(cells, at) => setPlayback(cells && at !== null ? { cells, at } : null)}
             />
             {selected && (
               <div className="rounded-xl border border-slate-800 p-3 bg-slate-900/60">
                 <div className="flex items-center gap-2 mb-2">
-                  <Badge className={`${wqiBand(selected.wqi).tone} ${wqiBand(selected.wqi).text} border-slate-700`}>WQI {selected.wqi} – {wqiBand(selected.wqi).label}</Badge>
+                  <Badge className={`${wqiBand(selected.wqi, wqiMethod).tone} ${wqiBand(selected.wqi, wqiMethod).text} border-slate-700`}>WQI {selected.wqi} – {wqiBand(selected.wqi, wqiMethod).label}</Badge>
                   <Badge variant="secondary" className="bg-slate-800 text-slate-200">Pressure {selected.pressure} psi</Badge>
                   <Badge variant="secondary" className="bg-slate-800 text-slate-200">Flow {selected.flow} L/min</Badge>
+                  <Badge
+                    variant="secondary"
+                    className="bg-slate-800 text-slate-200"
+                    title={(selected.leakFactors ?? []).map((f) => f.label).join("\n")}
+                  >
+                    Leak risk {Math.round(selected.leakRisk * 100)}%
+                  </Badge>
+                  {selected.zone && <Badge variant="secondary" className="bg-slate-800 text-slate-200">{selected.zone}</Badge>}
+                  <Select value={cellChart} onValueChange={(v) => setCellChart(v as "wqi" | "demand")}>
+                    <SelectTrigger className="w-[130px] h-7 text-xs ml-auto"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="wqi">WQI</SelectItem>
+                      <SelectItem value="demand">Demand forecast</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  {cellChart === "wqi" && (
+                    <Select value={range} onValueChange={(v) => setRange(v as HistoryRange)}>
+                      <SelectTrigger className="w-[130px] h-7 text-xs"><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(RANGES) as HistoryRange[]).map((r) => (<SelectItem key={r} value={r}>{RANGES[r].label}</SelectItem>))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                  <Button size="sm" variant="outline" className="h-7 text-xs bg-slate-800 text-slate-100 border-slate-700" onClick={() => planRepair({ kind: "cell", id: selected.id })}>Plan isolation</Button>
                 </div>
+                {cellChart === "demand" ? (
+                  cellForecast ? (
+                    <ForecastChart forecast={cellForecast} />
+                  ) : (
+                    <div className="h-40 flex items-center justify-center text-xs text-slate-500">
+                      {forecast.error ? `History unavailable: ${forecast.error}` : "Forecasts start once two days of hourly flow have been recorded."}
+                    </div>
+                  )
+                ) : (
                 <div className="h-40">
-                  <ResponsiveContainer width="100%" height="100%">
-                    <LineChart data={wqiTrend}>
-                      <CartesianGrid strokeDasharray="3 3" />
-                      <XAxis dataKey="t" />
-                      <YAxis />
-                      <RTooltip />
-                      <Line type="monotone" dataKey="wqi" dot={false} />
-                    </LineChart>
-                  </ResponsiveContainer>
+                  {history.points.length === 0 ? (
+                    <div className="h-full flex items-center justify-center text-xs text-slate-500">
+                      {history.error ? `History unavailable: ${history.error}` : "Collecting readings for this range…"}
+                    </div>
+                  ) : (
+                    <ResponsiveContainer width="100%" height="100%">
+                      <LineChart data={history.points}>
+                        <CartesianGrid strokeDasharray="3 3" />
+                        <XAxis dataKey="t" type="number" scale="time" domain={["dataMin", "dataMax"]} tickFormatter={formatTick} />
+                        <YAxis domain={[0, 100]} />
+                        <RTooltip labelFormatter={(t) => new Date(Number(t)).toLocaleString()} formatter={(v) => Number(v).toFixed(1)} />
+                        <Line type="monotone" dataKey="wqi" dot={false} isAnimationActive={false} />
+                      </LineChart>
+                    </ResponsiveContainer>
+                  )}
                 </div>
+                )}
+                {hasQuality(selected.quality) && (
+                  <div className="mt-3 border-t border-slate-800 pt-3 space-y-2">
+                    <div className="flex items-center gap-2">
+                      <span className="text-xs text-slate-400">Water quality breakdown</span>
+                      <Select value={wqiMethod} onValueChange={(v) => onWqiMethodChange(v as WqiMethod)}>
+                        <SelectTrigger className="w-[180px] h-7 text-xs ml-auto"><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(WQI_METHODS) as WqiMethod[]).map((m) => (<SelectItem key={m} value={m}>{WQI_METHODS[m].label}</SelectItem>))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <WqiBreakdown quality={selected.quality} method={wqiMethod} />
+                  </div>
+                )}
               </div>
             )}
           </CardContent>
-          <CardFooter className="justify-end gap-3">
+          <CardFooter className="justify-end gap-3 flex-wrap">
+            <Select value={scenarioId} onValueChange={onScenarioChange}>
+              <SelectTrigger className="w-[220px] text-xs mr-auto"><SelectValue placeholder="Data source" /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="live">Live feed</SelectItem>
+                {scenarios.map((sc) => (<SelectItem key={sc.id} value={sc.id}>Scenario: {sc.name}</SelectItem>))}
+              </SelectContent>
+            </Select>
+            <div className="flex items-center gap-2 text-slate-300">
+              <Switch checked={showPipes} onCheckedChange={setShowPipes} />
+              <span className="text-sm">Pipe network</span>
+            </div>
+            <input ref={inpInput} type="file" accept=".inp" className="hidden" onChange={(e) => { importInp(e.target.files?.[0]); e.target.value = ""; }} />
+            <Button size="sm" variant="outline" className="bg-slate-800 text-slate-100 border-slate-700" onClick={() => inpInput.current?.click()}>Import .inp</Button>
+            <Button size="sm" variant="outline" className="bg-slate-800 text-slate-100 border-slate-700" onClick={exportModel}>Export .inp</Button>
             <div className="flex items-center gap-2 text-slate-300">
               <Switch checked={autoDispatch} onCheckedChange={setAutoDispatch} />
               <span className="text-sm">Auto-dispatch critical leaks</span>
             </div>
+            <Button size="sm" variant="outline" className="bg-slate-800 text-slate-100 border-slate-700" onClick={() => setSandbox((v) => !v)}>
+              <FlaskConical className="w-4 h-4 mr-1"/> {sandbox ? "Leave sandbox" : "What-if sandbox"}
+            </Button>
             <Button variant="outline" className="bg-slate-800 text-slate-100 border-slate-700"><ShieldCheck className="w-4 h-4 mr-1"/> Safe Mode</Button>
           </CardFooter>
         </Card>
 
-        <Card className="bg-slate-900/50 border-slate-800">
-          <CardHeader>
-            <CardTitle className="flex items-center gap-2 text-slate-100"><Bell className="w-5 h-5"/> Alerts & Dispatch</CardTitle>
-            <CardDescription>AI-ranked anomalies with one-click workflow</CardDescription>
-          </CardHeader>
-          <CardContent className="space-y-3">
-            <div className="space-y-2">
-              {alerts.map((a) => (
-                <motion.div
-                  key={a.id}
-                  initial={{ opacity: 0, y: 8 }}
-                  animate={{ opacity: 1, y: 0 }}
-                  className="rounded-xl border border-slate-800 p-3 bg-slate-950/60"
-                >
-                  <div className="flex items-start justify-between">
-                    <div>
-                      <div className="flex items-center gap-2">
-                        <Badge className={`${a.severity === "high" ? "bg-rose-500/20 text-rose-300" : a.severity === "medium" ? "bg-amber-400/20 text-amber-300" : "bg-emerald-500/20 text-emerald-300"}`}>{a.type}</Badge>
-                        <span className="text-xs text-slate-400">{new Date(a.timestamp).toLocaleTimeString()}</span>
+        <div className="space-y-4">
+          <Card className="bg-slate-900/50 border-slate-800">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-slate-100"><Bell className="w-5 h-5"/> Alerts & Dispatch</CardTitle>
+              <CardDescription>AI-ranked anomalies with one-click workflow</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="space-y-2 max-h-[480px] overflow-y-auto pr-1">
+                {alerts.map((a) => (
+                  <motion.div
+                    key={a.id}
+                    initial={{ opacity: 0, y: 8 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    className="rounded-xl border border-slate-800 p-3 bg-slate-950/60"
+                  >
+                    <div className="flex items-start justify-between">
+                      <div>
+                        <div className="flex items-center gap-2">
+                          <Badge className={`${a.severity === "high" ? "bg-rose-500/20 text-rose-300" : a.severity === "medium" ? "bg-amber-400/20 text-amber-300" : "bg-emerald-500/20 text-emerald-300"}`}>{a.type}</Badge>
+                          <span className="text-xs text-slate-400">{new Date(a.timestamp).toLocaleTimeString()}</span>
+                        </div>
+                        <div className="text-sm mt-1 text-slate-200">{a.description} <span className="text-slate-400">(cell {a.cellId}{zoneOf(a.cellId) ? ` · ${zoneOf(a.cellId)}` : ""})</span></div>
+                        {a.isolation && <div className="text-[11px] text-amber-300 mt-1">{describeIsolation(a.isolation)}</div>}
+                        <div className="text-[11px] text-slate-500 mt-1">Status: {a.status}{a.assignedTo ? ` → ${a.assignedTo}` : ""}</div>
+                      </div>
+                      <div className="flex gap-1">
+                        {a.type === "Leak Suspected" && a.status !== "resolved" && (
+                          <Button size="sm" variant="outline" className="bg-slate-800 text-slate-100 border-slate-700" onClick={() => planRepair(a.location ? { kind: "link", id: a.location.linkId } : { kind: "cell", id: a.cellId }, a.id)}>
+                            Isolate
+                          </Button>
+                        )}
+                        {a.type === "Quality Alert" && a.status !== "resolved" && (
+                          <Button size="sm" variant="outline" className="bg-slate-800 text-slate-100 border-slate-700" onClick={() => setTraceAlertId(traceAlertId === a.id ? null : a.id)}>
+                            {traceAlertId === a.id ? "Untrace" : "Trace"}
+                          </Button>
+                        )}
+                        {a.status === "open" && (
+                          <Button size="sm" variant="secondary" className="bg-slate-800" onClick={() => acknowledge(a.id)}>Acknowledge</Button>
+                        )}
+                        {a.status !== "resolved" && (
+                          <Select onValueChange={(team) => dispatch(a.id, team)}>
+                            <SelectTrigger className="w-[120px] text-xs">{a.status === "dispatched" ? a.assignedTo : "Dispatch"}</SelectTrigger>
+                            <SelectContent>
+                              {['Team-Blue','Team-Green','Night-Shift'].map((t) => (<SelectItem key={t} value={t}>{t}</SelectItem>))}
+                            </SelectContent>
+                          </Select>
+                        )}
+                        {a.status !== "resolved" && (
+                          <Button size="sm" onClick={() => resolve(a.id)} className="bg-emerald-600 hover:bg-emerald-500">Resolve</Button>
+                        )}
                       </div>
-                      <div className="text-sm mt-1 text-slate-200">{a.description} <span className="text-slate-400">(cell {a.cellId})</span></div>
-                      <div className="text-[11px] text-slate-500 mt-1">Status: {a.status}{a.assignedTo ? ` → ${a.assignedTo}` : ""}</div>
-                    </div>
-                    <div className="flex gap-1">
-                      {a.status === "open" && (
-                        <Button size="sm" variant="secondary" className="bg-slate-800" onClick={() => acknowledge(a.id)}>Acknowledge</Button>
-                      )}
-                      {a.status !== "resolved" && (
-                        <Select onValueChange={(team) => dispatch(a.id, team)}>
-                          <SelectTrigger className="w-[120px] text-xs">{a.status === "dispatched" ? a.assignedTo : "Dispatch"}</SelectTrigger>
-                          <SelectContent>
-                            {['Team-Blue','Team-Green','Night-Shift'].map((t) => (<SelectItem key={t} value={t}>{t}</SelectItem>))}
-                          </SelectContent>
-                        </Select>
-                      )}
-                      {a.status !== "resolved" && (
-                        <Button size="sm" onClick={() => resolve(a.id)} className="bg-emerald-600 hover:bg-emerald-500">Resolve</Button>
-                      )}
                     </div>
-                  </div>
-                </motion.div>
-              ))}
-            </div>
-          </CardContent>
-          <CardFooter>
-            <div className="text-xs text-slate-400">Critical alerts will auto-dispatch when enabled.</div>
-          </CardFooter>
-        </Card>
+                  </motion.div>
+                ))}
+              </div>
+            </CardContent>
+            <CardFooter>
+              <div className="text-xs text-slate-400">Critical alerts will auto-dispatch when enabled.</div>
+            </CardFooter>
+          </Card>
+          <DetectorPanel detectors={detectors} alerts={alerts} onToggle={onDetectorToggle} />
+          <CompliancePanel grid={grid} standard={standard} onStandardChange={onStandardChange} />
+        </div>
       </div>
 
+      {sandbox && (
+        <SandboxConsole
+          grid={grid}
+          extent={extent}
+          network={network}
+          hydraulics={hydraulics.result}
+          demandMultiplier={demandMultiplier}
+          wqiMethod={wqiMethod}
+          leakModel={leakModel}
+          leakContext={leakContext}
+          onClose={() => setSandbox(false)}
+        />
+      )}
+      <WaterBalancePanel months={billingMonths} infrastructure={infrastructure} />
+      <NightFlowPanel cells={nightFlow.cells} districts={nightFlow.districts} selectedId={selected?.id} error={nightFlow.error} />
+      <DemandForecastPanel city={forecast.city} weather={weather} onWeatherChange={onWeatherChange} error={forecast.error} />
+      <TankPanel tanks={tanks} onSelectCell={setSelectedId} />
+      <PumpSchedulePanel network={network} hydraulics={hydraulics.result} city={forecast.city} demandMultiplier={demandMultiplier} />
+      <RenewalPlanner network={network} grid={grid} alerts={alerts} onSelectCell={setSelectedId} />
+
       <div className="grid md:grid-cols-3 gap-4">
         <Card className="bg-slate-900/50 border-slate-800">
           <CardHeader>
@@ -504,7 +1344,7 @@ const DepartmentConsole: React.FC<DeptProps> = ({ grid, initialAlerts }) => {
             <CardDescription>Verify and convert reports to work orders</CardDescription>
           </CardHeader>
           <CardContent className="space-y-2">
-            {[{ id: "R-8841", type: "Leak", cellId: "C4-4", notes: "Water pooling near manhole", user: "@gaurav" }, { id: "R-8842", type: "Quality", cellId: "C2-2", notes: "Rusty taste since morning", user: "@neha" }].map((r) => (
+            {demoReports.filter((r) => grid.some((g) => g.id === r.cellId)).map((r) => (
               <div key={r.id} className="rounded-xl border border-slate-800 p-3 bg-slate-950/50">
                 <div className="flex items-center justify-between">
                   <div className="text-sm text-slate-100 font-medium">{r.type} • {r.id}</div>
@@ -544,9 +1384,18 @@ const DepartmentConsole: React.FC<DeptProps> = ({ grid, initialAlerts }) => {
           <CardContent className="space-y-3">
             <div className="grid grid-cols-3 gap-2 text-sm">
               <Metric label="Uptime" value="99.96%" icon={<CheckCircle2 className="w-4 h-4"/>} />
-              <Metric label="Sensors" value="214" icon={<Droplets className="w-4 h-4"/>} />
+              <Metric label="Sensors" value={sensorSummary.total.toLocaleString()} icon={<Droplets className="w-4 h-4"/>} onClick={() => setSensorFilter("all")} />
               <Metric label="Data Valid" value="98.1%" icon={<Gauge className="w-4 h-4"/>} />
+              <Metric label="Offline" value={sensorSummary.offline.toLocaleString()} warn={sensorSummary.offline > 0} onClick={() => setSensorFilter("offline")} />
+              <Metric label="Low battery" value={sensorSummary.lowBattery.toLocaleString()} warn={sensorSummary.lowBattery > 0} onClick={() => setSensorFilter("lowBattery")} />
+              <Metric
+                label="Calibration overdue"
+                value={`${sensorSummary.overdue}${sensorSummary.dueSoon ? ` +${sensorSummary.dueSoon} due` : ""}`}
+                warn={sensorSummary.overdue > 0}
+                onClick={() => setSensorFilter("calibration")}
+              />
             </div>
+            <SensorDrilldown sensors={sensors} filter={sensorFilter} onFilterChange={setSensorFilter} onSelectCell={setSelectedId} />
             <div className="h-24">
               <ResponsiveContainer width="100%" height="100%">
                 <LineChart data={Array.from({length:20}).map((_,i)=>({i, err: Math.max(0, Math.sin(i/2)*2 + (i%5===0?1.5:0))}))}>
@@ -565,19 +1414,164 @@ const DepartmentConsole: React.FC<DeptProps> = ({ grid, initialAlerts }) => {
   );
 };
 
-const Metric: React.FC<{ label: string; value: string; icon?: React.ReactNode }> = ({ label, value, icon }) => (
-  <div className="rounded-xl border border-slate-800 p-3 bg-slate-950/50">
-    <div className="text-[11px] text-slate-400 flex items-center gap-1">{icon}{label}</div>
-    <div className="text-slate-100 font-semibold">{value}</div>
-  </div>
-);
+// `onClick` makes the tile a drill-down; `warn` shows the value in rose.
+const Metric: React.FC<{ label: string; value: string; icon?: React.ReactNode; warn?: boolean; onClick?: () => void }> = ({ label, value, icon, warn, onClick }) => {
+  const body = (
+    <>
+      <div className="text-[11px] text-slate-400 flex items-center gap-1">{icon}{label}</div>
+      <div className={`font-semibold ${warn ? "text-rose-300" : "text-slate-100"}`}>{value}</div>
+    </>
+  );
+  return onClick ? (
+    <button className="rounded-xl border border-slate-800 p-3 bg-slate-950/50 text-left hover:border-slate-600" onClick={onClick}>{body}</button>
+  ) : (
+    <div className="rounded-xl border border-slate-800 p-3 bg-slate-950/50">{body}</div>
+  );
+};
 
 // ------------------------- ROOT APP (DUAL EXPERIENCE) ------------------------- //
 
 export default function HydroGrid() {
   const [mode, setMode] = useState<"citizen" | "dept">("citizen");
+  // The cells the city starts from: the configured layout, or the grid derived from an imported model.
+  const [base, setBase] = useState<{ cells: GridCell[]; extent?: GeoExtent }>({ cells: seedGrid, extent: cityLayout.extent });
   const [grid, setGrid] = useState<GridCell[]>(seedGrid);
   const [toast, setToast] = useState<string | null>(null);
+  const [network, setNetwork] = useState<Network>(demoNetwork);
+  const [demandMultiplier, setDemandMultiplier] = useState(1);
+  const hydraulics = useHydraulics(network, demandMultiplier);
+  // Pressure and flow the network delivers right now; the mock feed varies around it.
+  const steady = useMemo(
+    () => (hydraulics.result ? applyHydraulics(base.cells, network, hydraulics.result) : base.cells),
+    [base, network, hydraulics.result],
+  );
+  const steadyRef = useRef(steady);
+  steadyRef.current = steady;
+  const [scenarioId, setScenarioId] = useState("live");
+  // Bundled scenarios name the demo grid's cells; other layouts only get those they fit.
+  const cityScenarios = useMemo(() => scenariosFor(base.cells), [base]);
+  // Mock simulator by default; VITE_TELEMETRY_SOURCE / VITE_TELEMETRY_URL switch to a gateway or replay.
+  // Built from the seed cells, which only change when a model is imported, so a new solution never
+  // reconnects the feed; the mock walks around the latest one and the grid picks each one up below.
+  const source = useMemo(() => {
+    const scenario = cityScenarios.find((sc) => sc.id === scenarioId);
+    return scenario ? createSimulatorSource({ cells: base.cells, scenario }) : telemetrySourceFromEnv(base.cells, () => steadyRef.current);
+  }, [scenarioId, base, cityScenarios]);
+  const recordHistory = useHistoryRecorder();
+  const [wqiMethod, setWqiMethod] = useState<WqiMethod>(DEFAULT_WQI_METHOD);
+  // Alerts live here rather than in the console so compliance checks and detectors run on every tab.
+  const [alerts, setAlerts] = useState<AlertItem[]>(initialAlerts);
+  const [detectors, setDetectors] = useState(() => resolveDetectors(cityLayout.detectors));
+  // Baselines restart with a scenario, not with every hydraulic solution the live feed follows.
+  const detect = useAnomalyDetection(detectors, scenarioId, (found) =>
+    setAlerts((prev) => {
+      const raised = anomalyAlerts(found, prev);
+      return raised.length ? [...raised, ...prev] : prev;
+    }),
+  );
+  const live = useTelemetry(source, setGrid, (batch) => {
+    // Scenarios run on their own clock, whether picked here or set by env; keep them out of the
+    // history night flow and forecasts read.
+    if (recordsHistory(source)) recordHistory(batch);
+    detect(batch);
+  }, wqiMethod);
+  const [standardId, setStandardId] = useState(DEFAULT_STANDARD_ID);
+  const standard = standards.find((s) => s.id === standardId) ?? standards[0];
+  // Leak risk is scored for display against the network's steady state; the raw grid keeps what the feed reported.
+  const [leakModelId, setLeakModelId] = useState(DEFAULT_LEAK_MODEL);
+  const leakModel = findLeakModel(leakModelId);
+  const leakContext = useMemo<LeakContext>(() => ({ baseline: new Map(steady.map((c) => [c.id, c])), network }), [steady, network]);
+  const scored = useMemo(() => scoreLeakRisk(grid, leakModel, leakContext), [grid, leakModel, leakContext]);
+  // ILI uses the steady-state pressure so it moves with the network, not with each telemetry tick.
+  const infrastructure = useMemo(() => districtInfrastructure(network, steady), [network, steady]);
+  const billingMonths = useMemo(
+    () => cityBillingMonths(cityLayout.billing, [...new Set(base.cells.map((c) => c.zone).filter((z): z is string => !!z))]),
+    [base],
+  );
+  const cityBalance = useMemo(() => balanceTrend(billingMonths, ALL_DISTRICTS, infrastructure), [billingMonths, infrastructure]);
+  // Night flow and forecasts read the hourly rollups, so they cover whatever history this browser has kept.
+  const [hourlyFrom] = useState(() => Date.now() - HOURLY_HISTORY_MS);
+  const hourly = useAggregates("1h", hourlyFrom, Infinity, 5 * 60_000);
+  const nightFlow = useMemo(() => {
+    const cells = nightFlowAnalysis(hourly.buckets, base.cells, network);
+    return { cells, districts: districtNightFlow(cells, base.cells), error: hourly.error };
+  }, [hourly, base.cells, network]);
+  const [weather, setWeather] = useState<Weather | undefined>();
+  const forecast = useMemo(() => {
+    const cells = forecastCells(hourly.buckets, base.cells, { holidays: cityLayout.holidays, weather });
+    return { cells, city: cityForecast(cells), error: hourly.error };
+  }, [hourly, base.cells, weather]);
+
+  useEffect(() => {
+    setAlerts((prev) => {
+      const raised = complianceAlerts(grid, standard, prev);
+      return raised.length ? [...raised, ...prev] : prev;
+    });
+  }, [grid, standard]);
+
+  useEffect(() => {
+    setAlerts((prev) => {
+      const raised = nightFlowAlerts(nightFlow.cells, prev);
+      return raised.length ? [...raised, ...prev] : prev;
+    });
+  }, [nightFlow]);
+
+  useEffect(() => {
+    setAlerts((prev) => {
+      const raised = forecastAlerts(forecast.cells, prev);
+      return raised.length ? [...raised, ...prev] : prev;
+    });
+  }, [forecast]);
+  // Sensor registry for the city, with liveness from the feed's own clock.
+  const sensorRegistry = useMemo(() => demoSensorRegistry(base.cells), [base]);
+  const sensors = useMemo(
+    () => sensorHealth(sensorRegistry, live.heartbeats, live.devices, live.lastUpdate),
+    [sensorRegistry, live.heartbeats, live.devices, live.lastUpdate],
+  );
+  // Tank levels come from their level sensors where fitted, the hydraulic model otherwise.
+  const tanks = useMemo(() => tankStatus(network, hydraulics.result, live.tanks), [network, hydraulics.result, live.tanks]);
+  useEffect(() => {
+    setAlerts((prev) => {
+      const raised = tankAlerts(tanks, network, hydraulics.result, prev);
+      return raised.length ? [...raised, ...prev] : prev;
+    });
+  }, [tanks]);
+
+  // Show a new solution straight away rather than on the next telemetry tick. A scenario replay
+  // owns its pressures and flows, so a solve landing mid-run must not overwrite them.
+  useEffect(() => {
+    if (hydraulics.result && source.kind !== "simulator") setGrid((g) => applyHydraulics(g, network, hydraulics.result!));
+  }, [hydraulics.result]);
+
+  // Scenarios always start from the seed state so every run shows the same sequence; live picks up the current solution.
+  const changeScenario = (id: string) => {
+    setGrid((id === "live" ? steady : base.cells).map((c) => withWqi(c, wqiMethod)));
+    setScenarioId(id);
+  };
+
+  const changeWqiMethod = (method: WqiMethod) => {
+    setWqiMethod(method);
+    setGrid((g) => g.map((c) => withWqi(c, method)));
+  };
+
+  const importModel = (inp: string, fileName: string) => {
+    try {
+      const model = parseInp(inp, { tile: cityLayout.tile });
+      const cells = seedCells(model.cells, Math.max(1, ...model.cells.map((c) => c.col + 1)));
+      setBase({ cells });
+      setGrid(cells);
+      setScenarioId("live");
+      setNetwork(model.network);
+      const { nodes, links } = model.network;
+      setToast(
+        `Imported ${fileName}: ${nodes.length} nodes, ${links.length} links in ${cells.length} cells.` +
+          (model.warnings.length ? ` ${model.warnings.length} warning(s): ${model.warnings.slice(0, 2).join("; ")}` : ""),
+      );
+    } catch (e) {
+      setToast(`Could not import ${fileName}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+    setTimeout(() => setToast(null), 5000);
+  };
 
   const handleReport = (payload: { cellId?: string; type: string; notes: string }) => {
     setToast(`Report received: ${payload.type}${payload.cellId ? ` @ ${payload.cellId}` : ""}. +25 eco points after verification.`);
@@ -602,6 +1596,13 @@ export default function HydroGrid() {
           </div>
           <div className="flex items-center gap-2">
             <Badge className="bg-cyan-500/20 text-cyan-300 border-cyan-500/30 hidden md:inline-flex">Hackathon Prototype</Badge>
+            <Badge
+              variant="secondary"
+              className={`hidden md:inline-flex border-slate-700 ${live.status === "live" ? "bg-emerald-500/20 text-emerald-300" : "bg-amber-400/20 text-amber-300"}`}
+              title={[source.label, live.detail, live.lastUpdate && `Last reading ${new Date(live.lastUpdate).toLocaleTimeString()}`].filter(Boolean).join(" • ")}
+            >
+              <Activity className="w-3 h-3 mr-1"/> {live.status === "live" ? "Live" : live.status}
+            </Badge>
             <div className="hidden md:flex items-center rounded-full border border-slate-800 bg-slate-900/50 p-1">
               <Button variant={mode === "citizen" ? "default" : "ghost"} className={`rounded-full ${mode === "citizen" ? "bg-cyan-600" : ""}`} onClick={() => setMode("citizen")}>
                 <Smartphone className="w-4 h-4 mr-1"/> Citizen
@@ -629,14 +1630,19 @@ export default function HydroGrid() {
                     <Button onClick={() => setMode("dept")} className="flex-1 bg-indigo-600"><Factory className="w-4 h-4 mr-1"/> Department</Button>
                   </div>
                   <div className="grid grid-cols-3 gap-3 mt-5">
-                    <MiniStat icon={<Droplets className="w-4 h-4"/>} label="Leaks Cut" value="30–40%" hint="pilot estimate"/>
+                    <MiniStat
+                      icon={<Droplets className="w-4 h-4"/>}
+                      label="Non-Revenue"
+                      value={cityBalance.length ? `${cityBalance[cityBalance.length - 1].nrwPct.toFixed(1)}%` : "—"}
+                      hint={cityBalance.length > 1 ? `${(cityBalance[cityBalance.length - 1].nrwPct - cityBalance[0].nrwPct).toFixed(1)} pts since ${cityBalance[0].month}` : "water balance"}
+                    />
                     <MiniStat icon={<ShieldCheck className="w-4 h-4"/>} label="WQI Guard" value=">=75" hint="city target"/>
                     <MiniStat icon={<Trophy className="w-4 h-4"/>} label="Eco Points" value="500k" hint="citizens engaged"/>
                   </div>
                 </div>
                 <div className="bg-gradient-to-br from-slate-900 to-slate-950 p-6 border-l border-slate-800">
                   <div className="text-sm font-medium text-slate-100 mb-2">Live Grid Snapshot</div>
-                  <GridMap cells={grid} onSelect={()=>{}} />
+                  <GridMap cells={scored} onSelect={()=>{}} tile={cityLayout.tile} extent={base.extent} wqiMethod={wqiMethod} leakModel={leakModel} />
                 </div>
               </div>
             </CardContent>
@@ -650,10 +1656,10 @@ export default function HydroGrid() {
             <CardContent className="space-y-3">
               <div className="grid grid-cols-2 gap-2 text-sm">
                 {[
-                  { k: "Excellent", n: grid.filter(g=>wqiBand(g.wqi).label==="Excellent").length },
-                  { k: "Good", n: grid.filter(g=>wqiBand(g.wqi).label==="Good").length },
-                  { k: "Moderate", n: grid.filter(g=>wqiBand(g.wqi).label==="Moderate").length },
-                  { k: "Poor", n: grid.filter(g=>wqiBand(g.wqi).label==="Poor").length },
+                  { k: "Excellent", n: grid.filter(g=>wqiBand(g.wqi, wqiMethod).label==="Excellent").length },
+                  { k: "Good", n: grid.filter(g=>wqiBand(g.wqi, wqiMethod).label==="Good").length },
+                  { k: "Moderate", n: grid.filter(g=>wqiBand(g.wqi, wqiMethod).label==="Moderate").length },
+                  { k: "Poor", n: grid.filter(g=>wqiBand(g.wqi, wqiMethod).label==="Poor").length },
                 ].map((b)=> (
                   <div key={b.k} className="flex items-center justify-between rounded-xl border border-slate-800 p-3 bg-slate-950/50">
                     <span className="text-slate-200">{b.k}</span>
@@ -663,7 +1669,7 @@ export default function HydroGrid() {
               </div>
               <div className="h-32">
                 <ResponsiveContainer width="100%" height="100%">
-                  <BarChart data={["Excellent","Good","Moderate","Poor"].map((k)=>({ band:k, count: grid.filter(g=>wqiBand(g.wqi).label===k).length }))}>
+                  <BarChart data={["Excellent","Good","Moderate","Poor"].map((k)=>({ band:k, count: grid.filter(g=>wqiBand(g.wqi, wqiMethod).label===k).length }))}>
                     <CartesianGrid strokeDasharray="3 3" />
                     <XAxis dataKey="band" />
                     <YAxis allowDecimals={false} />
@@ -686,11 +1692,42 @@ export default function HydroGrid() {
           </TabsList>
 
           <TabsContent value="citizen" className="mt-4">
-            <CitizenPortal grid={grid} onReport={handleReport} />
+            <CitizenPortal grid={scored} extent={base.extent} wqiMethod={wqiMethod} standard={standard} leakModel={leakModel} onReport={handleReport} />
           </TabsContent>
 
           <TabsContent value="dept" className="mt-4">
-            <DepartmentConsole grid={grid} initialAlerts={initialAlerts} />
+            <DepartmentConsole
+              grid={scored}
+              extent={base.extent}
+              alerts={alerts}
+              onAlertsChange={setAlerts}
+              scenarioId={scenarioId}
+              scenarios={cityScenarios}
+              onScenarioChange={changeScenario}
+              network={network}
+              onNetworkChange={setNetwork}
+              onImportModel={importModel}
+              hydraulics={hydraulics}
+              demandMultiplier={demandMultiplier}
+              onDemandMultiplierChange={setDemandMultiplier}
+              wqiMethod={wqiMethod}
+              onWqiMethodChange={changeWqiMethod}
+              standard={standard}
+              onStandardChange={setStandardId}
+              leakModel={leakModel}
+              onLeakModelChange={setLeakModelId}
+              leakContext={leakContext}
+              detectors={detectors}
+              onDetectorToggle={(id, enabled) => setDetectors((ds) => ds.map((d) => (d.id === id ? { ...d, enabled } : d)))}
+              infrastructure={infrastructure}
+              billingMonths={billingMonths}
+              nightFlow={nightFlow}
+              forecast={forecast}
+              tanks={tanks}
+              sensors={sensors}
+              weather={weather}
+              onWeatherChange={setWeather}
+            />
           </TabsContent>
         </Tabs>
       </main>
@@ -0,0 +1,101 @@
+import React, { useState } from "react";
+import { CartesianGrid, Line, LineChart, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { Badge } from "./ui/badge";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { correlateLeak, describeLocation, isWeakFix, leakBand, leakLocation, parseWav, waveSpeed, type CorrelationResult, type Recording } from "../lib/acoustic";
+import type { Pipe } from "../lib/network";
+
+type Props = {
+  pipe: Pipe;
+  /** Creates or updates the `Leak Suspected` alert with the fix. */
+  onLocate: (pipe: Pipe, result: CorrelationResult) => void;
+  onClose: () => void;
+};
+
+type Loaded = { name: string; recording: Recording };
+
+/** Two recordings from either end of a pipe, correlated into a leak position along it. */
+export const AcousticCorrelator: React.FC<Props> = ({ pipe, onLocate, onClose }) => {
+  const [a, setA] = useState<Loaded | null>(null);
+  const [b, setB] = useState<Loaded | null>(null);
+  const [speed, setSpeed] = useState(String(waveSpeed(pipe.material)));
+  const [result, setResult] = useState<CorrelationResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = async (file: File | undefined, set: (l: Loaded | null) => void) => {
+    if (!file) return;
+    setResult(null);
+    try {
+      set({ name: file.name, recording: parseWav(file.name, await file.arrayBuffer()) });
+      setError(null);
+    } catch (err) {
+      set(null);
+      setError((err as Error).message);
+    }
+  };
+
+  const correlate = () => {
+    if (!a || !b) return;
+    try {
+      setResult(correlateLeak({ a: a.recording, b: b.recording, length: pipe.length, speed: Number(speed), band: leakBand(pipe.material) }));
+      setError(null);
+    } catch (err) {
+      setResult(null);
+      setError((err as Error).message);
+    }
+  };
+
+  const sensor = (label: string, node: string, loaded: Loaded | null, set: (l: Loaded | null) => void) => (
+    <label className="rounded-lg bg-slate-950/40 p-2 block cursor-pointer">
+      <div className="text-[11px] text-slate-400">Sensor {label} at {node}</div>
+      <div className="text-slate-100 truncate">
+        {loaded ? `${loaded.name} • ${(loaded.recording.samples.length / loaded.recording.sampleRate).toFixed(1)} s @ ${loaded.recording.sampleRate} Hz` : "Choose .wav…"}
+      </div>
+      <input type="file" accept=".wav,audio/wav" className="hidden" onChange={(e) => { load(e.target.files?.[0], set); e.target.value = ""; }} />
+    </label>
+  );
+
+  return (
+    <div className="rounded-xl border border-slate-800 p-3 bg-slate-900/60 space-y-2 text-xs">
+      <div className="flex items-center gap-2">
+        <Badge className="bg-rose-500/20 text-rose-300">Acoustic correlation</Badge>
+        <span className="text-sm font-semibold text-slate-100">{pipe.id}</span>
+        <span className="text-slate-400">{pipe.length} m • {pipe.material} • {pipe.diameter} mm</span>
+        <Button size="sm" variant="ghost" className="ml-auto text-slate-400" onClick={onClose}>Close</Button>
+      </div>
+      <div className="grid sm:grid-cols-[1fr,1fr,auto] gap-2 items-end">
+        {sensor("A", pipe.from, a, setA)}
+        {sensor("B", pipe.to, b, setB)}
+        <div>
+          <div className="text-[11px] text-slate-400 mb-1">Wave speed, m/s</div>
+          <Input type="number" min={100} className="h-8 w-24 text-xs" value={speed} onChange={(e) => { setSpeed(e.target.value); setResult(null); }} />
+        </div>
+      </div>
+      <div className="text-slate-500">Recordings must start together (GPS- or radio-synchronised loggers). Band {leakBand(pipe.material).join("–")} Hz for {pipe.material}.</div>
+      {error && <div className="text-rose-300">{error}</div>}
+      <Button size="sm" disabled={!a || !b} className="bg-cyan-600 hover:bg-cyan-500" onClick={correlate}>Correlate</Button>
+      {result && (
+        <>
+          <div className="h-40">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={result.curve}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="distance" type="number" domain={[0, pipe.length]} unit=" m" tick={{ fontSize: 11 }} />
+                <YAxis tick={{ fontSize: 11 }} width={40} />
+                <Tooltip labelFormatter={(d) => `${d} m from ${pipe.from}`} />
+                <Line type="monotone" dataKey="r" name="Correlation" dot={false} isAnimationActive={false} stroke="#22d3ee" />
+                <ReferenceLine x={result.distance} stroke="#f43f5e" strokeDasharray="4 3" />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+          <div className={isWeakFix(result) ? "text-amber-300" : "text-slate-200"}>
+            {describeLocation(leakLocation(pipe, result))} Delay {(result.delaySec * 1000).toFixed(2)} ms, peak {result.peak.toFixed(2)}, {result.prominence.toFixed(1)}× the background
+            {isWeakFix(result) && "; weak peak, record longer or closer to the leak"}.
+          </div>
+          <Button size="sm" className="bg-emerald-600 hover:bg-emerald-500" onClick={() => onLocate(pipe, result)}>Update leak alert</Button>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,102 @@
+import React, { useMemo, useState } from "react";
+import { ShieldCheck } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
+import { Badge } from "./ui/badge";
+import { Progress } from "./ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import type { GridCell } from "../lib/grid";
+import { checkCompliance, standards, zoneCompliance, type Standard } from "../lib/compliance";
+import { useDailyAggregates } from "../lib/use-history";
+import { hasQuality, QUALITY_PARAMS, type QualityParam } from "../lib/wqi";
+
+const MONTHS_BACK = 3;
+
+// Start of this month and the ones before it, newest first.
+const recentMonths = () => {
+  const now = new Date();
+  return Array.from({ length: MONTHS_BACK }, (_, i) => new Date(now.getFullYear(), now.getMonth() - i, 1).getTime());
+};
+
+type Props = {
+  grid: GridCell[];
+  standard: Standard;
+  onStandardChange: (id: string) => void;
+};
+
+/** Live exceedance counts plus the share of compliant cell-days per zone for a chosen month. */
+export const CompliancePanel: React.FC<Props> = ({ grid, standard, onStandardChange }) => {
+  const months = useMemo(recentMonths, []);
+  const [month, setMonth] = useState(months[0]);
+  const monthEnd = useMemo(() => {
+    const d = new Date(month);
+    return new Date(d.getFullYear(), d.getMonth() + 1, 1).getTime() - 1;
+  }, [month]);
+  const { days, error } = useDailyAggregates(month, monthEnd);
+  const zones = useMemo(() => zoneCompliance(days, grid, standard).filter((z) => z.cellDays > 0), [days, grid, standard]);
+
+  const now = useMemo(() => {
+    const counts = { compliant: 0, "within-permissible": 0, "non-compliant": 0 };
+    for (const c of grid) if (hasQuality(c.quality)) counts[checkCompliance(c.quality, standard).status]++;
+    return counts;
+  }, [grid, standard]);
+
+  return (
+    <Card className="bg-slate-900/50 border-slate-800">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-slate-100"><ShieldCheck className="w-5 h-5"/> Drinking-Water Compliance</CardTitle>
+        <CardDescription title={standard.description}>Quality parameters against {standard.name}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex items-center gap-2">
+          <Select value={standard.id} onValueChange={onStandardChange}>
+            <SelectTrigger className="w-[170px] h-7 text-xs"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {standards.map((s) => (<SelectItem key={s.id} value={s.id}>{s.name}</SelectItem>))}
+            </SelectContent>
+          </Select>
+          <Select value={String(month)} onValueChange={(v) => setMonth(Number(v))}>
+            <SelectTrigger className="w-[140px] h-7 text-xs ml-auto"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {months.map((m) => (
+                <SelectItem key={m} value={String(m)}>{new Date(m).toLocaleDateString([], { month: "long", year: "numeric" })}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex flex-wrap gap-2 text-xs">
+          <Badge className="bg-emerald-500/20 text-emerald-300">{now.compliant} compliant</Badge>
+          <Badge className="bg-amber-400/20 text-amber-300">{now["within-permissible"]} within permissible</Badge>
+          <Badge className="bg-rose-500/20 text-rose-300">{now["non-compliant"]} non-compliant</Badge>
+        </div>
+        {zones.length === 0 ? (
+          <div className="text-xs text-slate-500">
+            {error ? `History unavailable: ${error}` : "No quality readings recorded for this month yet."}
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {zones.map((z) => {
+              const pct = (z.compliantDays / z.cellDays) * 100;
+              const worst = (Object.entries(z.exceedances) as Array<[QualityParam, number]>)
+                .sort((a, b) => b[1] - a[1])
+                .slice(0, 2);
+              return (
+                <div key={z.zone} className="text-xs">
+                  <div className="flex items-center justify-between">
+                    <span className="text-slate-200">{z.zone}</span>
+                    <span className="text-slate-400">{pct.toFixed(1)}% of {z.cellDays} cell-days</span>
+                  </div>
+                  <Progress value={pct} className="h-1.5 mt-1" />
+                  {worst.length > 0 && (
+                    <div className="text-[11px] text-rose-300 mt-1">
+                      {worst.map(([p, n]) => `${QUALITY_PARAMS[p].label} ${n}d`).join(" • ")}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,103 @@
+import React, { useState } from "react";
+import { TrendingUp } from "lucide-react";
+import { Area, CartesianGrid, ComposedChart, Line, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
+import { Input } from "./ui/input";
+import { round1 } from "../lib/grid";
+import { FORECAST_DAYS, localDate, type DemandForecast, type Weather } from "../lib/demand-forecast";
+
+const dayLabel = (t: number) => new Date(t).toLocaleDateString([], { weekday: "short", day: "numeric" });
+
+/** Actual hourly flow against the forecast and its 80% band, last week and next. */
+export const ForecastChart: React.FC<{ forecast: DemandForecast; height?: string }> = ({ forecast, height = "h-40" }) => {
+  const data = forecast.hours.map((h) => ({
+    t: h.t,
+    band: [round1(h.low), round1(h.high)],
+    expected: round1(h.expected),
+    actual: h.actual === undefined ? undefined : round1(h.actual),
+  }));
+  return (
+    <div className={height}>
+      <ResponsiveContainer width="100%" height="100%">
+        <ComposedChart data={data}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis dataKey="t" type="number" scale="time" domain={["dataMin", "dataMax"]} tickFormatter={dayLabel} tick={{ fontSize: 11 }} />
+          <YAxis tick={{ fontSize: 11 }} width={45} />
+          <Tooltip labelFormatter={(t) => new Date(Number(t)).toLocaleString([], { weekday: "short", hour: "2-digit", minute: "2-digit" })} />
+          <Area dataKey="band" name="80% band" stroke="none" fill="#22d3ee" fillOpacity={0.15} isAnimationActive={false} />
+          <Line dataKey="expected" name="Forecast L/min" stroke="#22d3ee" strokeDasharray="4 3" dot={false} isAnimationActive={false} />
+          <Line dataKey="actual" name="Actual L/min" stroke="#f59e0b" dot={false} isAnimationActive={false} />
+          <ReferenceLine x={Date.now()} stroke="#94a3b8" />
+        </ComposedChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
+
+type Props = {
+  city: DemandForecast | null;
+  weather?: Weather;
+  onWeatherChange: (weather: Weather | undefined) => void;
+  error: string | null;
+};
+
+/** City demand for the week ahead, with daily totals and optional temperature forecasts. */
+export const DemandForecastPanel: React.FC<Props> = ({ city, weather, onWeatherChange, error }) => {
+  const [typical, setTypical] = useState(weather ? String(weather.typical) : "");
+  const days = city?.days ?? [];
+  const setTemp = (date: string, value: string) => {
+    const t = Number(typical);
+    if (typical === "" || !Number.isFinite(t)) return;
+    const next = { ...weather?.days };
+    if (value === "" || !Number.isFinite(Number(value))) delete next[date];
+    else next[date] = Number(value);
+    onWeatherChange({ typical: t, days: next });
+  };
+  const changeTypical = (value: string) => {
+    setTypical(value);
+    onWeatherChange(value === "" || !Number.isFinite(Number(value)) ? undefined : { typical: Number(value), days: weather?.days ?? {} });
+  };
+
+  return (
+    <Card className="bg-slate-900/50 border-slate-800">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-slate-100"><TrendingUp className="w-5 h-5"/> Demand Forecast</CardTitle>
+        <CardDescription>City demand for the next {FORECAST_DAYS} days from flow history, weekday and holidays</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {!city ? (
+          <div className="text-xs text-slate-500">
+            {error ? `History unavailable: ${error}` : "Forecasts start once two days of hourly flow have been recorded."}
+          </div>
+        ) : (
+          <>
+            <ForecastChart forecast={city} height="h-52" />
+            <div className="grid grid-cols-7 gap-2 text-xs">
+              {days.map((d) => (
+                <div key={d.day} className="rounded-lg bg-slate-950/40 p-2">
+                  <div className="text-[11px] text-slate-400">{dayLabel(d.day)}</div>
+                  <div className="text-slate-100 font-semibold">{Math.round(d.expected).toLocaleString()} m³</div>
+                  <div className="text-[11px] text-slate-500">{Math.round(d.low).toLocaleString()}–{Math.round(d.high).toLocaleString()}</div>
+                  <Input
+                    type="number"
+                    placeholder="max °C"
+                    disabled={typical === ""}
+                    className="h-6 mt-1 text-[11px] px-1"
+                    value={weather?.days[localDate(d.day)] ?? ""}
+                    onChange={(e) => setTemp(localDate(d.day), e.target.value)}
+                  />
+                </div>
+              ))}
+            </div>
+            <div className="flex items-center gap-2 text-xs text-slate-400">
+              <span>Typical daily max</span>
+              <Input type="number" placeholder="°C" className="h-7 w-20 text-xs" value={typical} onChange={(e) => changeTypical(e.target.value)} />
+              <span>Set it to adjust days with a temperature forecast: about 2% more demand per °C above it.</span>
+              <span className="ml-auto">Fitted on {Math.round(city.trainedHours / 24)} days</span>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,60 @@
+import React, { useMemo } from "react";
+import { Radar } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
+import { Badge } from "./ui/badge";
+import { Switch } from "./ui/switch";
+import type { AlertItem } from "../lib/grid";
+import type { DetectorSpec } from "../lib/anomaly";
+
+const KIND_LABELS: Record<DetectorSpec["kind"], string> = {
+  zscore: "z-score",
+  ewma: "EWMA",
+  cusum: "CUSUM",
+  seasonal: "seasonal",
+  burst: "burst",
+};
+
+type Props = {
+  detectors: DetectorSpec[];
+  alerts: AlertItem[];
+  onToggle: (id: string, enabled: boolean) => void;
+};
+
+/** The streaming detectors with their unresolved alert counts and an on/off switch each. */
+export const DetectorPanel: React.FC<Props> = ({ detectors, alerts, onToggle }) => {
+  const open = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const a of alerts) {
+      if (a.status === "resolved" || !a.rule?.startsWith("anomaly:")) continue;
+      const id = a.rule.slice("anomaly:".length);
+      counts.set(id, (counts.get(id) ?? 0) + 1);
+    }
+    return counts;
+  }, [alerts]);
+
+  return (
+    <Card className="bg-slate-900/50 border-slate-800">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-slate-100"><Radar className="w-5 h-5"/> Anomaly Detectors</CardTitle>
+        <CardDescription>Raise alerts from live telemetry, learning each cell's normal range</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {detectors.map((d) => (
+          <div key={d.id} className="flex items-center gap-2 text-xs">
+            <Switch checked={d.enabled !== false} onCheckedChange={(on) => onToggle(d.id, on)} />
+            <div className="min-w-0">
+              <div className="text-slate-200 truncate">{d.label}</div>
+              <div className="text-[11px] text-slate-500">
+                {KIND_LABELS[d.kind]} → {d.alertType}
+                {d.cells ? ` • tuned for ${Object.keys(d.cells).length} cell(s)` : ""}
+              </div>
+            </div>
+            {(open.get(d.id) ?? 0) > 0 && (
+              <Badge className="ml-auto bg-amber-400/20 text-amber-300">{open.get(d.id)} open</Badge>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
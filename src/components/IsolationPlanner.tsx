@@ -0,0 +1,73 @@
+import React, { useState } from "react";
+import { Badge } from "./ui/badge";
+import { Button } from "./ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import type { AlertItem } from "../lib/grid";
+import { describeIsolation, valveLabel, type IsolationPlan } from "../lib/isolation";
+
+type Props = {
+  plan: IsolationPlan;
+  alerts: AlertItem[];
+  /** Alert the plan was opened from, preselected for attaching. */
+  alertId?: string;
+  onAttach: (alertId: string, plan: IsolationPlan) => void;
+  onClose: () => void;
+};
+
+/** Valves to shut for a repair, what loses supply, and attaching the plan to an alert as the crew's work order. */
+export const IsolationPlanner: React.FC<Props> = ({ plan, alerts, alertId, onAttach, onClose }) => {
+  // Unresolved alerts in the cells the outage touches are the likely work orders.
+  const candidates = alerts.filter((a) => a.status !== "resolved" && (a.id === alertId || plan.cells.includes(a.cellId)));
+  const [attachTo, setAttachTo] = useState(alertId ?? candidates[0]?.id ?? "");
+  const attached = alerts.find((a) => a.id === attachTo)?.isolation === plan;
+
+  return (
+    <div className="rounded-xl border border-slate-800 p-3 bg-slate-900/60 space-y-2 text-xs">
+      <div className="flex items-center gap-2">
+        <Badge className="bg-amber-400/20 text-amber-300">Isolation plan</Badge>
+        <span className="text-sm font-semibold text-slate-100">{plan.target.kind === "cell" ? `Section ${plan.target.id}` : plan.target.id}</span>
+        <Button size="sm" variant="ghost" className="ml-auto text-slate-400" onClick={onClose}>Close</Button>
+      </div>
+      <div className="text-slate-300">{describeIsolation(plan)}</div>
+      <div>
+        <div className="text-slate-400 mb-1">Close, in any order</div>
+        <div className="flex flex-wrap gap-1">
+          {plan.valves.map((v) => (
+            <Badge key={v.id} variant="secondary" className="bg-rose-500/15 text-rose-300">{valveLabel(v)}</Badge>
+          ))}
+        </div>
+      </div>
+      <div className="grid grid-cols-3 gap-2">
+        <div className="rounded-lg bg-slate-950/40 p-2">
+          <div className="text-[11px] text-slate-400">Without water</div>
+          <div className="text-slate-100 font-semibold text-sm">{plan.cells.join(", ") || "—"}</div>
+        </div>
+        <div className="rounded-lg bg-slate-950/40 p-2">
+          <div className="text-[11px] text-slate-400">Connections</div>
+          <div className="text-slate-100 font-semibold text-sm">{plan.connections}</div>
+        </div>
+        <div className="rounded-lg bg-slate-950/40 p-2">
+          <div className="text-[11px] text-slate-400">Outage</div>
+          <div className="text-slate-100 font-semibold text-sm">~{plan.outageHours} h</div>
+        </div>
+      </div>
+      {plan.cutOff.length > 0 && (
+        <div className="text-amber-300">Also cut off, fed only through this segment: {plan.cutOff.join(", ")}</div>
+      )}
+      {plan.warnings.map((w) => (<div key={w} className="text-rose-300">{w}</div>))}
+      {candidates.length > 0 && (
+        <div className="flex items-center gap-2">
+          <Select value={attachTo} onValueChange={setAttachTo}>
+            <SelectTrigger className="w-[220px] h-7 text-xs"><SelectValue placeholder="Attach to alert" /></SelectTrigger>
+            <SelectContent>
+              {candidates.map((a) => (<SelectItem key={a.id} value={a.id}>{a.id} • {a.type} ({a.cellId})</SelectItem>))}
+            </SelectContent>
+          </Select>
+          <Button size="sm" disabled={!attachTo || attached} className="bg-emerald-600 hover:bg-emerald-500" onClick={() => onAttach(attachTo, plan)}>
+            {attached ? "Attached" : "Attach to alert"}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,219 @@
+import React from "react";
+import { Badge } from "./ui/badge";
+import { Button } from "./ui/button";
+import type { LeakLocation } from "../lib/acoustic";
+import type { AlertItem } from "../lib/grid";
+import type { IsolationPlan } from "../lib/isolation";
+import { linkCells, nodeIndex, type Network, type NetworkLink, type Pipe } from "../lib/network";
+
+// ------------------------- SVG OVERLAY ------------------------- //
+
+type OverlayProps = {
+  network: Network;
+  selectedLinkId?: string | null;
+  onSelectLink: (link: NetworkLink) => void;
+  /** Draws the shut-off segment in amber and the valves to close in rose. */
+  isolation?: IsolationPlan | null;
+  /** Dig locations from acoustic correlation, marked along their pipes. */
+  leaks?: LeakLocation[];
+};
+
+// Stroke width in map units scales gently with pipe diameter.
+const strokeFor = (link: NetworkLink) => (link.kind === "pump" ? 2 : Math.max(1, link.diameter / 100));
+
+// Gate valve symbol: two triangles meeting at (x, y).
+const bowtie = (x: number, y: number) => `M${x - 4},${y - 3}L${x + 4},${y + 3}L${x + 4},${y - 3}L${x - 4},${y + 3}Z`;
+
+/** Pipes, valves, pumps and storage drawn on top of the GridMap tiles. Rendered inside its <svg>. */
+export const NetworkOverlay: React.FC<OverlayProps> = ({ network, selectedLinkId, onSelectLink, isolation, leaks }) => {
+  const nodes = nodeIndex(network);
+  const drained = new Set(isolation?.links);
+  const shut = new Set(isolation?.valves.filter((v) => !v.at).map((v) => v.linkId));
+  return (
+    <g>
+      {network.links.map((l) => {
+        const a = nodes.get(l.from);
+        const b = nodes.get(l.to);
+        if (!a || !b) return null;
+        const mx = (a.x + b.x) / 2;
+        const my = (a.y + b.y) / 2;
+        const isSel = selectedLinkId === l.id;
+        const closed = l.status === "closed" || shut.has(l.id);
+        return (
+          <g key={l.id} onClick={() => onSelectLink(l)} style={{ cursor: "pointer" }}>
+            <title>{`${l.id} (${l.kind}${closed ? ", closed" : ""})`}</title>
+            {/* Wide transparent hit area so thin pipes are easy to click */}
+            <line x1={a.x} y1={a.y} x2={b.x} y2={b.y} stroke="transparent" strokeWidth={10} />
+            <line
+              x1={a.x}
+              y1={a.y}
+              x2={b.x}
+              y2={b.y}
+              className={isSel ? "stroke-cyan-300" : closed ? "stroke-rose-400" : drained.has(l.id) ? "stroke-amber-400" : "stroke-sky-400/70"}
+              strokeWidth={strokeFor(l) + (isSel ? 1.5 : 0)}
+              strokeDasharray={closed ? "3 2" : undefined}
+              strokeLinecap="round"
+            />
+            {l.kind === "valve" && (
+              <path
+                d={bowtie(mx, my)}
+                className={closed ? "fill-rose-400 stroke-rose-200" : "fill-slate-200 stroke-slate-900"}
+                strokeWidth={0.5}
+              />
+            )}
+            {l.kind === "pump" && (
+              <>
+                <circle cx={mx} cy={my} r={5} className="fill-indigo-500 stroke-slate-900" strokeWidth={0.5} />
+                <path d={`M${mx - 2},${my - 3}L${mx + 3},${my}L${mx - 2},${my + 3}Z`} className="fill-white" />
+              </>
+            )}
+          </g>
+        );
+      })}
+      {/* Pipe-end valves to close, a quarter of the way in from the end they sit at */}
+      {isolation?.valves.map((v) => {
+        const link = network.links.find((l) => l.id === v.linkId);
+        const end = v.at && nodes.get(v.at);
+        const other = link && nodes.get(link.from === v.at ? link.to : link.from);
+        if (!end || !other) return null;
+        return (
+          <path
+            key={v.id}
+            d={bowtie(end.x + (other.x - end.x) / 4, end.y + (other.y - end.y) / 4)}
+            className="fill-rose-400 stroke-rose-200 pointer-events-none"
+            strokeWidth={0.5}
+          />
+        );
+      })}
+      {leaks?.map((loc) => {
+        const link = network.links.find((l) => l.id === loc.linkId);
+        const a = nodes.get(loc.from);
+        const b = link && nodes.get(link.from === loc.from ? link.to : link.from);
+        if (!a || !b) return null;
+        const k = Math.min(1, loc.distance / loc.length);
+        const x = a.x + (b.x - a.x) * k;
+        const y = a.y + (b.y - a.y) * k;
+        return (
+          <g key={loc.linkId} className="pointer-events-none">
+            <title>{`Leak ${loc.distance} m from ${loc.from}`}</title>
+            <circle cx={x} cy={y} r={5} className="fill-none stroke-rose-400" strokeWidth={1.5} />
+            <path d={`M${x - 8},${y}H${x + 8}M${x},${y - 8}V${y + 8}`} className="stroke-rose-400" strokeWidth={1} />
+          </g>
+        );
+      })}
+      {network.nodes.map((n) =>
+        n.kind === "junction" ? (
+          <circle key={n.id} cx={n.x} cy={n.y} r={1.8} className="fill-sky-200 pointer-events-none" />
+        ) : n.kind === "reservoir" ? (
+          <g key={n.id}>
+            <title>{`${n.id} reservoir, head ${n.head} m`}</title>
+            <rect x={n.x - 6} y={n.y - 6} width={12} height={12} rx={2} className="fill-sky-600 stroke-slate-900" strokeWidth={0.5} />
+          </g>
+        ) : (
+          <g key={n.id}>
+            <title>{`${n.id} tank, level ${n.initLevel} m of ${n.maxLevel} m`}</title>
+            <rect x={n.x - 5} y={n.y - 7} width={10} height={14} rx={1.5} className="fill-slate-800 stroke-sky-400" strokeWidth={0.8} />
+            <rect
+              x={n.x - 4}
+              y={n.y + 6 - (12 * n.initLevel) / n.maxLevel}
+              width={8}
+              height={(12 * n.initLevel) / n.maxLevel}
+              className="fill-sky-400/80"
+            />
+          </g>
+        ),
+      )}
+    </g>
+  );
+};
+
+// ------------------------- LINK DETAILS ------------------------- //
+
+type DetailsProps = {
+  network: Network;
+  link: NetworkLink;
+  /** Solved flow in L/s, when hydraulics are available. */
+  flow?: number;
+  alerts: AlertItem[];
+  onToggleStatus?: (link: NetworkLink) => void;
+  onPlanIsolation?: (link: NetworkLink) => void;
+  /** Opens acoustic correlation for a pipe. */
+  onCorrelate?: (pipe: Pipe) => void;
+  onClose: () => void;
+};
+
+const Attr: React.FC<{ label: string; value: React.ReactNode }> = ({ label, value }) => (
+  <div className="rounded-lg bg-slate-950/40 p-2">
+    <div className="text-[11px] text-slate-400">{label}</div>
+    <div className="text-slate-100 font-semibold text-sm">{value}</div>
+  </div>
+);
+
+/** Attribute sheet for a clicked pipe, valve or pump plus the open alerts on its cells. */
+export const LinkDetails: React.FC<DetailsProps> = ({ network, link, flow, alerts, onToggleStatus, onPlanIsolation, onCorrelate, onClose }) => {
+  const cells = linkCells(network, link);
+  const related = alerts.filter((a) => cells.includes(a.cellId) && a.status !== "resolved");
+  return (
+    <div className="rounded-xl border border-slate-800 p-3 bg-slate-900/60 space-y-2">
+      <div className="flex items-center gap-2">
+        <Badge className="bg-sky-500/20 text-sky-300 border-sky-500/30 capitalize">{link.kind}</Badge>
+        <span className="text-sm font-semibold text-slate-100">{link.id}</span>
+        <span className="text-xs text-slate-400">{link.from} → {link.to}</span>
+        <Button size="sm" variant="ghost" className="ml-auto text-slate-400" onClick={onClose}>Close</Button>
+      </div>
+      <div className="grid grid-cols-3 gap-2">
+        <Attr label="Status" value={<span className={link.status === "closed" ? "text-rose-300" : "text-emerald-300"}>{link.status}</span>} />
+        {flow !== undefined && <Attr label="Flow" value={`${flow.toFixed(1)} L/s`} />}
+        {flow !== undefined && link.kind !== "pump" && (
+          <Attr label="Velocity" value={`${(Math.abs(flow) / 1000 / (Math.PI * (link.diameter / 2000) ** 2)).toFixed(2)} m/s`} />
+        )}
+        {link.kind === "pipe" && (
+          <>
+            <Attr label="Diameter" value={`${link.diameter} mm`} />
+            <Attr label="Length" value={`${link.length} m`} />
+            <Attr label="Material" value={link.material} />
+            <Attr label="Roughness (C)" value={link.roughness} />
+            <Attr label="Installed" value={link.installYear ?? "—"} />
+          </>
+        )}
+        {link.kind === "valve" && (
+          <>
+            <Attr label="Type" value={link.valveType} />
+            <Attr label="Diameter" value={`${link.diameter} mm`} />
+            <Attr label="Setting" value={link.setting} />
+          </>
+        )}
+        {link.kind === "pump" && (
+          <Attr label="Design point" value={link.curve.map((p) => `${p.flow} L/s @ ${p.head} m`).join(", ")} />
+        )}
+        <Attr label="Cells" value={cells.join(", ") || "—"} />
+      </div>
+      <div className="text-xs text-slate-400">
+        {related.length === 0
+          ? "No open alerts on this segment."
+          : related.map((a) => (
+              <div key={a.id} className="text-slate-200">
+                {a.id} • {a.type} ({a.severity}) — {a.description}
+              </div>
+            ))}
+      </div>
+      <div className="flex gap-2">
+        {onToggleStatus && link.kind !== "pipe" && (
+          <Button size="sm" variant="secondary" className="bg-slate-800" onClick={() => onToggleStatus(link)}>
+            {link.status === "open" ? "Close" : "Open"} {link.kind}
+          </Button>
+        )}
+        {onPlanIsolation && (
+          <Button size="sm" variant="secondary" className="bg-slate-800" onClick={() => onPlanIsolation(link)}>
+            Plan isolation
+          </Button>
+        )}
+        {onCorrelate && link.kind === "pipe" && (
+          <Button size="sm" variant="secondary" className="bg-slate-800" onClick={() => onCorrelate(link)}>
+            Correlate leak noise
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
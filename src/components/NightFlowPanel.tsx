@@ -0,0 +1,103 @@
+import React, { useState } from "react";
+import { Moon } from "lucide-react";
+import { Bar, BarChart, CartesianGrid, Legend, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { Badge } from "./ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { round1 } from "../lib/grid";
+import { NIGHT_WINDOW, type NightFlowSeries } from "../lib/night-flow";
+
+const SECTION = "section";
+
+const nightLabel = (night: number) => new Date(night).toLocaleDateString([], { day: "numeric", month: "short" });
+
+type Props = {
+  cells: NightFlowSeries[];
+  districts: NightFlowSeries[];
+  /** Section selected on the map, offered next to the districts. */
+  selectedId?: string;
+  error: string | null;
+};
+
+/** Minimum night flow split into legitimate use, background leakage and bursts, night by night. */
+export const NightFlowPanel: React.FC<Props> = ({ cells, districts, selectedId, error }) => {
+  // History loads after mount, so the first district is the default only once it is known.
+  const [picked, setPicked] = useState<string | null>(null);
+  const scope = picked ?? districts[0]?.id ?? SECTION;
+  const series = scope === SECTION ? cells.find((s) => s.id === selectedId) : districts.find((s) => s.id === scope);
+  const latest = series?.nights[series.nights.length - 1];
+  const chart = (series?.nights ?? []).map((n) => ({
+    night: nightLabel(n.night),
+    legitimate: round1(Math.min(n.mnf, n.legitimate)),
+    background: round1(n.background),
+    burst: round1(n.burst),
+  }));
+
+  return (
+    <Card className="bg-slate-900/50 border-slate-800">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-slate-100"><Moon className="w-5 h-5"/> Minimum Night Flow</CardTitle>
+        <CardDescription>Lowest hourly flow between {NIGHT_WINDOW[0]} and {NIGHT_WINDOW[1]} AM, less legitimate night use</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex items-center gap-2">
+          <Select value={scope} onValueChange={setPicked}>
+            <SelectTrigger className="w-[170px] h-7 text-xs"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {districts.map((d) => (<SelectItem key={d.id} value={d.id}>{d.id}</SelectItem>))}
+              <SelectItem value={SECTION}>Section {selectedId ?? "—"}</SelectItem>
+            </SelectContent>
+          </Select>
+          {series && (<span className="text-xs text-slate-400 ml-auto">{series.connections.toLocaleString()} connections • {series.nights.length} nights</span>)}
+        </div>
+        {!series || !latest ? (
+          <div className="text-xs text-slate-500">
+            {error ? `History unavailable: ${error}` : "No night readings recorded yet. The analysis fills in as telemetry runs through the night."}
+          </div>
+        ) : (
+          <div className="grid lg:grid-cols-[2fr,1fr] gap-4">
+            <div className="h-52">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={chart}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="night" tick={{ fontSize: 11 }} />
+                  <YAxis tick={{ fontSize: 11 }} unit=" L/min" width={70} />
+                  <Tooltip />
+                  <Legend />
+                  <Bar dataKey="legitimate" name="Legitimate use" stackId="mnf" fill="#64748b" />
+                  <Bar dataKey="background" name="Background leakage" stackId="mnf" fill="#22d3ee" />
+                  <Bar dataKey="burst" name="Bursts" stackId="mnf" fill="#f43f5e" />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+            <div className="text-xs space-y-1">
+              <div className="text-slate-400 mb-1">Night of {nightLabel(latest.night)}</div>
+              <div className="flex justify-between text-slate-200"><span>Minimum night flow</span><span>{round1(latest.mnf)} L/min</span></div>
+              <div className="flex justify-between pl-4 text-slate-400"><span>Legitimate use</span><span>{round1(latest.legitimate)} L/min</span></div>
+              <div className="flex justify-between pl-4 text-cyan-300"><span>Background leakage</span><span>{round1(latest.background)} L/min</span></div>
+              <div className="flex justify-between pl-4 text-rose-300"><span>Bursts</span><span>{round1(latest.burst)} L/min</span></div>
+              {series.connections > 0 && (
+                <div className="flex justify-between text-slate-200 pt-1">
+                  <span>Leakage per connection</span>
+                  <span>{round1((latest.net * 60) / series.connections)} L/h</span>
+                </div>
+              )}
+              <div className="pt-2 space-y-1">
+                {series.steps.length === 0 ? (
+                  <div className="text-slate-500">No step rise in the night line.</div>
+                ) : (
+                  series.steps.map((s) => (
+                    <div key={s.night} className="flex items-center gap-2">
+                      <Badge className="bg-rose-500/20 text-rose-300">Step</Badge>
+                      <span className="text-slate-300">{nightLabel(s.night)}: {round1(s.before)} → {round1(s.after)} L/min net</span>
+                    </div>
+                  ))
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
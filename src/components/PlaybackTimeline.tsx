@@ -0,0 +1,163 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { History, Pause, Play, Radio } from "lucide-react";
+import { Button } from "./ui/button";
+import { Slider } from "./ui/slider";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "./ui/tooltip";
+import type { AlertItem, GridCell } from "../lib/grid";
+import { getHistoryStore, type HistoryPoint } from "../lib/history-store";
+import { snapshotAt } from "../lib/playback";
+
+const STEP_MS = 60_000; // one frame per 1-minute rollup bucket
+const WINDOWS = [1, 3, 6, 12, 24];
+const SPEEDS = [1, 5, 15, 60]; // frames (minutes) per second
+
+type PlaybackProps = {
+  cells: GridCell[];
+  alerts: AlertItem[];
+  /** Called with the reconstructed grid while scrubbing, or `null` when back to live. */
+  onFrame: (cells: GridCell[] | null, at: number | null) => void;
+};
+
+export const PlaybackTimeline: React.FC<PlaybackProps> = ({ cells, alerts, onFrame }) => {
+  const [hours, setHours] = useState(3);
+  const [history, setHistory] = useState<Map<string, HistoryPoint[]> | null>(null);
+  const [span, setSpan] = useState<{ from: number; to: number } | null>(null);
+  const [frame, setFrame] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(5);
+  const [error, setError] = useState<string | null>(null);
+
+  const frames = span ? Math.max(1, Math.floor((span.to - span.from) / STEP_MS)) : 0;
+  const at = span ? span.from + frame * STEP_MS : null;
+
+  const load = (h: number) => {
+    const to = Date.now();
+    const from = to - h * 3_600_000;
+    getHistoryStore()
+      .then((s) => s.queryAll("1m", from, to))
+      .then((map) => {
+        setHistory(map);
+        setSpan({ from, to });
+        setFrame(0);
+        setError(null);
+      })
+      .catch((err: Error) => setError(err.message));
+  };
+
+  const exit = () => {
+    setPlaying(false);
+    setHistory(null);
+    setSpan(null);
+    onFrame(null, null);
+  };
+
+  // Push the reconstructed grid up whenever the playhead moves.
+  useEffect(() => {
+    if (!history || at === null) return;
+    onFrame(snapshotAt(cells, history, at), at);
+    // `cells` only fills in cells without history, so live ticks should not move the frame.
+  }, [history, at]);
+
+  useEffect(() => {
+    if (!playing) return;
+    const timer = setInterval(() => setFrame((f) => Math.min(frames, f + 1)), 1000 / speed);
+    return () => clearInterval(timer);
+  }, [playing, speed, frames]);
+
+  useEffect(() => {
+    if (frame >= frames) setPlaying(false);
+  }, [frame, frames]);
+
+  const markers = useMemo(
+    () =>
+      span
+        ? alerts
+            .map((a) => ({ alert: a, t: Date.parse(a.timestamp) }))
+            .filter((m) => m.t >= span.from && m.t <= span.to)
+        : [],
+    [alerts, span],
+  );
+
+  const jumpTo = (t: number) => {
+    if (!span) return;
+    setPlaying(false);
+    setFrame(Math.max(0, Math.min(frames, Math.floor((t - span.from) / STEP_MS))));
+  };
+
+  if (!span) {
+    return (
+      <div className="flex items-center gap-2 text-xs text-slate-400">
+        <History className="w-4 h-4" />
+        <span>Playback</span>
+        <Select value={String(hours)} onValueChange={(v) => setHours(Number(v))}>
+          <SelectTrigger className="w-[110px] h-7 text-xs"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            {WINDOWS.map((h) => (<SelectItem key={h} value={String(h)}>Past {h} h</SelectItem>))}
+          </SelectContent>
+        </Select>
+        <Button size="sm" variant="secondary" className="bg-slate-800" onClick={() => load(hours)}>Open timeline</Button>
+        {error && <span className="text-rose-400">History unavailable: {error}</span>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-xl border border-slate-800 p-3 bg-slate-950/50 space-y-2">
+      <div className="flex items-center gap-2 text-xs text-slate-400">
+        <Button size="sm" variant="secondary" className="bg-slate-800" onClick={() => {
+          if (frame >= frames) setFrame(0);
+          setPlaying((p) => !p);
+        }}>
+          {playing ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+        </Button>
+        <Select value={String(speed)} onValueChange={(v) => setSpeed(Number(v))}>
+          <SelectTrigger className="w-[90px] h-7 text-xs"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            {SPEEDS.map((s) => (<SelectItem key={s} value={String(s)}>{s}×</SelectItem>))}
+          </SelectContent>
+        </Select>
+        <span className="text-slate-200 font-medium">{at !== null && new Date(at).toLocaleString()}</span>
+        {history && history.size === 0 && <span className="text-amber-300">No readings recorded in this window yet</span>}
+        <Button size="sm" variant="outline" className="ml-auto bg-slate-800 text-slate-100 border-slate-700" onClick={exit}>
+          <Radio className="w-4 h-4 mr-1" /> Back to live
+        </Button>
+      </div>
+      <div className="relative pt-3">
+        {/* Alert markers sit above the track; clicking one rewinds to just before it fired. */}
+        <TooltipProvider>
+          {markers.map(({ alert, t }) => (
+            <Tooltip key={alert.id}>
+              <TooltipTrigger asChild>
+                <button
+                  type="button"
+                  aria-label={`${alert.id} ${alert.type}`}
+                  className={`absolute top-0 w-1.5 h-3 -ml-[3px] rounded-sm ${alert.severity === "high" ? "bg-rose-500" : alert.severity === "medium" ? "bg-amber-400" : "bg-emerald-400"}`}
+                  style={{ left: `${((t - span.from) / (span.to - span.from)) * 100}%` }}
+                  onClick={() => jumpTo(t - 15 * STEP_MS)}
+                />
+              </TooltipTrigger>
+              <TooltipContent>
+                {alert.id} • {alert.type} @ {alert.cellId} — {new Date(t).toLocaleTimeString()}
+              </TooltipContent>
+            </Tooltip>
+          ))}
+        </TooltipProvider>
+        <Slider
+          min={0}
+          max={frames}
+          step={1}
+          value={[frame]}
+          onValueChange={([f]) => {
+            setPlaying(false);
+            setFrame(f);
+          }}
+        />
+      </div>
+      <div className="flex justify-between text-[10px] text-slate-500">
+        <span>{new Date(span.from).toLocaleTimeString()}</span>
+        <span>{new Date(span.to).toLocaleTimeString()}</span>
+      </div>
+    </div>
+  );
+};
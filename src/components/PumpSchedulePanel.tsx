@@ -0,0 +1,205 @@
+import React, { useMemo, useState } from "react";
+import { Zap } from "lucide-react";
+import { CartesianGrid, Legend, Line, LineChart, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { Button } from "./ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import type { DemandForecast } from "../lib/demand-forecast";
+import { round1 } from "../lib/grid";
+import type { HydraulicResult } from "../lib/hydraulics";
+import type { Network } from "../lib/network";
+import {
+  DEFAULT_TARIFF_ID,
+  evaluateSchedule,
+  optimiseSchedule,
+  SCHEDULE_HOURS,
+  schedulePlan,
+  tariffPeriod,
+  tariffs,
+  type PumpSchedule,
+  type SchedulePlan,
+} from "../lib/pump-schedule";
+
+const HOUR_MS = 3_600_000;
+
+const hourOf = (plan: SchedulePlan, h: number) => new Date(plan.start + h * HOUR_MS).getHours();
+
+type Props = {
+  network: Network;
+  hydraulics: HydraulicResult | null;
+  /** City demand forecast; network patterns are used without one. */
+  city: DemandForecast | null;
+  demandMultiplier: number;
+};
+
+// Hours scheduled per row: a colour cell each, price-tinted in the tariff row.
+const GanttRow: React.FC<{ label: string; cells: Array<{ className: string; title: string; onClick?: () => void }> }> = ({ label, cells }) => (
+  <div className="grid grid-cols-[4.5rem_repeat(24,minmax(0,1fr))] gap-px items-center">
+    <span className="truncate text-[11px] text-slate-400 pr-1">{label}</span>
+    {cells.map((c, h) => (
+      <div key={h} title={c.title} onClick={c.onClick} className={`h-4 rounded-sm ${c.className} ${c.onClick ? "cursor-pointer hover:ring-1 hover:ring-slate-400" : ""}`} />
+    ))}
+  </div>
+);
+
+/**
+ * The cheapest 24-hour pump schedule under a time-of-day tariff, next to the way the
+ * pumps are run now. The current schedule is set by clicking hours, by time of day.
+ */
+export const PumpSchedulePanel: React.FC<Props> = ({ network, hydraulics, city, demandMultiplier }) => {
+  const [tariffId, setTariffId] = useState(DEFAULT_TARIFF_ID);
+  const tariff = tariffs.find((t) => t.id === tariffId) ?? tariffs[0];
+  // Operator's current schedule, by pump and local hour of day; pumps left out run all day.
+  const [current, setCurrent] = useState<Record<string, boolean[]>>({});
+
+  const plan = useMemo(
+    () => (hydraulics && tariff ? schedulePlan(network, hydraulics, city, tariff, demandMultiplier) : null),
+    [network, hydraulics, city, tariff, demandMultiplier],
+  );
+  const optimised = useMemo(() => (plan ? optimiseSchedule(plan) : null), [plan]);
+  const now = useMemo(() => {
+    if (!plan) return null;
+    const running = Object.fromEntries(
+      plan.pumps.map((p) => [p.id, Array.from({ length: SCHEDULE_HOURS }, (_, h) => current[p.id]?.[hourOf(plan, h)] ?? true)]),
+    );
+    return evaluateSchedule(plan, running);
+  }, [plan, current]);
+
+  const toggle = (pumpId: string, hour: number) =>
+    setCurrent((c) => {
+      const hours = [...(c[pumpId] ?? new Array<boolean>(24).fill(true))];
+      hours[hour] = !hours[hour];
+      return { ...c, [pumpId]: hours };
+    });
+
+  const prices = tariff ? tariff.periods.map((p) => p.price) : [];
+  const cheapest = Math.min(...prices);
+  const dearest = Math.max(...prices);
+  const money = (v: number) => `${tariff?.currency ?? ""}${Math.round(v).toLocaleString()}`;
+  const levels = plan
+    ? Array.from({ length: SCHEDULE_HOURS + 1 }, (_, h) => ({
+        hour: `${String(hourOf(plan, h)).padStart(2, "0")}:00`,
+        optimised: optimised ? round1(optimised.levels[h]) : undefined,
+        current: now ? round1(now.levels[h]) : undefined,
+      }))
+    : [];
+  const saving = optimised && now ? now.cost - optimised.cost : 0;
+
+  const stat = (label: string, s: PumpSchedule | null) => (
+    <div className="rounded-lg bg-slate-950/40 p-2">
+      <div className="text-[11px] text-slate-400">{label}</div>
+      <div className="text-slate-100 font-semibold">{s ? money(s.cost) : "—"}</div>
+      <div className="text-[11px] text-slate-500">{s ? `${Math.round(s.energy).toLocaleString()} kWh` : "No feasible schedule"}</div>
+    </div>
+  );
+
+  return (
+    <Card className="bg-slate-900/50 border-slate-800">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-slate-100"><Zap className="w-5 h-5"/> Pump Scheduling</CardTitle>
+        <CardDescription title={tariff?.description}>Cheapest pumping for the next 24 hours that meets demand within tank limits</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3 text-xs">
+        <div className="flex items-center gap-2">
+          <Select value={tariff?.id} onValueChange={setTariffId}>
+            <SelectTrigger className="w-[190px] h-7 text-xs"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {tariffs.map((t) => (<SelectItem key={t.id} value={t.id}>{t.name}</SelectItem>))}
+            </SelectContent>
+          </Select>
+          {plan && (
+            <span className="text-slate-400 ml-auto">
+              Demand from {plan.demandSource === "forecast" ? "the city forecast" : "network patterns"} • {plan.pumps.length} pumps
+              {plan.storage.area === 0 && " • no storage"}
+            </span>
+          )}
+        </div>
+        {!plan || !tariff ? (
+          <div className="text-slate-500">{hydraulics ? "No pump is running in the model, so there is nothing to schedule." : "Waiting for the hydraulic solution…"}</div>
+        ) : (
+          <>
+            <div className="grid grid-cols-3 gap-2">
+              {stat("Optimised", optimised)}
+              {stat("Current", now)}
+              <div className="rounded-lg bg-slate-950/40 p-2">
+                <div className="text-[11px] text-slate-400">Saving</div>
+                <div className={`font-semibold ${saving > 0 ? "text-emerald-300" : "text-slate-100"}`}>{optimised && now ? money(saving) : "—"}</div>
+                <div className="text-[11px] text-slate-500">{optimised && now && now.cost > 0 ? `${Math.round((saving / now.cost) * 100)}% of the current cost` : " "}</div>
+              </div>
+            </div>
+
+            <div className="space-y-1 max-h-72 overflow-y-auto pr-1">
+              <div className="grid grid-cols-[4.5rem_repeat(24,minmax(0,1fr))] gap-px text-[10px] text-slate-500">
+                <span className="text-[11px] text-slate-400">Hour</span>
+                {Array.from({ length: SCHEDULE_HOURS }, (_, h) => (<span key={h} className="text-center">{h % 3 === 0 ? hourOf(plan, h) : ""}</span>))}
+              </div>
+              <GanttRow
+                label="Tariff"
+                cells={plan.prices.map((price, h) => ({
+                  className: price === cheapest ? "bg-emerald-500/40" : price === dearest ? "bg-rose-500/40" : "bg-amber-500/30",
+                  title: `${tariffPeriod(tariff, hourOf(plan, h)).label}: ${tariff.currency}${price}/kWh`,
+                }))}
+              />
+              <div className="text-slate-400 pt-1">Optimised</div>
+              {optimised ? (
+                plan.pumps.map((p) => (
+                  <GanttRow
+                    key={p.id}
+                    label={p.id}
+                    cells={optimised.running[p.id].map((on, h) => ({ className: on ? "bg-cyan-500" : "bg-slate-800", title: `${hourOf(plan, h)}:00 ${on ? "running" : "off"}` }))}
+                  />
+                ))
+              ) : (
+                <div className="text-rose-300">Demand cannot be met even with every pump running all day; check pump capacity and the demand forecast.</div>
+              )}
+              <div className="flex items-center text-slate-400 pt-1">
+                <span>Current, click an hour to change it</span>
+                {Object.keys(current).length > 0 && (
+                  <Button size="sm" variant="ghost" className="h-5 ml-auto text-[11px] text-slate-400" onClick={() => setCurrent({})}>All day</Button>
+                )}
+              </div>
+              {now && plan.pumps.map((p) => (
+                <GanttRow
+                  key={p.id}
+                  label={p.id}
+                  cells={now.running[p.id].map((on, h) => ({
+                    className: on ? "bg-slate-400" : "bg-slate-800",
+                    title: `${hourOf(plan, h)}:00 ${on ? "running" : "off"}`,
+                    onClick: () => toggle(p.id, hourOf(plan, h)),
+                  }))}
+                />
+              ))}
+            </div>
+
+            {plan.storage.area > 0 && (
+              <div className="h-44">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={levels}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="hour" tick={{ fontSize: 11 }} interval={2} />
+                    <YAxis tick={{ fontSize: 11 }} unit=" m" width={50} domain={[Math.floor(plan.storage.min), Math.ceil(plan.storage.max)]} />
+                    <Tooltip />
+                    <Legend />
+                    <ReferenceLine y={plan.storage.min} stroke="#f43f5e" strokeDasharray="4 3" />
+                    <ReferenceLine y={plan.storage.max} stroke="#f59e0b" strokeDasharray="4 3" />
+                    <Line dataKey="optimised" name="Tank level, optimised" stroke="#22d3ee" dot={false} isAnimationActive={false} />
+                    <Line dataKey="current" name="Tank level, current" stroke="#94a3b8" dot={false} isAnimationActive={false} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            )}
+            <div className="space-y-1">
+              {now && now.shortfall.length > 0 && (
+                <div className="text-rose-300">Current schedule runs storage dry at {now.shortfall.map((h) => `${hourOf(plan, h)}:00`).join(", ")}.</div>
+              )}
+              {optimised?.endsLow && (<div className="text-amber-300">No schedule refills storage by the end of the day; the optimised one leaves it lower than it starts.</div>)}
+              <div className="text-slate-500">
+                Pumps are taken at the flow and lift of the current steady state, at 75% efficiency; tank levels follow from pumped flow against demand hour by hour.
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,225 @@
+import React, { useMemo, useRef, useState } from "react";
+import { ClipboardList } from "lucide-react";
+import { Badge } from "./ui/badge";
+import { Button } from "./ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
+import { Input } from "./ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import {
+  ASSET_KINDS,
+  DEFAULT_PLAN,
+  demoAssetRegister,
+  parseAssetRegister,
+  renewalPlan,
+  renewalPlanCsv,
+  riskContext,
+  scoreAsset,
+  withAlertFailures,
+  type Asset,
+  type AssetKind,
+} from "../lib/assets";
+import { round1, type AlertItem, type GridCell } from "../lib/grid";
+import type { Network } from "../lib/network";
+
+// Riskiest assets listed by name.
+const SHOWN = 10;
+const LAKH = 100_000;
+
+const riskTone = (risk: number) =>
+  risk >= 16 ? "bg-rose-500/40 text-rose-100" : risk >= 9 ? "bg-amber-500/30 text-amber-100" : risk >= 4 ? "bg-yellow-500/10 text-slate-200" : "bg-emerald-500/15 text-slate-300";
+
+// ₹ in lakh or crore, as capital budgets are quoted.
+const money = (v: number) => (v >= 100 * LAKH ? `₹${round1(v / (100 * LAKH))} cr` : `₹${round1(v / LAKH)} lakh`);
+
+type Props = {
+  network: Network;
+  /** Live sections with the leak model's scores, which feed each asset's likelihood of failure. */
+  grid: GridCell[];
+  alerts: AlertItem[];
+  onSelectCell: (cellId: string) => void;
+};
+
+/**
+ * Asset register ranked by likelihood × consequence of failure, and the multi-year
+ * renewal programme that fits a yearly capital budget.
+ */
+export const RenewalPlanner: React.FC<Props> = ({ network, grid, alerts, onSelectCell }) => {
+  const [imported, setImported] = useState<{ name: string; assets: Asset[]; warnings: string[] } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [budget, setBudget] = useState(String(DEFAULT_PLAN.budget / LAKH));
+  const [years, setYears] = useState(DEFAULT_PLAN.years);
+  const [minRisk, setMinRisk] = useState(DEFAULT_PLAN.minRisk);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const year = new Date().getFullYear();
+  const base = useMemo(() => imported?.assets ?? demoAssetRegister(network), [imported, network]);
+  // Same register back while no alert carries a dig location, so the plan is not redone.
+  const register = useMemo(() => withAlertFailures(base, alerts), [base, alerts]);
+  // Leak risk moves with every telemetry tick; the plan works from a snapshot, refreshed on request.
+  const [snapshot, setSnapshot] = useState(() => ({ cells: grid, at: Date.now() }));
+  const ctx = useMemo(() => riskContext(network, snapshot.cells), [network, snapshot]);
+  const scored = useMemo(() => register.map((asset) => ({ asset, score: scoreAsset(asset, ctx, year) })).sort((a, b) => b.score.risk - a.score.risk), [register, ctx, year]);
+  const budgetValue = Number(budget) * LAKH;
+  const plan = useMemo(
+    () => (budgetValue > 0 ? renewalPlan(register, ctx, { startYear: year + 1, years, budget: budgetValue, minRisk }) : null),
+    [register, ctx, year, years, budgetValue, minRisk],
+  );
+
+  const counts = register.reduce<Partial<Record<AssetKind, number>>>((acc, a) => ({ ...acc, [a.kind]: (acc[a.kind] ?? 0) + 1 }), {});
+  // Assets by rounded likelihood (rows, 5 at the top) and consequence (columns).
+  const matrix = Array.from({ length: 5 }, () => new Array<number>(5).fill(0));
+  for (const { score } of scored) matrix[5 - Math.round(score.likelihood)][score.consequence - 1]++;
+
+  const importRegister = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const { assets, warnings } = parseAssetRegister(await file.text());
+      setImported({ name: file.name, assets, warnings });
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+  const exportPlan = () => {
+    if (!plan) return;
+    const url = URL.createObjectURL(new Blob([renewalPlanCsv(plan)], { type: "text/csv" }));
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `renewal-plan-${year + 1}-${year + years}.csv`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <Card className="bg-slate-900/50 border-slate-800">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-slate-100"><ClipboardList className="w-5 h-5"/> Asset Renewal</CardTitle>
+        <CardDescription>Pipes, valves, hydrants and meters ranked by likelihood × consequence of failure, and a capital plan within budget</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3 text-xs">
+        <div className="flex items-center gap-2 flex-wrap">
+          {(Object.keys(ASSET_KINDS) as AssetKind[]).map((k) => (
+            <Badge key={k} variant="secondary" className="bg-slate-800 text-slate-200">{ASSET_KINDS[k]} {(counts[k] ?? 0).toLocaleString()}</Badge>
+          ))}
+          <span className="text-slate-400">{imported ? `Imported from ${imported.name}` : "Demo register built from the network"}</span>
+          <input ref={fileInput} type="file" accept=".csv" className="hidden" onChange={(e) => { importRegister(e.target.files?.[0]); e.target.value = ""; }} />
+          <Button size="sm" variant="outline" className="h-7 ml-auto bg-slate-800 text-slate-100 border-slate-700" onClick={() => fileInput.current?.click()}>Import register</Button>
+          {imported && (<Button size="sm" variant="ghost" className="h-7 text-slate-400" onClick={() => setImported(null)}>Use demo register</Button>)}
+        </div>
+        {error && <div className="text-rose-300">{error}</div>}
+        {imported && imported.warnings.length > 0 && (
+          <div className="text-amber-300" title={imported.warnings.join("\n")}>
+            {imported.warnings.length} row{imported.warnings.length === 1 ? "" : "s"} skipped: {imported.warnings.slice(0, 2).join("; ")}
+          </div>
+        )}
+
+        <div className="grid md:grid-cols-[auto_1fr] gap-4">
+          <div>
+            <div className="text-slate-400 mb-1">Risk matrix, {year}</div>
+            <div className="grid grid-cols-[1.25rem_repeat(5,2.5rem)] gap-px text-center">
+              {matrix.map((row, r) => (
+                <React.Fragment key={r}>
+                  <span className="text-slate-500 self-center">{5 - r}</span>
+                  {row.map((n, c) => (
+                    <div key={c} className={`rounded-sm py-1.5 ${riskTone((5 - r) * (c + 1))}`}>{n || ""}</div>
+                  ))}
+                </React.Fragment>
+              ))}
+              <span />
+              {[1, 2, 3, 4, 5].map((c) => (<span key={c} className="text-slate-500">{c}</span>))}
+            </div>
+            <div className="text-[11px] text-slate-500 mt-1">Likelihood up, consequence across</div>
+            <div className="text-[11px] text-slate-500">
+              Leak risk as of {new Date(snapshot.at).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+              <Button size="sm" variant="ghost" className="h-5 px-1 text-[11px] text-slate-400" onClick={() => setSnapshot({ cells: grid, at: Date.now() })}>Refresh</Button>
+            </div>
+          </div>
+          <div className="overflow-x-auto">
+            <div className="text-slate-400 mb-1">Highest risk now</div>
+            <table className="w-full text-left">
+              <thead className="text-[11px] text-slate-400">
+                <tr><th className="py-1">Asset</th><th>Section</th><th>Age</th><th>Grade</th><th>Failures 10 y</th><th>L × C</th><th>Risk</th></tr>
+              </thead>
+              <tbody className="text-slate-200">
+                {scored.slice(0, SHOWN).map(({ asset: a, score: s }) => (
+                  <tr key={a.id} className="border-t border-slate-800">
+                    <td className="py-1" title={`${a.material}, ${a.diameter} mm${a.length ? `, ${a.length} m` : ""}`}>{a.id} <span className="text-slate-500">{a.kind}</span></td>
+                    <td>{a.cellId ? <button className="text-slate-300 hover:text-white" onClick={() => onSelectCell(a.cellId!)}>{a.cellId}</button> : "—"}</td>
+                    <td>{s.age} y</td>
+                    <td>{a.condition}</td>
+                    <td>{s.recentFailures}</td>
+                    <td>{s.likelihood} × {s.consequence}</td>
+                    <td><span className={`rounded px-1.5 ${riskTone(s.risk)}`}>{s.risk}</span></td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <div className="border-t border-slate-800 pt-3 space-y-2">
+          <div className="flex items-end gap-3 flex-wrap">
+            <label className="space-y-1">
+              <div className="text-[11px] text-slate-400">Budget per year, ₹ lakh</div>
+              <Input type="number" min={0} step="10" className="h-7 w-28 text-xs" value={budget} onChange={(e) => setBudget(e.target.value)} />
+            </label>
+            <label className="space-y-1">
+              <div className="text-[11px] text-slate-400">Horizon</div>
+              <Select value={String(years)} onValueChange={(v) => setYears(Number(v))}>
+                <SelectTrigger className="w-[110px] h-7 text-xs"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {[3, 5, 10, 15].map((n) => (<SelectItem key={n} value={String(n)}>{n} years</SelectItem>))}
+                </SelectContent>
+              </Select>
+            </label>
+            <label className="space-y-1">
+              <div className="text-[11px] text-slate-400">Renew from risk</div>
+              <Select value={String(minRisk)} onValueChange={(v) => setMinRisk(Number(v))}>
+                <SelectTrigger className="w-[110px] h-7 text-xs"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {[4, 6, 9, 12, 16].map((n) => (<SelectItem key={n} value={String(n)}>{n} of 25</SelectItem>))}
+                </SelectContent>
+              </Select>
+            </label>
+            <Button size="sm" variant="outline" className="h-7 ml-auto bg-slate-800 text-slate-100 border-slate-700" disabled={!plan} onClick={exportPlan}>Export CSV</Button>
+          </div>
+          {!plan ? (
+            <div className="text-slate-500">Set a yearly budget to plan renewals.</div>
+          ) : (
+            <>
+              <table className="w-full text-left">
+                <thead className="text-[11px] text-slate-400">
+                  <tr><th className="py-1">Year</th><th>Renewals</th><th>Mains</th><th>Spend</th><th>Riskiest renewed</th></tr>
+                </thead>
+                <tbody className="text-slate-200">
+                  {plan.years.map((y) => (
+                    <tr key={y.year} className="border-t border-slate-800">
+                      <td className="py-1">{y.year}</td>
+                      <td>{y.renewals.length}</td>
+                      <td>{round1(y.renewals.reduce((sum, r) => sum + (r.asset.length ?? 0), 0) / 1000)} km</td>
+                      <td>{money(y.spent)}</td>
+                      <td className="text-slate-400 truncate max-w-[220px]">{y.renewals.slice(0, 3).map((r) => r.asset.id).join(", ") || "—"}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <div className="text-slate-300">
+                Register risk in {year + years}: {Math.round(plan.riskWithout).toLocaleString()} without renewals, {Math.round(plan.riskWith).toLocaleString()} with this plan.
+              </div>
+              {plan.backlog.length > 0 ? (
+                <div className="text-amber-300">
+                  {plan.backlog.length.toLocaleString()} assets at risk {minRisk} or more stay unfunded ({money(plan.backlog.reduce((sum, b) => sum + b.cost, 0))}).
+                </div>
+              ) : (
+                <div className="text-emerald-300">Every asset at risk {minRisk} or more is renewed within the horizon.</div>
+              )}
+            </>
+          )}
+          <div className="text-slate-500">
+            Likelihood weighs age against service life, condition grade, recent failures and the leak model's current risk for the section. Costs are indicative unit rates unless the register gives one.
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
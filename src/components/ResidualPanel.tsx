@@ -0,0 +1,65 @@
+import React, { useState } from "react";
+import { Badge } from "./ui/badge";
+import { Input } from "./ui/input";
+import { MIN_RESIDUAL, type DecayOptions, type WaterQuality } from "../lib/quality-transport";
+
+// Sections listed by name before the rest are summarised.
+const SHOWN = 8;
+
+const FIELDS: Array<{ key: keyof DecayOptions; label: string; unit: string }> = [
+  { key: "sourceChlorine", label: "Dose at works", unit: "mg/L" },
+  { key: "bulk", label: "Bulk decay", unit: "1/day" },
+  { key: "wall", label: "Wall decay", unit: "m/day" },
+];
+
+type Props = {
+  /** Modelled residual and age per section; null until the network is solved. */
+  residuals: Map<string, WaterQuality> | null;
+  decay: DecayOptions;
+  onDecayChange: (decay: DecayOptions) => void;
+  onSelectCell: (cellId: string) => void;
+};
+
+/** Decay inputs for the chlorine and water-age layers, and the sections short of residual. */
+export const ResidualPanel: React.FC<Props> = ({ residuals, decay, onDecayChange, onSelectCell }) => {
+  // Drafts let a field be cleared while typing; only valid numbers reach the model.
+  const [draft, setDraft] = useState<Record<string, string>>({});
+  const change = (key: keyof DecayOptions, value: string) => {
+    setDraft((d) => ({ ...d, [key]: value }));
+    const v = Number(value);
+    if (value !== "" && Number.isFinite(v) && v >= 0) onDecayChange({ ...decay, [key]: v });
+  };
+  const low = [...(residuals ?? [])].filter(([, q]) => q.chlorine < MIN_RESIDUAL).sort((a, b) => a[1].chlorine - b[1].chlorine);
+
+  return (
+    <div className="rounded-xl border border-slate-800 p-3 bg-slate-900/60 space-y-2 text-xs">
+      <div className="flex items-end gap-3 flex-wrap">
+        <Badge className="bg-cyan-500/20 text-cyan-300">Chlorine decay</Badge>
+        {FIELDS.map((f) => (
+          <label key={f.key} className="space-y-1">
+            <div className="text-[11px] text-slate-400">{f.label}, {f.unit}</div>
+            <Input type="number" min={0} step="0.1" className="h-7 w-20 text-xs" value={draft[f.key] ?? String(decay[f.key])} onChange={(e) => change(f.key, e.target.value)} />
+          </label>
+        ))}
+      </div>
+      {!residuals ? (
+        <div className="text-slate-500">Waiting for the hydraulic solution…</div>
+      ) : low.length === 0 ? (
+        <div className="text-emerald-300">Every section keeps at least {MIN_RESIDUAL} mg/L at current flows.</div>
+      ) : (
+        <div className="space-y-1">
+          <div className="text-rose-300">{low.length} of {residuals.size} sections below {MIN_RESIDUAL} mg/L</div>
+          <div className="flex flex-wrap gap-1">
+            {low.slice(0, SHOWN).map(([cellId, q]) => (
+              <button key={cellId} className="rounded bg-rose-500/15 px-2 py-0.5 text-rose-200 hover:bg-rose-500/25" onClick={() => onSelectCell(cellId)}>
+                {cellId} {q.chlorine.toFixed(2)} mg/L • {Math.round(q.age)} h
+              </button>
+            ))}
+            {low.length > SHOWN && <span className="text-slate-500 self-center">and {low.length - SHOWN} more</span>}
+          </div>
+          <div className="text-slate-500">Booster chlorination upstream of these sections, or flushing where water stands, lifts the residual.</div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,96 @@
+import React, { useState } from "react";
+import { Badge } from "./ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "./ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { CALIBRATION_WARNING_DAYS, LOW_BATTERY, SENSOR_TYPES, type SensorHealth, type SensorType } from "../lib/sensors";
+
+export type SensorFilter = "all" | "offline" | "lowBattery" | "calibration";
+
+const FILTERS: Record<SensorFilter, { label: string; match: (s: SensorHealth) => boolean }> = {
+  all: { label: "All sensors", match: () => true },
+  offline: { label: "Offline", match: (s) => s.online === false },
+  lowBattery: { label: `Battery below ${LOW_BATTERY}%`, match: (s) => s.lowBattery },
+  calibration: { label: `Calibration overdue or due in ${CALIBRATION_WARNING_DAYS} days`, match: (s) => s.calibrationDays <= CALIBRATION_WARNING_DAYS },
+};
+
+// Rows rendered at once; large registries are narrowed with the filters.
+const SHOWN = 200;
+
+const ago = (iso: string) => {
+  const min = Math.round((Date.now() - Date.parse(iso)) / 60_000);
+  return min < 1 ? "just now" : min < 90 ? `${min} min ago` : new Date(iso).toLocaleString([], { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" });
+};
+
+type Props = {
+  sensors: SensorHealth[];
+  /** Open on this filter; null closes the dialog. */
+  filter: SensorFilter | null;
+  onFilterChange: (filter: SensorFilter | null) => void;
+  onSelectCell: (cellId: string) => void;
+};
+
+/** Registered loggers behind the System Health figures, filtered by what needs attention. */
+export const SensorDrilldown: React.FC<Props> = ({ sensors, filter, onFilterChange, onSelectCell }) => {
+  const [type, setType] = useState<SensorType | "any">("any");
+  const rows = filter ? sensors.filter((s) => FILTERS[filter].match(s) && (type === "any" || s.type === type)) : [];
+
+  return (
+    <Dialog open={filter !== null} onOpenChange={(open) => !open && onFilterChange(null)}>
+      <DialogContent className="sm:max-w-[860px] bg-slate-900 border-slate-800 text-slate-100">
+        <DialogHeader>
+          <DialogTitle>Sensor registry</DialogTitle>
+          <DialogDescription>Loggers by type and section, with battery, last report and calibration date</DialogDescription>
+        </DialogHeader>
+        <div className="flex items-center gap-2 text-xs">
+          <Select value={filter ?? "all"} onValueChange={(v) => onFilterChange(v as SensorFilter)}>
+            <SelectTrigger className="w-[280px] h-7 text-xs"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {(Object.keys(FILTERS) as SensorFilter[]).map((f) => (<SelectItem key={f} value={f}>{FILTERS[f].label}</SelectItem>))}
+            </SelectContent>
+          </Select>
+          <Select value={type} onValueChange={(v) => setType(v as SensorType | "any")}>
+            <SelectTrigger className="w-[200px] h-7 text-xs"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="any">Every type</SelectItem>
+              {(Object.keys(SENSOR_TYPES) as SensorType[]).map((t) => (<SelectItem key={t} value={t}>{SENSOR_TYPES[t]}</SelectItem>))}
+            </SelectContent>
+          </Select>
+          <span className="ml-auto text-slate-400">{rows.length} of {sensors.length}</span>
+        </div>
+        <div className="max-h-[420px] overflow-y-auto text-xs">
+          {rows.length === 0 ? (
+            <div className="text-emerald-300 py-4">No sensors match.</div>
+          ) : (
+            <table className="w-full text-left">
+              <thead className="text-[11px] text-slate-400 sticky top-0 bg-slate-900">
+                <tr><th className="py-1">Sensor</th><th>Type</th><th>Section</th><th>Firmware</th><th>Battery</th><th>Last seen</th><th>Calibration due</th></tr>
+              </thead>
+              <tbody className="text-slate-200">
+                {rows.slice(0, SHOWN).map((s) => (
+                  <tr key={s.id} className="border-t border-slate-800">
+                    <td className="py-1">
+                      {s.id}
+                      {s.online === false && <Badge className="ml-2 bg-rose-500/20 text-rose-300">Offline</Badge>}
+                    </td>
+                    <td>{SENSOR_TYPES[s.type]}</td>
+                    <td>
+                      <button className="text-slate-300 hover:text-white" onClick={() => { onSelectCell(s.cellId); onFilterChange(null); }}>{s.cellId}</button>
+                    </td>
+                    <td>{s.firmware}</td>
+                    <td className={s.lowBattery ? "text-rose-300" : undefined}>{Math.round(s.battery)}%</td>
+                    <td className={s.online === false ? "text-rose-300" : "text-slate-400"}>{s.lastSeen ? ago(s.lastSeen) : "Never"}</td>
+                    <td className={s.calibrationDays < 0 ? "text-rose-300" : s.calibrationDays <= CALIBRATION_WARNING_DAYS ? "text-amber-300" : undefined}>
+                      {s.calibrationDue}
+                      {s.calibrationDays < 0 && ` (${-s.calibrationDays} d overdue)`}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          {rows.length > SHOWN && <div className="text-slate-500 mt-1">and {rows.length - SHOWN} more; narrow by type to see them.</div>}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
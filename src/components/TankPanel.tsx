@@ -0,0 +1,78 @@
+import React from "react";
+import { Cylinder } from "lucide-react";
+import { Badge } from "./ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
+import { Progress } from "./ui/progress";
+import { round1 } from "../lib/grid";
+import { DRY_WARNING_HOURS, formatHours, type TankStatus } from "../lib/tanks";
+
+const condition = (t: TankStatus) => {
+  if (t.hoursToEmpty !== null && t.hoursToEmpty <= DRY_WARNING_HOURS) return { label: "Running dry", className: "bg-rose-500/20 text-rose-300" };
+  if (t.level <= t.lowLevel) return { label: "Low", className: "bg-amber-500/20 text-amber-300" };
+  if (t.level >= t.highLevel) return { label: "High", className: "bg-amber-500/20 text-amber-300" };
+  return { label: "Normal", className: "bg-emerald-500/20 text-emerald-300" };
+};
+
+type Props = {
+  tanks: TankStatus[];
+  onSelectCell?: (cellId: string) => void;
+};
+
+/** Fill, draw and time to empty for every storage tank in the network. */
+export const TankPanel: React.FC<Props> = ({ tanks, onSelectCell }) => (
+  <Card className="bg-slate-900/50 border-slate-800">
+    <CardHeader>
+      <CardTitle className="flex items-center gap-2 text-slate-100"><Cylinder className="w-5 h-5"/> Storage Tanks</CardTitle>
+      <CardDescription>Level, inflow and outflow, and hours to empty at the current draw</CardDescription>
+    </CardHeader>
+    <CardContent>
+      {tanks.length === 0 ? (
+        <div className="text-xs text-slate-500">The network has no storage tanks.</div>
+      ) : (
+        <div className="grid md:grid-cols-2 xl:grid-cols-3 gap-3 text-xs">
+          {tanks.map((t) => {
+            const c = condition(t);
+            return (
+              <div key={t.id} className="rounded-lg bg-slate-950/40 p-3 space-y-2">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-semibold text-slate-100">{t.id}</span>
+                  {t.cellId && (
+                    <button className="text-slate-400 hover:text-slate-200" onClick={() => onSelectCell?.(t.cellId!)}>{t.cellId}</button>
+                  )}
+                  <Badge className={`ml-auto ${c.className}`}>{c.label}</Badge>
+                </div>
+                <div>
+                  <div className="flex justify-between text-slate-300 mb-1">
+                    <span>{Math.round(t.fill * 100)}% full</span>
+                    <span>{round1(t.level)} m of {round1(t.maxLevel)} m • {Math.round(t.fill * t.capacity).toLocaleString()} / {Math.round(t.capacity).toLocaleString()} m³</span>
+                  </div>
+                  <Progress value={t.fill * 100} />
+                  <div className="flex justify-between text-[11px] text-slate-500 mt-1">
+                    <span>Low {round1(t.lowLevel)} m</span>
+                    <span>High {round1(t.highLevel)} m</span>
+                  </div>
+                </div>
+                <div className="flex justify-between text-slate-400">
+                  <span>In {round1(t.inflow)} L/s</span>
+                  <span>Out {round1(t.outflow)} L/s</span>
+                </div>
+                <div className="text-slate-200">
+                  {t.hoursToEmpty !== null
+                    ? t.hoursToEmpty === 0 ? "At minimum level" : `Empty in ${formatHours(t.hoursToEmpty)}`
+                    : t.hoursToFull !== null
+                      ? t.hoursToFull === 0 ? "Full" : `Filling, full in ${formatHours(t.hoursToFull)}`
+                      : "Holding steady"}
+                </div>
+                <div className="text-[11px] text-slate-500">
+                  {t.source === "telemetry" && t.timestamp
+                    ? `Level sensor, ${new Date(t.timestamp).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}`
+                    : "No level sensor reading; from the hydraulic model"}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </CardContent>
+  </Card>
+);
@@ -0,0 +1,115 @@
+import React, { useMemo, useState } from "react";
+import { Scale } from "lucide-react";
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { ALL_DISTRICTS, balanceTrend, type BillingMonth, type DistrictInfrastructure, type WaterBalance } from "../lib/water-balance";
+
+// "2026-09" -> "Sep 2026"
+const monthLabel = (month: string) => {
+  const [y, m] = month.split("-").map(Number);
+  return new Date(y, m - 1, 1).toLocaleDateString([], { month: "short", year: "numeric" });
+};
+
+const m3 = (v: number) => `${Math.round(v).toLocaleString()} m³`;
+
+// IWA balance rows, indented under the component they belong to.
+const ROWS: Array<{ label: string; value: (b: WaterBalance) => number; indent?: boolean; tone?: string }> = [
+  { label: "System input volume", value: (b) => b.systemInput },
+  { label: "Billed metered", value: (b) => b.billedMetered, indent: true },
+  { label: "Billed unmetered", value: (b) => b.billedUnmetered, indent: true },
+  { label: "Unbilled authorised", value: (b) => b.unbilledAuthorized, indent: true },
+  { label: "Apparent losses", value: (b) => b.apparentLosses, tone: "text-amber-300" },
+  { label: "Customer meter inaccuracy", value: (b) => b.meterInaccuracy, indent: true },
+  { label: "Unauthorised consumption", value: (b) => b.unauthorized, indent: true },
+  { label: "Real losses (leakage)", value: (b) => b.realLosses, tone: "text-rose-300" },
+  { label: "Non-revenue water", value: (b) => b.nrw, tone: "text-slate-100 font-semibold" },
+];
+
+type Props = {
+  /** The city's billing months, already limited to the districts on the map. */
+  months: BillingMonth[];
+  infrastructure: Map<string, DistrictInfrastructure>;
+};
+
+/** IWA water balance per district from monthly billing exports, with NRW % and ILI trended. */
+export const WaterBalancePanel: React.FC<Props> = ({ months, infrastructure }) => {
+  const districts = useMemo(() => [...new Set(months.flatMap((m) => Object.keys(m.districts)))].sort(), [months]);
+  const [picked, setDistrict] = useState(ALL_DISTRICTS);
+  // An imported model can take the picked district off the map.
+  const district = districts.includes(picked) ? picked : ALL_DISTRICTS;
+  const trend = useMemo(() => balanceTrend(months, district, infrastructure), [months, district, infrastructure]);
+  const [month, setMonth] = useState<string | null>(null);
+  const shown = trend.find((b) => b.month === month) ?? trend[trend.length - 1];
+  const chart = trend.map((b) => ({ month: monthLabel(b.month), nrw: Math.round(b.nrwPct * 10) / 10, ili: b.ili === null ? null : Math.round(b.ili * 10) / 10 }));
+
+  return (
+    <Card className="bg-slate-900/50 border-slate-800">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-slate-100"><Scale className="w-5 h-5"/> Water Balance & NRW</CardTitle>
+        <CardDescription>Bulk-meter input against billed consumption, IWA method</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {trend.length === 0 ? (
+          <div className="text-xs text-slate-500">No billing data for {district === ALL_DISTRICTS ? "the districts on this map" : district}. Add monthly exports under src/billing/ and name the folder in the city config's `billing`.</div>
+        ) : (
+          <div className="grid lg:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <div className="flex items-center gap-2">
+                <Select value={district} onValueChange={(d) => { setDistrict(d); setMonth(null); }}>
+                  <SelectTrigger className="w-[170px] h-7 text-xs"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {[ALL_DISTRICTS, ...districts].map((d) => (<SelectItem key={d} value={d}>{d}</SelectItem>))}
+                  </SelectContent>
+                </Select>
+                <span className="text-xs text-slate-400 ml-auto">NRW % and Infrastructure Leakage Index</span>
+              </div>
+              <div className="h-52">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={chart}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="month" tick={{ fontSize: 11 }} />
+                    <YAxis yAxisId="nrw" tick={{ fontSize: 11 }} unit="%" />
+                    <YAxis yAxisId="ili" orientation="right" tick={{ fontSize: 11 }} />
+                    <Tooltip />
+                    <Legend />
+                    <Line yAxisId="nrw" type="monotone" dataKey="nrw" name="NRW %" stroke="#f59e0b" />
+                    <Line yAxisId="ili" type="monotone" dataKey="ili" name="ILI" stroke="#22d3ee" connectNulls />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+            <div className="text-xs space-y-1">
+              <div className="flex items-center gap-2 mb-2">
+                <Select value={shown.month} onValueChange={setMonth}>
+                  <SelectTrigger className="w-[140px] h-7 text-xs"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {trend.map((b) => (<SelectItem key={b.month} value={b.month}>{monthLabel(b.month)}</SelectItem>))}
+                  </SelectContent>
+                </Select>
+                <span className="ml-auto text-slate-300">
+                  NRW <span className="text-amber-300 font-semibold">{shown.nrwPct.toFixed(1)}%</span>
+                  {" "}• ILI <span className="text-cyan-300 font-semibold">{shown.ili === null ? "—" : shown.ili.toFixed(1)}</span>
+                </span>
+              </div>
+              {ROWS.map((r) => (
+                <div key={r.label} className={`flex justify-between ${r.indent ? "pl-4 text-slate-400" : r.tone ?? "text-slate-200"}`}>
+                  <span>{r.label}</span>
+                  <span>
+                    {m3(r.value(shown))}
+                    <span className="text-slate-500"> • {shown.systemInput > 0 ? ((r.value(shown) / shown.systemInput) * 100).toFixed(1) : "0"}%</span>
+                  </span>
+                </div>
+              ))}
+              {shown.unavoidable !== null && (
+                <div className="text-[11px] text-slate-500 pt-1">
+                  Unavoidable real losses {Math.round(shown.unavoidable / 1000).toLocaleString()} m³/day at the network's steady-state pressure.
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
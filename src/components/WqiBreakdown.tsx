@@ -0,0 +1,49 @@
+import React from "react";
+import type { QualitySample } from "../lib/wqi";
+import { classifyWqi, computeWqi, explainWqi, QUALITY_PARAMS, WQI_METHODS, type WqiMethod } from "../lib/wqi";
+
+type Props = {
+  quality: QualitySample;
+  method: WqiMethod;
+};
+
+/** Per-parameter sub-indices behind a cell's WQI, with the reasons it is not rated higher. */
+export const WqiBreakdown: React.FC<Props> = ({ quality, method }) => {
+  const result = computeWqi(quality, method);
+  const rating = classifyWqi(result.wqi, method);
+  const reasons = explainWqi(result);
+  return (
+    <div className="space-y-2">
+      <div className="text-[11px] text-slate-400" title={WQI_METHODS[method].description}>
+        {WQI_METHODS[method].label}: <span className="text-slate-200 font-semibold">{Math.round(result.wqi)}</span> ({rating})
+      </div>
+      <div className="grid sm:grid-cols-2 gap-x-4 gap-y-1">
+        {result.subIndices.map((s) => {
+          const spec = QUALITY_PARAMS[s.param];
+          return (
+            <div key={s.param} className="text-xs">
+              <div className="flex items-center justify-between">
+                <span className={s.failing ? "text-rose-300" : "text-slate-300"}>{spec.label}</span>
+                <span className="text-slate-400">
+                  {Math.round(s.value * 100) / 100}{spec.unit && ` ${spec.unit}`} • {Math.round(s.score)}
+                </span>
+              </div>
+              <div className="h-1.5 rounded-full bg-slate-800 overflow-hidden" title={`Weight ${Math.round(s.weight * 100)}%`}>
+                <div
+                  className={`h-full ${s.failing ? "bg-rose-500" : s.score >= 70 ? "bg-emerald-400" : "bg-amber-400"}`}
+                  style={{ width: `${s.score}%` }}
+                />
+              </div>
+            </div>
+          );
+        })}
+      </div>
+      {reasons.length > 0 && (rating === "Poor" || rating === "Moderate") && (
+        <div className="text-xs text-slate-300">
+          <span className="text-slate-400">Why {rating}: </span>
+          {reasons.join("; ")}.
+        </div>
+      )}
+    </div>
+  );
+};
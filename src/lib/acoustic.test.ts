@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+
+import { correlateLeak, type Recording } from "./acoustic";
+import { seededRandom } from "./simulator";
+
+const FS = 8000;
+const LENGTH = 300;
+const SPEED = 1200;
+
+// Leak noise at `leakAt` m from sensor A, heard at each end after its travel time, plus sensor self-noise.
+const recordings = (leakAt: number, seconds = 4): { a: Recording; b: Recording } => {
+  const rand = seededRandom(7);
+  const count = seconds * FS;
+  const lagA = Math.round((leakAt / SPEED) * FS);
+  const lagB = Math.round(((LENGTH - leakAt) / SPEED) * FS);
+  const source = Float32Array.from({ length: count + Math.max(lagA, lagB) }, () => rand() * 2 - 1);
+  const hear = (lag: number) => Float32Array.from({ length: count }, (_, i) => source[Math.max(lagA, lagB) - lag + i] + 0.3 * (rand() * 2 - 1));
+  return { a: { sampleRate: FS, samples: hear(lagA) }, b: { sampleRate: FS, samples: hear(lagB) } };
+};
+
+describe("correlateLeak", () => {
+  it.each([40, 150, 255])("puts a leak %i m from sensor A within the stated uncertainty", (leakAt) => {
+    const r = correlateLeak({ ...recordings(leakAt), length: LENGTH, speed: SPEED, band: [200, 1500] });
+    expect(Math.abs(r.distance - leakAt)).toBeLessThanOrEqual(r.uncertainty + SPEED / FS);
+    expect(r.prominence).toBeGreaterThan(8);
+  });
+
+  it("rejects recordings too short for the pipe", () => {
+    expect(() => correlateLeak({ ...recordings(150, 0.1), length: LENGTH, speed: SPEED, band: [200, 1500] })).toThrow(/too short/);
+  });
+});
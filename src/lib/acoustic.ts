@@ -0,0 +1,292 @@
+import { alertIdSequence, round1, type AlertItem } from "./grid";
+import { linkCells, type Network, type Pipe } from "./network";
+
+// ------------------------- RECORDINGS ------------------------- //
+
+/** A mono recording from one hydrophone or noise logger, samples scaled to −1…1. */
+export type Recording = { sampleRate: number; samples: Float32Array };
+
+const text = (view: DataView, at: number, length: number) =>
+  String.fromCharCode(...Array.from({ length }, (_, i) => view.getUint8(at + i)));
+
+/**
+ * Reads a PCM (8/16/24/32-bit) or 32-bit float WAV file. Multi-channel files are mixed
+ * down to mono. Throws with a readable message for anything else.
+ */
+export const parseWav = (name: string, buffer: ArrayBuffer): Recording => {
+  const view = new DataView(buffer);
+  if (buffer.byteLength < 12 || text(view, 0, 4) !== "RIFF" || text(view, 8, 4) !== "WAVE") {
+    throw new Error(`Recording ${name}: not a WAV file`);
+  }
+  let format: { code: number; channels: number; sampleRate: number; bits: number } | null = null;
+  for (let at = 12; at + 8 <= buffer.byteLength; ) {
+    const id = text(view, at, 4);
+    const size = view.getUint32(at + 4, true);
+    const body = at + 8;
+    if (id === "fmt ") {
+      format = { code: view.getUint16(body, true), channels: view.getUint16(body + 2, true), sampleRate: view.getUint32(body + 4, true), bits: view.getUint16(body + 14, true) };
+      // WAVE_FORMAT_EXTENSIBLE keeps the real format code at the start of the sub-format GUID.
+      if (format.code === 0xfffe && size >= 26) format.code = view.getUint16(body + 24, true);
+    } else if (id === "data") {
+      if (!format) throw new Error(`Recording ${name}: data before format chunk`);
+      const { code, channels, sampleRate, bits } = format;
+      const float = code === 3 && bits === 32;
+      if (!float && !(code === 1 && [8, 16, 24, 32].includes(bits))) {
+        throw new Error(`Recording ${name}: unsupported encoding (format ${code}, ${bits}-bit)`);
+      }
+      const bytes = bits / 8;
+      const frames = Math.floor(Math.min(size, buffer.byteLength - body) / (bytes * channels));
+      const read = (p: number) =>
+        float ? view.getFloat32(p, true)
+        : bits === 8 ? (view.getUint8(p) - 128) / 128
+        : bits === 16 ? view.getInt16(p, true) / 32768
+        : bits === 24 ? ((view.getUint8(p) | (view.getUint8(p + 1) << 8) | (view.getInt8(p + 2) << 16)) / 8388608)
+        : view.getInt32(p, true) / 2147483648;
+      const samples = new Float32Array(frames);
+      for (let f = 0; f < frames; f++) {
+        let sum = 0;
+        for (let c = 0; c < channels; c++) sum += read(body + (f * channels + c) * bytes);
+        samples[f] = sum / channels;
+      }
+      return { sampleRate, samples };
+    }
+    at = body + size + (size % 2); // chunks are word-aligned
+  }
+  throw new Error(`Recording ${name}: no audio data`);
+};
+
+// ------------------------- PIPE ACOUSTICS ------------------------- //
+
+// Typical speed of leak noise along a water-filled main, m/s. Plastic walls flex, so
+// sound travels far slower than in metal; measure on site for anything critical.
+const WAVE_SPEEDS: Record<string, number> = { DI: 1250, CI: 1200, STEEL: 1300, AC: 950, PVC: 450, HDPE: 350, PE: 350, MDPE: 350 };
+const DEFAULT_WAVE_SPEED = 1000;
+
+const PLASTIC = new Set(["PVC", "HDPE", "PE", "MDPE"]);
+
+/** Leak-noise propagation speed for a pipe material, m/s. */
+export const waveSpeed = (material: string) => WAVE_SPEEDS[material.toUpperCase()] ?? DEFAULT_WAVE_SPEED;
+
+/** Frequency band leak noise carries in, Hz: plastic pipes damp the higher frequencies. */
+export const leakBand = (material: string): [number, number] => (PLASTIC.has(material.toUpperCase()) ? [50, 600] : [200, 1500]);
+
+// ------------------------- CORRELATION ------------------------- //
+
+// In-place iterative radix-2 FFT; `inverse` leaves the 1/N scaling to the caller.
+const fft = (re: Float64Array, im: Float64Array, inverse = false) => {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let len = 2; len <= n; len <<= 1) {
+    const angle = ((inverse ? 2 : -2) * Math.PI) / len;
+    const wr = Math.cos(angle);
+    const wi = Math.sin(angle);
+    for (let i = 0; i < n; i += len) {
+      let cr = 1;
+      let ci = 0;
+      for (let k = 0; k < len / 2; k++) {
+        const a = i + k;
+        const b = a + len / 2;
+        const tr = re[b] * cr - im[b] * ci;
+        const ti = re[b] * ci + im[b] * cr;
+        re[b] = re[a] - tr;
+        im[b] = im[a] - ti;
+        re[a] += tr;
+        im[a] += ti;
+        [cr, ci] = [cr * wr - ci * wi, cr * wi + ci * wr];
+      }
+    }
+  }
+};
+
+// Longest stretch correlated; 2^19 samples is about 12 s at 44.1 kHz.
+const MAX_SAMPLES = 1 << 19;
+// Points kept for plotting the correlation along the pipe.
+const CURVE_POINTS = 400;
+// How far off the assumed wave speed may be, for the uncertainty estimate.
+const SPEED_TOLERANCE = 0.05;
+
+export type CorrelationOptions = {
+  /** Sensor A, at the pipe's `from` end. */
+  a: Recording;
+  /** Sensor B, at the pipe's `to` end. */
+  b: Recording;
+  /** Pipe length between the sensors, m. */
+  length: number;
+  /** Leak-noise speed, m/s. */
+  speed: number;
+  /** Pass band, Hz. */
+  band: [number, number];
+};
+
+export type CorrelationResult = {
+  /** Arrival at A minus arrival at B, s. Negative when the leak is nearer A. */
+  delaySec: number;
+  /** Estimated leak position, m from sensor A. */
+  distance: number;
+  /** ± m, from the sample spacing and a 5% error in wave speed. */
+  uncertainty: number;
+  /** Normalised correlation at the peak, 0–1. */
+  peak: number;
+  /** Peak over the median of the correlation across the pipe; below ~8 the peak may be noise. */
+  prominence: number;
+  /** Correlation against position along the pipe, for plotting. */
+  curve: Array<{ distance: number; r: number }>;
+};
+
+/**
+ * Cross-correlates two synchronised recordings from either end of a pipe. Leak noise
+ * reaches the nearer sensor first, so the lag of the correlation peak gives the position:
+ * distance from A = (length + speed × delay) / 2. Only lags a leak on the pipe could
+ * produce are searched, and the signals are band-limited to where leak noise carries.
+ */
+export const correlateLeak = ({ a, b, length, speed, band }: CorrelationOptions): CorrelationResult => {
+  if (a.sampleRate !== b.sampleRate) throw new Error(`Recordings differ in sample rate (${a.sampleRate} vs ${b.sampleRate} Hz)`);
+  if (!(length > 0) || !(speed > 0)) throw new Error("Pipe length and wave speed must be positive");
+  const fs = a.sampleRate;
+  const maxLag = Math.ceil((length / speed) * fs);
+  const count = Math.min(a.samples.length, b.samples.length, MAX_SAMPLES);
+  if (count < 4 * maxLag || count < 1024) throw new Error(`Recordings are too short for a ${length} m pipe; record at least ${Math.ceil((4 * length) / speed + 1)} s`);
+
+  // Zero-padded to twice the length so the circular correlation has no wrap-around.
+  let n = 1;
+  while (n < 2 * count) n <<= 1;
+  const spectrum = (rec: Recording) => {
+    const re = new Float64Array(n);
+    const im = new Float64Array(n);
+    let mean = 0;
+    for (let i = 0; i < count; i++) mean += rec.samples[i];
+    mean /= count;
+    for (let i = 0; i < count; i++) re[i] = rec.samples[i] - mean;
+    fft(re, im);
+    return { re, im };
+  };
+  const A = spectrum(a);
+  const B = spectrum(b);
+
+  // Cross spectrum A·conj(B) in the pass band (both signs of frequency); energies for normalising.
+  const lo = Math.floor((band[0] / fs) * n);
+  const hi = Math.min(n / 2, Math.ceil((band[1] / fs) * n));
+  const re = new Float64Array(n);
+  const im = new Float64Array(n);
+  let energyA = 0;
+  let energyB = 0;
+  for (let k = 0; k < n; k++) {
+    const f = k <= n / 2 ? k : n - k;
+    if (f < lo || f > hi) continue;
+    re[k] = A.re[k] * B.re[k] + A.im[k] * B.im[k];
+    im[k] = A.im[k] * B.re[k] - A.re[k] * B.im[k];
+    energyA += A.re[k] ** 2 + A.im[k] ** 2;
+    energyB += B.re[k] ** 2 + B.im[k] ** 2;
+  }
+  fft(re, im, true);
+  // The inverse transform's 1/n and Parseval's 1/n on each energy cancel.
+  const norm = Math.sqrt(energyA * energyB) || 1;
+  const r = (lag: number) => re[(lag + n) % n] / norm;
+
+  let best = -maxLag;
+  for (let lag = -maxLag; lag <= maxLag; lag++) if (r(lag) > r(best)) best = lag;
+  // Parabola through the peak and its neighbours for a sub-sample lag.
+  const [y0, y1, y2] = [r(best - 1), r(best), r(best + 1)];
+  const denom = y0 - 2 * y1 + y2;
+  const offset = best > -maxLag && best < maxLag && denom < 0 ? (0.5 * (y0 - y2)) / denom : 0;
+  const delaySec = (best + offset) / fs;
+
+  const position = (sec: number) => Math.min(length, Math.max(0, (length + speed * sec) / 2));
+  const magnitudes: number[] = [];
+  const curve: CorrelationResult["curve"] = [];
+  const stride = Math.max(1, Math.floor((2 * maxLag + 1) / CURVE_POINTS));
+  for (let lag = -maxLag; lag <= maxLag; lag++) {
+    magnitudes.push(Math.abs(r(lag)));
+    if ((lag + maxLag) % stride === 0) curve.push({ distance: round1(position(lag / fs)), r: Math.round(r(lag) * 1000) / 1000 });
+  }
+  magnitudes.sort((x, y) => x - y);
+  const median = magnitudes[magnitudes.length >> 1] || 1e-12;
+
+  return {
+    delaySec,
+    distance: position(delaySec),
+    uncertainty: speed / (4 * fs) + (SPEED_TOLERANCE * speed * Math.abs(delaySec)) / 2,
+    peak: Math.max(0, y1),
+    prominence: y1 / median,
+    curve,
+  };
+};
+
+// ------------------------- ALERTS ------------------------- //
+
+/** Where along a pipe the correlator puts a leak: the crew's dig location. */
+export type LeakLocation = {
+  linkId: string;
+  /** Node the distance is measured from (sensor A, the pipe's `from` end). */
+  from: string;
+  /** m from `from` along the pipe. */
+  distance: number;
+  /** ± m. */
+  uncertainty: number;
+  length: number;
+};
+
+// Prominence below which a correlation is reported as a weak fix.
+const CLEAR_PROMINENCE = 8;
+
+/** True when the correlation peak hardly stands out from the noise, so the position is a guess. */
+export const isWeakFix = (result: CorrelationResult) => result.prominence < CLEAR_PROMINENCE;
+
+export const leakLocation = (pipe: Pipe, result: CorrelationResult): LeakLocation => ({
+  linkId: pipe.id,
+  from: pipe.from,
+  distance: round1(result.distance),
+  uncertainty: Math.max(0.5, round1(result.uncertainty)),
+  length: pipe.length,
+});
+
+/** e.g. "Dig 37.2 m (±1.4 m) from J-C4-3 along P-C4-3-C4-4." */
+export const describeLocation = (loc: LeakLocation) =>
+  `Dig ${loc.distance} m (±${loc.uncertainty} m) from ${loc.from} along ${loc.linkId}.`;
+
+/**
+ * Puts an acoustic fix on the open `Leak Suspected` alert for the pipe, or failing that
+ * for the cell nearest the leak, and opens a new alert when there is neither.
+ * Returns the whole updated list.
+ */
+export const locateLeakAlert = (
+  existing: AlertItem[],
+  net: Network,
+  pipe: Pipe,
+  result: CorrelationResult,
+  now = Date.now(),
+): AlertItem[] => {
+  const location = leakLocation(pipe, result);
+  const nearer = result.distance <= pipe.length / 2 ? pipe.from : pipe.to;
+  const cellId = net.nodes.find((n) => n.id === nearer)?.cellId ?? linkCells(net, pipe)[0];
+  const weak = isWeakFix(result);
+  const note = `Acoustic fix on ${pipe.id}${weak ? " (weak correlation)" : ""}: ${describeLocation(location)}`;
+  const open = existing.filter((a) => a.type === "Leak Suspected" && a.status !== "resolved");
+  const target = open.find((a) => a.location?.linkId === pipe.id) ?? open.find((a) => !a.location && a.cellId === cellId);
+  if (target) {
+    return existing.map((a) =>
+      a === target ? { ...a, location, description: `${a.description.replace(/\s*Acoustic fix on .*$/, "")} ${note}`.trim() } : a,
+    );
+  }
+  if (!cellId) return existing;
+  const alert: AlertItem = {
+    id: alertIdSequence(existing)(),
+    type: "Leak Suspected",
+    severity: weak ? "medium" : "high",
+    cellId,
+    timestamp: new Date(now).toISOString(),
+    description: note,
+    status: "open",
+    rule: `acoustic:${pipe.id}`,
+    location,
+  };
+  return [alert, ...existing];
+};
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+
+import { createAnomalyPipeline, DEFAULT_DETECTORS, type Detection } from "./anomaly";
+import { runScenario, scenarios } from "./simulator";
+import { withComputedWqi } from "./telemetry";
+import { testCells } from "./test-cells";
+import { DEFAULT_WQI_METHOD } from "./wqi";
+
+const cells = testCells();
+
+// Replays a scenario through the default detectors a step at a time, as the console does.
+const detect = (id: string, durationSec = 1800): Detection[] => {
+  const scenario = scenarios.find((s) => s.id === id)!;
+  const pipeline = createAnomalyPipeline(DEFAULT_DETECTORS);
+  const readings = runScenario(cells, scenario, durationSec);
+  const out: Detection[] = [];
+  for (let i = 0; i < readings.length; i += cells.length) out.push(...pipeline.process(withComputedWqi(readings.slice(i, i + cells.length), DEFAULT_WQI_METHOD)));
+  return out;
+};
+
+describe("default detectors on the bundled scenarios", () => {
+  it.each([
+    ["main-burst", "Leak Suspected", ["C4-4"]],
+    ["contamination-plume", "Quality Alert", ["C4-1", "C4-2", "C4-3", "C4-4", "C4-5", "C4-6"]],
+    ["valve-closure", "Pressure Drop", ["C5-1", "C5-2", "C6-1", "C6-2"]],
+    ["meter-tamper", "Unauthorized Usage", ["C2-5"]],
+  ])("%s raises %s in the affected cells once the event starts", (id, type, affected) => {
+    const start = Date.parse("2025-09-01T00:00:00Z") + scenarios.find((s) => s.id === id)!.events[0].at * 1000;
+    const found = detect(id);
+    expect(found.some((d) => d.type === type && affected.includes(d.cellId))).toBe(true);
+    expect(found.every((d) => Date.parse(d.timestamp) >= start)).toBe(true);
+  });
+
+  it("raises nothing when only the feed drops out", () => {
+    expect(detect("sensor-outage")).toEqual([]);
+  });
+});
+
+describe("detector warm-up", () => {
+  const burst = DEFAULT_DETECTORS.filter((d) => d.id === "burst");
+  // One cell at 120 L/min and 45 psi for `steady` readings, then a burst: flow up half, pressure down a quarter.
+  const feed = (steady: number) =>
+    Array.from({ length: steady + 1 }, (_, i) => ({
+      cellId: "C1-1",
+      timestamp: new Date(Date.parse("2025-09-01T00:00:00Z") + i * 5000).toISOString(),
+      flow: i < steady ? 120 : 180,
+      pressure: i < steady ? 45 : 34,
+    }));
+
+  it("keeps the burst detector quiet for its first minSamples readings, past its 15-reading window", () => {
+    expect(createAnomalyPipeline(burst).process(feed(30))).toEqual([]);
+    expect(createAnomalyPipeline(burst).process(feed(60)).map((d) => d.type)).toEqual(["Leak Suspected"]);
+  });
+});
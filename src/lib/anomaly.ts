@@ -0,0 +1,445 @@
+import { alertIdSequence, clamp, round1, type AlertItem } from "./grid";
+import type { TelemetryReading } from "./telemetry";
+
+// ------------------------- DETECTOR CONFIG ------------------------- //
+
+export type DetectorMetric = "pressure" | "flow" | "wqi";
+
+type DetectorBase = {
+  id: string;
+  label: string;
+  alertType: AlertItem["type"];
+  severity: AlertItem["severity"];
+  /** Which way is anomalous. Defaults: pressure and WQI down, flow up. */
+  direction?: "up" | "down" | "both";
+  /** Readings a cell needs before the detector judges it. Default 60. */
+  minSamples?: number;
+  /** Quiet period per cell and alert type after an alert, in seconds. Default 900. */
+  cooldownSec?: number;
+  enabled?: boolean;
+};
+
+/** Thresholds are in standard deviations of the cell's own in-control readings. */
+type DetectorParams =
+  | { kind: "zscore"; metric: DetectorMetric; window: number; threshold: number }
+  | { kind: "ewma"; metric: DetectorMetric; lambda: number; limit: number }
+  | { kind: "cusum"; metric: DetectorMetric; slack: number; limit: number }
+  | { kind: "seasonal"; metric: DetectorMetric; bucketMin: number; threshold: number }
+  | { kind: "burst"; window: number; flowRise: number; pressureDrop: number };
+
+/** Per-cell overrides of any numeric setting, or `enabled: false` to mute a cell. */
+export type DetectorTuning = Partial<Record<"threshold" | "limit" | "slack" | "lambda" | "window" | "bucketMin" | "flowRise" | "pressureDrop" | "minSamples" | "cooldownSec", number>> & {
+  enabled?: boolean;
+};
+
+export type DetectorSpec = DetectorBase & DetectorParams & { cells?: Record<string, DetectorTuning> };
+
+/** A city config entry: changes to a default detector by id, or a complete new one. */
+export type DetectorOverride = Partial<DetectorSpec> & { id: string };
+
+export type DetectorKind = DetectorSpec["kind"];
+
+const KINDS: DetectorKind[] = ["zscore", "ewma", "cusum", "seasonal", "burst"];
+
+export const DEFAULT_DETECTORS: DetectorSpec[] = [
+  {
+    id: "burst",
+    label: "Flow spike with pressure dip",
+    kind: "burst",
+    window: 15,
+    flowRise: 0.3,
+    pressureDrop: 0.15,
+    alertType: "Leak Suspected",
+    severity: "high",
+  },
+  {
+    id: "pressure-zscore",
+    label: "Pressure z-score",
+    kind: "zscore",
+    metric: "pressure",
+    window: 60,
+    threshold: 5,
+    alertType: "Pressure Drop",
+    severity: "medium",
+  },
+  {
+    id: "flow-ewma",
+    label: "Flow EWMA",
+    kind: "ewma",
+    metric: "flow",
+    lambda: 0.2,
+    limit: 5,
+    alertType: "Leak Suspected",
+    severity: "low",
+  },
+  {
+    id: "flow-cusum",
+    label: "Flow CUSUM (under-reading)",
+    kind: "cusum",
+    metric: "flow",
+    direction: "down",
+    slack: 0.5,
+    limit: 10,
+    alertType: "Unauthorized Usage",
+    severity: "medium",
+  },
+  {
+    id: "flow-seasonal",
+    label: "Flow vs. hour of day",
+    kind: "seasonal",
+    metric: "flow",
+    bucketMin: 60,
+    threshold: 5,
+    alertType: "Unauthorized Usage",
+    severity: "low",
+  },
+  {
+    id: "wqi-ewma",
+    label: "WQI EWMA",
+    kind: "ewma",
+    metric: "wqi",
+    lambda: 0.1,
+    limit: 3.5,
+    alertType: "Quality Alert",
+    severity: "medium",
+  },
+];
+
+/**
+ * Applies overrides by id on top of the defaults; an unknown id adds a detector and
+ * must be complete. Throws with a readable message.
+ */
+export const resolveDetectors = (overrides: DetectorOverride[] = []): DetectorSpec[] => {
+  const out = DEFAULT_DETECTORS.map((d) => ({ ...d }));
+  for (const o of overrides) {
+    const i = out.findIndex((d) => d.id === o.id);
+    if (i >= 0) {
+      out[i] = { ...out[i], ...o } as DetectorSpec;
+      continue;
+    }
+    if (!o.kind || !KINDS.includes(o.kind)) throw new Error(`Detector ${o.id}: unknown kind "${o.kind}"`);
+    if (!o.alertType || !o.severity) throw new Error(`Detector ${o.id}: "alertType" and "severity" are required`);
+    out.push({ label: o.id, ...o } as DetectorSpec);
+  }
+  return out;
+};
+
+// ------------------------- DETECTORS ------------------------- //
+
+/** What a detector reports when a reading is out of control. */
+type Finding = { score: number; description: string };
+
+type Detector = {
+  /** Judges one reading; returns a finding or null. Updates the detector's state. */
+  next: (reading: TelemetryReading, t: number) => Finding | null;
+};
+
+// Smallest spread assumed per metric, so a flat-lining sensor does not turn noise into 10σ.
+const MIN_SD: Record<DetectorMetric, number> = { pressure: 0.5, flow: 2, wqi: 1 };
+
+const UNITS: Record<DetectorMetric, string> = { pressure: " psi", flow: " L/min", wqi: "" };
+
+const label = (metric: DetectorMetric) => ({ pressure: "Pressure", flow: "Flow", wqi: "WQI" })[metric];
+
+const DEFAULT_DIRECTION: Record<DetectorMetric, "up" | "down"> = { pressure: "down", flow: "up", wqi: "down" };
+
+/**
+ * Running mean / variance of a cell's in-control readings. Plain averages until
+ * `span` readings are in, then exponentially weighted over about `span` readings so
+ * the baseline follows slow daily swings. Also tracks lag-1 autocorrelation: sensor
+ * readings a few seconds apart are far from independent, and charts that assume they
+ * are raise alarms on ordinary wander.
+ */
+// Readings a baseline averages over once warm: about an hour of 5 s telemetry.
+const BASELINE_SPAN = 720;
+
+const baseline = (span = BASELINE_SPAN) => {
+  let n = 0;
+  let mean = 0;
+  let variance = 0;
+  let lag1 = 0;
+  let prev: number | null = null;
+  return {
+    get n() {
+      return n;
+    },
+    get mean() {
+      return mean;
+    },
+    sd: (floor: number) => Math.max(floor, Math.sqrt(variance)),
+    /** Lag-1 autocorrelation, 0–0.95. */
+    get phi() {
+      return variance > 0 ? clamp(lag1 / variance, 0, 0.95) : 0;
+    },
+    /** Marks a reading left out, so the next push does not pair with a stale one. */
+    skip: () => {
+      prev = null;
+    },
+    push: (x: number) => {
+      n++;
+      const w = Math.max(1 / n, 1 / span);
+      const d = x - mean;
+      mean += w * d;
+      variance = (1 - w) * (variance + w * d * d);
+      if (prev !== null) lag1 = (1 - w) * lag1 + w * (x - mean) * (prev - mean);
+      prev = x;
+    },
+  };
+};
+
+// Signed deviation in the anomalous direction; negative means "not anomalous this way".
+const signed = (z: number, direction: "up" | "down" | "both") => (direction === "both" ? Math.abs(z) : direction === "up" ? z : -z);
+
+const side = (z: number) => (z < 0 ? "below" : "above");
+
+const fmt = (v: number, metric: DetectorMetric) => `${round1(v)}${UNITS[metric]}`;
+
+const createDetector = (spec: DetectorSpec): Detector => {
+  const minSamples = spec.minSamples ?? 60;
+  if (spec.kind === "burst") {
+    const flows: number[] = [];
+    const pressures: number[] = [];
+    // Readings learned so far; the window itself only keeps the last `window`.
+    let learned = 0;
+    const avg = (xs: number[]) => xs.reduce((s, x) => s + x, 0) / xs.length;
+    return {
+      next: (r) => {
+        if (r.flow === undefined || r.pressure === undefined) return null;
+        let finding: Finding | null = null;
+        if (learned >= minSamples) {
+          const f0 = avg(flows);
+          const p0 = avg(pressures);
+          const rise = f0 > 0 ? (r.flow - f0) / f0 : 0;
+          const drop = p0 > 0 ? (p0 - r.pressure) / p0 : 0;
+          if (rise >= spec.flowRise && drop >= spec.pressureDrop) {
+            finding = {
+              score: Math.min(rise / spec.flowRise, drop / spec.pressureDrop),
+              description: `Flow up ${Math.round(rise * 100)}% to ${fmt(r.flow, "flow")} while pressure fell ${Math.round(drop * 100)}% to ${fmt(r.pressure, "pressure")}.`,
+            };
+          }
+        }
+        // Keep the reference window free of the event itself.
+        if (!finding) {
+          learned++;
+          flows.push(r.flow);
+          pressures.push(r.pressure);
+          if (flows.length > spec.window) {
+            flows.shift();
+            pressures.shift();
+          }
+        }
+        return finding;
+      },
+    };
+  }
+
+  const { metric } = spec;
+  const direction = spec.direction ?? DEFAULT_DIRECTION[metric];
+  const floor = MIN_SD[metric];
+
+  switch (spec.kind) {
+    case "zscore": {
+      const window: number[] = [];
+      let learned = 0;
+      return {
+        next: (r) => {
+          const x = r[metric];
+          if (x === undefined) return null;
+          let finding: Finding | null = null;
+          if (learned >= minSamples && window.length >= 2) {
+            const mean = window.reduce((s, v) => s + v, 0) / window.length;
+            const sd = Math.max(floor, Math.sqrt(window.reduce((s, v) => s + (v - mean) ** 2, 0) / (window.length - 1)));
+            const z = (x - mean) / sd;
+            if (signed(z, direction) >= spec.threshold) {
+              finding = { score: Math.abs(z) / spec.threshold, description: `${label(metric)} ${fmt(x, metric)}, ${round1(Math.abs(z))}σ ${side(z)} its recent mean of ${fmt(mean, metric)}.` };
+            }
+          }
+          if (!finding) {
+            learned++;
+            window.push(x);
+            if (window.length > spec.window) window.shift();
+          }
+          return finding;
+        },
+      };
+    }
+    case "ewma": {
+      const s = baseline();
+      let z: number | null = null;
+      return {
+        next: (r) => {
+          const x = r[metric];
+          if (x === undefined) return null;
+          if (s.n < minSamples) {
+            s.push(x);
+            return null;
+          }
+          z = spec.lambda * x + (1 - spec.lambda) * (z ?? s.mean);
+          // Steady-state spread of the EWMA statistic for an AR(1) series.
+          const k = s.phi * (1 - spec.lambda);
+          const sdZ = s.sd(floor) * Math.sqrt((spec.lambda / (2 - spec.lambda)) * ((1 + k) / (1 - k)));
+          const dev = (z - s.mean) / sdZ;
+          if (signed(dev, direction) >= spec.limit) {
+            const smoothed = z;
+            z = null; // restart the chart after an alarm
+            return { score: Math.abs(dev) / spec.limit, description: `${label(metric)} trending ${side(dev)} normal: smoothed ${fmt(smoothed, metric)} against ${fmt(s.mean, metric)}.` };
+          }
+          s.push(x);
+          return null;
+        },
+      };
+    }
+    case "cusum": {
+      const s = baseline();
+      let hi = 0;
+      let lo = 0;
+      return {
+        next: (r) => {
+          const x = r[metric];
+          if (x === undefined) return null;
+          if (s.n < minSamples) {
+            s.push(x);
+            return null;
+          }
+          // Widen the spread by the long-run variance factor so correlated runs do not add up as fast.
+          const z = (x - s.mean) / (s.sd(floor) * Math.sqrt((1 + s.phi) / (1 - s.phi)));
+          hi = Math.max(0, hi + z - spec.slack);
+          lo = Math.max(0, lo - z - spec.slack);
+          const up = direction !== "down" && hi >= spec.limit;
+          const down = direction !== "up" && lo >= spec.limit;
+          if (up || down) {
+            const sum = up ? hi : lo;
+            hi = 0;
+            lo = 0;
+            return { score: sum / spec.limit, description: `${label(metric)} persistently ${up ? "above" : "below"} ${fmt(s.mean, metric)} (CUSUM ${round1(sum)}); now ${fmt(x, metric)}.` };
+          }
+          // Keep learning until a shift is half-way to an alarm, so it is not absorbed into the baseline.
+          if (Math.max(hi, lo) < spec.limit / 2) s.push(x);
+          else s.skip();
+          return null;
+        },
+      };
+    }
+    case "seasonal": {
+      const buckets = new Map<number, ReturnType<typeof baseline>>();
+      const bucketMs = spec.bucketMin * 60_000;
+      return {
+        next: (r, t) => {
+          const x = r[metric];
+          if (x === undefined) return null;
+          const key = Math.floor((t % 86_400_000) / bucketMs);
+          const s = buckets.get(key) ?? baseline();
+          buckets.set(key, s);
+          if (s.n >= minSamples) {
+            const z = (x - s.mean) / s.sd(floor);
+            if (signed(z, direction) >= spec.threshold) {
+              const hour = new Date(t).getUTCHours();
+              return { score: Math.abs(z) / spec.threshold, description: `${label(metric)} ${fmt(x, metric)} is ${round1(Math.abs(z))}σ ${side(z)} what is usual around ${String(hour).padStart(2, "0")}:00 UTC (${fmt(s.mean, metric)}).` };
+            }
+          }
+          s.push(x);
+          return null;
+        },
+      };
+    }
+  }
+};
+
+// ------------------------- PIPELINE ------------------------- //
+
+export type Detection = {
+  detectorId: string;
+  cellId: string;
+  type: AlertItem["type"];
+  severity: AlertItem["severity"];
+  timestamp: string;
+  description: string;
+};
+
+const SEVERITIES: AlertItem["severity"][] = ["low", "medium", "high"];
+
+/**
+ * Streams readings through every enabled detector, with separate state per cell.
+ * After a cell raises an alert of one type, further detections of that type for the
+ * cell are dropped for the detector's cooldown, so a burst yields one alert rather
+ * than one per tick and detector.
+ */
+export const createAnomalyPipeline = (initial: DetectorSpec[]) => {
+  let specs = initial;
+  const detectors = new Map<string, Detector | null>(); // `${spec.id}|${cellId}`; null when muted
+  const lastAlert = new Map<string, number>(); // `${cellId}|${type}` -> epoch ms
+
+  const detectorFor = (spec: DetectorSpec, cellId: string) => {
+    const key = `${spec.id}|${cellId}`;
+    if (!detectors.has(key)) {
+      const tuned = { ...spec, ...spec.cells?.[cellId] } as DetectorSpec;
+      detectors.set(key, tuned.enabled === false ? null : createDetector(tuned));
+    }
+    return detectors.get(key)!;
+  };
+
+  return {
+    /** Swaps in new detector settings. Only detectors whose spec object changed start learning again. */
+    update: (next: DetectorSpec[]) => {
+      const kept = new Set(next.filter((spec) => specs.includes(spec)).map((spec) => spec.id));
+      for (const key of detectors.keys()) if (!kept.has(key.slice(0, key.indexOf("|")))) detectors.delete(key);
+      specs = next;
+    },
+    process: (batch: TelemetryReading[]): Detection[] => {
+      const out: Detection[] = [];
+      for (const r of batch) {
+        const t = Date.parse(r.timestamp);
+        if (Number.isNaN(t)) continue;
+        for (const spec of specs) {
+          if (spec.enabled === false) continue;
+          const finding = detectorFor(spec, r.cellId)?.next(r, t);
+          if (!finding) continue;
+          const cooldownMs = (spec.cells?.[r.cellId]?.cooldownSec ?? spec.cooldownSec ?? 900) * 1000;
+          const key = `${r.cellId}|${spec.alertType}`;
+          if (t - (lastAlert.get(key) ?? -Infinity) < cooldownMs) continue;
+          lastAlert.set(key, t);
+          // Twice past the threshold escalates one severity level.
+          const severity = SEVERITIES[Math.min(2, SEVERITIES.indexOf(spec.severity) + (finding.score >= 2 ? 1 : 0))];
+          out.push({
+            detectorId: spec.id,
+            cellId: r.cellId,
+            type: spec.alertType,
+            severity,
+            timestamp: r.timestamp,
+            description: `${finding.description} (${spec.label})`,
+          });
+        }
+      }
+      return out;
+    },
+  };
+};
+
+export type AnomalyPipeline = ReturnType<typeof createAnomalyPipeline>;
+
+/**
+ * Turns detections into open alerts, continuing the id sequence of `existing`. A
+ * detection whose cell and detector already have an unresolved alert is dropped, so a
+ * condition that outlasts the cooldown is not raised again until someone resolves it.
+ */
+export const anomalyAlerts = (detections: Detection[], existing: AlertItem[]): AlertItem[] => {
+  const nextId = alertIdSequence(existing);
+  const open = new Set(existing.filter((a) => a.rule && a.status !== "resolved").map((a) => `${a.cellId}|${a.rule}`));
+  const out: AlertItem[] = [];
+  for (const d of detections) {
+    const rule = `anomaly:${d.detectorId}`;
+    if (open.has(`${d.cellId}|${rule}`)) continue;
+    open.add(`${d.cellId}|${rule}`);
+    out.push({
+      id: nextId(),
+      type: d.type,
+      severity: d.severity,
+      cellId: d.cellId,
+      timestamp: d.timestamp,
+      description: d.description,
+      status: "open",
+      rule,
+    });
+  }
+  return out;
+};
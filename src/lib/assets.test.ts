@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+
+import { renewalPlan, renewalPlanCsv, type Asset, type RiskContext } from "./assets";
+
+const ctx: RiskContext = { leakRisk: new Map(), connections: new Map() };
+
+// Worn-out valves in the worst condition: likelihood 3.6, so risk 10.8 at 300 mm and 7.2 below.
+const valve = (id: string, diameter: number, replacementCost: number, extra: Partial<Asset> = {}): Asset => ({
+  id,
+  kind: "valve",
+  installYear: 1950,
+  material: "CI",
+  diameter,
+  condition: 5,
+  failures: [],
+  replacementCost,
+  ...extra,
+});
+
+const assets = [
+  valve("V1", 300, 600_000),
+  valve("V2", 100, 200_000),
+  valve("V3", 100, 300_000),
+  valve("V4", 100, 400_000),
+  valve("V5", 100, 100_000, { installYear: 2024, condition: 1 }),
+];
+
+describe("renewalPlan", () => {
+  const plan = renewalPlan(assets, ctx, { startYear: 2025, years: 2, budget: 500_000, minRisk: 5 });
+
+  it("renews the riskiest assets each year within that year's budget", () => {
+    expect(plan.years.map((y) => [y.year, y.renewals.map((r) => r.asset.id), y.spent])).toEqual([
+      // V1 is the riskiest but dearer than a year's budget; V4 no longer fits after V2 and V3.
+      [2025, ["V2", "V3"], 500_000],
+      [2026, ["V4"], 400_000],
+    ]);
+    for (const y of plan.years) expect(y.spent).toBeLessThanOrEqual(500_000);
+  });
+
+  it("leaves low-risk assets alone and reports what the budget did not reach", () => {
+    expect(plan.years.flatMap((y) => y.renewals).some((r) => r.asset.id === "V5")).toBe(false);
+    expect(plan.backlog.map((b) => [b.asset.id, b.score.risk, b.cost])).toEqual([["V1", 10.8, 600_000]]);
+    // 10.8 + 3 × 7.2 + 2.2 without; renewed valves score 2 as new.
+    expect(plan.riskWithout).toBe(34.6);
+    expect(plan.riskWith).toBe(19);
+  });
+});
+
+describe("renewalPlanCsv", () => {
+  it("quotes fields holding commas, quotes or line breaks", () => {
+    const lined = valve("V2", 100, 200_000, { material: 'CI, "lined"', cellId: "A1" });
+    const csv = renewalPlanCsv(renewalPlan([lined], ctx, { startYear: 2025, years: 1, budget: 500_000, minRisk: 5 }));
+    expect(csv.split("\n")).toEqual([
+      "year,asset_id,kind,cell,material,diameter_mm,length_m,install_year,condition,failures_10y,likelihood,consequence,risk,cost_inr",
+      '2025,V2,valve,A1,"CI, ""lined""",100,,1950,5,0,3.6,2,7.2,200000',
+      "",
+    ]);
+  });
+});
@@ -0,0 +1,334 @@
+import { clamp, round1, type AlertItem, type GridCell } from "./grid";
+import { nodeIndex, type Network } from "./network";
+
+// ------------------------- REGISTER ------------------------- //
+
+export type AssetKind = "pipe" | "valve" | "hydrant" | "meter";
+
+/** One entry in the asset register. Diameters in mm, lengths in m. */
+export type Asset = {
+  id: string;
+  kind: AssetKind;
+  cellId?: string;
+  /** Network link the asset belongs to, for pipes, valves and meters on a link. */
+  linkId?: string;
+  installYear: number;
+  material: string;
+  diameter: number;
+  /** Pipes only. */
+  length?: number;
+  /** Inspection grade, 1 (very good) to 5 (very poor), as in the WRc / IIMM condition scale. */
+  condition: number;
+  /** Dates of recorded failures (bursts, seizures, breakdowns), YYYY-MM-DD. */
+  failures: string[];
+  /** Overrides the indicative unit rate, ₹. */
+  replacementCost?: number;
+};
+
+export const ASSET_KINDS: Record<AssetKind, string> = { pipe: "Pipes", valve: "Valves", hydrant: "Hydrants", meter: "Meters" };
+
+// Brittle and older pipe materials fail more often for their age.
+const FRAGILE = new Set(["AC", "CI"]);
+
+/**
+ * A plausible register for a network without one: every pipe and valve link, the
+ * isolation valves at pipe ends, a fire hydrant at every other junction, and a bulk
+ * meter on each pump and zone-boundary valve. Condition and failure history follow
+ * from age and material, varied deterministically so the same network gives the
+ * same register.
+ */
+export const demoAssetRegister = (net: Network, now = new Date()): Asset[] => {
+  const year = now.getFullYear();
+  const nodes = nodeIndex(net);
+  const cellOf = (nodeId: string) => nodes.get(nodeId)?.cellId;
+  const out: Asset[] = [];
+  const condition = (installYear: number, kind: AssetKind, material: string, i: number) => {
+    const wear = (year - installYear) / serviceLife(kind, material);
+    return clamp(Math.round(1 + 3.5 * wear + (((i * 7) % 3) - 1) * 0.5), 1, 5);
+  };
+  // Failures in the last ten years, once an asset is past 40% of its life.
+  const failures = (installYear: number, kind: AssetKind, material: string, i: number) => {
+    const wear = Math.min(1, (year - installYear) / serviceLife(kind, material));
+    const count = Math.floor(Math.max(0, wear - 0.4) * (kind === "pipe" && FRAGILE.has(material) ? 9 : 6) + ((i * 13) % 5) / 10);
+    return Array.from({ length: count }, (_, k) => `${year - ((i * 3 + k * 4) % 10)}-${String(1 + ((i + k * 5) % 12)).padStart(2, "0")}-15`).sort();
+  };
+  const push = (a: Omit<Asset, "condition" | "failures">) => {
+    const i = out.length;
+    out.push({ ...a, condition: condition(a.installYear, a.kind, a.material, i), failures: failures(a.installYear, a.kind, a.material, i) });
+  };
+
+  // Valve and pump links carry no install year; they take the age of the mains they sit on.
+  const nearYear = new Map<string, number>();
+  for (const l of net.links) {
+    if (l.kind !== "pipe" || !l.installYear) continue;
+    for (const n of [l.from, l.to]) nearYear.set(n, Math.min(nearYear.get(n) ?? l.installYear, l.installYear));
+  }
+  const yearAt = (nodeId: string) => nearYear.get(nodeId) ?? year - 20;
+
+  for (const l of net.links) {
+    if (l.kind === "pipe") {
+      const installYear = l.installYear ?? yearAt(l.from);
+      push({ id: l.id, kind: "pipe", cellId: cellOf(l.from), linkId: l.id, installYear, material: l.material, diameter: l.diameter, length: l.length });
+      for (const end of l.valves ?? []) {
+        const node = end === "from" ? l.from : l.to;
+        push({ id: `${l.id}@${node}`, kind: "valve", cellId: cellOf(node), linkId: l.id, installYear, material: "CI", diameter: l.diameter });
+      }
+    } else if (l.kind === "valve") {
+      push({ id: l.id, kind: "valve", cellId: cellOf(l.from), linkId: l.id, installYear: yearAt(l.from), material: "DI", diameter: l.diameter });
+      const k = out.length;
+      push({ id: `M-${l.id}`, kind: "meter", cellId: cellOf(l.to), linkId: l.id, installYear: 2008 + (k % 12), material: "Electromagnetic", diameter: l.diameter });
+    } else {
+      const k = out.length;
+      push({ id: `M-${l.id}`, kind: "meter", cellId: cellOf(l.to), linkId: l.id, installYear: 2008 + (k % 12), material: "Electromagnetic", diameter: 300 });
+    }
+  }
+  net.nodes
+    .filter((n) => n.kind === "junction")
+    .forEach((n, i) => {
+      if (i % 2 === 0) push({ id: `H-${n.id}`, kind: "hydrant", cellId: n.cellId, installYear: yearAt(n.id), material: "CI", diameter: 80 });
+    });
+  return out;
+};
+
+/**
+ * Adds leaks fixed by acoustic correlation to the register: an alert carrying a dig
+ * location counts as a failure of that pipe on the alert's date.
+ */
+export const withAlertFailures = (assets: Asset[], alerts: AlertItem[]): Asset[] => {
+  const byLink = new Map<string, string[]>();
+  for (const a of alerts) {
+    if (a.type !== "Leak Suspected" || !a.location) continue;
+    byLink.set(a.location.linkId, [...(byLink.get(a.location.linkId) ?? []), a.timestamp.slice(0, 10)]);
+  }
+  if (byLink.size === 0) return assets;
+  return assets.map((a) => {
+    const extra = a.kind === "pipe" && a.linkId ? byLink.get(a.linkId) : undefined;
+    return extra ? { ...a, failures: [...new Set([...a.failures, ...extra])].sort() } : a;
+  });
+};
+
+const REGISTER_COLUMNS = ["id", "kind", "install_year"];
+
+/**
+ * Reads an asset register exported as CSV with a header row. `id`, `kind` and
+ * `install_year` are required; `cell`, `link`, `material`, `diameter_mm`, `length_m`,
+ * `condition`, `failures` (dates separated by ";") and `replacement_cost` are optional.
+ * Rows that do not parse are skipped with a warning.
+ */
+export const parseAssetRegister = (text: string): { assets: Asset[]; warnings: string[] } => {
+  const lines = text.split(/\r?\n/);
+  const header = splitCsv(lines[0] ?? "").map((h) => h.trim().toLowerCase());
+  const missing = REGISTER_COLUMNS.filter((c) => !header.includes(c));
+  if (missing.length) throw new Error(`Asset register: missing column${missing.length > 1 ? "s" : ""} ${missing.join(", ")}`);
+  const assets: Asset[] = [];
+  const warnings: string[] = [];
+  for (const [i, line] of lines.slice(1).entries()) {
+    if (line.trim() === "") continue;
+    const row = Object.fromEntries(splitCsv(line).map((v, k) => [header[k], v.trim()]));
+    const n = (key: string) => (row[key] ? Number(row[key]) : undefined);
+    const kind = row.kind?.toLowerCase() as AssetKind;
+    const installYear = n("install_year");
+    const condition = n("condition") ?? 3;
+    const problem = !row.id
+      ? "no id"
+      : !(kind in ASSET_KINDS)
+        ? `unknown kind "${row.kind}"`
+        : !installYear || !Number.isInteger(installYear)
+          ? "install_year must be a year"
+          : !(condition >= 1 && condition <= 5)
+            ? "condition must be 1–5"
+            : null;
+    if (problem) {
+      warnings.push(`Line ${i + 2}: ${problem}`);
+      continue;
+    }
+    assets.push({
+      id: row.id,
+      kind,
+      cellId: row.cell || undefined,
+      linkId: row.link || undefined,
+      installYear: installYear!,
+      material: row.material || "Unknown",
+      diameter: n("diameter_mm") ?? 0,
+      length: n("length_m"),
+      condition,
+      failures: (row.failures ?? "").split(";").map((d) => d.trim()).filter(Boolean).sort(),
+      replacementCost: n("replacement_cost"),
+    });
+  }
+  return { assets, warnings };
+};
+
+// Splits one CSV line, honouring double-quoted fields.
+const splitCsv = (line: string) => {
+  const out: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') field += line[++i];
+      else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"') quoted = true;
+    else if (ch === ",") {
+      out.push(field);
+      field = "";
+    } else field += ch;
+  }
+  return [...out, field];
+};
+
+// ------------------------- RISK ------------------------- //
+
+/** Expected service life in years, by kind and, for pipes, material. */
+const serviceLife = (kind: AssetKind, material: string) => {
+  if (kind === "valve" || kind === "hydrant") return 50;
+  if (kind === "meter") return 15;
+  return ({ CI: 100, DI: 100, HDPE: 100, PVC: 80, AC: 60 } as Record<string, number>)[material] ?? 80;
+};
+
+/** Likelihood and consequence of failure, each 1–5; risk is their product, 1–25. */
+export type AssetRisk = {
+  likelihood: number;
+  consequence: number;
+  risk: number;
+  age: number;
+  /** Failures in the ten years before the scored year. */
+  recentFailures: number;
+};
+
+export type RiskContext = {
+  /** Current leak-model score per cell, 0–1. */
+  leakRisk: Map<string, number>;
+  /** Service connections per cell. */
+  connections: Map<string, number>;
+};
+
+// Cells with more connections than this count as densely served.
+const DENSE_CONNECTIONS = 150;
+
+export const riskContext = (net: Network, cells: GridCell[]): RiskContext => {
+  const connections = new Map<string, number>();
+  for (const n of net.nodes) {
+    if (n.kind === "junction" && n.cellId) connections.set(n.cellId, (connections.get(n.cellId) ?? 0) + (n.connections ?? 0));
+  }
+  return { leakRisk: new Map(cells.map((c) => [c.id, c.leakRisk])), connections };
+};
+
+/**
+ * Scores an asset as it will stand in `year`. Likelihood blends age over service life
+ * (35%), condition grade (30%), failures in the last ten years (20%, saturating at
+ * three) and the leak model's current risk for the asset's cell (15%). Consequence
+ * grows with pipe diameter; valves, hydrants and meters sit at fixed levels. Anything
+ * in a densely connected cell is one level worse.
+ */
+export const scoreAsset = (a: Asset, ctx: RiskContext, year: number): AssetRisk => {
+  const age = Math.max(0, year - a.installYear);
+  const recentFailures = a.failures.filter((d) => Number(d.slice(0, 4)) > year - 10).length;
+  const wear = Math.min(1, age / serviceLife(a.kind, a.material));
+  const cellRisk = a.cellId ? ctx.leakRisk.get(a.cellId) ?? 0 : 0;
+  const likelihood = round1(1 + 4 * (0.35 * wear + (0.3 * (a.condition - 1)) / 4 + 0.2 * Math.min(1, recentFailures / 3) + 0.15 * cellRisk));
+  const base =
+    a.kind === "pipe"
+      ? a.diameter <= 100 ? 1 : a.diameter <= 150 ? 2 : a.diameter <= 250 ? 3 : a.diameter <= 400 ? 4 : 5
+      : a.kind === "meter" ? 3 : a.kind === "valve" && a.diameter >= 300 ? 3 : 2;
+  const dense = a.cellId && (ctx.connections.get(a.cellId) ?? 0) > DENSE_CONNECTIONS ? 1 : 0;
+  const consequence = Math.min(5, base + dense);
+  return { likelihood, consequence, risk: round1(likelihood * consequence), age, recentFailures };
+};
+
+/** Indicative replacement cost in ₹, from unit rates by kind and size, unless the register sets one. */
+export const replacementCost = (a: Asset) => {
+  if (a.replacementCost !== undefined) return a.replacementCost;
+  if (a.kind === "pipe") return (a.length ?? 0) * (2000 + 40 * a.diameter);
+  if (a.kind === "valve") return 30_000 + 400 * a.diameter;
+  if (a.kind === "hydrant") return 60_000;
+  return 50_000 + 1500 * a.diameter;
+};
+
+// ------------------------- RENEWAL PLAN ------------------------- //
+
+export type PlanOptions = {
+  startYear: number;
+  years: number;
+  /** Capital budget per year, ₹. Unspent budget does not carry over. */
+  budget: number;
+  /** Assets below this risk are not renewed, however much budget is left. */
+  minRisk: number;
+};
+
+export const DEFAULT_PLAN: Omit<PlanOptions, "startYear"> = { years: 5, budget: 5_000_000, minRisk: 9 };
+
+export type PlannedRenewal = { year: number; asset: Asset; score: AssetRisk; cost: number };
+
+export type RenewalPlan = {
+  years: Array<{ year: number; renewals: PlannedRenewal[]; spent: number }>;
+  /** Assets at or above `minRisk` in the final year that the budget did not reach. */
+  backlog: Array<{ asset: Asset; score: AssetRisk; cost: number }>;
+  /** Summed risk over the register in the final year, without and with the plan. */
+  riskWithout: number;
+  riskWith: number;
+};
+
+/**
+ * A multi-year capital plan. Each year, assets are rescored at that year's age and
+ * the riskiest at or above `minRisk` are renewed while the budget allows; one too
+ * dear for what is left is passed over for the next. A renewed asset starts again as
+ * new: installed that year, condition 1 and no failures.
+ */
+export const renewalPlan = (assets: Asset[], ctx: RiskContext, options: PlanOptions): RenewalPlan => {
+  const renewed = new Map<string, number>();
+  const years: RenewalPlan["years"] = [];
+  for (let y = 0; y < options.years; y++) {
+    const year = options.startYear + y;
+    const candidates = assets
+      .filter((a) => !renewed.has(a.id))
+      .map((asset) => ({ asset, score: scoreAsset(asset, ctx, year), cost: replacementCost(asset) }))
+      .filter((c) => c.score.risk >= options.minRisk)
+      .sort((a, b) => b.score.risk - a.score.risk || a.cost - b.cost);
+    let spent = 0;
+    const renewals: PlannedRenewal[] = [];
+    for (const c of candidates) {
+      if (spent + c.cost > options.budget) continue;
+      spent += c.cost;
+      renewed.set(c.asset.id, year);
+      renewals.push({ year, ...c });
+    }
+    years.push({ year, renewals, spent });
+  }
+
+  const last = options.startYear + options.years - 1;
+  let riskWithout = 0;
+  let riskWith = 0;
+  const backlog: RenewalPlan["backlog"] = [];
+  for (const a of assets) {
+    const score = scoreAsset(a, ctx, last);
+    riskWithout += score.risk;
+    const at = renewed.get(a.id);
+    if (at !== undefined) riskWith += scoreAsset({ ...a, installYear: at, condition: 1, failures: [] }, ctx, last).risk;
+    else {
+      riskWith += score.risk;
+      if (score.risk >= options.minRisk) backlog.push({ asset: a, score, cost: replacementCost(a) });
+    }
+  }
+  backlog.sort((a, b) => b.score.risk - a.score.risk);
+  return { years, backlog, riskWithout: round1(riskWithout), riskWith: round1(riskWith) };
+};
+
+// Quotes a CSV field when it needs it.
+const csvField = (v: string | number | undefined) => {
+  const s = v === undefined ? "" : String(v);
+  return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+};
+
+/** The plan as CSV, one row per renewal, for the capital works programme. */
+export const renewalPlanCsv = (plan: RenewalPlan): string => {
+  const header = ["year", "asset_id", "kind", "cell", "material", "diameter_mm", "length_m", "install_year", "condition", "failures_10y", "likelihood", "consequence", "risk", "cost_inr"];
+  const rows = plan.years.flatMap((y) =>
+    y.renewals.map(({ asset: a, score: s, cost }) =>
+      [y.year, a.id, a.kind, a.cellId, a.material, a.diameter, a.length, a.installYear, a.condition, s.recentFailures, s.likelihood, s.consequence, s.risk, Math.round(cost)],
+    ),
+  );
+  return [header, ...rows].map((r) => r.map(csvField).join(",")).join("\n") + "\n";
+};
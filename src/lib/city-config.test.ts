@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+
+import { cityConfigs, formatCellId, resolveCityLayout, type CityConfig } from "./city-config";
+
+const city = (over: Partial<CityConfig>): CityConfig => ({ name: "Test", rows: 3, cols: 3, ...over });
+
+describe("resolveCityLayout", () => {
+  it("resolves every bundled grid city", () => {
+    for (const [id, config] of Object.entries(cityConfigs)) {
+      if (config.districts) continue;
+      expect(resolveCityLayout(config).cells.length, id).toBeGreaterThan(0);
+    }
+  });
+
+  it("expands id templates, missing positions, merged blocks and zones", () => {
+    const layout = resolveCityLayout(
+      city({
+        cellId: "{rowLetter}{col}",
+        missing: ["C3"],
+        merged: [{ id: "Hub", cells: ["A1", "A2", "B1", "B2"] }],
+        zones: [{ name: "North", rows: [1, 1] }, { name: "South", cells: ["C1", "C2"] }],
+      }),
+    );
+    expect(layout.cells.map((c) => c.id)).toEqual(["Hub", "A3", "B3", "C1", "C2"]);
+    expect(layout.cells[0]).toMatchObject({ rowSpan: 2, colSpan: 2, zone: "North" });
+    expect(layout.cells.find((c) => c.id === "C2")?.zone).toBe("South");
+    expect(formatCellId("{rowLetter}-{col}", 26, 0)).toBe("AA-1");
+  });
+
+  it.each([
+    [{ rows: 0 }, /rows and cols must be positive/],
+    [{ missing: ["C9-9"] }, /missing refers to unknown cell C9-9/],
+    [{ merged: [{ id: "M", cells: ["C1-1", "C2-2"] }] }, /merged cell M does not cover a full rectangle/],
+    [{ merged: [{ id: "M", cells: ["C1-1", "C1-2"] }, { id: "N", cells: ["C1-2", "C1-3"] }] }, /merged cell N overlaps another cell/],
+    [{ holidays: ["26/01/2025"] }, /holiday "26\/01\/2025" is not a YYYY-MM-DD date/],
+    [{ districts: "nowhere" }, /district file "nowhere" not found/],
+  ] as Array<[Partial<CityConfig>, RegExp]>)("rejects %o", (over, message) => {
+    expect(() => resolveCityLayout(city(over))).toThrow(message);
+  });
+});
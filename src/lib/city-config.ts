@@ -0,0 +1,183 @@
+import type { DetectorOverride } from "./anomaly";
+import { districtsToLayout, type DistrictCollection, type GeoExtent, type PropertyMapping } from "./geojson";
+
+// ------------------------- TYPES ------------------------- //
+
+/**
+ * Shape of a city configuration file (src/config/*.json). Rows and columns in
+ * the file are 1-based, matching the ids operators see on the map.
+ */
+export type CityConfig = {
+  name: string;
+  rows?: number;
+  cols?: number;
+  /** Id template. Tokens: {row}, {col}, {rowLetter}. Default "C{row}-{col}". */
+  cellId?: string;
+  /** Tile size in map units; defaults to 52. */
+  tile?: number;
+  zones?: Array<{ name: string; rows?: [number, number]; cols?: [number, number]; cells?: string[] }>;
+  /** Grid positions with no cell, by templated id. */
+  missing?: string[];
+  /** Rectangular blocks served as one cell. `cells` are the templated ids it covers. */
+  merged?: Array<{ id: string; cells: string[] }>;
+  /**
+   * District polygons (src/config/districts/<name>.geojson) used instead of the
+   * rows × cols grid. `rows`, `cols`, `cellId`, `missing` and `merged` are then ignored.
+   */
+  districts?: string;
+  /** Feature property names for GridCell fields when they differ from the defaults. */
+  properties?: PropertyMapping;
+  /** Anomaly detector overrides by id, or complete new detectors. See DEFAULT_DETECTORS. */
+  detectors?: DetectorOverride[];
+  /** Public holidays, YYYY-MM-DD. Demand forecasts treat them like Sundays. */
+  holidays?: string[];
+  /** Folder of monthly billing exports (src/billing/<name>/YYYY-MM.json) for the water balance. */
+  billing?: string;
+};
+
+
+/** A cell position in the resolved layout. `row`/`col` are 0-based. */
+export type LayoutCell = {
+  id: string;
+  row: number;
+  col: number;
+  rowSpan: number;
+  colSpan: number;
+  zone?: string;
+  outline?: string; // SVG path in map units, for district polygons
+  anchor?: [number, number]; // label position in map units
+  initial?: Partial<Record<"wqi" | "pressure" | "flow" | "leakRisk", number>>;
+};
+
+export type CityLayout = {
+  name: string;
+  rows: number;
+  cols: number;
+  tile: number;
+  zones: string[];
+  cells: LayoutCell[];
+  /** Set for polygon layouts; square grids derive their extent from rows × cols × tile. */
+  extent?: GeoExtent;
+  detectors?: DetectorOverride[];
+  holidays?: string[];
+  billing?: string;
+};
+
+// ------------------------- RESOLUTION ------------------------- //
+
+const rowLetter = (row: number) => {
+  let n = row + 1;
+  let out = "";
+  while (n > 0) {
+    const r = (n - 1) % 26;
+    out = String.fromCharCode(65 + r) + out;
+    n = Math.floor((n - 1) / 26);
+  }
+  return out;
+};
+
+export const formatCellId = (template: string, row: number, col: number) =>
+  template
+    .replace(/\{row\}/g, String(row + 1))
+    .replace(/\{col\}/g, String(col + 1))
+    .replace(/\{rowLetter\}/g, rowLetter(row));
+
+/** Expands a config into concrete cells. Throws if merged blocks are not rectangles or overlap. */
+export const resolveCityLayout = (config: CityConfig, districts?: DistrictCollection): CityLayout => {
+  const badHoliday = config.holidays?.find((d) => !/^\d{4}-\d{2}-\d{2}$/.test(d));
+  if (badHoliday) throw new Error(`City "${config.name}": holiday "${badHoliday}" is not a YYYY-MM-DD date`);
+  if (config.districts) {
+    if (!districts) throw new Error(`City "${config.name}": district file "${config.districts}" not found`);
+    const { cells, extent } = districtsToLayout(districts, config.properties);
+    return {
+      name: config.name,
+      rows: Math.max(...cells.map((c) => c.row)) + 1,
+      cols: Math.max(...cells.map((c) => c.col)) + 1,
+      tile: config.tile ?? 52,
+      zones: [...new Set(cells.map((c) => c.zone).filter((z): z is string => !!z))],
+      cells,
+      extent,
+      detectors: config.detectors,
+      holidays: config.holidays,
+      billing: config.billing,
+    };
+  }
+  const rows = config.rows ?? 0;
+  const cols = config.cols ?? 0;
+  if (!(rows > 0 && cols > 0)) throw new Error(`City "${config.name}": rows and cols must be positive`);
+  const template = config.cellId ?? "C{row}-{col}";
+
+  // Templated id -> grid position, for everything addressed by id in the config.
+  const positions = new Map<string, { row: number; col: number }>();
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) positions.set(formatCellId(template, row, col), { row, col });
+  }
+  const at = (id: string, where: string) => {
+    const p = positions.get(id);
+    if (!p) throw new Error(`City "${config.name}": ${where} refers to unknown cell ${id}`);
+    return p;
+  };
+
+  const taken = new Set<string>(); // "row,col" already consumed by a merge or marked missing
+  for (const id of config.missing ?? []) {
+    const p = at(id, "missing");
+    taken.add(`${p.row},${p.col}`);
+  }
+
+  const cells: LayoutCell[] = [];
+  for (const m of config.merged ?? []) {
+    const ps = m.cells.map((id) => at(id, `merged cell ${m.id}`));
+    const r0 = Math.min(...ps.map((p) => p.row));
+    const r1 = Math.max(...ps.map((p) => p.row));
+    const c0 = Math.min(...ps.map((p) => p.col));
+    const c1 = Math.max(...ps.map((p) => p.col));
+    if ((r1 - r0 + 1) * (c1 - c0 + 1) !== new Set(m.cells).size) {
+      throw new Error(`City "${config.name}": merged cell ${m.id} does not cover a full rectangle`);
+    }
+    for (const p of ps) {
+      const key = `${p.row},${p.col}`;
+      if (taken.has(key)) throw new Error(`City "${config.name}": merged cell ${m.id} overlaps another cell`);
+      taken.add(key);
+    }
+    cells.push({ id: m.id, row: r0, col: c0, rowSpan: r1 - r0 + 1, colSpan: c1 - c0 + 1 });
+  }
+
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      if (taken.has(`${row},${col}`)) continue;
+      cells.push({ id: formatCellId(template, row, col), row, col, rowSpan: 1, colSpan: 1 });
+    }
+  }
+  cells.sort((a, b) => a.row - b.row || a.col - b.col);
+
+  const zones = config.zones ?? [];
+  for (const c of cells) {
+    const z = zones.find(
+      (zone) =>
+        zone.cells?.includes(c.id) ||
+        (!zone.cells &&
+          (!zone.rows || (c.row + 1 >= zone.rows[0] && c.row + 1 <= zone.rows[1])) &&
+          (!zone.cols || (c.col + 1 >= zone.cols[0] && c.col + 1 <= zone.cols[1]))),
+    );
+    if (z) c.zone = z.name;
+  }
+
+  return { name: config.name, rows, cols, tile: config.tile ?? 52, zones: zones.map((z) => z.name), cells, detectors: config.detectors, holidays: config.holidays, billing: config.billing };
+};
+
+// ------------------------- LOADING ------------------------- //
+
+const cityFiles = import.meta.glob("../config/*.json", { eager: true, import: "default" });
+const districtFiles = import.meta.glob<string>("../config/districts/*.geojson", { eager: true, query: "?raw", import: "default" });
+
+/** Bundled city configs, keyed by file name. */
+export const cityConfigs: Record<string, CityConfig> = Object.fromEntries(
+  Object.entries(cityFiles).map(([path, data]) => [path.replace(/^.*\/|\.json$/g, ""), data as CityConfig]),
+);
+
+/** The city selected with VITE_CITY (file name under src/config), falling back to "default". */
+export const cityLayoutFromEnv = (): CityLayout => {
+  const config = cityConfigs[import.meta.env.VITE_CITY ?? "default"] ?? cityConfigs.default;
+  const raw = config.districts ? districtFiles[`../config/districts/${config.districts}.geojson`] : undefined;
+  return resolveCityLayout(config, raw ? (JSON.parse(raw) as DistrictCollection) : undefined);
+};
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+
+import { checkCompliance, drinkingAdvice, parseStandard, standards } from "./compliance";
+
+const is10500 = standards.find((s) => s.id === "is-10500")!;
+const who = standards.find((s) => s.id === "who")!;
+
+describe("checkCompliance", () => {
+  it("passes water inside every limit", () => {
+    expect(checkCompliance({ ph: 7.2, turbidity: 0.5, tds: 300, chlorine: 0.5, nitrate: 10, ecoli: 0 }, is10500)).toEqual({ status: "compliant", exceedances: [] });
+  });
+
+  it("tolerates a breach of the acceptable limit within the permissible one", () => {
+    const r = checkCompliance({ tds: 800 }, is10500);
+    expect(r.status).toBe("within-permissible");
+    expect(r.exceedances).toEqual([{ param: "tds", value: 800, level: "acceptable", bound: "max", limit: 500 }]);
+  });
+
+  it("reports only the strictest level a parameter breaks", () => {
+    const r = checkCompliance({ turbidity: 7, chlorine: 0.1 }, is10500);
+    expect(r.status).toBe("non-compliant");
+    expect(r.exceedances).toEqual([
+      { param: "turbidity", value: 7, level: "permissible", bound: "max", limit: 5 },
+      { param: "chlorine", value: 0.1, level: "permissible", bound: "min", limit: 0.2 },
+    ]);
+  });
+
+  it("classifies the same sample by the standard chosen", () => {
+    // 48 mg/L nitrate breaks IS 10500's 45 but not WHO's 50; TDS 700 is over both acceptable limits.
+    expect(checkCompliance({ nitrate: 48, tds: 700 }, is10500).status).toBe("non-compliant");
+    expect(checkCompliance({ nitrate: 48, tds: 700 }, who).status).toBe("within-permissible");
+    // WHO sets no permissible pH range.
+    expect(checkCompliance({ ph: 9 }, who).status).toBe("within-permissible");
+  });
+});
+
+describe("drinkingAdvice", () => {
+  it.each([
+    [{ ecoli: 3 }, "boil"],
+    [{ nitrate: 60, ecoli: 3 }, "do-not-drink"],
+    [{ tds: 2500 }, "advisory"],
+    [{ ph: 7 }, "safe"],
+  ] as const)("advises %o as %s", (sample, level) => {
+    expect(drinkingAdvice(sample, is10500)?.level).toBe(level);
+  });
+
+  it("has nothing to say without quality readings", () => {
+    expect(drinkingAdvice(undefined, is10500)).toBeNull();
+  });
+});
+
+describe("parseStandard", () => {
+  it("rejects unknown parameters and non-numeric limits", () => {
+    expect(() => parseStandard("x", { limits: { lead: { acceptable: { max: 0.01 } } } })).toThrow(/unknown parameter "lead"/);
+    expect(() => parseStandard("x", { limits: { ph: { acceptable: { max: "8.5" } } } })).toThrow(/ph.acceptable/);
+  });
+});
@@ -0,0 +1,239 @@
+import { alertIdSequence, type AlertItem, type GridCell } from "./grid";
+import type { AggregatePoint } from "./history-store";
+import { hasQuality, QUALITY_PARAMS, type QualityParam, type QualitySample } from "./wqi";
+
+// ------------------------- STANDARDS ------------------------- //
+
+type Range = { min?: number; max?: number };
+
+/**
+ * Limits for one parameter. `acceptable` is the desirable value; `permissible` the
+ * relaxation allowed when no alternate source exists. A level left out is not checked.
+ */
+export type ParamLimits = { acceptable?: Range; permissible?: Range };
+
+export type Standard = {
+  id: string;
+  name: string;
+  description?: string;
+  limits: Partial<Record<QualityParam, ParamLimits>>;
+};
+
+const isRange = (r: unknown): r is Range =>
+  !!r &&
+  typeof r === "object" &&
+  Object.entries(r).every(([k, v]) => (k === "min" || k === "max") && typeof v === "number");
+
+/** Validates a parsed standard file. Throws with a readable message. */
+export const parseStandard = (id: string, data: unknown): Standard => {
+  if (!data || typeof data !== "object") throw new Error(`Standard ${id}: expected an object`);
+  const s = data as Partial<Standard>;
+  if (!s.limits || typeof s.limits !== "object") throw new Error(`Standard ${id}: "limits" must be an object`);
+  for (const [param, limits] of Object.entries(s.limits)) {
+    if (!(param in QUALITY_PARAMS)) throw new Error(`Standard ${id}: unknown parameter "${param}"`);
+    for (const level of ["acceptable", "permissible"] as const) {
+      const range = (limits as ParamLimits)?.[level];
+      if (range !== undefined && !isRange(range)) throw new Error(`Standard ${id}: ${param}.${level} must hold numeric "min" / "max"`);
+    }
+  }
+  return { id, name: s.name ?? id, description: s.description, limits: s.limits };
+};
+
+// Bundled standard files, keyed by file name (e.g. "is-10500").
+const standardFiles = import.meta.glob("../standards/*.json", { eager: true, import: "default" });
+
+export const standards: Standard[] = Object.entries(standardFiles)
+  .map(([path, data]) => parseStandard(path.replace(/^.*\/|\.json$/g, ""), data))
+  .sort((a, b) => a.name.localeCompare(b.name));
+
+export const DEFAULT_STANDARD_ID = "is-10500";
+
+// ------------------------- CHECKS ------------------------- //
+
+export type LimitLevel = "acceptable" | "permissible";
+
+export type Exceedance = {
+  param: QualityParam;
+  value: number;
+  level: LimitLevel;
+  bound: "min" | "max";
+  limit: number;
+};
+
+/**
+ * `within-permissible` breaches an acceptable limit only, which the standard tolerates
+ * when there is no alternate source; `non-compliant` breaches a permissible limit.
+ */
+export type ComplianceStatus = "compliant" | "within-permissible" | "non-compliant";
+
+export type ComplianceResult = { status: ComplianceStatus; exceedances: Exceedance[] };
+
+const breach = (range: Range | undefined, v: number) => {
+  if (range?.min !== undefined && v < range.min) return { bound: "min" as const, limit: range.min };
+  if (range?.max !== undefined && v > range.max) return { bound: "max" as const, limit: range.max };
+  return null;
+};
+
+/** Each measured parameter against the standard, reporting the strictest level it breaks. */
+export const checkCompliance = (sample: QualitySample, standard: Standard): ComplianceResult => {
+  const exceedances: Exceedance[] = [];
+  for (const [param, limits] of Object.entries(standard.limits) as Array<[QualityParam, ParamLimits]>) {
+    const value = sample[param];
+    if (typeof value !== "number" || Number.isNaN(value)) continue;
+    const permissible = breach(limits.permissible, value);
+    const acceptable = permissible ? null : breach(limits.acceptable, value);
+    if (permissible) exceedances.push({ param, value, level: "permissible", ...permissible });
+    else if (acceptable) exceedances.push({ param, value, level: "acceptable", ...acceptable });
+  }
+  const status = exceedances.some((e) => e.level === "permissible")
+    ? "non-compliant"
+    : exceedances.length > 0
+      ? "within-permissible"
+      : "compliant";
+  return { status, exceedances };
+};
+
+/** e.g. "Nitrate 52 mg/L above the permissible limit of 45 mg/L". */
+export const describeExceedance = (e: Exceedance) => {
+  const spec = QUALITY_PARAMS[e.param];
+  const unit = spec.unit ? ` ${spec.unit}` : "";
+  const value = Math.round(e.value * 100) / 100;
+  if (e.bound === "max" && e.limit === 0) return `${spec.label} detected (${value}${unit}), must be absent`;
+  return e.bound === "max"
+    ? `${spec.label} ${value}${unit} above the ${e.level} limit of ${e.limit}${unit}`
+    : `${spec.label} ${value}${unit} below the ${e.level} minimum of ${e.limit}${unit}`;
+};
+
+// Microbial risks are dealt with by boiling; chemical ones are not.
+const hazard = (e: Exceedance): "microbial" | "chemical" | null => {
+  if (e.param === "nitrate") return "chemical";
+  if (e.param === "ecoli" || (e.param === "chlorine" && e.bound === "min")) return "microbial";
+  if (e.param === "turbidity" && e.level === "permissible") return "microbial";
+  return null;
+};
+
+// ------------------------- CITIZEN ADVICE ------------------------- //
+
+export type DrinkingAdvice = {
+  level: "safe" | "advisory" | "boil" | "do-not-drink";
+  headline: string;
+  detail: string;
+};
+
+/** Plain-language status for residents, or null when the cell has no quality readings. */
+export const drinkingAdvice = (sample: QualitySample | undefined, standard: Standard): DrinkingAdvice | null => {
+  if (!hasQuality(sample)) return null;
+  const { exceedances } = checkCompliance(sample, standard);
+  const chemical = exceedances.filter((e) => hazard(e) === "chemical");
+  const microbial = exceedances.filter((e) => hazard(e) === "microbial");
+  const other = exceedances.filter((e) => e.level === "permissible" && !hazard(e));
+  if (chemical.length > 0)
+    return {
+      level: "do-not-drink",
+      headline: "Do not drink",
+      detail: `${[...chemical, ...microbial].map(describeExceedance).join("; ")}. Boiling does not remove nitrate — use tanker or bottled water.`,
+    };
+  if (microbial.length > 0)
+    return {
+      level: "boil",
+      headline: "Boil before use",
+      detail: `${microbial.map(describeExceedance).join("; ")}. Bring water to a rolling boil for one minute before drinking or cooking.`,
+    };
+  if (other.length > 0)
+    return {
+      level: "advisory",
+      headline: "Safe to drink",
+      detail: `Taste or appearance may be affected: ${other.map(describeExceedance).join("; ")}.`,
+    };
+  return { level: "safe", headline: "Safe to drink", detail: `Meets ${standard.name}.` };
+};
+
+// ------------------------- ALERTS ------------------------- //
+
+// A resolved exceedance that persists is raised again after this long.
+const REALERT_MS = 30 * 60_000;
+
+/**
+ * New `Quality Alert`s for permissible-limit and health-related exceedances, one per cell
+ * and parameter. An exceedance that already has an unresolved alert, or had one raised
+ * recently, is skipped so every telemetry tick does not repeat it.
+ */
+export const complianceAlerts = (
+  cells: GridCell[],
+  standard: Standard,
+  existing: AlertItem[],
+  now = Date.now(),
+): AlertItem[] => {
+  const out: AlertItem[] = [];
+  const nextId = alertIdSequence(existing);
+  const raised = new Set(
+    existing
+      .filter((a) => a.rule && (a.status !== "resolved" || now - Date.parse(a.timestamp) < REALERT_MS))
+      .map((a) => `${a.cellId}|${a.rule}`),
+  );
+  for (const cell of cells) {
+    if (!hasQuality(cell.quality)) continue;
+    for (const e of checkCompliance(cell.quality, standard).exceedances) {
+      if (e.level !== "permissible" && !hazard(e)) continue;
+      const rule = `compliance:${e.param}`;
+      if (raised.has(`${cell.id}|${rule}`)) continue;
+      out.push({
+        id: nextId(),
+        type: "Quality Alert",
+        severity: hazard(e) ? "high" : "medium",
+        cellId: cell.id,
+        timestamp: new Date(now).toISOString(),
+        description: `${describeExceedance(e)} (${standard.name}).`,
+        status: "open",
+        rule,
+      });
+    }
+  }
+  return out;
+};
+
+// ------------------------- MONTHLY SUMMARY ------------------------- //
+
+export type ZoneCompliance = {
+  zone: string;
+  /** Days with quality readings, summed over the zone's cells. */
+  cellDays: number;
+  /** Of those, days on which no reading broke a permissible limit. */
+  compliantDays: number;
+  /** Cell-days on which each parameter broke its permissible limit. */
+  exceedances: Partial<Record<QualityParam, number>>;
+};
+
+/**
+ * Per-zone compliance from daily rollups. A cell-day fails a parameter when its daily
+ * minimum or maximum lies outside the permissible range.
+ */
+export const zoneCompliance = (
+  daily: Map<string, AggregatePoint[]>,
+  cells: GridCell[],
+  standard: Standard,
+): ZoneCompliance[] => {
+  const zones = new Map<string, ZoneCompliance>();
+  for (const cell of cells) {
+    const zone = cell.zone ?? "Unzoned";
+    const summary = zones.get(zone) ?? { zone, cellDays: 0, compliantDays: 0, exceedances: {} };
+    zones.set(zone, summary);
+    for (const day of daily.get(cell.id) ?? []) {
+      let measured = false;
+      let compliant = true;
+      for (const [param, limits] of Object.entries(standard.limits) as Array<[QualityParam, ParamLimits]>) {
+        const agg = day[param];
+        if (!agg) continue;
+        measured = true;
+        if (breach(limits.permissible, agg.min) || breach(limits.permissible, agg.max)) {
+          compliant = false;
+          summary.exceedances[param] = (summary.exceedances[param] ?? 0) + 1;
+        }
+      }
+      if (!measured) continue;
+      summary.cellDays++;
+      if (compliant) summary.compliantDays++;
+    }
+  }
+  return [...zones.values()].sort((a, b) => a.zone.localeCompare(b.zone));
+};
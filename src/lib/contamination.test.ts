@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+
+import { describeTrace, traceContamination } from "./contamination";
+import type { HydraulicResult } from "./hydraulics";
+import type { Network } from "./network";
+
+// R feeds A → B, where the main splits to C and D. One junction per cell.
+const net: Network = {
+  nodes: [
+    { id: "R", kind: "reservoir", x: 0, y: 0, head: 50 },
+    ...["A", "B", "C", "D"].map((id, i) => ({ id, kind: "junction" as const, x: i + 1, y: 0, cellId: id, elevation: 0, baseDemand: 5 })),
+  ],
+  links: [
+    ["P0", "R", "A"],
+    ["P1", "A", "B"],
+    ["P2", "B", "C"],
+    ["P3", "B", "D"],
+  ].map(([id, from, to]) => ({ id, kind: "pipe" as const, from, to, status: "open" as const, length: 1000, diameter: 200, roughness: 120, material: "DI" })),
+  patterns: {},
+  patternStepSec: 3600,
+};
+
+// 10 L/s through a 200 mm main is 0.318 m/s: 3142 s per kilometre. D's branch runs at half that.
+const result = { flows: { P0: 20, P1: 15, P2: 10, P3: 5 } } as unknown as HydraulicResult;
+const PIPE_SEC = 1000 / (0.01 / (Math.PI * 0.1 ** 2));
+
+describe("traceContamination", () => {
+  // Contamination entered at B: C and D both saw it, A upstream stayed clean.
+  const observed = new Map([["A", false], ["C", true], ["D", true]]);
+  const trace = traceContamination(net, result, "C", observed);
+
+  it("ranks the upstream cell that explains every detection first", () => {
+    expect(trace.candidates.map((c) => [c.cellId, c.consistency])).toEqual([
+      ["B", 1],
+      // Reaches both detections, but the clean A would have seen it first.
+      ["A", 2 / 2.5],
+      // Cannot reach D.
+      ["C", 0.5],
+    ]);
+    expect(trace.candidates[0].travelSec).toBeCloseTo(PIPE_SEC, 3);
+    expect(trace.candidates[1].contradicted).toEqual(["A"]);
+    expect(describeTrace(trace)).toBe("Likely entry at B (100% consistent, ~52 min upstream); nothing downstream at current flows.");
+  });
+
+  it("lists the cells downstream of the alert, soonest first", () => {
+    const fromB = traceContamination(net, result, "B", observed);
+    expect(fromB.affected.map((a) => a.cellId)).toEqual(["C", "D"]);
+    expect(fromB.affected[1].etaSec).toBeCloseTo(2 * PIPE_SEC, 3);
+  });
+});
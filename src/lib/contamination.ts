@@ -0,0 +1,203 @@
+import type { AlertItem, GridCell } from "./grid";
+import type { HydraulicResult } from "./hydraulics";
+import type { Network, NetworkLink } from "./network";
+
+// ------------------------- FLOW GRAPH ------------------------- //
+
+// Links carrying less than this (L/s) are treated as stagnant: nothing travels along them.
+const MIN_FLOW = 0.01;
+
+type Arc = { node: string; sec: number };
+
+// Seconds for water to cross a link at its current flow. Valves and pumps are treated as instant.
+const transitSec = (link: NetworkLink, flow: number) => {
+  if (link.kind !== "pipe") return 0;
+  const area = Math.PI * (link.diameter / 2000) ** 2; // m²
+  return link.length / (Math.abs(flow) / 1000 / area);
+};
+
+/** Each node's downstream and upstream neighbours in the direction water flows in `result`. */
+const flowGraph = (net: Network, result: HydraulicResult) => {
+  const down = new Map<string, Arc[]>();
+  const up = new Map<string, Arc[]>();
+  for (const link of net.links) {
+    const q = result.flows[link.id];
+    if (link.status === "closed" || q === undefined || Math.abs(q) < MIN_FLOW) continue;
+    const [a, b] = q > 0 ? [link.from, link.to] : [link.to, link.from];
+    const sec = transitSec(link, q);
+    down.set(a, [...(down.get(a) ?? []), { node: b, sec }]);
+    up.set(b, [...(up.get(b) ?? []), { node: a, sec }]);
+  }
+  return { down, up };
+};
+
+/** Shortest travel time from any of `starts` to every node reachable along `arcs`. */
+const travelTimes = (arcs: Map<string, Arc[]>, starts: string[]) => {
+  const time = new Map(starts.map((n) => [n, 0]));
+  // Binary heap of [seconds, node]; stale entries are skipped when popped.
+  const heap: Array<[number, string]> = starts.map((n) => [0, n]);
+  const push = (item: [number, string]) => {
+    heap.push(item);
+    for (let i = heap.length - 1; i > 0; ) {
+      const p = (i - 1) >> 1;
+      if (heap[p][0] <= heap[i][0]) break;
+      [heap[p], heap[i]] = [heap[i], heap[p]];
+      i = p;
+    }
+  };
+  const pop = () => {
+    const top = heap[0];
+    const last = heap.pop()!;
+    if (heap.length > 0) {
+      heap[0] = last;
+      for (let i = 0; ; ) {
+        const l = 2 * i + 1;
+        const r = l + 1;
+        let m = i;
+        if (l < heap.length && heap[l][0] < heap[m][0]) m = l;
+        if (r < heap.length && heap[r][0] < heap[m][0]) m = r;
+        if (m === i) break;
+        [heap[m], heap[i]] = [heap[i], heap[m]];
+        i = m;
+      }
+    }
+    return top;
+  };
+  while (heap.length > 0) {
+    const [t, node] = pop();
+    if (t > (time.get(node) ?? Infinity)) continue;
+    for (const arc of arcs.get(node) ?? []) {
+      const next = t + arc.sec;
+      if (next < (time.get(arc.node) ?? Infinity)) {
+        time.set(arc.node, next);
+        push([next, arc.node]);
+      }
+    }
+  }
+  return time;
+};
+
+// Node travel times folded to cells: the earliest of the cell's nodes.
+const byCell = (net: Network, times: Map<string, number>) => {
+  const out = new Map<string, number>();
+  for (const n of net.nodes) {
+    const t = times.get(n.id);
+    if (!n.cellId || t === undefined) continue;
+    out.set(n.cellId, Math.min(t, out.get(n.cellId) ?? Infinity));
+  }
+  return out;
+};
+
+/** Cells water from the given nodes reaches at current flows, with the travel time to each. */
+export const cellsDownstream = (net: Network, result: HydraulicResult, nodeIds: string[]) =>
+  byCell(net, travelTimes(flowGraph(net, result).down, nodeIds));
+
+// ------------------------- OBSERVATIONS ------------------------- //
+
+// WQI points below the steady state that count as a sensor seeing the contamination.
+const DETECT_DROP = 8;
+
+/**
+ * What each cell's sensor says about contamination: true when it has an unresolved
+ * `Quality Alert` or its WQI has fallen well below `baseline`, false when it reads
+ * normally. Cells with no quality data are left out as unobserved.
+ */
+export const qualityObservations = (
+  cells: GridCell[],
+  alerts: AlertItem[],
+  baseline?: Map<string, GridCell>,
+): Map<string, boolean> => {
+  const alerted = new Set(alerts.filter((a) => a.type === "Quality Alert" && a.status !== "resolved").map((a) => a.cellId));
+  const out = new Map<string, boolean>();
+  for (const c of cells) {
+    if (!Number.isFinite(c.wqi)) continue;
+    const base = baseline?.get(c.id);
+    out.set(c.id, alerted.has(c.id) || (!!base && base.wqi - c.wqi >= DETECT_DROP));
+  }
+  return out;
+};
+
+// ------------------------- TRACING ------------------------- //
+
+export type SourceCandidate = {
+  cellId: string;
+  /** Travel time from this cell to the alerted cell at current flows. */
+  travelSec: number;
+  /** Cells that detected contamination and lie downstream of this one. */
+  explained: string[];
+  /** Cells that detected contamination this source cannot reach. */
+  unexplained: string[];
+  /** Clean cells this source would have reached before the alerted cell. */
+  contradicted: string[];
+  /** explained / (explained + unexplained + ½ contradicted), 0–1. */
+  consistency: number;
+};
+
+export type ContaminationTrace = {
+  cellId: string;
+  /** Upstream cells where contamination may have entered, most consistent first. */
+  candidates: SourceCandidate[];
+  /** Cells downstream of the alerted cell with the time until it reaches them, soonest first. */
+  affected: Array<{ cellId: string; etaSec: number }>;
+};
+
+// Upstream cells scored, nearest first; further ones would take too long to matter.
+const MAX_CANDIDATES = 40;
+
+/**
+ * Follows the current flow directions from a cell with a quality alert. Upstream cells
+ * are candidate entry points, ranked by how well each explains which sensors did and
+ * did not see the drop: a true source reaches every detecting cell, and contamination
+ * from it would already have shown up at any cell it reaches sooner than the alerted one.
+ */
+export const traceContamination = (
+  net: Network,
+  result: HydraulicResult,
+  cellId: string,
+  observed: Map<string, boolean>,
+): ContaminationTrace => {
+  const { down, up } = flowGraph(net, result);
+  const nodesIn = new Map<string, string[]>();
+  for (const n of net.nodes) if (n.cellId) nodesIn.set(n.cellId, [...(nodesIn.get(n.cellId) ?? []), n.id]);
+  const alertNodes = nodesIn.get(cellId) ?? [];
+
+  const downstream = byCell(net, travelTimes(down, alertNodes));
+  const affected = [...downstream]
+    .filter(([id]) => id !== cellId)
+    .map(([id, etaSec]) => ({ cellId: id, etaSec }))
+    .sort((a, b) => a.etaSec - b.etaSec);
+
+  const upstream = [...byCell(net, travelTimes(up, alertNodes))].sort((a, b) => a[1] - b[1]).slice(0, MAX_CANDIDATES);
+  const detected = [...observed].filter(([, seen]) => seen).map(([id]) => id);
+  if (!detected.includes(cellId)) detected.push(cellId);
+
+  const candidates = upstream.map(([id, travelSec]): SourceCandidate => {
+    const reach = byCell(net, travelTimes(down, nodesIn.get(id) ?? []));
+    const explained = detected.filter((d) => reach.has(d));
+    const unexplained = detected.filter((d) => !reach.has(d));
+    const contradicted = [...reach]
+      .filter(([c, t]) => observed.get(c) === false && t <= travelSec)
+      .map(([c]) => c);
+    // A clean cell weighs half: at a branch the plume may be diluted below what its sensor picks up.
+    const total = explained.length + unexplained.length + contradicted.length / 2;
+    return { cellId: id, travelSec, explained, unexplained, contradicted, consistency: total ? explained.length / total : 0 };
+  });
+  // Ties go to the source explaining more detections, then the one nearer the alert.
+  candidates.sort((a, b) => b.consistency - a.consistency || b.explained.length - a.explained.length || a.travelSec - b.travelSec);
+  return { cellId, candidates, affected };
+};
+
+/** Rounded travel time, e.g. "~6 min" or "~2.5 h". */
+export const formatTravel = (sec: number) =>
+  sec < 5400 ? `~${Math.max(1, Math.round(sec / 60))} min` : `~${Math.round(sec / 1800) / 2} h`;
+
+/** e.g. "Likely entry at C4-1 (100% consistent, ~6 min upstream); reaches C4-6 in ~4 min." */
+export const describeTrace = (trace: ContaminationTrace) => {
+  const top = trace.candidates[0];
+  const source =
+    !top || top.cellId === trace.cellId
+      ? `Entry likely at ${trace.cellId} itself`
+      : `Likely entry at ${top.cellId} (${Math.round(top.consistency * 100)}% consistent, ${formatTravel(top.travelSec)} upstream)`;
+  const next = trace.affected[0];
+  return next ? `${source}; reaches ${next.cellId} in ${formatTravel(next.etaSec)}.` : `${source}; nothing downstream at current flows.`;
+};
@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+
+import { cityForecast, forecastAlerts, forecastDemand, FORECAST_DAYS } from "./demand-forecast";
+import type { AggregatePoint } from "./history-store";
+
+const HOUR_MS = 3_600_000;
+// Wednesday 10:30 local; the 10:00 bucket is still filling.
+const NOW = new Date(2025, 5, 11, 10, 30).getTime();
+const CURRENT = new Date(2025, 5, 11, 10).getTime();
+
+// 100 L/min at night, 150 from 08:00 to 20:00, every day.
+const steady = (t: number) => {
+  const h = new Date(t).getHours();
+  return h >= 8 && h < 20 ? 150 : 100;
+};
+
+const rollups = (hours: number, flow: (t: number) => number = steady): AggregatePoint[] =>
+  Array.from({ length: hours }, (_, i) => {
+    const t = CURRENT - (hours - i) * HOUR_MS;
+    const v = flow(t);
+    return { t, flow: { n: 60, sum: v * 60, min: v, max: v } };
+  });
+
+describe("forecastDemand", () => {
+  it("needs two days of completed hours", () => {
+    expect(forecastDemand("A1", rollups(47), { now: NOW })).toBeNull();
+    expect(forecastDemand("A1", rollups(48), { now: NOW })?.trainedHours).toBe(48);
+  });
+
+  it("forecasts a steady weekly profile back exactly", () => {
+    const f = forecastDemand("A1", rollups(21 * 24), { now: NOW })!;
+    for (const h of f.hours) {
+      expect(h.expected).toBeCloseTo(steady(h.t));
+      expect(h.low).toBeCloseTo(h.expected);
+      expect(h.high).toBeCloseTo(h.expected);
+    }
+    // 12 h at 150 and 12 h at 100 L/min: 3000 L/min·h = 180 m³ a day.
+    expect(f.days).toHaveLength(FORECAST_DAYS);
+    for (const d of f.days) expect(d.expected).toBeCloseTo(180);
+  });
+
+  it("scales hot days by the temperature sensitivity", () => {
+    const tomorrow = new Date(2025, 5, 12).getTime();
+    const f = forecastDemand("A1", rollups(21 * 24), { now: NOW, weather: { typical: 25, days: { "2025-06-12": 35 } } })!;
+    // 10 °C above typical at 2% per degree.
+    expect(f.days[0].day).toBe(tomorrow);
+    expect(f.days[0].expected).toBeCloseTo(180 * 1.2);
+    expect(f.days[1].expected).toBeCloseTo(180);
+  });
+});
+
+describe("cityForecast", () => {
+  it("sums the cell forecasts", () => {
+    const a = forecastDemand("A1", rollups(21 * 24), { now: NOW })!;
+    const b = forecastDemand("A2", rollups(21 * 24, (t) => 2 * steady(t)), { now: NOW })!;
+    const city = cityForecast(new Map([["A1", a], ["A2", b]]), NOW)!;
+    expect(city.days[0].expected).toBeCloseTo(540);
+    expect(city.hours.at(-1)!.expected).toBeCloseTo(3 * steady(city.hours.at(-1)!.t));
+  });
+});
+
+describe("forecastAlerts", () => {
+  const forecast = (flow: (t: number) => number) => new Map([["A1", forecastDemand("A1", rollups(21 * 24, flow), { now: NOW })!]]);
+  // Runs `factor` times the usual flow from `from` hours before the current one.
+  const spike = (from: number, factor: number) => (t: number) => (t >= CURRENT - from * HOUR_MS ? factor : 1) * steady(t);
+
+  it("flags three completed hours above the band as a suspected leak", () => {
+    expect(forecastAlerts(forecast(spike(2, 3)), [], NOW)).toEqual([]);
+    const [alert, ...rest] = forecastAlerts(forecast(spike(3, 3)), [], NOW);
+    expect(rest).toEqual([]);
+    expect(alert).toMatchObject({ type: "Leak Suspected", cellId: "A1", rule: "forecast:above", severity: "medium" });
+    // Once open, the same deviation is not raised again.
+    expect(forecastAlerts(forecast(spike(3, 3)), [alert], NOW)).toEqual([]);
+  });
+
+  it("flags three completed hours below the band as unauthorized usage", () => {
+    const [alert] = forecastAlerts(forecast(spike(3, 0.8)), [], NOW);
+    expect(alert).toMatchObject({ type: "Unauthorized Usage", rule: "forecast:below", severity: "low" });
+  });
+});
@@ -0,0 +1,254 @@
+import { alertIdSequence, round1, type AlertItem, type GridCell } from "./grid";
+import type { AggregatePoint } from "./history-store";
+
+// ------------------------- TYPES ------------------------- //
+// Demand is cell flow, L/min, as hourly means; daily totals are m³.
+
+/** Daily maximum temperatures, °C by local date (YYYY-MM-DD), against a typical day. */
+export type Weather = { typical: number; days: Record<string, number> };
+
+export type ForecastOptions = {
+  /** Public holidays, YYYY-MM-DD; forecast like a Sunday. */
+  holidays?: string[];
+  weather?: Weather;
+  now?: number;
+};
+
+export type ForecastHour = {
+  t: number;
+  expected: number;
+  /** 80% band: one hour in ten falls below `low` and one above `high`. */
+  low: number;
+  high: number;
+  actual?: number;
+};
+
+export type ForecastDay = { day: number; expected: number; low: number; high: number };
+
+export type DemandForecast = {
+  /** Cell id, or `CITY` for the city total. */
+  id: string;
+  /** The last week and the week ahead, hourly. */
+  hours: ForecastHour[];
+  /** Daily totals for the next `FORECAST_DAYS` days, from tomorrow. */
+  days: ForecastDay[];
+  /** Hours of history the forecast was fitted on. */
+  trainedHours: number;
+};
+
+export const CITY = "City";
+
+export const FORECAST_DAYS = 7;
+const BACK_DAYS = 7;
+const HOUR_MS = 3_600_000;
+const DAY_MS = 86_400_000;
+// Fewest hours of history worth forecasting from: two full days.
+const MIN_HISTORY_HOURS = 48;
+// Recent days the current level is taken from, and days the band is sized on.
+const LEVEL_DAYS = 7;
+const BAND_DAYS = 14;
+const BAND_QUANTILES: [number, number] = [0.1, 0.9];
+// Demand rises with heat: share per °C of daily maximum above the typical day.
+const TEMP_SENSITIVITY = 0.02;
+
+// ------------------------- MODEL ------------------------- //
+
+const quantile = (xs: number[], q: number) => {
+  const s = Float64Array.from(xs).sort();
+  const i = (s.length - 1) * q;
+  const lo = Math.floor(i);
+  return s[lo] + (s[Math.ceil(i)] - s[lo]) * (i - lo);
+};
+
+/** YYYY-MM-DD in local time. */
+export const localDate = (t: number) => {
+  const d = new Date(t);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+};
+
+const startOfDay = (t: number) => {
+  const d = new Date(t);
+  return new Date(d.getFullYear(), d.getMonth(), d.getDate()).getTime();
+};
+
+// Local date and weekday-hour slot (0–167, holidays as Sunday) per hourly bucket. Every
+// cell shares the same buckets, so one calendar serves a whole forecast run.
+const calendar = (holidays: string[] = []) => {
+  const off = new Set(holidays);
+  const memo = new Map<number, { date: string; slot: number }>();
+  return (t: number) => {
+    let day = memo.get(t);
+    if (!day) {
+      const d = new Date(t);
+      const date = localDate(t);
+      day = { date, slot: (off.has(date) ? 0 : d.getDay()) * 24 + d.getHours() };
+      memo.set(t, day);
+    }
+    return day;
+  };
+};
+
+type Calendar = ReturnType<typeof calendar>;
+
+/**
+ * Fits a weekly profile to hourly flow: the median for each weekday and hour, with
+ * holidays counted as Sundays, scaled by how far the last week ran above or below it.
+ * Medians keep a burst or an outage in the history from skewing the profile.
+ */
+const fitDemand = (history: Array<{ t: number; flow: number }>, weather: Weather | undefined, day: Calendar) => {
+  const tempFactor = (t: number) => {
+    const temp = weather?.days[day(t).date];
+    return weather && temp !== undefined ? Math.max(0.5, 1 + TEMP_SENSITIVITY * (temp - weather.typical)) : 1;
+  };
+  const slot = (t: number) => day(t).slot;
+
+  // History is brought to a typical day's temperature before it is profiled.
+  const bySlot = new Map<number, number[]>();
+  const byHour = new Map<number, number[]>();
+  for (const { t, flow } of history) {
+    const v = flow / tempFactor(t);
+    const s = slot(t);
+    if (!bySlot.has(s)) bySlot.set(s, []);
+    if (!byHour.has(s % 24)) byHour.set(s % 24, []);
+    bySlot.get(s)!.push(v);
+    byHour.get(s % 24)!.push(v);
+  }
+  const overall = quantile(history.map((h) => h.flow), 0.5);
+  const cache = new Map<number, number>();
+  const profile = (t: number) => {
+    const s = slot(t);
+    if (!cache.has(s)) {
+      // Weekday-hours seen fewer than twice fall back to the same hour on any day.
+      const same = bySlot.get(s) ?? [];
+      const hour = byHour.get(s % 24) ?? [];
+      cache.set(s, same.length >= 2 ? quantile(same, 0.5) : hour.length ? quantile(hour, 0.5) : overall);
+    }
+    return cache.get(s)!;
+  };
+
+  const last = history[history.length - 1].t;
+  const ratio = (h: { t: number; flow: number }) => h.flow / tempFactor(h.t) / Math.max(1e-6, profile(h.t));
+  const level = quantile(history.filter((h) => last - h.t < LEVEL_DAYS * DAY_MS).map(ratio), 0.5) || 1;
+  const spread = history.filter((h) => last - h.t < BAND_DAYS * DAY_MS).map((h) => ratio(h) / level);
+  const [lo, hi] = BAND_QUANTILES.map((q) => quantile(spread, q));
+
+  return (t: number) => {
+    const expected = profile(t) * level * tempFactor(t);
+    return { expected, low: expected * Math.min(1, lo), high: expected * Math.max(1, hi) };
+  };
+};
+
+const hourlyFlow = (points: AggregatePoint[], before: number) =>
+  points.filter((p) => p.flow && p.flow.n > 0 && p.t < before).map((p) => ({ t: p.t, flow: p.flow!.sum / p.flow!.n }));
+
+const dailyTotals = (hours: ForecastHour[], from: number): ForecastDay[] =>
+  Array.from({ length: FORECAST_DAYS }, (_, i) => {
+    const day = startOfDay(from + (i + 0.5) * DAY_MS);
+    const next = startOfDay(day + 1.5 * DAY_MS);
+    const inDay = hours.filter((h) => h.t >= day && h.t < next);
+    // L/min held for an hour is 60 L; totals in m³.
+    const sum = (f: (h: ForecastHour) => number) => inDay.reduce((acc, h) => acc + f(h), 0) * 0.06;
+    return { day, expected: sum((h) => h.expected), low: sum((h) => h.low), high: sum((h) => h.high) };
+  });
+
+/**
+ * Hourly demand for one cell over the last week and the week ahead, from 1-hour
+ * rollups. Returns null with under two days of history. The hour in progress is left
+ * out of the fit, since its rollup is still filling.
+ */
+export const forecastDemand = (
+  id: string,
+  points: AggregatePoint[],
+  options: ForecastOptions = {},
+  day: Calendar = calendar(options.holidays),
+): DemandForecast | null => {
+  const now = options.now ?? Date.now();
+  const current = Math.floor(now / HOUR_MS) * HOUR_MS;
+  const history = hourlyFlow(points, current);
+  if (history.length < MIN_HISTORY_HOURS) return null;
+  const predict = fitDemand(history, options.weather, day);
+  const actual = new Map(history.map((h) => [h.t, h.flow]));
+  const tomorrow = startOfDay(now + DAY_MS);
+  const hours: ForecastHour[] = [];
+  for (let t = current - BACK_DAYS * DAY_MS; t < tomorrow + FORECAST_DAYS * DAY_MS; t += HOUR_MS) {
+    hours.push({ t, ...predict(t), actual: actual.get(t) });
+  }
+  return { id, hours, days: dailyTotals(hours, tomorrow), trainedHours: history.length };
+};
+
+/** Forecasts for every cell with enough history, by cell id. */
+export const forecastCells = (buckets: Map<string, AggregatePoint[]>, cells: GridCell[], options: ForecastOptions = {}) => {
+  const out = new Map<string, DemandForecast>();
+  const day = calendar(options.holidays);
+  for (const c of cells) {
+    const f = forecastDemand(c.id, buckets.get(c.id) ?? [], options, day);
+    if (f) out.set(c.id, f);
+  }
+  return out;
+};
+
+/**
+ * City demand as the sum of the cell forecasts. Bands are summed too, which is on the
+ * wide side: cells do not all run high in the same hour. Actuals are only shown for
+ * hours every forecast cell reported.
+ */
+export const cityForecast = (forecasts: Map<string, DemandForecast>, now = Date.now()): DemandForecast | null => {
+  const all = [...forecasts.values()];
+  if (all.length === 0) return null;
+  const byT = new Map<number, ForecastHour & { reported: number }>();
+  for (const f of all) {
+    for (const h of f.hours) {
+      const sum = byT.get(h.t) ?? { t: h.t, expected: 0, low: 0, high: 0, actual: 0, reported: 0 };
+      sum.expected += h.expected;
+      sum.low += h.low;
+      sum.high += h.high;
+      if (h.actual !== undefined) {
+        sum.actual! += h.actual;
+        sum.reported++;
+      }
+      byT.set(h.t, sum);
+    }
+  }
+  const hours = [...byT.values()]
+    .sort((a, b) => a.t - b.t)
+    .map(({ reported, actual, ...h }): ForecastHour => (reported === all.length ? { ...h, actual } : h));
+  return { id: CITY, hours, days: dailyTotals(hours, startOfDay(now + DAY_MS)), trainedHours: Math.min(...all.map((f) => f.trainedHours)) };
+};
+
+// ------------------------- DEVIATIONS ------------------------- //
+
+// Consecutive completed hours outside the band before a cell is flagged.
+const DEVIATION_HOURS = 3;
+
+/**
+ * Alerts for cells whose last three completed hours all ran above the forecast band
+ * (`Leak Suspected`) or all below it (`Unauthorized Usage`, e.g. a bypassed meter).
+ * One alert per cell and direction until it is resolved.
+ */
+export const forecastAlerts = (forecasts: Map<string, DemandForecast>, existing: AlertItem[], now = Date.now()): AlertItem[] => {
+  const nextId = alertIdSequence(existing);
+  const open = new Set(existing.filter((a) => a.rule && a.status !== "resolved").map((a) => `${a.cellId}|${a.rule}`));
+  const out: AlertItem[] = [];
+  for (const f of forecasts.values()) {
+    const recent = f.hours.filter((h) => h.actual !== undefined && h.t < now).slice(-DEVIATION_HOURS);
+    if (recent.length < DEVIATION_HOURS || now - recent[0].t > (DEVIATION_HOURS + 1) * HOUR_MS) continue;
+    const above = recent.every((h) => h.actual! > h.high);
+    const below = recent.every((h) => h.actual! < h.low);
+    if (!above && !below) continue;
+    const rule = `forecast:${above ? "above" : "below"}`;
+    if (open.has(`${f.id}|${rule}`)) continue;
+    const actual = recent.reduce((acc, h) => acc + h.actual!, 0) / recent.length;
+    const expected = recent.reduce((acc, h) => acc + h.expected, 0) / recent.length;
+    out.push({
+      id: nextId(),
+      type: above ? "Leak Suspected" : "Unauthorized Usage",
+      severity: Math.abs(actual - expected) > 0.5 * expected ? "medium" : "low",
+      cellId: f.id,
+      timestamp: new Date(now).toISOString(),
+      description: `Flow ${above ? "above" : "below"} forecast for ${DEVIATION_HOURS} h: ${round1(actual)} L/min vs ${round1(expected)} expected.`,
+      status: "open",
+      rule,
+    });
+  }
+  return out;
+};
@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+
+import { exportInp, parseInp } from "./epanet";
+import type { Network } from "./network";
+
+// A small model in US units: feet, inches and gallons per minute.
+const US_MODEL = `[TITLE]
+Hilltop zone
+
+[JUNCTIONS]
+;ID  Elev  Demand  Pattern
+J1   100   50      Day
+J2   120   25
+
+[RESERVOIRS]
+R1   300
+
+[TANKS]
+T1   200   10   2   20   30
+
+[PIPES]
+P1   R1  J1  1000  12  130  0  Open
+P2   J1  J2  500   8   100  0  Open
+P3   J2  T1  800   8   100  0  Closed
+
+[PUMPS]
+PU1  R1  J2  HEAD C1
+
+[VALVES]
+V1   J1  J2  6  PRV  50  0
+
+[CURVES]
+C1   500  150
+
+[PATTERNS]
+Day  0.5  1.0  1.5
+
+[TAGS]
+LINK P1 CI
+
+[STATUS]
+PU1  Closed
+
+[TIMES]
+ Pattern Timestep  2:00
+
+[OPTIONS]
+ Units  GPM
+
+[COORDINATES]
+J1  0     0
+J2  1000  0
+R1  -500  0
+T1  1000  800
+
+[END]
+`;
+
+const PRV_WARNING = "PRV valves are solved as fully open; their settings are kept for export only";
+const GPM = 0.0630902;
+const FT = 0.3048;
+const IN = 25.4;
+
+// The model without map placement. `close` matches numbers to the export's 3 decimals.
+const shape = (net: Network, close = false) =>
+  JSON.parse(
+    JSON.stringify({ nodes: net.nodes.map(({ x: _x, y: _y, cellId: _c, ...n }) => n), links: net.links, patterns: net.patterns, step: net.patternStepSec }),
+    (_, v) => (close && typeof v === "number" ? expect.closeTo(v, 3) : v),
+  );
+
+describe("parseInp", () => {
+  const { network, warnings } = parseInp(US_MODEL);
+  const node = (id: string) => network.nodes.find((n) => n.id === id)!;
+  const link = (id: string) => network.links.find((l) => l.id === id)!;
+
+  it("converts US units to SI", () => {
+    expect(warnings).toEqual([PRV_WARNING]);
+    expect(node("J1")).toMatchObject({ kind: "junction", pattern: "Day", elevation: 100 * FT, baseDemand: expect.closeTo(50 * GPM, 6) });
+    expect(node("R1")).toMatchObject({ head: 300 * FT });
+    expect(node("T1")).toMatchObject({ initLevel: 10 * FT, maxLevel: 20 * FT, diameter: 30 * FT });
+    expect(link("P1")).toMatchObject({ length: 1000 * FT, diameter: 12 * IN, roughness: 130, material: "CI", status: "open" });
+    expect(link("P3").status).toBe("closed");
+    expect(link("V1")).toMatchObject({ kind: "valve", valveType: "PRV", diameter: 6 * IN });
+    expect(link("PU1")).toMatchObject({ kind: "pump", status: "closed", curve: [{ flow: expect.closeTo(500 * GPM, 6), head: 150 * FT }] });
+    expect(network.patternStepSec).toBe(7200);
+    expect(network.title).toBe("Hilltop zone");
+  });
+
+  it("reads its own export back to the same network", () => {
+    const again = parseInp(exportInp(network));
+    expect(again.warnings).toEqual([PRV_WARNING]);
+    expect(shape(again.network)).toEqual(shape(network, true));
+    const placed = (net: Network) => net.nodes.map((n) => [n.id, Math.round(n.x), Math.round(n.y)]);
+    expect(placed(again.network)).toEqual(placed(network));
+  });
+
+  it("warns about sections it does not import", () => {
+    expect(parseInp(`${US_MODEL}\n[CONTROLS]\nLINK P2 CLOSED AT TIME 2\n`).warnings).toContain("Section [CONTROLS] is not imported");
+  });
+});
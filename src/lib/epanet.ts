@@ -0,0 +1,335 @@
+import { formatCellId, type LayoutCell } from "./city-config";
+import type { Junction, Network, NetworkLink, NetworkNode, Pipe, Pump, Reservoir, Tank, Valve } from "./network";
+
+// ------------------------- UNITS ------------------------- //
+
+// Flow units EPANET accepts, as L/s per unit. US units also switch lengths to feet and diameters to inches.
+const FLOW_TO_LPS: Record<string, number> = {
+  LPS: 1,
+  LPM: 1 / 60,
+  MLD: 1e6 / 86400,
+  CMH: 1000 / 3600,
+  CMD: 1000 / 86400,
+  CFS: 28.3168,
+  GPM: 0.0630902,
+  MGD: 43.8126,
+  IMGD: 52.6168,
+  AFD: 14.2764,
+};
+const US_UNITS = new Set(["CFS", "GPM", "MGD", "IMGD", "AFD"]);
+
+type Units = { flow: number; length: number; diameter: number };
+
+const unitsFor = (flowUnits: string): Units => {
+  const us = US_UNITS.has(flowUnits);
+  return { flow: FLOW_TO_LPS[flowUnits] ?? 1, length: us ? 0.3048 : 1, diameter: us ? 25.4 : 1 };
+};
+
+// "1:00", "1:30:00", "3600", "2 HOURS", "30 MIN" -> seconds
+const parseDuration = (tokens: string[]) => {
+  const [value, unit = ""] = tokens;
+  if (value.includes(":")) {
+    const [h, m = "0", sec = "0"] = value.split(":");
+    return Number(h) * 3600 + Number(m) * 60 + Number(sec);
+  }
+  const n = Number(value);
+  const u = unit.toUpperCase();
+  if (u.startsWith("SEC")) return n;
+  if (u.startsWith("MIN")) return n * 60;
+  if (u.startsWith("DAY")) return n * 86400;
+  // EPANET reads a bare number as hours.
+  return n * 3600;
+};
+
+// ------------------------- PARSER ------------------------- //
+
+export type InpImport = {
+  network: Network;
+  /** Square-grid cells derived from node coordinates; every node is assigned to one. */
+  cells: LayoutCell[];
+  warnings: string[];
+};
+
+type ParseOptions = {
+  tile?: number;
+  /** Approximate number of junctions per generated grid cell. */
+  nodesPerCell?: number;
+};
+
+/**
+ * Reads an EPANET .inp model: [JUNCTIONS], [RESERVOIRS], [TANKS], [PIPES], [VALVES],
+ * [PUMPS], [CURVES], [PATTERNS], [COORDINATES], [STATUS], [TAGS], [TIMES] and
+ * [OPTIONS] (flow units). Values are converted to SI (L/s, m, mm). Unsupported
+ * sections are skipped with a warning rather than failing the import.
+ */
+export const parseInp = (text: string, { tile = 52, nodesPerCell = 4 }: ParseOptions = {}): InpImport => {
+  const warnings: string[] = [];
+  const sections = new Map<string, string[][]>();
+  let current = "";
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/;.*$/, "").trim();
+    if (!line) continue;
+    const header = line.match(/^\[([A-Z_]+)\]$/i);
+    if (header) {
+      current = header[1].toUpperCase();
+      if (!sections.has(current)) sections.set(current, []);
+      continue;
+    }
+    if (!current) continue;
+    sections.get(current)!.push(line.split(/\s+/));
+  }
+  const rows = (name: string) => sections.get(name) ?? [];
+
+  const title = (sections.get("TITLE") ?? []).map((t) => t.join(" ")).join(" ") || undefined;
+  let flowUnits = "GPM"; // EPANET's default when [OPTIONS] does not say
+  for (const [key, ...rest] of rows("OPTIONS")) {
+    if (key.toUpperCase() === "UNITS" && rest[0]) flowUnits = rest[0].toUpperCase();
+    if (key.toUpperCase() === "HEADLOSS" && rest[0] && rest[0].toUpperCase() !== "H-W") {
+      warnings.push(`Headloss formula ${rest[0]} is not supported; roughness values are read as Hazen-Williams C`);
+    }
+  }
+  if (!(flowUnits in FLOW_TO_LPS)) {
+    warnings.push(`Unknown flow units ${flowUnits}; assuming LPS`);
+    flowUnits = "LPS";
+  }
+  const u = unitsFor(flowUnits);
+
+  let patternStepSec = 3600;
+  for (const tokens of rows("TIMES")) {
+    const joined = tokens.join(" ").toUpperCase();
+    if (joined.startsWith("PATTERN TIMESTEP")) patternStepSec = parseDuration(tokens.slice(2));
+  }
+
+  const patterns: Record<string, number[]> = {};
+  for (const [id, ...mults] of rows("PATTERNS")) (patterns[id] ??= []).push(...mults.map(Number));
+
+  const curves: Record<string, Array<{ flow: number; head: number }>> = {};
+  for (const [id, x, y] of rows("CURVES")) (curves[id] ??= []).push({ flow: Number(x) * u.flow, head: Number(y) * u.length });
+
+  const nodes: NetworkNode[] = [];
+  for (const [id, elev, demand, pattern] of rows("JUNCTIONS")) {
+    nodes.push({
+      id,
+      kind: "junction",
+      x: 0,
+      y: 0,
+      elevation: Number(elev) * u.length,
+      baseDemand: Number(demand ?? 0) * u.flow,
+      pattern: pattern || undefined,
+    });
+  }
+  for (const [id, head, pattern] of rows("RESERVOIRS")) {
+    nodes.push({ id, kind: "reservoir", x: 0, y: 0, head: Number(head) * u.length, pattern: pattern || undefined });
+  }
+  for (const [id, elev, init, min, max, diam] of rows("TANKS")) {
+    nodes.push({
+      id,
+      kind: "tank",
+      x: 0,
+      y: 0,
+      elevation: Number(elev) * u.length,
+      initLevel: Number(init) * u.length,
+      minLevel: Number(min) * u.length,
+      maxLevel: Number(max) * u.length,
+      diameter: Number(diam) * u.length,
+    });
+  }
+
+  const tags = new Map<string, string>();
+  for (const [kind, id, tag] of rows("TAGS")) if (kind.toUpperCase() === "LINK" && tag) tags.set(id, tag);
+
+  const links: NetworkLink[] = [];
+  for (const [id, from, to, length, diam, rough, _minor, status] of rows("PIPES")) {
+    links.push({
+      id,
+      kind: "pipe",
+      from,
+      to,
+      length: Number(length) * u.length,
+      diameter: Number(diam) * u.diameter,
+      roughness: Number(rough),
+      material: tags.get(id) ?? "Unknown",
+      status: status?.toUpperCase() === "CLOSED" ? "closed" : "open",
+    });
+  }
+  for (const [id, from, to, diam, type, setting] of rows("VALVES")) {
+    const valveType = type.toUpperCase() as Valve["valveType"];
+    if (!["PRV", "PSV", "PBV", "FCV", "TCV", "GPV"].includes(valveType)) warnings.push(`Valve ${id}: unknown type ${type}`);
+    links.push({ id, kind: "valve", from, to, diameter: Number(diam) * u.diameter, valveType, setting: Number(setting) || 0, status: "open" });
+  }
+  const untreated = [...new Set(links.filter((l): l is Valve => l.kind === "valve" && l.valveType !== "TCV").map((v) => v.valveType))];
+  if (untreated.length) warnings.push(`${untreated.join(", ")} valves are solved as fully open; their settings are kept for export only`);
+  for (const [id, from, to, ...params] of rows("PUMPS")) {
+    const pump: Pump = { id, kind: "pump", from, to, curve: [], status: "open" };
+    for (let i = 0; i + 1 < params.length; i += 2) {
+      const key = params[i].toUpperCase();
+      const value = params[i + 1];
+      if (key === "HEAD") {
+        pump.curve = curves[value] ?? [];
+        if (!curves[value]) warnings.push(`Pump ${id}: curve ${value} not found`);
+      } else if (key === "POWER") pump.power = Number(value);
+      else if (key === "SPEED") pump.speed = Number(value);
+    }
+    links.push(pump);
+  }
+  for (const [id, status] of rows("STATUS")) {
+    const link = links.find((l) => l.id === id);
+    if (!link) continue;
+    const s = status.toUpperCase();
+    if (s === "CLOSED" || s === "OPEN") link.status = s === "CLOSED" ? "closed" : "open";
+  }
+
+  for (const name of sections.keys()) {
+    if (!HANDLED.has(name)) warnings.push(`Section [${name}] is not imported`);
+  }
+
+  // ---- coordinates -> map units and grid cells ----
+  const byId = new Map(nodes.map((n) => [n.id, n]));
+  const coords = new Map<string, [number, number]>();
+  for (const [id, x, y] of rows("COORDINATES")) if (byId.has(id)) coords.set(id, [Number(x), Number(y)]);
+  // Nodes without coordinates sit at the average of their located neighbours.
+  for (const n of nodes) {
+    if (coords.has(n.id)) continue;
+    const near = links
+      .filter((l) => l.from === n.id || l.to === n.id)
+      .map((l) => coords.get(l.from === n.id ? l.to : l.from))
+      .filter((c): c is [number, number] => !!c);
+    if (near.length) coords.set(n.id, [near.reduce((a, c) => a + c[0], 0) / near.length, near.reduce((a, c) => a + c[1], 0) / near.length]);
+  }
+  const missing = nodes.filter((n) => !coords.has(n.id));
+  if (missing.length) warnings.push(`${missing.length} node(s) have no coordinates and were placed at the origin`);
+
+  const xs = [...coords.values()].map((c) => c[0]);
+  const ys = [...coords.values()].map((c) => c[1]);
+  const minX = xs.length ? Math.min(...xs) : 0;
+  const maxX = xs.length ? Math.max(...xs) : 1;
+  const minY = ys.length ? Math.min(...ys) : 0;
+  const maxY = ys.length ? Math.max(...ys) : 1;
+  const spanX = Math.max(1e-6, maxX - minX);
+  const spanY = Math.max(1e-6, maxY - minY);
+
+  const junctionCount = nodes.filter((n) => n.kind === "junction").length;
+  const target = Math.max(4, Math.min(400, Math.ceil(junctionCount / nodesPerCell)));
+  const cols = Math.max(1, Math.round(Math.sqrt(target * (spanX / spanY))));
+  // Inset by half a tile so nodes on the bounding box still land inside a cell.
+  const scale = (tile * cols - tile) / spanX;
+  const gridRows = Math.max(1, Math.ceil((spanY * scale + tile) / tile));
+  const coordTransform = { scale, offsetX: minX - tile / 2 / scale, offsetY: maxY + tile / 2 / scale };
+
+  const cellIds = new Set<string>();
+  for (const n of nodes) {
+    const [X, Y] = coords.get(n.id) ?? [minX, maxY];
+    n.x = (X - coordTransform.offsetX) * scale;
+    n.y = (coordTransform.offsetY - Y) * scale;
+    const row = Math.min(gridRows - 1, Math.max(0, Math.floor(n.y / tile)));
+    const col = Math.min(cols - 1, Math.max(0, Math.floor(n.x / tile)));
+    n.cellId = formatCellId("C{row}-{col}", row, col);
+    cellIds.add(n.cellId);
+  }
+  const cells: LayoutCell[] = [];
+  for (let row = 0; row < gridRows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const id = formatCellId("C{row}-{col}", row, col);
+      if (cellIds.has(id)) cells.push({ id, row, col, rowSpan: 1, colSpan: 1 });
+    }
+  }
+  for (const c of cells) {
+    const demand = nodes
+      .filter((n): n is Junction => n.kind === "junction" && n.cellId === c.id)
+      .reduce((a, n) => a + n.baseDemand, 0);
+    c.initial = { flow: demand * 60 };
+  }
+
+  return { network: { nodes, links, patterns, patternStepSec, coordTransform, title }, cells, warnings };
+};
+
+const HANDLED = new Set([
+  "TITLE", "OPTIONS", "TIMES", "PATTERNS", "CURVES", "JUNCTIONS", "RESERVOIRS", "TANKS",
+  "PIPES", "VALVES", "PUMPS", "STATUS", "TAGS", "COORDINATES", "END",
+]);
+
+// ------------------------- EXPORTER ------------------------- //
+
+const fmt = (n: number, digits = 3) => String(Math.round(n * 10 ** digits) / 10 ** digits);
+
+const table = (header: string, columns: string[], rowsOut: Array<Array<string | number | undefined>>) =>
+  [
+    `[${header}]`,
+    `;${columns.join("\t")}`,
+    ...rowsOut.map((r) => r.map((v) => (v === undefined ? "" : typeof v === "number" ? fmt(v) : v)).join("\t").trimEnd()),
+    "",
+  ].join("\n");
+
+/**
+ * Writes the network as an EPANET .inp file in LPS / Hazen-Williams. Coordinates are
+ * mapped back to model units when the network came from an import.
+ */
+export const exportInp = (net: Network): string => {
+  const t = net.coordTransform ?? { scale: 1, offsetX: 0, offsetY: 0 };
+  const junctions = net.nodes.filter((n): n is Junction => n.kind === "junction");
+  const reservoirs = net.nodes.filter((n): n is Reservoir => n.kind === "reservoir");
+  const tanks = net.nodes.filter((n): n is Tank => n.kind === "tank");
+  const pipes = net.links.filter((l): l is Pipe => l.kind === "pipe");
+  const valves = net.links.filter((l): l is Valve => l.kind === "valve");
+  const pumps = net.links.filter((l): l is Pump => l.kind === "pump");
+  const curvePumps = pumps.filter((p) => p.curve.length > 0);
+
+  return [
+    `[TITLE]\n${net.title ?? "HydroGrid network export"}\n`,
+    table("JUNCTIONS", ["ID", "Elev", "Demand", "Pattern"], junctions.map((j) => [j.id, j.elevation, j.baseDemand, j.pattern])),
+    table("RESERVOIRS", ["ID", "Head", "Pattern"], reservoirs.map((r) => [r.id, r.head, r.pattern])),
+    table(
+      "TANKS",
+      ["ID", "Elevation", "InitLevel", "MinLevel", "MaxLevel", "Diameter", "MinVol", "VolCurve"],
+      tanks.map((k) => [k.id, k.elevation, k.initLevel, k.minLevel, k.maxLevel, k.diameter, 0]),
+    ),
+    table(
+      "PIPES",
+      ["ID", "Node1", "Node2", "Length", "Diameter", "Roughness", "MinorLoss", "Status"],
+      pipes.map((p) => [p.id, p.from, p.to, p.length, p.diameter, p.roughness, 0, p.status === "closed" ? "Closed" : "Open"]),
+    ),
+    table(
+      "PUMPS",
+      ["ID", "Node1", "Node2", "Parameters"],
+      pumps.map((p) => [
+        p.id,
+        p.from,
+        p.to,
+        [p.curve.length ? `HEAD C-${p.id}` : `POWER ${fmt(p.power ?? 0)}`, p.speed !== undefined ? `SPEED ${fmt(p.speed)}` : ""].join(" ").trim(),
+      ]),
+    ),
+    table(
+      "VALVES",
+      ["ID", "Node1", "Node2", "Diameter", "Type", "Setting", "MinorLoss"],
+      valves.map((v) => [v.id, v.from, v.to, v.diameter, v.valveType, v.setting, 0]),
+    ),
+    table("TAGS", ["Object", "ID", "Tag"], pipes.filter((p) => p.material !== "Unknown").map((p) => ["LINK", p.id, p.material])),
+    table(
+      "STATUS",
+      ["ID", "Status"],
+      net.links.filter((l) => l.kind !== "pipe" && l.status === "closed").map((l) => [l.id, "Closed"]),
+    ),
+    table(
+      "PATTERNS",
+      ["ID", "Multipliers"],
+      Object.entries(net.patterns).flatMap(([id, m]) => {
+        const lines: string[][] = [];
+        for (let i = 0; i < m.length; i += 6) lines.push([id, ...m.slice(i, i + 6).map((v) => fmt(v, 4))]);
+        return lines;
+      }),
+    ),
+    table(
+      "CURVES",
+      ["ID", "X-Value", "Y-Value"],
+      curvePumps.flatMap((p) => p.curve.map((pt) => [`C-${p.id}`, pt.flow, pt.head])),
+    ),
+    `[TIMES]\n Pattern Timestep\t${Math.floor(net.patternStepSec / 3600)}:${String(Math.floor((net.patternStepSec % 3600) / 60)).padStart(2, "0")}\n`,
+    "[OPTIONS]\n Units\tLPS\n Headloss\tH-W\n",
+    table(
+      "COORDINATES",
+      ["Node", "X-Coord", "Y-Coord"],
+      net.nodes.map((n) => [n.id, n.x / t.scale + t.offsetX, t.offsetY - n.y / t.scale]),
+    ),
+    "[END]\n",
+  ].join("\n");
+};
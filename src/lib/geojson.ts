@@ -0,0 +1,157 @@
+import type { GridCell } from "./grid";
+import type { LayoutCell } from "./city-config";
+
+// ------------------------- TYPES ------------------------- //
+
+type Position = [number, number] | [number, number, number];
+
+type Geometry =
+  | { type: "Polygon"; coordinates: Position[][] }
+  | { type: "MultiPolygon"; coordinates: Position[][][] };
+
+export type DistrictFeature = {
+  type: "Feature";
+  id?: string | number;
+  geometry: Geometry | null;
+  properties: Record<string, unknown> | null;
+};
+
+export type DistrictCollection = {
+  type: "FeatureCollection";
+  features: DistrictFeature[];
+};
+
+type MappedField = "id" | "zone" | "wqi" | "pressure" | "flow" | "leakRisk";
+
+/** Which feature property feeds each GridCell field. Unset fields use the defaults below. */
+export type PropertyMapping = Partial<Record<MappedField, string>>;
+
+const DEFAULT_MAPPING: Record<MappedField, string[]> = {
+  id: ["id", "dma_id", "DMA_ID", "name"],
+  zone: ["zone", "ZONE", "district"],
+  wqi: ["wqi", "WQI"],
+  pressure: ["pressure", "pressure_psi"],
+  flow: ["flow", "flow_lpm"],
+  leakRisk: ["leakRisk", "leak_risk"],
+};
+
+/** Map-space extent the polygons were projected into. */
+export type GeoExtent = { width: number; height: number };
+
+// ------------------------- PROJECTION ------------------------- //
+
+const polygonsOf = (g: Geometry): Position[][][] => (g.type === "Polygon" ? [g.coordinates] : g.coordinates);
+
+// Signed area and centroid of a projected ring (shoelace formula).
+const ringCentroid = (ring: Array<[number, number]>) => {
+  let a = 0;
+  let cx = 0;
+  let cy = 0;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const f = ring[j][0] * ring[i][1] - ring[i][0] * ring[j][1];
+    a += f;
+    cx += (ring[j][0] + ring[i][0]) * f;
+    cy += (ring[j][1] + ring[i][1]) * f;
+  }
+  if (Math.abs(a) < 1e-9) return { area: 0, x: ring[0][0], y: ring[0][1] };
+  return { area: Math.abs(a / 2), x: cx / (3 * a), y: cy / (3 * a) };
+};
+
+/**
+ * Turns a FeatureCollection of district polygons into layout cells. Coordinates are
+ * projected equirectangularly (longitude scaled by cos of the mid latitude) and fitted
+ * into `width` map units. Each cell also gets a coarse row/col from its centroid so
+ * neighbourhood logic written for square grids keeps working.
+ */
+export const districtsToLayout = (
+  fc: DistrictCollection,
+  mapping: PropertyMapping = {},
+  width = 312,
+): { cells: LayoutCell[]; extent: GeoExtent } => {
+  if (fc?.type !== "FeatureCollection" || !Array.isArray(fc.features)) {
+    throw new Error("GeoJSON: expected a FeatureCollection");
+  }
+  const features = fc.features.filter(
+    (f) => f.geometry && (f.geometry.type === "Polygon" || f.geometry.type === "MultiPolygon"),
+  );
+  if (features.length === 0) throw new Error("GeoJSON: no Polygon or MultiPolygon features");
+
+  let minLon = Infinity;
+  let maxLon = -Infinity;
+  let minLat = Infinity;
+  let maxLat = -Infinity;
+  for (const f of features) {
+    for (const poly of polygonsOf(f.geometry!)) {
+      for (const ring of poly) {
+        for (const [lon, lat] of ring) {
+          minLon = Math.min(minLon, lon);
+          maxLon = Math.max(maxLon, lon);
+          minLat = Math.min(minLat, lat);
+          maxLat = Math.max(maxLat, lat);
+        }
+      }
+    }
+  }
+  const kx = Math.cos((((minLat + maxLat) / 2) * Math.PI) / 180);
+  const spanX = Math.max(1e-9, (maxLon - minLon) * kx);
+  const spanY = Math.max(1e-9, maxLat - minLat);
+  const scale = width / spanX;
+  const extent = { width, height: spanY * scale };
+  const project = ([lon, lat]: Position): [number, number] => [(lon - minLon) * kx * scale, (maxLat - lat) * scale];
+
+  const field = (props: Record<string, unknown>, key: MappedField) => {
+    const names = mapping[key] ? [mapping[key]!] : DEFAULT_MAPPING[key];
+    for (const n of names) if (props[n] !== undefined && props[n] !== null) return props[n];
+    return undefined;
+  };
+  const num = (v: unknown) => (typeof v === "number" ? v : typeof v === "string" && v.trim() !== "" ? Number(v) : undefined);
+
+  // Coarse pseudo-grid so row/col stay meaningful (roughly square bins).
+  const bins = Math.max(1, Math.ceil(Math.sqrt(features.length)));
+  const seen = new Set<string>();
+
+  const cells = features.map((f, i) => {
+    const props = f.properties ?? {};
+    const id = String(field(props, "id") ?? f.id ?? `D${i + 1}`);
+    if (seen.has(id)) throw new Error(`GeoJSON: duplicate district id ${id}`);
+    seen.add(id);
+
+    let d = "";
+    let anchor = { area: -1, x: 0, y: 0 };
+    for (const poly of polygonsOf(f.geometry!)) {
+      poly.forEach((ring, r) => {
+        const pts = ring.map(project);
+        d += `M${pts.map(([x, y]) => `${x.toFixed(1)},${y.toFixed(1)}`).join("L")}Z`;
+        if (r === 0) {
+          const c = ringCentroid(pts);
+          if (c.area > anchor.area) anchor = c;
+        }
+      });
+    }
+
+    const initial: LayoutCell["initial"] = {};
+    for (const key of ["wqi", "pressure", "flow", "leakRisk"] as const) {
+      const v = num(field(props, key));
+      if (v !== undefined && !Number.isNaN(v)) initial[key] = v;
+    }
+    const zone = field(props, "zone");
+
+    return {
+      id,
+      row: Math.min(bins - 1, Math.floor((anchor.y / extent.height) * bins)),
+      col: Math.min(bins - 1, Math.floor((anchor.x / extent.width) * bins)),
+      rowSpan: 1,
+      colSpan: 1,
+      zone: zone === undefined ? undefined : String(zone),
+      outline: d,
+      anchor: [anchor.x, anchor.y] as [number, number],
+      initial,
+    } satisfies LayoutCell;
+  });
+
+  return { cells, extent };
+};
+
+/** Cells with a polygon outline are drawn as paths instead of square tiles. */
+export const hasOutline = (c: GridCell): c is GridCell & { outline: string; anchor: [number, number] } =>
+  typeof c.outline === "string" && Array.isArray(c.anchor);
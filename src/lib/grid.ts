@@ -0,0 +1,56 @@
+import type { LeakLocation } from "./acoustic";
+import type { IsolationPlan } from "./isolation";
+import type { LeakFactor } from "./leak-risk";
+import type { QualitySample } from "./wqi";
+
+// ------------------------- GRID DOMAIN TYPES ------------------------- //
+
+export type GridCell = {
+  id: string;
+  row: number;
+  col: number;
+  wqi: number; // 0 - 100, computed from `quality` when present
+  pressure: number; // psi
+  flow: number; // L/min
+  leakRisk: number; // 0-1, replaced by the selected leak model's score for display
+  leakFactors?: LeakFactor[]; // what drove that score, largest first
+  quality?: QualitySample; // raw water-quality parameters behind the WQI
+  zone?: string;
+  rowSpan?: number; // merged cells cover more than one grid position
+  colSpan?: number;
+  outline?: string; // district polygon as an SVG path, replaces the square tile
+  anchor?: [number, number]; // label / leak-dot position for polygon cells
+};
+
+export type AlertItem = {
+  id: string;
+  type: "Leak Suspected" | "Pressure Drop" | "Unauthorized Usage" | "Quality Alert";
+  severity: "low" | "medium" | "high";
+  cellId: string;
+  timestamp: string;
+  description: string;
+  assignedTo?: string;
+  status: "open" | "ack" | "dispatched" | "resolved";
+  rule?: string; // check that raised it (e.g. "compliance:ecoli"), used to avoid repeats
+  isolation?: IsolationPlan; // valves the crew closes for the repair
+  location?: LeakLocation; // dig location from acoustic correlation
+};
+
+// ------------------------- HELPERS ------------------------- //
+
+export const clamp = (v: number, min: number, max: number) => Math.max(min, Math.min(max, v));
+
+export const round1 = (v: number) => Math.round(v * 10) / 10;
+
+export const round2 = (v: number) => Math.round(v * 100) / 100;
+
+// Prototype heuristic: poor quality and low pressure both push the risk up. Feeds that
+// report no risk of their own get this; the leak models in leak-risk.ts score for display.
+export const deriveLeakRisk = (wqi: number, pressure: number) =>
+  round2(clamp((75 - wqi) / 40 + (pressure < 36 ? 0.3 : 0), 0, 1));
+
+// Alert ids continue the numeric sequence of the existing ones (AL-2091, AL-2092, …).
+export const alertIdSequence = (existing: AlertItem[]) => {
+  let n = Math.max(2000, ...existing.map((a) => Number(a.id.replace(/^\D+/, "")) || 0));
+  return () => `AL-${++n}`;
+};
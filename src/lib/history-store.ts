@@ -0,0 +1,277 @@
+import type { TelemetryReading } from "./telemetry";
+import { QUALITY_PARAM_KEYS, type QualityParam } from "./wqi";
+
+// ------------------------- TYPES ------------------------- //
+
+export type Metric = "wqi" | "pressure" | "flow" | "leakRisk";
+
+export const METRICS: Metric[] = ["wqi", "pressure", "flow", "leakRisk"];
+
+// Raw quality parameters are stored next to the metrics, flattened into the same record.
+type Field = Metric | QualityParam;
+
+const FIELDS: Field[] = [...METRICS, ...QUALITY_PARAM_KEYS];
+
+export type Resolution = "raw" | "1m" | "1h" | "1d";
+
+export type HistoryRange = "hour" | "day" | "week" | "month";
+
+/** One point on a trend chart: the bucket start plus the mean of each metric in it. */
+export type HistoryPoint = { t: number } & Partial<Record<Field, number>>;
+
+export type Agg = { n: number; sum: number; min: number; max: number };
+
+/** One rollup bucket with the full count / sum / min / max of each field. */
+export type AggregatePoint = { t: number } & Partial<Record<Field, Agg>>;
+
+type RawRecord = { cellId: string; ts: number } & Partial<Record<Field, number>>;
+
+type RollupRecord = {
+  res: Exclude<Resolution, "raw">;
+  cellId: string;
+  bucket: number;
+} & Partial<Record<Field, Agg>>;
+
+const BUCKET_MS = { "1m": 60_000, "1h": 3_600_000, "1d": 86_400_000 } as const;
+
+const ROLLUPS = Object.keys(BUCKET_MS) as Array<keyof typeof BUCKET_MS>;
+
+// How long each resolution is kept before pruning.
+const RETENTION_MS: Record<Resolution, number> = {
+  raw: 2 * 3_600_000,
+  "1m": 2 * 86_400_000,
+  "1h": 60 * 86_400_000,
+  "1d": 400 * 86_400_000,
+};
+
+// Which resolution backs each chart range.
+export const RANGES: Record<HistoryRange, { label: string; spanMs: number; res: Resolution }> = {
+  hour: { label: "Last hour", spanMs: 3_600_000, res: "1m" },
+  day: { label: "Last day", spanMs: 86_400_000, res: "1h" },
+  week: { label: "Last week", spanMs: 7 * 86_400_000, res: "1h" },
+  month: { label: "Last month", spanMs: 30 * 86_400_000, res: "1d" },
+};
+
+// ------------------------- INDEXEDDB PLUMBING ------------------------- //
+
+const DB_NAME = "hydrogrid-history";
+const DB_VERSION = 1;
+
+const request = <T>(req: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const done = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+const openDb = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("IndexedDB is not available in this browser"));
+      return;
+    }
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      const raw = db.createObjectStore("readings", { keyPath: ["cellId", "ts"] });
+      raw.createIndex("ts", "ts");
+      const rollups = db.createObjectStore("rollups", { keyPath: ["res", "cellId", "bucket"] });
+      rollups.createIndex("res_bucket", ["res", "bucket"]);
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+// ------------------------- STORE ------------------------- //
+
+const merge = (agg: Agg | undefined, v: number): Agg =>
+  agg
+    ? { n: agg.n + 1, sum: agg.sum + v, min: Math.min(agg.min, v), max: Math.max(agg.max, v) }
+    : { n: 1, sum: v, min: v, max: v };
+
+const toRaw = (r: TelemetryReading): RawRecord => {
+  const rec: RawRecord = { cellId: r.cellId, ts: Date.parse(r.timestamp) };
+  for (const m of METRICS) if (r[m] !== undefined) rec[m] = r[m];
+  for (const p of QUALITY_PARAM_KEYS) if (r.quality?.[p] !== undefined) rec[p] = r.quality[p];
+  return rec;
+};
+
+export type HistoryStore = {
+  /** Persists raw readings and folds them into every rollup resolution. */
+  append: (batch: TelemetryReading[]) => Promise<void>;
+  /** Mean per bucket for one cell over the given range, oldest first. */
+  query: (cellId: string, range: HistoryRange, now?: number) => Promise<HistoryPoint[]>;
+  /** Points for every cell at one resolution between two instants, grouped by cell. */
+  queryAll: (res: Resolution, from: number, to: number) => Promise<Map<string, HistoryPoint[]>>;
+  /** Rollup buckets with min / max kept, for every cell between two instants, grouped by cell. */
+  queryAggregates: (res: Exclude<Resolution, "raw">, from: number, to: number) => Promise<Map<string, AggregatePoint[]>>;
+  /** Drops records older than each resolution's retention window. */
+  prune: (now?: number) => Promise<void>;
+};
+
+const createStore = (db: IDBDatabase): HistoryStore => {
+  const append = async (batch: TelemetryReading[]) => {
+    if (batch.length === 0) return;
+    const raws = batch.map(toRaw).filter((r) => !Number.isNaN(r.ts));
+
+    // Pre-aggregate the batch so each rollup bucket is read and written once.
+    const pending = new Map<string, RollupRecord>();
+    for (const r of raws) {
+      for (const res of ROLLUPS) {
+        const bucket = Math.floor(r.ts / BUCKET_MS[res]) * BUCKET_MS[res];
+        const key = `${res}|${r.cellId}|${bucket}`;
+        const rec = pending.get(key) ?? { res, cellId: r.cellId, bucket };
+        for (const m of FIELDS) if (r[m] !== undefined) rec[m] = merge(rec[m], r[m]!);
+        pending.set(key, rec);
+      }
+    }
+
+    const tx = db.transaction(["readings", "rollups"], "readwrite");
+    const readings = tx.objectStore("readings");
+    const rollups = tx.objectStore("rollups");
+    for (const r of raws) readings.put(r);
+    for (const rec of pending.values()) {
+      const get = rollups.get([rec.res, rec.cellId, rec.bucket]);
+      get.onsuccess = () => {
+        const prev = get.result as RollupRecord | undefined;
+        if (prev) {
+          for (const m of FIELDS) {
+            const a = prev[m];
+            const b = rec[m];
+            if (a && b) rec[m] = { n: a.n + b.n, sum: a.sum + b.sum, min: Math.min(a.min, b.min), max: Math.max(a.max, b.max) };
+            else if (a) rec[m] = a;
+          }
+        }
+        rollups.put(rec);
+      };
+    }
+    await done(tx);
+  };
+
+  const toPoint = (rec: RawRecord | RollupRecord): HistoryPoint => {
+    if ("ts" in rec) {
+      const { cellId: _c, ts, ...values } = rec;
+      return { t: ts, ...values };
+    }
+    const point: HistoryPoint = { t: rec.bucket };
+    for (const m of FIELDS) {
+      const a = rec[m];
+      if (a) point[m] = a.sum / a.n;
+    }
+    return point;
+  };
+
+  const readRange = async (res: Resolution, cellId: string, from: number, to: number) => {
+    const tx = db.transaction(res === "raw" ? "readings" : "rollups", "readonly");
+    const range =
+      res === "raw"
+        ? IDBKeyRange.bound([cellId, from], [cellId, to])
+        : IDBKeyRange.bound([res, cellId, from], [res, cellId, to]);
+    const recs = await request(tx.objectStore(res === "raw" ? "readings" : "rollups").getAll(range));
+    return (recs as Array<RawRecord | RollupRecord>).map(toPoint);
+  };
+
+  const query = (cellId: string, range: HistoryRange, now = Date.now()) => {
+    const { spanMs, res } = RANGES[range];
+    return readRange(res, cellId, now - spanMs, now);
+  };
+
+  const queryAll = async (res: Resolution, from: number, to: number) => {
+    const tx = db.transaction(res === "raw" ? "readings" : "rollups", "readonly");
+    const recs =
+      res === "raw"
+        ? await request(tx.objectStore("readings").index("ts").getAll(IDBKeyRange.bound(from, to)))
+        : await request(tx.objectStore("rollups").index("res_bucket").getAll(IDBKeyRange.bound([res, from], [res, to])));
+    const out = new Map<string, HistoryPoint[]>();
+    for (const rec of recs as Array<RawRecord | RollupRecord>) {
+      const list = out.get(rec.cellId) ?? [];
+      list.push(toPoint(rec));
+      out.set(rec.cellId, list);
+    }
+    for (const list of out.values()) list.sort((a, b) => a.t - b.t);
+    return out;
+  };
+
+  const queryAggregates = async (res: Exclude<Resolution, "raw">, from: number, to: number) => {
+    const tx = db.transaction("rollups", "readonly");
+    const recs = await request(tx.objectStore("rollups").index("res_bucket").getAll(IDBKeyRange.bound([res, from], [res, to])));
+    const out = new Map<string, AggregatePoint[]>();
+    for (const { res: _r, cellId, bucket, ...aggs } of recs as RollupRecord[]) {
+      const list = out.get(cellId) ?? [];
+      list.push({ t: bucket, ...aggs });
+      out.set(cellId, list);
+    }
+    for (const list of out.values()) list.sort((a, b) => a.t - b.t);
+    return out;
+  };
+
+  const prune = async (now = Date.now()) => {
+    const tx = db.transaction(["readings", "rollups"], "readwrite");
+    tx.objectStore("readings").index("ts").openCursor(IDBKeyRange.upperBound(now - RETENTION_MS.raw)).onsuccess = function () {
+      const cursor = this.result;
+      if (cursor) {
+        cursor.delete();
+        cursor.continue();
+      }
+    };
+    const byBucket = tx.objectStore("rollups").index("res_bucket");
+    for (const res of ROLLUPS) {
+      byBucket.openCursor(IDBKeyRange.bound([res, 0], [res, now - RETENTION_MS[res]])).onsuccess = function () {
+        const cursor = this.result;
+        if (cursor) {
+          cursor.delete();
+          cursor.continue();
+        }
+      };
+    }
+    await done(tx);
+  };
+
+  return { append, query, queryAll, queryAggregates, prune };
+};
+
+let storePromise: Promise<HistoryStore> | null = null;
+
+/** Shared store for the page. Rejects when IndexedDB is unavailable (e.g. private mode). */
+export const getHistoryStore = () => {
+  storePromise ??= openDb().then(createStore);
+  return storePromise;
+};
+
+/**
+ * Buffers readings and writes them in one transaction every `flushMs`, pruning
+ * old data every few minutes. Returns a stop function that flushes what is left.
+ */
+export const createHistoryWriter = (flushMs = 5000, pruneMs = 5 * 60_000) => {
+  let buffer: TelemetryReading[] = [];
+  const flush = () => {
+    if (buffer.length === 0) return;
+    const batch = buffer;
+    buffer = [];
+    getHistoryStore()
+      .then((s) => s.append(batch))
+      .catch(() => {
+        // History is best-effort; the live view keeps working without it.
+      });
+  };
+  const flushTimer = setInterval(flush, flushMs);
+  const pruneTimer = setInterval(() => {
+    getHistoryStore().then((s) => s.prune()).catch(() => {});
+  }, pruneMs);
+  return {
+    push: (batch: TelemetryReading[]) => {
+      buffer.push(...batch);
+    },
+    stop: () => {
+      clearInterval(flushTimer);
+      clearInterval(pruneTimer);
+      flush();
+    },
+  };
+};
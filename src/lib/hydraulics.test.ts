@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+
+import { solveHydraulics } from "./hydraulics";
+import { buildDemoNetwork, setLinkStatus, type Network, type Valve } from "./network";
+import { testCells } from "./test-cells";
+
+const net = buildDemoNetwork(testCells());
+
+// Flow into each node minus flow out of it, L/s.
+const netInflow = (flows: Record<string, number>) => {
+  const balance = new Map(net.nodes.map((n) => [n.id, 0]));
+  for (const l of net.links) {
+    balance.set(l.to, balance.get(l.to)! + flows[l.id]);
+    balance.set(l.from, balance.get(l.from)! - flows[l.id]);
+  }
+  return balance;
+};
+
+describe("solveHydraulics", () => {
+  for (const [label, options] of [
+    ["at midnight", { time: 0 }],
+    ["at the morning peak in a 50% surge", { time: 7 * 3600, demandMultiplier: 1.5 }],
+  ] as const) {
+    it(`balances flow at every node ${label}`, () => {
+      const r = solveHydraulics(net, options);
+      expect(r.converged).toBe(true);
+      const balance = netInflow(r.flows);
+      const totalDemand = Object.values(r.demands).reduce((s, d) => s + d, 0);
+      let supplied = 0;
+      for (const n of net.nodes) {
+        if (n.kind === "junction") expect(balance.get(n.id)!).toBeCloseTo(r.demands[n.id], 1);
+        else supplied -= balance.get(n.id)!;
+      }
+      expect(totalDemand).toBeGreaterThan(0);
+      expect(supplied).toBeCloseTo(totalDemand, 1);
+    });
+  }
+
+  it("cuts off junctions with no open path to a source and supplies nothing to them", () => {
+    const feeds = net.links.filter((l) => net.nodes.some((n) => n.kind !== "junction" && (n.id === l.from || n.id === l.to)));
+    const closed = feeds.reduce((acc, l) => setLinkStatus(acc, l.id, "closed"), net);
+    const r = solveHydraulics(closed);
+    const junctions = net.nodes.filter((n) => n.kind === "junction").map((n) => n.id);
+    expect([...r.disconnected].sort()).toEqual([...junctions].sort());
+    for (const id of junctions) expect(r.demands[id]).toBe(0);
+  });
+
+  it("solves control valves other than TCVs as fully open", () => {
+    // A reservoir feeding one junction through a valve, 60 m above it.
+    const through = (valve: Pick<Valve, "valveType" | "setting">): Network => ({
+      nodes: [
+        { id: "R", kind: "reservoir", x: 0, y: 0, head: 60 },
+        { id: "J", kind: "junction", x: 1, y: 0, elevation: 0, baseDemand: 10 },
+      ],
+      links: [{ id: "V", kind: "valve", from: "R", to: "J", status: "open", diameter: 150, ...valve }],
+      patterns: {},
+      patternStepSec: 3600,
+    });
+    const open = solveHydraulics(through({ valveType: "TCV", setting: 0 })).pressures.J;
+    const throttled = solveHydraulics(through({ valveType: "TCV", setting: 500 })).pressures.J;
+    expect(throttled).toBeLessThan(open - 1);
+    for (const valveType of ["PRV", "PSV", "PBV", "FCV", "GPV"] as const) {
+      expect(solveHydraulics(through({ valveType, setting: 20 })).pressures.J).toBeCloseTo(open, 6);
+    }
+  });
+});
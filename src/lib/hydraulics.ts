@@ -0,0 +1,461 @@
+import { deriveLeakRisk, round1, type GridCell } from "./grid";
+import type { Network, NetworkLink, Pump } from "./network";
+
+// ------------------------- TYPES ------------------------- //
+
+export type SolveOptions = {
+  /** Seconds into the demand pattern cycle; picks the pattern step. Default 0. */
+  time?: number;
+  /** Scales every junction demand, e.g. 1.5 for a 50% surge. Default 1. */
+  demandMultiplier?: number;
+  /** Tank levels (m above bottom) by tank id; unset tanks use their initial level. */
+  tankLevels?: Record<string, number>;
+  maxIterations?: number;
+  /** Convergence limit on the sum of flow changes over the sum of flows. */
+  accuracy?: number;
+};
+
+/** One steady-state solution. Heads and pressures in m, flows and demands in L/s. */
+export type HydraulicResult = {
+  time: number;
+  converged: boolean;
+  iterations: number;
+  heads: Record<string, number>;
+  pressures: Record<string, number>;
+  /** Demand actually supplied at each junction; zero when it is cut off. */
+  demands: Record<string, number>;
+  /** Link flows, positive in the from → to direction. */
+  flows: Record<string, number>;
+  tankLevels: Record<string, number>;
+  /** Junctions with no open path to a reservoir or tank. */
+  disconnected: string[];
+};
+
+// ------------------------- HEAD LOSS ------------------------- //
+
+const HW_EXP = 1.852;
+const GRAVITY = 9.81;
+const PSI_PER_M = 1.42197;
+// Flows below this (m³/s) are linearised so the gradient never vanishes on idle pipes.
+const Q_MIN = 1e-5;
+// Open valves with no loss coefficient still get a small one.
+const K_MIN = 0.1;
+
+const area = (diameterMm: number) => (Math.PI * (diameterMm / 1000) ** 2) / 4;
+
+// Hazen-Williams resistance for h = r·Q^1.852 with Q in m³/s and h in m.
+const pipeResistance = (length: number, diameterMm: number, c: number) =>
+  (10.67 * length) / (c ** HW_EXP * (diameterMm / 1000) ** 4.871);
+
+// Minor-loss resistance for h = m·Q² (valves).
+const minorResistance = (k: number, diameterMm: number) =>
+  (8 * Math.max(k, K_MIN)) / (GRAVITY * Math.PI ** 2 * (diameterMm / 1000) ** 4);
+
+/**
+ * Fits h = h0 − r·Q² to a head curve. A single design point follows EPANET:
+ * shutoff head at 133% of the design head and maximum flow at twice the design flow.
+ */
+const pumpCurve = (pump: Pump) => {
+  const pts = pump.curve.map((p) => ({ q: p.flow / 1000, h: p.head }));
+  const speed = pump.speed ?? 1;
+  if (pts.length === 0) return null;
+  let h0: number;
+  let r: number;
+  if (pts.length === 1) {
+    h0 = (4 / 3) * pts[0].h;
+    r = (h0 - pts[0].h) / Math.max(pts[0].q, Q_MIN) ** 2;
+  } else {
+    // Least squares on h = h0 − r·x with x = Q².
+    const n = pts.length;
+    const sx = pts.reduce((s, p) => s + p.q ** 2, 0);
+    const sy = pts.reduce((s, p) => s + p.h, 0);
+    const sxx = pts.reduce((s, p) => s + p.q ** 4, 0);
+    const sxy = pts.reduce((s, p) => s + p.q ** 2 * p.h, 0);
+    const den = n * sxx - sx * sx;
+    r = den === 0 ? 0 : -(n * sxy - sx * sy) / den;
+    h0 = (sy + r * sx) / n;
+  }
+  // Affinity laws: shutoff head scales with speed², the quadratic term is unchanged.
+  return { h0: h0 * speed ** 2, r: Math.max(r, 1e-6) };
+};
+
+type LinkModel = {
+  link: NetworkLink;
+  from: number; // node index
+  to: number;
+  /** Head loss and its derivative at flow q (m³/s). */
+  loss: (q: number) => { h: number; g: number };
+  /** Pumps only: head above which the pump cannot deliver and is shut off. */
+  shutoff?: number;
+};
+
+const modelLink = (link: NetworkLink, from: number, to: number): LinkModel => {
+  if (link.kind === "pipe") {
+    const r = pipeResistance(link.length, link.diameter, link.roughness);
+    return {
+      link,
+      from,
+      to,
+      loss: (q) => {
+        const qa = Math.max(Math.abs(q), Q_MIN) ** (HW_EXP - 1);
+        return { h: r * qa * q, g: HW_EXP * r * qa };
+      },
+    };
+  }
+  if (link.kind === "valve") {
+    // Only throttle valves are modelled, with the setting as the loss coefficient. Other
+    // control valves (PRV, PSV, PBV, FCV, GPV) are treated as fully open; the importer warns.
+    const m = minorResistance(link.valveType === "TCV" ? link.setting : 0, link.diameter);
+    return {
+      link,
+      from,
+      to,
+      loss: (q) => {
+        const qa = Math.max(Math.abs(q), Q_MIN);
+        return { h: m * qa * q, g: 2 * m * qa };
+      },
+    };
+  }
+  const curve = pumpCurve(link);
+  if (curve) {
+    return {
+      link,
+      from,
+      to,
+      shutoff: curve.h0,
+      loss: (q) => {
+        const qa = Math.max(q, Q_MIN);
+        return { h: -(curve.h0 - curve.r * qa * qa), g: 2 * curve.r * qa };
+      },
+    };
+  }
+  // Constant-power pump: head gain P / (ρ·g·Q), P in kW.
+  const power = (link.power ?? 0) / GRAVITY;
+  return {
+    link,
+    from,
+    to,
+    loss: (q) => {
+      const qa = Math.max(q, 1e-3);
+      return { h: -power / qa, g: power / (qa * qa) };
+    },
+  };
+};
+
+// ------------------------- LINEAR SOLVER ------------------------- //
+
+/** Jacobi-preconditioned conjugate gradient for the symmetric positive-definite head equations. */
+const conjugateGradient = (
+  diag: Float64Array,
+  multiply: (x: Float64Array, out: Float64Array) => void,
+  b: Float64Array,
+  x: Float64Array,
+  tolerance = 1e-10,
+) => {
+  const n = b.length;
+  const r = new Float64Array(n);
+  const z = new Float64Array(n);
+  const p = new Float64Array(n);
+  const ap = new Float64Array(n);
+  multiply(x, ap);
+  let bNorm = 0;
+  for (let i = 0; i < n; i++) {
+    r[i] = b[i] - ap[i];
+    z[i] = r[i] / diag[i];
+    p[i] = z[i];
+    bNorm += b[i] * b[i];
+  }
+  const limit = tolerance * tolerance * Math.max(bNorm, 1e-30);
+  let rz = 0;
+  for (let i = 0; i < n; i++) rz += r[i] * z[i];
+  for (let k = 0; k < 10 * n + 50; k++) {
+    let rr = 0;
+    for (let i = 0; i < n; i++) rr += r[i] * r[i];
+    if (rr <= limit) break;
+    multiply(p, ap);
+    let pap = 0;
+    for (let i = 0; i < n; i++) pap += p[i] * ap[i];
+    if (pap <= 0) break;
+    const alpha = rz / pap;
+    for (let i = 0; i < n; i++) {
+      x[i] += alpha * p[i];
+      r[i] -= alpha * ap[i];
+      z[i] = r[i] / diag[i];
+    }
+    let rzNext = 0;
+    for (let i = 0; i < n; i++) rzNext += r[i] * z[i];
+    const beta = rzNext / rz;
+    rz = rzNext;
+    for (let i = 0; i < n; i++) p[i] = z[i] + beta * p[i];
+  }
+  return x;
+};
+
+// ------------------------- GRADIENT METHOD ------------------------- //
+
+export const patternMultiplier = (net: Network, pattern: string | undefined, time: number) => {
+  const values = pattern ? net.patterns[pattern] : undefined;
+  if (!values || values.length === 0) return 1;
+  const step = Math.floor(time / Math.max(1, net.patternStepSec));
+  return values[((step % values.length) + values.length) % values.length];
+};
+
+/**
+ * Steady-state solution of the network by the Todini-Pilati global gradient
+ * algorithm: each iteration linearises head loss around the current flows, solves
+ * for junction heads, then corrects the flows. Reservoirs and tanks are fixed-head
+ * nodes. Junctions cut off by closed links get zero pressure and no supply instead
+ * of making the system singular.
+ */
+export const solveHydraulics = (net: Network, options: SolveOptions = {}): HydraulicResult => {
+  const { time = 0, demandMultiplier = 1, tankLevels = {}, maxIterations = 200, accuracy = 1e-3 } = options;
+  const nodes = net.nodes;
+  const index = new Map(nodes.map((n, i) => [n.id, i]));
+  const fixedHead = new Float64Array(nodes.length);
+  const isFixed = nodes.map((n) => n.kind !== "junction");
+  const demand = new Float64Array(nodes.length); // m³/s
+  const levels: Record<string, number> = {};
+  nodes.forEach((n, i) => {
+    if (n.kind === "reservoir") fixedHead[i] = n.head * patternMultiplier(net, n.pattern, time);
+    else if (n.kind === "tank") {
+      const level = Math.min(n.maxLevel, Math.max(n.minLevel, tankLevels[n.id] ?? n.initLevel));
+      levels[n.id] = level;
+      fixedHead[i] = n.elevation + level;
+    } else demand[i] = (n.baseDemand * patternMultiplier(net, n.pattern, time) * demandMultiplier) / 1000;
+  });
+
+  const links: LinkModel[] = [];
+  for (const l of net.links) {
+    const a = index.get(l.from);
+    const b = index.get(l.to);
+    if (a !== undefined && b !== undefined) links.push(modelLink(l, a, b));
+  }
+
+  // Initial guess: 0.3 m/s in pipes and valves, design flow through pumps.
+  const q = new Float64Array(links.length);
+  links.forEach((m, k) => {
+    q[k] = m.link.kind === "pump" ? (m.link.curve[0]?.flow ?? 50) / 1000 : 0.3 * area(m.link.diameter);
+  });
+  const pumpOff = new Uint8Array(links.length);
+  const maxFixed = Math.max(0, ...nodes.map((_, i) => (isFixed[i] ? fixedHead[i] : -Infinity)));
+  const head = new Float64Array(nodes.length);
+  nodes.forEach((_, i) => (head[i] = isFixed[i] ? fixedHead[i] : maxFixed));
+
+  // Junctions reachable from a fixed-head node over open links form the unknowns.
+  let active = new Uint8Array(links.length);
+  let unknown: number[] = [];
+  let slot = new Int32Array(nodes.length).fill(-1);
+  const topology = () => {
+    active = new Uint8Array(links.length);
+    links.forEach((m, k) => (active[k] = m.link.status === "open" && !pumpOff[k] ? 1 : 0));
+    const adjacency: number[][] = nodes.map(() => []);
+    links.forEach((m, k) => {
+      if (!active[k]) return;
+      adjacency[m.from].push(m.to);
+      adjacency[m.to].push(m.from);
+    });
+    const reached = new Uint8Array(nodes.length);
+    const queue = nodes.map((_, i) => i).filter((i) => isFixed[i]);
+    for (const i of queue) reached[i] = 1;
+    while (queue.length) {
+      const i = queue.pop()!;
+      for (const j of adjacency[i]) {
+        if (!reached[j]) {
+          reached[j] = 1;
+          queue.push(j);
+        }
+      }
+    }
+    slot = new Int32Array(nodes.length).fill(-1);
+    unknown = [];
+    nodes.forEach((_, i) => {
+      if (!isFixed[i] && reached[i]) {
+        slot[i] = unknown.length;
+        unknown.push(i);
+      }
+    });
+    // Links into cut-off junctions carry nothing.
+    links.forEach((m, k) => {
+      if (active[k] && ((!isFixed[m.from] && slot[m.from] < 0) || (!isFixed[m.to] && slot[m.to] < 0))) active[k] = 0;
+      if (!active[k]) q[k] = 0;
+    });
+  };
+  topology();
+
+  const p = new Float64Array(links.length);
+  const y = new Float64Array(links.length);
+  let iterations = 0;
+  let converged = false;
+  while (iterations < maxIterations) {
+    iterations++;
+    const n = unknown.length;
+    const diag = new Float64Array(n);
+    const rhs = new Float64Array(n);
+    for (let s = 0; s < n; s++) rhs[s] = -demand[unknown[s]];
+
+    links.forEach((m, k) => {
+      if (!active[k]) return;
+      const { h, g } = m.loss(q[k]);
+      p[k] = 1 / g;
+      y[k] = h / g;
+      const a = slot[m.from];
+      const b = slot[m.to];
+      const c = q[k] - y[k];
+      if (a >= 0) {
+        diag[a] += p[k];
+        rhs[a] -= c;
+        if (b < 0) rhs[a] += p[k] * fixedHead[m.to];
+      }
+      if (b >= 0) {
+        diag[b] += p[k];
+        rhs[b] += c;
+        if (a < 0) rhs[b] += p[k] * fixedHead[m.from];
+      }
+    });
+
+    const multiply = (x: Float64Array, out: Float64Array) => {
+      for (let s = 0; s < n; s++) out[s] = diag[s] * x[s];
+      links.forEach((m, k) => {
+        if (!active[k]) return;
+        const a = slot[m.from];
+        const b = slot[m.to];
+        if (a >= 0 && b >= 0) {
+          out[a] -= p[k] * x[b];
+          out[b] -= p[k] * x[a];
+        }
+      });
+    };
+    const h = Float64Array.from(unknown, (i) => head[i]);
+    conjugateGradient(diag, multiply, rhs, h);
+    unknown.forEach((i, s) => (head[i] = h[s]));
+
+    let change = 0;
+    let total = 0;
+    links.forEach((m, k) => {
+      if (!active[k]) return;
+      const next = q[k] - y[k] + p[k] * (head[m.from] - head[m.to]);
+      change += Math.abs(next - q[k]);
+      total += Math.abs(next);
+      q[k] = next;
+    });
+
+    // A pump facing more head than its shutoff head stops; it restarts once the lift drops.
+    let statusChanged = false;
+    links.forEach((m, k) => {
+      if (m.shutoff === undefined || m.link.status !== "open") return;
+      const off = head[m.to] - head[m.from] > m.shutoff ? 1 : 0;
+      if (off !== pumpOff[k]) {
+        pumpOff[k] = off;
+        statusChanged = true;
+      }
+    });
+    if (statusChanged) {
+      topology();
+      continue;
+    }
+    if (total === 0 || change / total < accuracy) {
+      converged = true;
+      break;
+    }
+  }
+
+  const result: HydraulicResult = {
+    time,
+    converged,
+    iterations,
+    heads: {},
+    pressures: {},
+    demands: {},
+    flows: {},
+    tankLevels: levels,
+    disconnected: [],
+  };
+  nodes.forEach((node, i) => {
+    if (node.kind === "junction" && slot[i] < 0) {
+      result.disconnected.push(node.id);
+      result.heads[node.id] = node.elevation;
+      result.pressures[node.id] = 0;
+      result.demands[node.id] = 0;
+      return;
+    }
+    result.heads[node.id] = head[i];
+    result.pressures[node.id] = node.kind === "reservoir" ? 0 : head[i] - node.elevation;
+    if (node.kind === "junction") result.demands[node.id] = demand[i] * 1000;
+  });
+  links.forEach((m, k) => (result.flows[m.link.id] = q[k] * 1000));
+  return result;
+};
+
+// ------------------------- EXTENDED PERIOD ------------------------- //
+
+export type SimulateOptions = Omit<SolveOptions, "time" | "tankLevels"> & {
+  start?: number;
+  /** Seconds to simulate; default one day. */
+  duration?: number;
+  /** Hydraulic time step in seconds; defaults to the pattern step. */
+  step?: number;
+};
+
+/**
+ * Tank levels `seconds` after a solution, each moved by its net inflow at that
+ * solution's flows and held within the tank's min / max.
+ */
+export const advanceTankLevels = (net: Network, result: HydraulicResult, seconds: number): Record<string, number> => {
+  const levels: Record<string, number> = {};
+  for (const tank of net.nodes) {
+    if (tank.kind !== "tank") continue;
+    let inflow = 0; // L/s
+    for (const l of net.links) {
+      if (l.to === tank.id) inflow += result.flows[l.id] ?? 0;
+      if (l.from === tank.id) inflow -= result.flows[l.id] ?? 0;
+    }
+    const surface = (Math.PI * tank.diameter ** 2) / 4;
+    const next = (result.tankLevels[tank.id] ?? tank.initLevel) + ((inflow / 1000) * seconds) / surface;
+    levels[tank.id] = Math.min(tank.maxLevel, Math.max(tank.minLevel, next));
+  }
+  return levels;
+};
+
+/**
+ * Runs a series of steady states, moving tank levels by their net inflow between
+ * steps. Levels are held within each tank's min / max rather than closing its links.
+ */
+export const simulateHydraulics = (net: Network, options: SimulateOptions = {}): HydraulicResult[] => {
+  const { start = 0, duration = 86400, step = net.patternStepSec, ...solve } = options;
+  let levels: Record<string, number> | undefined;
+  const results: HydraulicResult[] = [];
+  for (let t = start; t <= start + duration; t += Math.max(1, step)) {
+    const r = solveHydraulics(net, { ...solve, time: t, tankLevels: levels });
+    results.push(r);
+    levels = advanceTankLevels(net, r, Math.max(1, step));
+  }
+  return results;
+};
+
+// ------------------------- GRID MAPPING ------------------------- //
+
+/** Seconds since local midnight, for picking the current pattern step. */
+export const timeOfDay = (at = new Date()) => at.getHours() * 3600 + at.getMinutes() * 60 + at.getSeconds();
+
+/**
+ * Writes a solution onto the map: each cell's pressure is the mean junction
+ * pressure in it (psi) and its flow the demand supplied there (L/min).
+ * Cells without junctions keep their values.
+ */
+export const applyHydraulics = (cells: GridCell[], net: Network, result: HydraulicResult): GridCell[] => {
+  const byCell = new Map<string, { pressure: number; flow: number; count: number }>();
+  for (const n of net.nodes) {
+    if (n.kind !== "junction" || !n.cellId || result.pressures[n.id] === undefined) continue;
+    const acc = byCell.get(n.cellId) ?? { pressure: 0, flow: 0, count: 0 };
+    acc.pressure += Math.max(0, result.pressures[n.id]);
+    acc.flow += result.demands[n.id] ?? 0;
+    acc.count++;
+    byCell.set(n.cellId, acc);
+  }
+  return cells.map((c) => {
+    const acc = byCell.get(c.id);
+    if (!acc) return c;
+    const pressure = round1((acc.pressure / acc.count) * PSI_PER_M);
+    return { ...c, pressure, flow: round1(acc.flow * 60), leakRisk: deriveLeakRisk(c.wqi, pressure) };
+  });
+};
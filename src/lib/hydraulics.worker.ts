@@ -0,0 +1,17 @@
+import { solveHydraulics, type HydraulicResult, type SolveOptions } from "./hydraulics";
+import type { Network } from "./network";
+
+export type SolveRequest = { id: number; network: Network; options: SolveOptions };
+export type SolveResponse = { id: number; result?: HydraulicResult; error?: string };
+
+// Solves off the main thread so large networks do not stall the map.
+self.onmessage = (e: MessageEvent<SolveRequest>) => {
+  const { id, network, options } = e.data;
+  let response: SolveResponse;
+  try {
+    response = { id, result: solveHydraulics(network, options) };
+  } catch (err) {
+    response = { id, error: err instanceof Error ? err.message : String(err) };
+  }
+  self.postMessage(response);
+};
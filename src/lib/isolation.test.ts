@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+
+import { planIsolation, valveLabel } from "./isolation";
+import type { Network, Pipe } from "./network";
+
+const pipe = (id: string, from: string, to: string, valves?: Pipe["valves"]): Pipe => ({
+  id,
+  kind: "pipe",
+  from,
+  to,
+  status: "open",
+  length: 200,
+  diameter: 150,
+  roughness: 120,
+  material: "DI",
+  valves,
+});
+
+// R → J1 → J2 → J3 along one main, with valves at both ends of P2 only.
+const line: Network = {
+  nodes: [
+    { id: "R", kind: "reservoir", x: 0, y: 0, head: 60 },
+    ...[1, 2, 3].map((i) => ({ id: `J${i}`, kind: "junction" as const, x: i, y: 0, cellId: `C1-${i}`, elevation: 10, baseDemand: 1, connections: 100 })),
+  ],
+  links: [pipe("P1", "R", "J1"), pipe("P2", "J1", "J2", ["from", "to"]), pipe("P3", "J2", "J3")],
+  patterns: {},
+  patternStepSec: 3600,
+};
+
+// The same main fed from its far end too.
+const looped: Network = {
+  ...line,
+  nodes: [...line.nodes, { id: "R2", kind: "reservoir", x: 4, y: 0, head: 60 }],
+  links: [...line.links, pipe("P4", "J3", "R2")],
+};
+
+describe("planIsolation", () => {
+  it("closes only the valve with supply behind it and reports what lies beyond as cut off", () => {
+    const plan = planIsolation(line, { kind: "link", id: "P2" });
+    expect(plan.valves.map(valveLabel)).toEqual(["P2 at J1"]);
+    expect(plan.links).toEqual(["P2"]);
+    expect(plan.cutOff).toEqual(["C1-2", "C1-3"]);
+    expect(plan.connections).toBe(200);
+    expect(plan.outageHours).toBe(4 + 0.25 + 1);
+  });
+
+  it("closes both ends when the far side has its own supply", () => {
+    const plan = planIsolation(looped, { kind: "link", id: "P2" });
+    expect(plan.valves.map(valveLabel)).toEqual(["P2 at J1", "P2 at J2"]);
+    expect(plan.cells).toEqual([]);
+    expect(plan.connections).toBe(0);
+  });
+
+  it("warns when the segment holds its own source", () => {
+    const plan = planIsolation(line, { kind: "link", id: "P1" });
+    expect(plan.valves.map(valveLabel)).toEqual([]);
+    expect(plan.warnings).toEqual(["Segment holds R; shut its outlet before draining."]);
+  });
+
+  it("reports an unknown target instead of planning nothing", () => {
+    expect(planIsolation(line, { kind: "cell", id: "C9-9" }).warnings[0]).toMatch(/Nothing in the network/);
+  });
+});
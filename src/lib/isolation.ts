@@ -0,0 +1,160 @@
+import { linksInCell, type Network, type NetworkLink, type NetworkNode } from "./network";
+
+// ------------------------- SEGMENTS ------------------------- //
+// A segment is the part of the network that can be shut off as one piece: the nodes and
+// pipes reachable from each other without passing a valve. Valves are the valve and pump
+// links themselves plus the isolation valves fitted at pipe ends (`Pipe.valves`).
+
+/** A valve the crew operates. `at` is the pipe end it sits at; unset for valve and pump links. */
+export type IsolationValve = { id: string; linkId: string; at?: string };
+
+// Parent-pointer forest over element keys ("n:<node>" / "l:<link>").
+const unionFind = () => {
+  const parent = new Map<string, string>();
+  const find = (k: string): string => {
+    const p = parent.get(k) ?? k;
+    if (p === k) return k;
+    const root = find(p);
+    parent.set(k, root);
+    return root;
+  };
+  return { find, union: (a: string, b: string) => parent.set(find(a), find(b)) };
+};
+
+type Boundary = { valve: IsolationValve; sides: [string, string] };
+
+// Segments of the open network, and the valves between them.
+const segments = (net: Network) => {
+  const uf = unionFind();
+  const boundaries: Boundary[] = [];
+  for (const l of net.links) {
+    if (l.status === "closed") continue;
+    if (l.kind !== "pipe") {
+      boundaries.push({ valve: { id: l.id, linkId: l.id }, sides: [`n:${l.from}`, `n:${l.to}`] });
+      continue;
+    }
+    for (const end of [l.from, l.to]) {
+      const valved = l.valves?.includes(end === l.from ? "from" : "to");
+      if (valved) boundaries.push({ valve: { id: `${l.id}@${end}`, linkId: l.id, at: end }, sides: [`l:${l.id}`, `n:${end}`] });
+      else uf.union(`l:${l.id}`, `n:${end}`);
+    }
+  }
+  return { find: uf.find, boundaries };
+};
+
+// ------------------------- PLANNING ------------------------- //
+
+export type IsolationTarget = { kind: "link" | "cell"; id: string };
+
+export type IsolationPlan = {
+  target: IsolationTarget;
+  /** Valves to close, in network order. */
+  valves: IsolationValve[];
+  /** Pipes in the shut-off segment, which the crew can drain. */
+  links: string[];
+  /** Cells losing supply: the segment itself and anything only fed through it. */
+  cells: string[];
+  /** Of those, cells outside the segment that are cut off because no valve separates their supply. */
+  cutOff: string[];
+  /** Service connections without water while the valves are shut. */
+  connections: number;
+  outageHours: number;
+  warnings: string[];
+};
+
+// Typical hours to excavate, repair and backfill a main break, by diameter (mm).
+const repairHours = (diameter: number) => (diameter <= 150 ? 4 : diameter <= 300 ? 6 : 8);
+// Crew time per valve operated, and for flushing and refilling the segment afterwards.
+const HOURS_PER_VALVE = 0.25;
+const REFILL_HOURS = 1;
+
+const isSource = (n: NetworkNode) => n.kind === "reservoir" || n.kind === "tank";
+
+/**
+ * Works out which valves shut off a pipe or every main in a cell. Only valves with
+ * supply behind them need closing: a boundary valve whose far side is fed solely
+ * through the segment is left open, and the cells behind it are reported as cut off.
+ */
+export const planIsolation = (net: Network, target: IsolationTarget): IsolationPlan => {
+  const { find, boundaries } = segments(net);
+  const link = target.kind === "link" ? net.links.find((l) => l.id === target.id) : undefined;
+  const seeds =
+    target.kind === "cell"
+      ? [
+          ...net.nodes.filter((n) => n.cellId === target.id).map((n) => `n:${n.id}`),
+          ...linksInCell(net, target.id).filter((l) => l.kind === "pipe").map((l) => `l:${l.id}`),
+        ]
+      : !link
+        ? []
+        : link.kind === "pipe"
+          ? [`l:${link.id}`]
+          : [`n:${link.from}`, `n:${link.to}`];
+  if (seeds.length === 0) {
+    return { target, valves: [], links: [], cells: [], cutOff: [], connections: 0, outageHours: 0, warnings: [`Nothing in the network at ${target.id}.`] };
+  }
+  const inside = new Set(seeds.map(find));
+
+  // Segments connected to a reservoir or tank without passing through `shut` ones.
+  const fedSegments = (shut: Set<string>) => {
+    const neighbours = new Map<string, string[]>();
+    for (const { sides } of boundaries) {
+      const [a, b] = sides.map(find);
+      if (a === b || shut.has(a) || shut.has(b)) continue;
+      neighbours.set(a, [...(neighbours.get(a) ?? []), b]);
+      neighbours.set(b, [...(neighbours.get(b) ?? []), a]);
+    }
+    const fed = new Set(net.nodes.filter(isSource).map((n) => find(`n:${n.id}`)).filter((s) => !shut.has(s)));
+    const queue = [...fed];
+    while (queue.length > 0) {
+      for (const next of neighbours.get(queue.pop()!) ?? []) {
+        if (fed.has(next)) continue;
+        fed.add(next);
+        queue.push(next);
+      }
+    }
+    return fed;
+  };
+  const before = fedSegments(new Set());
+  const fed = fedSegments(inside);
+
+  const valves = boundaries
+    .filter(({ sides }) => {
+      const [a, b] = sides.map(find);
+      return inside.has(a) !== inside.has(b) && fed.has(inside.has(a) ? b : a);
+    })
+    .map((b) => b.valve);
+
+  // Only nodes that have water now lose it; ones already cut off by closed links are not counted.
+  const dry = (key: string) => before.has(find(key)) && !fed.has(find(key));
+  const dryNodes = net.nodes.filter((n) => dry(`n:${n.id}`));
+  const cellsOf = (nodes: NetworkNode[]) => [...new Set(nodes.map((n) => n.cellId).filter((c): c is string => !!c))];
+  const segmentCells = cellsOf(dryNodes.filter((n) => inside.has(find(`n:${n.id}`))));
+  const cells = cellsOf(dryNodes);
+  const pipes = net.links.filter((l) => l.kind === "pipe" && l.status === "open" && inside.has(find(`l:${l.id}`)));
+
+  const warnings: string[] = [];
+  const trapped = net.nodes.filter((n) => isSource(n) && inside.has(find(`n:${n.id}`)));
+  if (trapped.length) warnings.push(`Segment holds ${trapped.map((n) => n.id).join(", ")}; shut its outlet before draining.`);
+  if (valves.length === 0 && trapped.length === 0) warnings.push("No valve separates this segment from supply.");
+  if (pipes.length > 10) warnings.push(`Valves are sparse here: ${pipes.length} pipes go dry with the target.`);
+
+  const diameter = Math.max(0, ...(link ? [link] : pipes).map((l: NetworkLink) => (l.kind === "pump" ? 0 : l.diameter)));
+  return {
+    target,
+    valves,
+    links: pipes.map((p) => p.id),
+    cells,
+    cutOff: cells.filter((c) => !segmentCells.includes(c)),
+    connections: dryNodes.reduce((sum, n) => sum + (n.kind === "junction" ? n.connections ?? 0 : 0), 0),
+    outageHours: repairHours(diameter) + HOURS_PER_VALVE * valves.length + REFILL_HOURS,
+    warnings,
+  };
+};
+
+/** e.g. "P-C4-3-C4-4 at J-C4-4" for a pipe-end valve, or the link id for valve and pump links. */
+export const valveLabel = (v: IsolationValve) => (v.at ? `${v.linkId} at ${v.at}` : v.linkId);
+
+/** One-line work order for the crew, e.g. "Close 3 valves: …; 412 connections out for ~6.75 h." */
+export const describeIsolation = (plan: IsolationPlan) =>
+  `Close ${plan.valves.length} valve${plan.valves.length === 1 ? "" : "s"}: ${plan.valves.map(valveLabel).join(", ") || "none"}; ` +
+  `${plan.connections} connections in ${plan.cells.length} cell${plan.cells.length === 1 ? "" : "s"} out for ~${plan.outageHours} h.`;
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+
+import { fitLeakLogistic, logisticModel, type LeakFeatures } from "./leak-risk";
+import { seededRandom } from "./simulator";
+
+// Examples labelled by a known model: log-odds −2 + 3 × pressure drop + 2 × flow excess.
+// Pipe age and material vary but carry no weight.
+const examples = (() => {
+  const rand = seededRandom(11);
+  return Array.from({ length: 3000 }, () => {
+    const features: LeakFeatures = {
+      wqi: 80,
+      pressure: 45,
+      pressureDrop: rand(),
+      flowExcess: rand(),
+      pipeAge: rand() * 50,
+      materialRisk: rand() * 2,
+      expectedBreaks: 0,
+      pipeKm: 1,
+      mains: [],
+    };
+    const z = -2 + 3 * features.pressureDrop + 2 * features.flowExcess;
+    return { features, leak: rand() < 1 / (1 + Math.exp(-z)) };
+  });
+})();
+
+describe("fitLeakLogistic", () => {
+  const free = fitLeakLogistic(examples, { version: 9 });
+  const nonNegative = fitLeakLogistic(examples, { version: 9, nonNegative: true });
+
+  it("recovers the weights the examples were drawn from", () => {
+    const w = free;
+    expect(w.intercept).toBeCloseTo(-2, 0);
+    expect(w.coefficients.pressureDrop).toBeCloseTo(3, 0);
+    expect(w.coefficients.flowExcess).toBeCloseTo(2, 0);
+    expect(Math.abs(w.coefficients.pipeAge)).toBeLessThan(0.5);
+    expect(Math.abs(w.coefficients.materialRisk)).toBeLessThan(0.5);
+    expect(w.coefficients.lowPressure).toBe(0);
+  });
+
+  it("holds coefficients at 0 or above when asked", () => {
+    expect(Math.min(...Object.values(nonNegative.coefficients))).toBeGreaterThanOrEqual(0);
+  });
+
+  it("explains a score by each input's contribution", () => {
+    const w = nonNegative;
+    const { risk, factors } = logisticModel(w).score(examples[0].features);
+    const z = w.intercept + factors.reduce((s, f) => s + f.contribution, 0);
+    expect(risk).toBeCloseTo(1 / (1 + Math.exp(-z)), 9);
+  });
+});
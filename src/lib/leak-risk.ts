@@ -0,0 +1,327 @@
+import { clamp, round2, type GridCell } from "./grid";
+import { linkCells, nodeIndex, type Network, type Pipe } from "./network";
+
+// ------------------------- FEATURES ------------------------- //
+
+/** What every model sees for one cell. Pressures are psi, like the grid. */
+export type LeakFeatures = {
+  wqi: number;
+  pressure: number;
+  /** Fraction below the steady-state pressure, 0–1. */
+  pressureDrop: number;
+  /** Fraction above the steady-state flow, 0–2. */
+  flowExcess: number;
+  /** Length-weighted age of the cell's mains, years. */
+  pipeAge: number;
+  /** Length-weighted break rate of the cell's main materials relative to ductile iron. */
+  materialRisk: number;
+  /** Expected main breaks per year from material and age alone. */
+  expectedBreaks: number;
+  pipeKm: number;
+  /** Mains by material, for explaining the pipe prior. */
+  mains: Array<{ material: string; km: number; age: number; breaks: number }>;
+};
+
+export type LeakContext = {
+  /** Steady-state cells the live readings are compared with, usually the hydraulic solution. */
+  baseline?: Map<string, GridCell>;
+  network?: Network;
+  /** Year pipe ages count to; default the current year. */
+  asOfYear?: number;
+};
+
+// Main breaks per 100 km per year (Folkman, Water Main Break Rates in the USA and Canada, 2018).
+const BREAK_RATES: Record<string, number> = { CI: 34.8, AC: 6.6, STEEL: 9.9, DI: 4.9, PVC: 2.6, HDPE: 2.6 };
+const UNKNOWN_RATE = 10;
+// Unrecorded install years are assumed this old.
+const DEFAULT_AGE = 30;
+// Break rates roughly double every 28 years of service.
+const AGE_GROWTH = 0.025;
+
+const breakRate = (material: string) => BREAK_RATES[material.toUpperCase()] ?? UNKNOWN_RATE;
+
+type CellMains = LeakFeatures["mains"];
+
+// Per-cell main inventory, worked out once per network and year. A main shared by two cells counts half in each.
+const mainsCache = new WeakMap<Network, { year: number; mains: Map<string, CellMains> }>();
+
+const mainsByCell = (net: Network, year = new Date().getFullYear()) => {
+  const cached = mainsCache.get(net);
+  if (cached?.year === year) return cached.mains;
+  const nodes = nodeIndex(net);
+  const out = new Map<string, CellMains>();
+  for (const pipe of net.links.filter((l): l is Pipe => l.kind === "pipe")) {
+    const cells = linkCells(net, pipe, nodes);
+    const age = pipe.installYear ? Math.max(0, year - pipe.installYear) : DEFAULT_AGE;
+    const km = pipe.length / 1000 / Math.max(1, cells.length);
+    const breaks = (breakRate(pipe.material) * Math.exp(AGE_GROWTH * (age - DEFAULT_AGE)) * km) / 100;
+    for (const cellId of cells) {
+      const mains = out.get(cellId) ?? [];
+      const same = mains.find((m) => m.material === pipe.material);
+      if (same) {
+        same.age = (same.age * same.km + age * km) / (same.km + km);
+        same.km += km;
+        same.breaks += breaks;
+      } else mains.push({ material: pipe.material, km, age, breaks });
+      out.set(cellId, mains);
+    }
+  }
+  mainsCache.set(net, { year, mains: out });
+  return out;
+};
+
+export const leakFeatures = (cell: GridCell, ctx: LeakContext): LeakFeatures => {
+  const base = ctx.baseline?.get(cell.id);
+  const mains = (ctx.network && mainsByCell(ctx.network, ctx.asOfYear).get(cell.id)) || [];
+  const pipeKm = mains.reduce((s, m) => s + m.km, 0);
+  const weighted = (f: (m: CellMains[number]) => number, fallback: number) =>
+    pipeKm > 0 ? mains.reduce((s, m) => s + f(m) * m.km, 0) / pipeKm : fallback;
+  return {
+    wqi: cell.wqi,
+    pressure: cell.pressure,
+    pressureDrop: base && base.pressure > 0 ? clamp((base.pressure - cell.pressure) / base.pressure, 0, 1) : 0,
+    flowExcess: base ? clamp((cell.flow - base.flow) / Math.max(1, base.flow), 0, 2) : 0,
+    pipeAge: weighted((m) => m.age, DEFAULT_AGE),
+    materialRisk: weighted((m) => breakRate(m.material) / BREAK_RATES.DI, UNKNOWN_RATE / BREAK_RATES.DI),
+    expectedBreaks: mains.reduce((s, m) => s + m.breaks, 0),
+    pipeKm,
+    mains,
+  };
+};
+
+// ------------------------- MODELS ------------------------- //
+
+/** One input's share of a score, in the model's own units (risk points or log-odds). */
+export type LeakFactor = { label: string; contribution: number };
+
+export type LeakScore = { risk: number; factors: LeakFactor[] };
+
+export type LeakModel = {
+  id: string;
+  /** Bumped whenever the formula or its weights change, so scores stay comparable by key. */
+  version: number;
+  label: string;
+  description: string;
+  /** Unit the factor contributions are expressed in. */
+  unit: "risk" | "log-odds";
+  score: (f: LeakFeatures) => LeakScore;
+};
+
+/** Stable identifier of a model version, e.g. "rules@1". */
+export const leakModelKey = (m: LeakModel) => `${m.id}@${m.version}`;
+
+const pct = (v: number) => `${Math.round(v * 100)}%`;
+
+// Drops factors that did not move the score and puts the biggest first.
+const ranked = (factors: LeakFactor[]) =>
+  factors.filter((f) => Math.abs(f.contribution) >= 0.005).sort((a, b) => Math.abs(b.contribution) - Math.abs(a.contribution));
+
+/** The original prototype heuristic, kept so new models can be compared against it. */
+const legacyModel: LeakModel = {
+  id: "legacy",
+  version: 1,
+  label: "Legacy heuristic",
+  description: "(75 − WQI) / 40, plus 0.3 below 36 psi. Mixes water quality into a hydraulic risk.",
+  unit: "risk",
+  score: (f) => {
+    const factors = [
+      { label: `WQI ${Math.round(f.wqi)} against 75`, contribution: (75 - f.wqi) / 40 },
+      { label: `Pressure ${Math.round(f.pressure)} psi below 36`, contribution: f.pressure < 36 ? 0.3 : 0 },
+    ];
+    return { risk: clamp(factors.reduce((s, x) => s + x.contribution, 0), 0, 1), factors: ranked(factors) };
+  },
+};
+
+// Service pressure floor (17 m, CPHEEO) in psi.
+const MIN_SERVICE_PSI = 24;
+
+const rulesModel: LeakModel = {
+  id: "rules",
+  version: 1,
+  label: "Hydraulic rules",
+  description: "Pressure loss and excess flow against the steady-state solution, plus a small main-condition term.",
+  unit: "risk",
+  score: (f) => {
+    const factors = [
+      // Swings within 10% are ordinary demand and sensor noise.
+      { label: `Pressure ${pct(f.pressureDrop)} below steady state`, contribution: 0.5 * clamp((f.pressureDrop - 0.1) / 0.2, 0, 1) },
+      { label: `Flow ${pct(f.flowExcess)} above steady state`, contribution: 0.35 * clamp((f.flowExcess - 0.1) / 0.4, 0, 1) },
+      { label: `Service pressure ${Math.round(f.pressure)} psi`, contribution: f.pressure < MIN_SERVICE_PSI ? 0.1 : 0 },
+      { label: `Mains ${Math.round(f.pipeAge)} yrs old`, contribution: 0.15 * Math.min(1, f.expectedBreaks / 0.3) },
+    ];
+    return { risk: clamp(factors.reduce((s, x) => s + x.contribution, 0), 0, 1), factors: ranked(factors) };
+  },
+};
+
+/** Annual chance of at least one main break in the cell, from material and age only. */
+const pipePriorModel: LeakModel = {
+  id: "pipe-prior",
+  version: 1,
+  label: "Pipe age / material prior",
+  description: "Chance of a main break within a year from published break rates by material, rising with age. Ignores telemetry.",
+  unit: "risk",
+  score: (f) => {
+    if (f.pipeKm === 0) return { risk: 0, factors: [{ label: "No mains mapped to this cell", contribution: 0 }] };
+    const risk = 1 - Math.exp(-f.expectedBreaks);
+    // Share the probability out in proportion to each material's expected breaks.
+    const factors = f.mains.map((m) => ({
+      label: `${m.material} ${m.km.toFixed(2)} km, ${Math.round(m.age)} yrs`,
+      contribution: f.expectedBreaks > 0 ? (risk * m.breaks) / f.expectedBreaks : 0,
+    }));
+    return { risk, factors: ranked(factors) };
+  },
+};
+
+// ------------------------- LOGISTIC REGRESSION ------------------------- //
+
+export const LOGISTIC_FEATURES = ["pressureDrop", "flowExcess", "lowPressure", "pipeAge", "materialRisk"] as const;
+
+export type LogisticFeature = (typeof LOGISTIC_FEATURES)[number];
+
+export type LogisticWeights = {
+  version: number;
+  trainedOn?: string;
+  trainedAt?: string;
+  intercept: number;
+  coefficients: Record<LogisticFeature, number>;
+};
+
+// Inputs scaled to roughly 0–1 so coefficients are comparable.
+const logisticInputs = (f: LeakFeatures): Record<LogisticFeature, number> => ({
+  pressureDrop: f.pressureDrop,
+  flowExcess: f.flowExcess,
+  lowPressure: clamp((30 - f.pressure) / 30, 0, 1),
+  pipeAge: f.pipeAge / 50,
+  materialRisk: f.materialRisk,
+});
+
+const LOGISTIC_LABELS: Record<LogisticFeature, (f: LeakFeatures) => string> = {
+  pressureDrop: (f) => `Pressure ${pct(f.pressureDrop)} below steady state`,
+  flowExcess: (f) => `Flow ${pct(f.flowExcess)} above steady state`,
+  lowPressure: (f) => `Service pressure ${Math.round(f.pressure)} psi`,
+  pipeAge: (f) => `Mains ${Math.round(f.pipeAge)} yrs old`,
+  materialRisk: (f) => `Main material ×${f.materialRisk.toFixed(1)} DI break rate`,
+};
+
+const sigmoid = (z: number) => 1 / (1 + Math.exp(-z));
+
+/** Validates a weights file. Throws with a readable message. */
+export const parseLogisticWeights = (name: string, data: unknown): LogisticWeights => {
+  if (!data || typeof data !== "object") throw new Error(`Leak model ${name}: expected an object`);
+  const w = data as Partial<LogisticWeights>;
+  if (typeof w.version !== "number") throw new Error(`Leak model ${name}: "version" must be a number`);
+  if (typeof w.intercept !== "number") throw new Error(`Leak model ${name}: "intercept" must be a number`);
+  for (const k of LOGISTIC_FEATURES) {
+    if (typeof w.coefficients?.[k] !== "number") throw new Error(`Leak model ${name}: coefficient "${k}" is missing`);
+  }
+  return w as LogisticWeights;
+};
+
+export const logisticModel = (w: LogisticWeights): LeakModel => ({
+  id: "logistic",
+  version: w.version,
+  label: `Logistic regression v${w.version}`,
+  description: w.trainedOn ? `Trained on ${w.trainedOn}${w.trainedAt ? ` (${w.trainedAt})` : ""}.` : "Hand-set weights with no recorded training run.",
+  unit: "log-odds",
+  score: (f) => {
+    const x = logisticInputs(f);
+    const factors = LOGISTIC_FEATURES.map((k) => ({ label: LOGISTIC_LABELS[k](f), contribution: w.coefficients[k] * x[k] }));
+    return { risk: sigmoid(w.intercept + factors.reduce((s, c) => s + c.contribution, 0)), factors: ranked(factors) };
+  },
+});
+
+/**
+ * Fits weights by batch gradient descent with L2 regularisation. Each example is a
+ * cell's features at one moment and whether a leak was confirmed there. Every input
+ * is a risk factor, so `nonNegative` holds each coefficient at 0 or above; otherwise a
+ * feature the examples say nothing about can pick up a negative weight and show as a
+ * factor lowering risk.
+ */
+export const fitLeakLogistic = (
+  examples: Array<{ features: LeakFeatures; leak: boolean }>,
+  {
+    version,
+    trainedOn,
+    epochs = 2000,
+    rate = 0.5,
+    l2 = 1e-3,
+    nonNegative = false,
+  }: { version: number; trainedOn?: string; epochs?: number; rate?: number; l2?: number; nonNegative?: boolean },
+): LogisticWeights => {
+  if (examples.length === 0) throw new Error("Leak model: no training examples");
+  const xs = examples.map((e) => logisticInputs(e.features));
+  const ys = examples.map((e) => (e.leak ? 1 : 0));
+  const coef = Object.fromEntries(LOGISTIC_FEATURES.map((k) => [k, 0])) as Record<LogisticFeature, number>;
+  let intercept = 0;
+  for (let epoch = 0; epoch < epochs; epoch++) {
+    const grad = Object.fromEntries(LOGISTIC_FEATURES.map((k) => [k, 0])) as Record<LogisticFeature, number>;
+    let gIntercept = 0;
+    xs.forEach((x, i) => {
+      const err = sigmoid(intercept + LOGISTIC_FEATURES.reduce((s, k) => s + coef[k] * x[k], 0)) - ys[i];
+      gIntercept += err;
+      for (const k of LOGISTIC_FEATURES) grad[k] += err * x[k];
+    });
+    intercept -= (rate * gIntercept) / xs.length;
+    for (const k of LOGISTIC_FEATURES) {
+      coef[k] -= rate * (grad[k] / xs.length + l2 * coef[k]);
+      if (nonNegative) coef[k] = Math.max(0, coef[k]);
+    }
+  }
+  const round = (v: number) => Math.round(v * 1000) / 1000;
+  return {
+    version,
+    trainedOn,
+    trainedAt: new Date().toISOString().slice(0, 10),
+    intercept: round(intercept),
+    coefficients: Object.fromEntries(LOGISTIC_FEATURES.map((k) => [k, round(coef[k])])) as Record<LogisticFeature, number>,
+  };
+};
+
+// Bundled weight files, one per version (e.g. leak-logistic-v1.json).
+const weightFiles = import.meta.glob("../models/leak-logistic-*.json", { eager: true, import: "default" });
+
+// ------------------------- REGISTRY ------------------------- //
+
+export const leakModels: LeakModel[] = [
+  legacyModel,
+  rulesModel,
+  pipePriorModel,
+  ...Object.entries(weightFiles)
+    .map(([path, data]) => logisticModel(parseLogisticWeights(path.replace(/^.*\//, ""), data)))
+    .sort((a, b) => a.version - b.version),
+];
+
+export const DEFAULT_LEAK_MODEL = "rules@1";
+
+export const findLeakModel = (key: string) => leakModels.find((m) => leakModelKey(m) === key) ?? leakModels[0];
+
+/** Replaces each cell's leak risk with the model's score and attaches its contributing factors. */
+export const scoreLeakRisk = (cells: GridCell[], model: LeakModel, ctx: LeakContext): GridCell[] =>
+  cells.map((c) => {
+    const { risk, factors } = model.score(leakFeatures(c, ctx));
+    return { ...c, leakRisk: round2(risk), leakFactors: factors };
+  });
+
+export type LeakModelComparison = {
+  /** Mean absolute difference in risk over all cells. */
+  meanAbsDelta: number;
+  /** How many of each model's `top` riskiest cells the other also ranks in its top. */
+  topOverlap: number;
+  top: number;
+};
+
+/** Scores the same cells with two model versions. */
+export const compareLeakModels = (cells: GridCell[], a: LeakModel, b: LeakModel, ctx: LeakContext): LeakModelComparison => {
+  const features = cells.map((c) => leakFeatures(c, ctx));
+  const ra = features.map((f) => a.score(f).risk);
+  const rb = features.map((f) => b.score(f).risk);
+  const top = Math.min(10, cells.length);
+  const topOf = (r: number[]) => new Set(r.map((v, i) => [v, i]).sort((x, y) => y[0] - x[0]).slice(0, top).map(([, i]) => i));
+  const ta = topOf(ra);
+  const tb = topOf(rb);
+  return {
+    meanAbsDelta: cells.length ? ra.reduce((s, v, i) => s + Math.abs(v - rb[i]), 0) / cells.length : 0,
+    topOverlap: [...ta].filter((i) => tb.has(i)).length,
+    top,
+  };
+};
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+
+import { districtsToLayout, type DistrictCollection, type DistrictFeature } from "./geojson";
+import type { GridCell } from "./grid";
+import { solveHydraulics } from "./hydraulics";
+import { buildDemoNetwork } from "./network";
+
+const square = (id: string, x: number, y: number, w = 0.01): DistrictFeature => ({
+  type: "Feature",
+  properties: { id, zone: "Z" },
+  geometry: { type: "Polygon", coordinates: [[[x, y], [x + w, y], [x + w, y + w], [x, y + w], [x, y]]] },
+});
+
+const toCells = (fc: DistrictCollection): GridCell[] =>
+  districtsToLayout(fc).cells.map((c) => ({ ...c, wqi: 80, pressure: 45, flow: 120, leakRisk: 0 }));
+
+const mains = (cells: GridCell[]) =>
+  buildDemoNetwork(cells)
+    .links.filter((l) => l.from.startsWith("J-") && l.to.startsWith("J-"))
+    .map((l) => [l.from.slice(2), l.to.slice(2)].sort().join("|"))
+    .sort();
+
+describe("buildDemoNetwork over district polygons", () => {
+  it("joins districts that share a boundary even when they fall in the same grid bin", () => {
+    // Five districts in a strip land in three column bins, so bins alone would lose two of them.
+    const cells = toCells({ type: "FeatureCollection", features: ["A", "B", "C", "D", "E"].map((id, i) => square(id, 75.8 + i * 0.01, 26.9)) });
+    expect(new Set(cells.map((c) => `${c.row},${c.col}`)).size).toBeLessThan(cells.length);
+    expect(mains(cells)).toEqual(["A|B", "B|C", "C|D", "D|E"]);
+  });
+
+  it("does not join districts that only meet at a corner", () => {
+    const cells = toCells({
+      type: "FeatureCollection",
+      features: [square("A", 75.8, 26.9), square("B", 75.81, 26.9), square("C", 75.8, 26.91), square("D", 75.81, 26.91)],
+    });
+    expect(mains(cells)).toEqual(["A|B", "A|C", "B|D", "C|D"]);
+  });
+
+  it("connects an island to its nearest district and leaves no junction without supply", () => {
+    const cells = toCells({
+      type: "FeatureCollection",
+      features: [square("A", 75.8, 26.9), square("B", 75.81, 26.9), square("Island", 75.85, 26.9)],
+    });
+    expect(mains(cells)).toEqual(["A|B", "B|Island"]);
+    const net = buildDemoNetwork(cells);
+    expect(solveHydraulics(net).disconnected).toEqual([]);
+  });
+});
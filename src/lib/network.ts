@@ -0,0 +1,318 @@
+import { hasOutline } from "./geojson";
+import type { GridCell } from "./grid";
+
+// ------------------------- TYPES ------------------------- //
+// SI units throughout, following EPANET: metres, millimetres for diameters, L/s for flow.
+// x / y are map units, the same space GridMap draws cells in.
+
+type NodeBase = { id: string; x: number; y: number; cellId?: string };
+
+export type Junction = NodeBase & {
+  kind: "junction";
+  elevation: number; // m
+  baseDemand: number; // L/s
+  pattern?: string;
+  connections?: number; // service connections fed from this node
+};
+
+export type Reservoir = NodeBase & {
+  kind: "reservoir";
+  head: number; // m, fixed total head
+  pattern?: string;
+};
+
+export type Tank = NodeBase & {
+  kind: "tank";
+  elevation: number; // m, tank bottom
+  initLevel: number; // m above bottom
+  minLevel: number;
+  maxLevel: number;
+  diameter: number; // m
+  /** Alarm levels, m above bottom. Default to 20% and 95% of the min–max range. */
+  lowLevel?: number;
+  highLevel?: number;
+};
+
+export type NetworkNode = Junction | Reservoir | Tank;
+
+type LinkBase = { id: string; from: string; to: string; status: "open" | "closed" };
+
+export type Pipe = LinkBase & {
+  kind: "pipe";
+  length: number; // m
+  diameter: number; // mm
+  roughness: number; // Hazen-Williams C
+  material: string;
+  installYear?: number;
+  /** Isolation valves fitted on the pipe, by the end they sit at. Not part of the .inp format. */
+  valves?: Array<"from" | "to">;
+};
+
+export type Valve = LinkBase & {
+  kind: "valve";
+  diameter: number; // mm
+  valveType: "PRV" | "PSV" | "PBV" | "FCV" | "TCV" | "GPV";
+  setting: number;
+};
+
+export type Pump = LinkBase & {
+  kind: "pump";
+  /** Head curve points (L/s, m). A single point is expanded EPANET-style. */
+  curve: Array<{ flow: number; head: number }>;
+  /** Constant-power pump (kW), used when there is no head curve. */
+  power?: number;
+  speed?: number;
+};
+
+export type NetworkLink = Pipe | Valve | Pump;
+
+export type Network = {
+  nodes: NetworkNode[];
+  links: NetworkLink[];
+  /** Demand multipliers by pattern id, one value per pattern step. */
+  patterns: Record<string, number[]>;
+  patternStepSec: number;
+  /**
+   * Maps model coordinates (e.g. from an EPANET file) to map units:
+   * x = (X - offsetX) * scale, y = (offsetY - Y) * scale. Absent means map units are the model units.
+   */
+  coordTransform?: { scale: number; offsetX: number; offsetY: number };
+  title?: string;
+};
+
+// ------------------------- QUERIES ------------------------- //
+
+export const nodeIndex = (net: Network) => new Map(net.nodes.map((n) => [n.id, n]));
+
+/** The cells a link touches — the cells of its two end nodes. */
+export const linkCells = (net: Network, link: NetworkLink, nodes = nodeIndex(net)) =>
+  [...new Set([nodes.get(link.from)?.cellId, nodes.get(link.to)?.cellId].filter((c): c is string => !!c))];
+
+export const linksInCell = (net: Network, cellId: string) => {
+  const nodes = nodeIndex(net);
+  return net.links.filter((l) => linkCells(net, l, nodes).includes(cellId));
+};
+
+export const setLinkStatus = (net: Network, linkId: string, status: NetworkLink["status"]): Network => ({
+  ...net,
+  links: net.links.map((l) => (l.id === linkId ? { ...l, status } : l)),
+});
+
+// ------------------------- DEMO NETWORK ------------------------- //
+
+const MATERIALS = ["DI", "CI", "PVC", "HDPE", "AC"];
+
+// Centre of a cell in map units, matching how GridMap lays tiles out.
+const cellCentre = (c: GridCell, tile: number): [number, number] =>
+  c.anchor ?? [c.col * tile + (tile * (c.colSpan ?? 1) - 6) / 2, c.row * tile + (tile * (c.rowSpan ?? 1) - 6) / 2];
+
+/** Pairs of grid cells that share an edge, each pair once. Merged cells count as one neighbour. */
+const adjacentTiles = (cells: GridCell[]) => {
+  const occupant = new Map<string, GridCell>();
+  for (const c of cells) {
+    for (let r = c.row; r < c.row + (c.rowSpan ?? 1); r++) {
+      for (let k = c.col; k < c.col + (c.colSpan ?? 1); k++) occupant.set(`${r},${k}`, c);
+    }
+  }
+  const pairs = new Map<string, [GridCell, GridCell]>();
+  for (const [pos, a] of occupant) {
+    const [r, k] = pos.split(",").map(Number);
+    for (const b of [occupant.get(`${r},${k + 1}`), occupant.get(`${r + 1},${k}`)]) {
+      if (!b || b.id === a.id) continue;
+      const key = a.id < b.id ? `${a.id}|${b.id}` : `${b.id}|${a.id}`;
+      if (!pairs.has(key)) pairs.set(key, [a, b]);
+    }
+  }
+  return [...pairs.values()];
+};
+
+// Map units within which two district boundaries count as touching; outlines are written to 0.1.
+const TOUCH_TOLERANCE = 0.5;
+
+// Vertices of each ring in an outline as districtsToLayout writes it ("Mx,yLx,y…Z"), without the closing repeat.
+const outlineRings = (d: string): Array<Array<[number, number]>> =>
+  d
+    .split("M")
+    .filter(Boolean)
+    .map((ring) => {
+      const pts = ring.replace("Z", "").split("L").map((p) => p.split(",").map(Number) as [number, number]);
+      const [first, last] = [pts[0], pts[pts.length - 1]];
+      return pts.length > 1 && first[0] === last[0] && first[1] === last[1] ? pts.slice(0, -1) : pts;
+    });
+
+const segmentDistance = ([px, py]: [number, number], [ax, ay]: [number, number], [bx, by]: [number, number]) => {
+  const dx = bx - ax;
+  const dy = by - ay;
+  const len = dx * dx + dy * dy;
+  const t = len === 0 ? 0 : Math.max(0, Math.min(1, ((px - ax) * dx + (py - ay) * dy) / len));
+  return Math.hypot(px - ax - t * dx, py - ay - t * dy);
+};
+
+type Outline = { cell: GridCell; rings: Array<Array<[number, number]>>; box: [number, number, number, number] };
+
+// How many of `a`'s vertices lie on `b`'s boundary.
+const verticesOn = (a: Outline, b: Outline) => {
+  let n = 0;
+  for (const ring of a.rings) {
+    for (const p of ring) {
+      if (b.rings.some((r) => r.some((q, i) => segmentDistance(p, r[(i || r.length) - 1], q) <= TOUCH_TOLERANCE))) n++;
+    }
+  }
+  return n;
+};
+
+/**
+ * Pairs of districts whose polygons share a stretch of boundary; touching at a single
+ * corner does not count. Districts or groups that touch nothing else, such as islands
+ * or polygons digitised with gaps, are joined to the nearest district by centroid so
+ * the network stays connected.
+ */
+const adjacentDistricts = (cells: GridCell[], tile: number) => {
+  const outlines: Outline[] = cells.map((cell) => {
+    const rings = outlineRings(cell.outline!);
+    const pts = rings.flat();
+    const xs = pts.map((p) => p[0]);
+    const ys = pts.map((p) => p[1]);
+    return { cell, rings, box: [Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)] };
+  });
+  const pairs: Array<[GridCell, GridCell]> = [];
+  const group = cells.map((_, i) => i);
+  const root = (i: number): number => (group[i] === i ? i : (group[i] = root(group[i])));
+  const join = (i: number, j: number) => {
+    pairs.push([cells[i], cells[j]]);
+    group[root(i)] = root(j);
+  };
+  outlines.forEach((a, i) => {
+    for (let j = i + 1; j < outlines.length; j++) {
+      const b = outlines[j];
+      const apart =
+        a.box[0] > b.box[2] + TOUCH_TOLERANCE || b.box[0] > a.box[2] + TOUCH_TOLERANCE || a.box[1] > b.box[3] + TOUCH_TOLERANCE || b.box[1] > a.box[3] + TOUCH_TOLERANCE;
+      if (!apart && Math.max(verticesOn(a, b), verticesOn(b, a)) >= 2) join(i, j);
+    }
+  });
+  const centres = cells.map((c) => cellCentre(c, tile));
+  for (;;) {
+    const main = root(0);
+    let best: [number, number, number] | null = null;
+    for (let i = 0; i < cells.length; i++) {
+      if (root(i) === main) continue;
+      for (let j = 0; j < cells.length; j++) {
+        if (root(j) !== main) continue;
+        const d = Math.hypot(centres[i][0] - centres[j][0], centres[i][1] - centres[j][1]);
+        if (!best || d < best[2]) best = [i, j, d];
+      }
+    }
+    if (!best) return pairs;
+    join(best[0], best[1]);
+  }
+};
+
+/** Neighbouring cells, each pair once: by shared boundary for district polygons, by shared edge on a grid. */
+const adjacentCells = (cells: GridCell[], tile: number) => (cells.every(hasOutline) ? adjacentDistricts(cells, tile) : adjacentTiles(cells));
+
+/**
+ * Builds a plausible looped network over the city: one junction per cell, a main
+ * between every pair of neighbouring cells, isolation valves where mains cross a
+ * zone boundary, reservoir + pump feeds spread over the zones and an overhead tank
+ * at the last cell of each zone. Row 4 carries the 300 mm trunk main.
+ */
+export const buildDemoNetwork = (cells: GridCell[], tile = 52): Network => {
+  const nodes: NetworkNode[] = [];
+  const links: NetworkLink[] = [];
+  if (cells.length === 0) return { nodes, links, patterns: {}, patternStepSec: 3600 };
+
+  for (const [i, c] of cells.entries()) {
+    const [x, y] = cellCentre(c, tile);
+    nodes.push({
+      id: `J-${c.id}`,
+      kind: "junction",
+      x,
+      y,
+      cellId: c.id,
+      elevation: 38 + ((i * 7) % 15) / 3,
+      baseDemand: Math.round((c.flow / 60) * 100) / 100,
+      pattern: "DAY",
+      connections: 80 + ((i * 37) % 120),
+    });
+  }
+
+  for (const [i, [a, b]] of adjacentCells(cells, tile).entries()) {
+    const [ax, ay] = cellCentre(a, tile);
+    const [bx, by] = cellCentre(b, tile);
+    const from = `J-${a.id}`;
+    const to = `J-${b.id}`;
+    if (a.zone !== b.zone) {
+      links.push({ id: `V-${a.id}-${b.id}`, kind: "valve", from, to, status: "open", diameter: 150, valveType: "TCV", setting: 0 });
+      continue;
+    }
+    const trunk = a.row === 3 && b.row === 3;
+    links.push({
+      id: `P-${a.id}-${b.id}`,
+      kind: "pipe",
+      from,
+      to,
+      status: "open",
+      length: Math.round(Math.hypot(bx - ax, by - ay) * 8),
+      diameter: trunk ? 300 : [100, 150, 200][i % 3],
+      roughness: trunk ? 130 : 100 + (i % 4) * 10,
+      material: MATERIALS[i % MATERIALS.length],
+      installYear: 1975 + ((i * 11) % 48),
+      // Most mains have a valve at both ends; every fourth only at one, as in older networks.
+      valves: i % 4 === 3 ? ["from"] : ["from", "to"],
+    });
+  }
+
+  // A reservoir + pump feeds each zone at its first cell, plus one per 6 × 6 block so
+  // large cities are not supplied through hundreds of small mains from one corner.
+  const fedZones = new Set<string | undefined>();
+  const feeds = cells.filter((c) => {
+    const feed = !fedZones.has(c.zone) || (c.row % 6 === 0 && c.col % 6 === 0);
+    fedZones.add(c.zone);
+    return feed;
+  });
+  const totalDemand = cells.reduce((sum, c) => sum + c.flow / 60, 0);
+  const pumpFlow = Math.max(20, Math.round((totalDemand * 1.5) / feeds.length));
+  feeds.forEach((c, k) => {
+    const [fx, fy] = cellCentre(c, tile);
+    nodes.push({ id: `R-${k + 1}`, kind: "reservoir", x: fx - tile * 0.4, y: fy - tile * 0.4, head: 60 });
+    links.push({ id: `PU-${k + 1}`, kind: "pump", from: `R-${k + 1}`, to: `J-${c.id}`, status: "open", curve: [{ flow: pumpFlow, head: 25 }] });
+  });
+
+  const zoneEnds = new Map<string | undefined, GridCell>();
+  for (const c of cells) zoneEnds.set(c.zone, c);
+  [...zoneEnds.values()].forEach((c, k) => {
+    const [tx, ty] = cellCentre(c, tile);
+    nodes.push({
+      id: `T-${k + 1}`,
+      kind: "tank",
+      x: tx + tile * 0.4,
+      y: ty + tile * 0.4,
+      cellId: c.id,
+      elevation: 68,
+      initLevel: 4 - (k % 3) * 0.8,
+      minLevel: 0.5,
+      maxLevel: 6,
+      diameter: 18,
+    });
+    links.push({
+      id: `P-T-${k + 1}`,
+      kind: "pipe",
+      from: `T-${k + 1}`,
+      to: `J-${c.id}`,
+      status: "open",
+      length: 120,
+      diameter: 250,
+      roughness: 120,
+      material: "DI",
+      installYear: 2004 + k,
+    });
+  });
+
+  return {
+    nodes,
+    links,
+    // Typical residential day: low at night, morning and evening peaks.
+    patterns: { DAY: [0.5, 0.4, 0.4, 0.4, 0.5, 0.8, 1.3, 1.6, 1.4, 1.1, 1.0, 1.0, 1.0, 0.9, 0.9, 1.0, 1.1, 1.3, 1.5, 1.4, 1.2, 0.9, 0.7, 0.6] },
+    patternStepSec: 3600,
+  };
+};
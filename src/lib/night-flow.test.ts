@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+
+import { nightSteps, type NightFlow } from "./night-flow";
+
+const DAY = 86_400_000;
+
+// Nights with the given net night flow (L/min), a day apart.
+const nights = (net: number[]): NightFlow[] =>
+  net.map((v, i) => ({ night: i * DAY, mnf: v + 10, legitimate: 10, net: v, background: 0, burst: 0 }));
+
+describe("nightSteps", () => {
+  it("finds a rise that holds and dates it to its first night", () => {
+    const steps = nightSteps(nights([20, 21, 19, 20, 22, 20, 19, 20, 40, 41, 39, 40]));
+    expect(steps).toEqual([{ night: 8 * DAY, before: 20, after: 40.5 }]);
+  });
+
+  it("ignores a single high night", () => {
+    expect(nightSteps(nights([20, 21, 19, 20, 22, 20, 19, 20, 40, 20, 21, 20]))).toEqual([]);
+  });
+
+  it("drops a step once the burst is repaired", () => {
+    expect(nightSteps(nights([20, 21, 19, 20, 22, 20, 19, 20, 40, 41, 39, 20, 21]))).toEqual([]);
+  });
+
+  it("ignores rises within the usual night-to-night scatter", () => {
+    expect(nightSteps(nights([20, 30, 15, 28, 18, 32, 16, 25, 31, 29, 30]))).toEqual([]);
+  });
+});
@@ -0,0 +1,196 @@
+import { alertIdSequence, round1, type AlertItem, type GridCell } from "./grid";
+import type { AggregatePoint } from "./history-store";
+import type { Network } from "./network";
+
+// ------------------------- MINIMUM NIGHT FLOW ------------------------- //
+// Between 2 and 4 AM almost nobody draws water, so most of what flows into an area then
+// is leakage. Flows are L/min, like `GridCell.flow`.
+
+/** Local hours of the night window the minimum is taken from. */
+export const NIGHT_WINDOW: [number, number] = [2, 4];
+
+// Household use that still happens at night (toilets, appliances), L per connection per hour.
+const NIGHT_USE_L_PER_CONN_HOUR = 1.7;
+
+// Nights the background level is taken over: the lowest net night flow in this window.
+const BACKGROUND_NIGHTS = 28;
+
+export type NightFlow = {
+  /** Local midnight before the night window, epoch ms. */
+  night: number;
+  /** Lowest hourly mean flow in the window. */
+  mnf: number;
+  /** Expected legitimate night use. */
+  legitimate: number;
+  /** Minimum night flow less legitimate use: the leakage estimate. */
+  net: number;
+  /** Leakage that is always there: the lowest net night flow over the last four weeks. */
+  background: number;
+  /** Leakage above the background, from bursts not yet found. */
+  burst: number;
+};
+
+export type NightStep = {
+  /** First night at the new level. */
+  night: number;
+  before: number;
+  after: number;
+};
+
+export type NightFlowSeries = {
+  /** Cell id, or district name for `districtNightFlow`. */
+  id: string;
+  connections: number;
+  /** Oldest first, one entry per night with readings in the window. */
+  nights: NightFlow[];
+  /** Step rises in net night flow that are still in effect. */
+  steps: NightStep[];
+};
+
+const localMidnight = (t: number) => {
+  const d = new Date(t);
+  return new Date(d.getFullYear(), d.getMonth(), d.getDate()).getTime();
+};
+
+// Hourly buckets are aligned to UTC, so in zones with half-hour offsets none fits the
+// window exactly; a bucket counts when its midpoint falls inside it.
+const inWindow = (bucket: number) => {
+  const mid = new Date(bucket + 1_800_000);
+  const hour = mid.getHours() + mid.getMinutes() / 60;
+  return hour >= NIGHT_WINDOW[0] && hour < NIGHT_WINDOW[1];
+};
+
+/** Minimum hourly mean flow in each night's window, from 1-hour rollups. */
+export const minimumNightFlows = (hours: AggregatePoint[]) => {
+  const out = new Map<number, number>();
+  for (const h of hours) {
+    if (!h.flow || h.flow.n === 0 || !inWindow(h.t)) continue;
+    const night = localMidnight(h.t + 1_800_000);
+    const mean = h.flow.sum / h.flow.n;
+    out.set(night, Math.min(mean, out.get(night) ?? Infinity));
+  }
+  return [...out].sort((a, b) => a[0] - b[0]).map(([night, mnf]) => ({ night, mnf }));
+};
+
+// ------------------------- STEP CHANGES ------------------------- //
+
+// Nights before a step that set the level it is compared against, and the fewest needed.
+const REFERENCE_NIGHTS = 7;
+const MIN_REFERENCE_NIGHTS = 3;
+// A rise has to hold this many nights, so one night of filling a tank does not count.
+const CONFIRM_NIGHTS = 2;
+// Smallest rise reported: absolute L/min, share of the reference level, and multiple of its night-to-night spread.
+const STEP_MIN = 5;
+const STEP_SHARE = 0.1;
+const STEP_SPREAD = 4;
+
+const median = (xs: number[]) => {
+  const s = [...xs].sort((a, b) => a - b);
+  const m = s.length >> 1;
+  return s.length % 2 ? s[m] : (s[m - 1] + s[m]) / 2;
+};
+
+/**
+ * Finds nights where net night flow jumped to a new, higher level: above the median
+ * of the week before by more than its usual scatter, for at least two nights running.
+ * Only steps still in effect are kept; a repaired burst drops out.
+ */
+export const nightSteps = (nights: NightFlow[]): NightStep[] => {
+  const steps: NightStep[] = [];
+  const net = nights.map((n) => n.net);
+  for (let i = MIN_REFERENCE_NIGHTS; i + CONFIRM_NIGHTS <= net.length; i++) {
+    const ref = net.slice(Math.max(0, i - REFERENCE_NIGHTS), i);
+    const before = median(ref);
+    // Median absolute deviation, scaled to a standard deviation.
+    const spread = 1.4826 * median(ref.map((v) => Math.abs(v - before)));
+    const threshold = before + Math.max(STEP_MIN, STEP_SHARE * Math.abs(before), STEP_SPREAD * spread);
+    const held = net.slice(i, i + CONFIRM_NIGHTS);
+    if (held.some((v) => v < threshold)) continue;
+    // Skip nights that only continue a step already found.
+    const last = steps[steps.length - 1];
+    if (last && net.slice(nights.findIndex((n) => n.night === last.night), i).every((v) => v >= (last.before + last.after) / 2)) continue;
+    steps.push({ night: nights[i].night, before, after: median(held) });
+  }
+  // In effect means net night flow has not dropped back below halfway since.
+  return steps.filter((s) => net.slice(nights.findIndex((n) => n.night === s.night)).every((v) => v >= (s.before + s.after) / 2));
+};
+
+// ------------------------- ANALYSIS ------------------------- //
+
+const series = (id: string, connections: number, mnfs: Array<{ night: number; mnf: number }>): NightFlowSeries => {
+  const legitimate = (connections * NIGHT_USE_L_PER_CONN_HOUR) / 60;
+  const nights: NightFlow[] = [];
+  for (const { night, mnf } of mnfs) {
+    const net = Math.max(0, mnf - legitimate);
+    const recent = nights.filter((n) => night - n.night < BACKGROUND_NIGHTS * 86_400_000).map((n) => n.net);
+    const background = Math.min(net, ...recent);
+    nights.push({ night, mnf, legitimate, net, background, burst: net - background });
+  }
+  return { id, connections, nights, steps: nightSteps(nights) };
+};
+
+/**
+ * Night flow per cell from 1-hour rollups of telemetry. Legitimate night use comes from
+ * the service connections on each cell's junctions in the network.
+ */
+export const nightFlowAnalysis = (hours: Map<string, AggregatePoint[]>, cells: GridCell[], net: Network): NightFlowSeries[] => {
+  const connections = new Map<string, number>();
+  for (const n of net.nodes) {
+    if (n.kind === "junction" && n.cellId) connections.set(n.cellId, (connections.get(n.cellId) ?? 0) + (n.connections ?? 0));
+  }
+  return cells
+    .map((c) => series(c.id, connections.get(c.id) ?? 0, minimumNightFlows(hours.get(c.id) ?? [])))
+    .filter((s) => s.nights.length > 0);
+};
+
+/**
+ * Cell series summed by zone. A district's minimum is the sum of its cells' minimums,
+ * which is what a district meter would read if every cell bottoms out in the same hour.
+ */
+export const districtNightFlow = (cellSeries: NightFlowSeries[], cells: GridCell[]): NightFlowSeries[] => {
+  const zoneOf = new Map(cells.map((c) => [c.id, c.zone ?? "Unzoned"]));
+  const byZone = new Map<string, { connections: number; mnf: Map<number, number> }>();
+  for (const s of cellSeries) {
+    const zone = zoneOf.get(s.id) ?? "Unzoned";
+    const z = byZone.get(zone) ?? { connections: 0, mnf: new Map() };
+    z.connections += s.connections;
+    for (const n of s.nights) z.mnf.set(n.night, (z.mnf.get(n.night) ?? 0) + n.mnf);
+    byZone.set(zone, z);
+  }
+  return [...byZone]
+    .sort((a, b) => a[0].localeCompare(b[0]))
+    .map(([zone, z]) => series(zone, z.connections, [...z.mnf].sort((a, b) => a[0] - b[0]).map(([night, mnf]) => ({ night, mnf }))));
+};
+
+// ------------------------- ALERTS ------------------------- //
+
+/**
+ * A `Leak Suspected` alert for each cell step not raised before. The rule carries the
+ * night the step started, so a resolved alert is not raised again by the same step
+ * while it stays in the history.
+ */
+export const nightFlowAlerts = (cellSeries: NightFlowSeries[], existing: AlertItem[], now = Date.now()): AlertItem[] => {
+  const nextId = alertIdSequence(existing);
+  const raised = new Set(existing.filter((a) => a.rule).map((a) => `${a.cellId}|${a.rule}`));
+  const out: AlertItem[] = [];
+  for (const s of cellSeries) {
+    for (const step of s.steps) {
+      const date = new Date(step.night).toLocaleDateString("en-CA"); // YYYY-MM-DD, local
+      const rule = `nightflow:${date}`;
+      if (raised.has(`${s.id}|${rule}`)) continue;
+      const rise = step.after - step.before;
+      const share = step.before > 0 ? rise / step.before : Infinity;
+      out.push({
+        id: nextId(),
+        type: "Leak Suspected",
+        severity: share >= 0.5 ? "high" : share >= 0.2 ? "medium" : "low",
+        cellId: s.id,
+        timestamp: new Date(now).toISOString(),
+        description: `Night flow stepped up ${round1(rise)} L/min on ${date} (${round1(step.before)} → ${round1(step.after)} L/min net); likely a new hidden leak.`,
+        status: "open",
+        rule,
+      });
+    }
+  }
+  return out;
+};
@@ -0,0 +1,38 @@
+import { deriveLeakRisk, round1, round2, type GridCell } from "./grid";
+import type { HistoryPoint } from "./history-store";
+
+/**
+ * Reconstructs the grid as it looked at `t` from per-cell history: each cell takes
+ * its last recorded point at or before `t`. Cells with no history yet keep their
+ * current values, so the layout never has holes.
+ */
+export const snapshotAt = (cells: GridCell[], history: Map<string, HistoryPoint[]>, t: number): GridCell[] =>
+  cells.map((c) => {
+    const points = history.get(c.id);
+    const p = points && lastAtOrBefore(points, t);
+    if (!p) return c;
+    const wqi = p.wqi !== undefined ? Math.round(p.wqi) : c.wqi;
+    const pressure = p.pressure !== undefined ? round1(p.pressure) : c.pressure;
+    return {
+      ...c,
+      wqi,
+      pressure,
+      flow: p.flow !== undefined ? round1(p.flow) : c.flow,
+      leakRisk: p.leakRisk !== undefined ? round2(p.leakRisk) : deriveLeakRisk(wqi, pressure),
+    };
+  });
+
+// Points are sorted oldest first.
+const lastAtOrBefore = (points: HistoryPoint[], t: number) => {
+  let lo = 0;
+  let hi = points.length - 1;
+  let hit: HistoryPoint | undefined;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (points[mid].t <= t) {
+      hit = points[mid];
+      lo = mid + 1;
+    } else hi = mid - 1;
+  }
+  return hit;
+};
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+
+import { alwaysOn, evaluateSchedule, optimiseSchedule, SCHEDULE_HOURS, tariffs, type SchedulePlan } from "./pump-schedule";
+
+// One 20 L/s pump filling 100 m² of storage against a steady 10 L/s, with cheap power overnight.
+const plan = (over: Partial<SchedulePlan> = {}): SchedulePlan => ({
+  start: 0,
+  demand: new Array(SCHEDULE_HOURS).fill(10),
+  demandSource: "pattern",
+  prices: Array.from({ length: SCHEDULE_HOURS }, (_, h) => (h < 8 ? 1 : 5)),
+  pumps: [{ id: "PU", flow: 20, head: 30, power: 8 }],
+  storage: { area: 100, min: 0.5, max: 5, level: 3 },
+  tariff: tariffs[0],
+  ...over,
+});
+
+describe("optimiseSchedule", () => {
+  it("meets demand within the storage limits for less than running all day", () => {
+    const p = plan();
+    const best = optimiseSchedule(p)!;
+    expect(best.shortfall).toEqual([]);
+    expect(best.endsLow).toBe(false);
+    for (const level of best.levels) {
+      expect(level).toBeGreaterThanOrEqual(p.storage.min - 1e-9);
+      expect(level).toBeLessThanOrEqual(p.storage.max + 1e-9);
+    }
+    expect(best.cost).toBeLessThan(evaluateSchedule(p, alwaysOn(p)).cost);
+    expect(evaluateSchedule(p, best.running)).toEqual(best);
+  });
+
+  it("fills storage while power is cheap", () => {
+    const { running } = optimiseSchedule(plan())!;
+    const cheap = running.PU.slice(0, 8).filter(Boolean).length;
+    expect(cheap / 8).toBeGreaterThan(running.PU.slice(8).filter(Boolean).length / 16);
+  });
+
+  it("runs the pump every hour when there is no storage to draw on", () => {
+    const best = optimiseSchedule(plan({ storage: { area: 0, min: 0, max: 0, level: 0 } }))!;
+    expect(best.running.PU.every(Boolean)).toBe(true);
+  });
+
+  it("gives up when the pumps cannot keep up with demand", () => {
+    expect(optimiseSchedule(plan({ demand: new Array(SCHEDULE_HOURS).fill(25) }))).toBeNull();
+  });
+});
@@ -0,0 +1,268 @@
+import type { DemandForecast } from "./demand-forecast";
+import { patternMultiplier, timeOfDay, type HydraulicResult } from "./hydraulics";
+import type { Network } from "./network";
+
+// ------------------------- TARIFFS ------------------------- //
+
+/** A time-of-day rate, from one whole local hour to another (0–24); wraps past midnight when `from` > `to`. */
+export type TariffPeriod = { label: string; from: number; to: number; price: number };
+
+/** Energy prices per kWh over the day. */
+export type Tariff = {
+  id: string;
+  name: string;
+  description?: string;
+  currency: string;
+  periods: TariffPeriod[];
+};
+
+const periodHours = (p: TariffPeriod) => {
+  const hours: number[] = [];
+  for (let h = p.from; h !== p.to; h = (h + 1) % 24) {
+    hours.push(h);
+    if (p.to === 24 && h === 23) break;
+  }
+  return hours;
+};
+
+/** Validates a parsed tariff file. Every hour of the day must fall in exactly one period. Throws with a readable message. */
+export const parseTariff = (id: string, data: unknown): Tariff => {
+  if (!data || typeof data !== "object") throw new Error(`Tariff ${id}: expected an object`);
+  const t = data as Partial<Tariff>;
+  if (!Array.isArray(t.periods) || t.periods.length === 0) throw new Error(`Tariff ${id}: "periods" must be a non-empty array`);
+  const covered = new Array<string | undefined>(24);
+  for (const p of t.periods) {
+    const label = p?.label ?? "period";
+    const hour = (h: unknown) => Number.isInteger(h) && (h as number) >= 0 && (h as number) <= 24;
+    if (!hour(p?.from) || !hour(p?.to) || p.from === p.to || p.from === 24) throw new Error(`Tariff ${id}: ${label} needs whole hours "from" / "to" between 0 and 24`);
+    if (typeof p.price !== "number" || p.price < 0) throw new Error(`Tariff ${id}: ${label} needs a non-negative "price"`);
+    for (const h of periodHours(p)) {
+      if (covered[h]) throw new Error(`Tariff ${id}: hour ${h} is in both ${covered[h]} and ${label}`);
+      covered[h] = label;
+    }
+  }
+  const gap = covered.findIndex((c) => !c);
+  if (gap >= 0) throw new Error(`Tariff ${id}: hour ${gap} is in no period`);
+  return { id, name: t.name ?? id, description: t.description, currency: t.currency ?? "", periods: t.periods };
+};
+
+// Bundled tariff files, keyed by file name (e.g. "tod-ht").
+const tariffFiles = import.meta.glob("../tariffs/*.json", { eager: true, import: "default" });
+
+export const tariffs: Tariff[] = Object.entries(tariffFiles)
+  .map(([path, data]) => parseTariff(path.replace(/^.*\/|\.json$/g, ""), data))
+  .sort((a, b) => a.name.localeCompare(b.name));
+
+export const DEFAULT_TARIFF_ID = "tod-ht";
+
+/** The period in force at a local hour of the day. */
+export const tariffPeriod = (tariff: Tariff, hour: number) => tariff.periods.find((p) => periodHours(p).includes(hour))!;
+
+// ------------------------- PLAN ------------------------- //
+
+export const SCHEDULE_HOURS = 24;
+const HOUR_MS = 3_600_000;
+// Wire-to-water efficiency for pumps given by head curve; EPANET's default global efficiency.
+const PUMP_EFFICIENCY = 0.75;
+const GRAVITY = 9.81;
+// L/s held for an hour, in m³.
+const M3_PER_LS_HOUR = 3.6;
+
+/** One pump as the scheduler sees it: the flow it adds and the power it draws while running. */
+export type PumpModel = { id: string; flow: number; head: number; power: number };
+
+/**
+ * Storage of every tank pooled into one, as an equivalent level (m) over their combined
+ * surface area (m²). Area 0 means the network has no tanks.
+ */
+export type Storage = { area: number; min: number; max: number; level: number };
+
+export type SchedulePlan = {
+  /** Start of the first hour scheduled. */
+  start: number;
+  /** Demand to meet in each hour, L/s. */
+  demand: number[];
+  demandSource: "forecast" | "pattern";
+  /** Energy price in each hour, per kWh. */
+  prices: number[];
+  /** Pumps that can run, cheapest water first. */
+  pumps: PumpModel[];
+  storage: Storage;
+  tariff: Tariff;
+};
+
+/**
+ * Flow, lift and power of each pump running in a steady state with all pumps on. A
+ * pump that is closed or delivers nothing there is left out. Pumps come back sorted by
+ * energy per m³ pumped, the order the optimiser brings them in.
+ */
+export const pumpModels = (net: Network, result: HydraulicResult): PumpModel[] =>
+  net.links
+    .flatMap((l) => {
+      if (l.kind !== "pump" || l.status !== "open") return [];
+      const flow = result.flows[l.id] ?? 0;
+      const head = (result.heads[l.to] ?? 0) - (result.heads[l.from] ?? 0);
+      if (flow <= 0) return [];
+      // Hydraulic power ρ·g·Q·H over efficiency, in kW; constant-power pumps draw their rating.
+      const power = l.curve.length > 0 ? (GRAVITY * flow * Math.max(0, head)) / 1000 / PUMP_EFFICIENCY : l.power ?? 0;
+      return [{ id: l.id, flow, head, power }];
+    })
+    .sort((a, b) => a.power / a.flow - b.power / b.flow);
+
+export const pooledStorage = (net: Network, result: HydraulicResult): Storage => {
+  let area = 0;
+  let min = 0;
+  let max = 0;
+  let volume = 0;
+  for (const n of net.nodes) {
+    if (n.kind !== "tank") continue;
+    const a = (Math.PI * n.diameter ** 2) / 4;
+    area += a;
+    min += n.minLevel * a;
+    max += n.maxLevel * a;
+    volume += (result.tankLevels[n.id] ?? n.initLevel) * a;
+  }
+  if (area === 0) return { area: 0, min: 0, max: 0, level: 0 };
+  return { area, min: min / area, max: max / area, level: Math.min(max, Math.max(min, volume)) / area };
+};
+
+/**
+ * Hourly demand for the day ahead: the city demand forecast where it covers every hour,
+ * otherwise the network's junction demands and patterns.
+ */
+export const scheduleDemand = (net: Network, city: DemandForecast | null, start: number, demandMultiplier = 1) => {
+  const hours = Array.from({ length: SCHEDULE_HOURS }, (_, h) => start + h * HOUR_MS);
+  const byT = new Map(city?.hours.map((h) => [h.t, h.expected]) ?? []);
+  if (hours.every((t) => byT.has(t))) return { demand: hours.map((t) => byT.get(t)! / 60), source: "forecast" as const };
+  const demand = hours.map((t) => {
+    const time = timeOfDay(new Date(t));
+    return net.nodes.reduce((sum, n) => (n.kind === "junction" ? sum + n.baseDemand * patternMultiplier(net, n.pattern, time) * demandMultiplier : sum), 0);
+  });
+  return { demand, source: "pattern" as const };
+};
+
+/** Everything the optimiser needs for the 24 hours from the next whole hour. Null with no pump able to run. */
+export const schedulePlan = (
+  net: Network,
+  result: HydraulicResult,
+  city: DemandForecast | null,
+  tariff: Tariff,
+  demandMultiplier = 1,
+  now = Date.now(),
+): SchedulePlan | null => {
+  const pumps = pumpModels(net, result);
+  if (pumps.length === 0) return null;
+  const start = Math.ceil(now / HOUR_MS) * HOUR_MS;
+  const { demand, source } = scheduleDemand(net, city, start, demandMultiplier);
+  const prices = demand.map((_, h) => tariffPeriod(tariff, new Date(start + h * HOUR_MS).getHours()).price);
+  return { start, demand, demandSource: source, prices, pumps, storage: pooledStorage(net, result), tariff };
+};
+
+// ------------------------- SCHEDULES ------------------------- //
+
+export type PumpSchedule = {
+  /** Whether each pump runs in each hour of the plan, by pump id. */
+  running: Record<string, boolean[]>;
+  /** Pooled storage level at the start of each hour and at the end, m. */
+  levels: number[];
+  energy: number; // kWh
+  cost: number;
+  /** Hours in which storage ran dry before demand was met. */
+  shortfall: number[];
+  /** Storage ends the day below where it started, borrowing from tomorrow. */
+  endsLow: boolean;
+};
+
+// Level after an hour with `supply` L/s pumped against the hour's demand; -Infinity when demand is not met.
+const nextLevel = (storage: Storage, level: number, supply: number, demand: number) => {
+  const volume = (supply - demand) * M3_PER_LS_HOUR;
+  if (storage.area === 0) return volume >= -1e-9 ? 0 : -Infinity;
+  // Surplus beyond a full tank is not delivered: the pumps ride back up their curves.
+  return Math.min(storage.max, level + volume / storage.area);
+};
+
+/** Tank levels, energy and cost of running the pumps as given, by mass balance hour by hour. */
+export const evaluateSchedule = (plan: SchedulePlan, running: Record<string, boolean[]>): PumpSchedule => {
+  const { storage } = plan;
+  let level = storage.level;
+  const levels = [level];
+  const shortfall: number[] = [];
+  let energy = 0;
+  let cost = 0;
+  for (let h = 0; h < SCHEDULE_HOURS; h++) {
+    const on = plan.pumps.filter((p) => running[p.id]?.[h]);
+    const power = on.reduce((sum, p) => sum + p.power, 0);
+    energy += power;
+    cost += power * plan.prices[h];
+    let next = nextLevel(storage, level, on.reduce((sum, p) => sum + p.flow, 0), plan.demand[h]);
+    if (next < storage.min - 1e-9) {
+      shortfall.push(h);
+      next = storage.min;
+    }
+    level = next;
+    levels.push(level);
+  }
+  return { running, levels, energy, cost, shortfall, endsLow: level < storage.level - 0.01 };
+};
+
+/** Every pump that ran in the steady state, on all day: how the model is operated now. */
+export const alwaysOn = (plan: SchedulePlan): Record<string, boolean[]> =>
+  Object.fromEntries(plan.pumps.map((p) => [p.id, new Array<boolean>(SCHEDULE_HOURS).fill(true)]));
+
+// Storage steps the optimiser tracks between the minimum and maximum level.
+const LEVEL_STEPS = 96;
+
+/**
+ * Cheapest schedule that meets demand every hour, keeps storage within its limits and
+ * leaves it at least as full as it started, by dynamic programming over hours and
+ * storage level. In each hour it picks how many pumps run, taking them in order of
+ * energy per m³. Levels are rounded down between steps, so the schedule it returns
+ * never runs storage lower than it planned for. When no schedule refills storage by the
+ * end of the day the last condition is dropped; null when demand cannot be met at all.
+ */
+export const optimiseSchedule = (plan: SchedulePlan): PumpSchedule | null => {
+  const { storage, pumps } = plan;
+  const span = storage.max - storage.min;
+  const steps = storage.area > 0 && span > 0 ? LEVEL_STEPS : 0;
+  const levelAt = (s: number) => (steps ? storage.min + (span * s) / steps : storage.level);
+  const stepOf = (level: number) => (steps ? Math.floor(((level - storage.min) / span) * steps + 1e-9) : 0);
+  // Flow and power with the k cheapest pumps running.
+  const flow = [0];
+  const power = [0];
+  for (const p of pumps) {
+    flow.push(flow[flow.length - 1] + p.flow);
+    power.push(power[power.length - 1] + p.power);
+  }
+
+  const first = stepOf(storage.level);
+  const solve = (refill: boolean) => {
+    const states = steps + 1;
+    const choice = new Int16Array(SCHEDULE_HOURS * states).fill(-1);
+    let cost = Float64Array.from({ length: states }, (_, s) => (!refill || s >= first ? 0 : Infinity));
+    for (let h = SCHEDULE_HOURS - 1; h >= 0; h--) {
+      const prev = new Float64Array(states).fill(Infinity);
+      for (let s = 0; s < states; s++) {
+        for (let k = 0; k <= pumps.length; k++) {
+          const level = nextLevel(storage, levelAt(s), flow[k], plan.demand[h]);
+          if (level < storage.min - 1e-9) continue;
+          const total = power[k] * plan.prices[h] + cost[stepOf(level)];
+          if (total < prev[s]) {
+            prev[s] = total;
+            choice[h * states + s] = k;
+          }
+        }
+      }
+      cost = prev;
+    }
+    if (!Number.isFinite(cost[first])) return null;
+    const running: Record<string, boolean[]> = Object.fromEntries(pumps.map((p) => [p.id, new Array<boolean>(SCHEDULE_HOURS).fill(false)]));
+    let s = first;
+    for (let h = 0; h < SCHEDULE_HOURS; h++) {
+      const k = choice[h * states + s];
+      for (let i = 0; i < k; i++) running[pumps[i].id][h] = true;
+      s = stepOf(nextLevel(storage, levelAt(s), flow[k], plan.demand[h]));
+    }
+    return evaluateSchedule(plan, running);
+  };
+  return solve(true) ?? solve(false);
+};
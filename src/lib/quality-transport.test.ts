@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+
+import type { HydraulicResult } from "./hydraulics";
+import type { Network } from "./network";
+import { DEFAULT_DECAY, MAX_AGE_H, simulateQuality } from "./quality-transport";
+
+// R feeds A along one kilometre of 200 mm main, and A feeds B along another. C hangs off
+// B on a pipe that carries nothing.
+const net: Network = {
+  nodes: [
+    { id: "R", kind: "reservoir", x: 0, y: 0, head: 50 },
+    ...["A", "B", "C"].map((id, i) => ({ id, kind: "junction" as const, x: i + 1, y: 0, cellId: id, elevation: 0, baseDemand: 5 })),
+  ],
+  links: [
+    ["P0", "R", "A"],
+    ["P1", "A", "B"],
+    ["P2", "B", "C"],
+  ].map(([id, from, to]) => ({ id, kind: "pipe" as const, from, to, status: "open" as const, length: 1000, diameter: 200, roughness: 120, material: "DI" })),
+  patterns: {},
+  patternStepSec: 3600,
+};
+
+const run = (flows: Record<string, number>) =>
+  simulateQuality(net, { flows, heads: { A: 40, B: 30, C: 30 }, tankLevels: {} } as unknown as HydraulicResult);
+
+// Transit time of a 1 km, 200 mm pipe at `q` L/s, in seconds.
+const transit = (q: number) => (1000 * Math.PI * 0.2 ** 2) / 4 / (q / 1000);
+// Bulk 0.5/day plus wall 0.1 m/day × 4 / 0.2 m.
+const K = DEFAULT_DECAY.bulk + (4 * DEFAULT_DECAY.wall) / 0.2;
+
+describe("simulateQuality", () => {
+  it("ages water by its transit time and decays chlorine first-order along a pipe", () => {
+    const q = run({ P0: 10, P1: 0, P2: 0 });
+    expect(transit(10)).toBeCloseTo(3141.59, 1);
+    expect(q.R).toEqual({ age: 0, chlorine: DEFAULT_DECAY.sourceChlorine });
+    expect(q.A.age).toBeCloseTo(transit(10) / 3600);
+    expect(q.A.chlorine).toBeCloseTo(Math.exp((-K * transit(10)) / 86_400));
+  });
+
+  it("compounds age and decay along pipes in series", () => {
+    // B's pipe runs at half the flow, so water takes twice as long to cross it.
+    const q = run({ P0: 10, P1: 5, P2: 0 });
+    const sec = transit(10) + transit(5);
+    expect(q.B.age).toBeCloseTo(sec / 3600);
+    expect(q.B.chlorine).toBeCloseTo(Math.exp((-K * sec) / 86_400));
+  });
+
+  it("follows flow against the link direction", () => {
+    const reversed = { ...net, links: net.links.map((l) => (l.id === "P0" ? { ...l, from: "A", to: "R" } : l)) };
+    const q = simulateQuality(reversed, { flows: { P0: -10, P1: 0, P2: 0 }, heads: {}, tankLevels: {} } as unknown as HydraulicResult);
+    expect(q.A.age).toBeCloseTo(transit(10) / 3600);
+  });
+
+  it("leaves nodes with no inflow stagnant at the age cap", () => {
+    const q = run({ P0: 10, P1: 5, P2: 0 });
+    expect(q.C).toEqual({ age: MAX_AGE_H, chlorine: 0 });
+  });
+});
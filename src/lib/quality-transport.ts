@@ -0,0 +1,116 @@
+import type { HydraulicResult } from "./hydraulics";
+import type { Network, Tank } from "./network";
+
+// ------------------------- TYPES ------------------------- //
+
+/** Chlorine dosing and first-order decay, as in EPANET's reaction options. */
+export type DecayOptions = {
+  /** Residual leaving the treatment works (reservoirs), mg/L. */
+  sourceChlorine: number;
+  /** Bulk decay coefficient, 1/day. */
+  bulk: number;
+  /** Wall decay coefficient, m/day. */
+  wall: number;
+};
+
+export const DEFAULT_DECAY: DecayOptions = { sourceChlorine: 1, bulk: 0.5, wall: 0.1 };
+
+/** Residual below which a tap counts as under-chlorinated (IS 10500, WHO), mg/L. */
+export const MIN_RESIDUAL = 0.2;
+
+/** Water age in hours and residual chlorine in mg/L. */
+export type WaterQuality = { age: number; chlorine: number };
+
+// ------------------------- TRANSPORT ------------------------- //
+
+// Links carrying less than this (L/s) are treated as stagnant, as in contamination tracing.
+const MIN_FLOW = 0.01;
+// Ages are capped here; water this old has lost its residual anyway.
+export const MAX_AGE_H = 14 * 24;
+const SEC_PER_DAY = 86_400;
+
+type Inflow = { from: string; q: number; sec: number; decay: number };
+
+/**
+ * Steady-state water age and chlorine residual at every node for the flows in `result`.
+ * Each node takes the flow-weighted mix of what its inflows deliver. Along a pipe, water
+ * ages by its transit time and chlorine decays at the bulk rate plus the wall rate
+ * scaled by 4 / diameter. Reservoirs supply fresh water at the source dose. Tanks are
+ * fully mixed, so their outflow is older by the stored volume over the inflow and has
+ * decayed in bulk only; a tank that only drains is taken to hold source water as old
+ * as its volume over its outflow. Nodes with no inflow, e.g. dead ends with no demand,
+ * hold stagnant water at the age cap with no residual.
+ */
+export const simulateQuality = (net: Network, result: HydraulicResult, options: DecayOptions = DEFAULT_DECAY): Record<string, WaterQuality> => {
+  const inflows = new Map<string, Inflow[]>();
+  for (const l of net.links) {
+    const q = result.flows[l.id];
+    if (l.status === "closed" || q === undefined || Math.abs(q) < MIN_FLOW) continue;
+    const [from, to] = q > 0 ? [l.from, l.to] : [l.to, l.from];
+    let sec = 0;
+    let decay = 0;
+    if (l.kind === "pipe") {
+      const d = l.diameter / 1000;
+      sec = (l.length * Math.PI * d * d) / 4 / (Math.abs(q) / 1000);
+      decay = options.bulk + (4 * options.wall) / d;
+    }
+    inflows.set(to, [...(inflows.get(to) ?? []), { from, q: Math.abs(q), sec, decay }]);
+  }
+
+  // Stored volume over a flow (L/s), in hours.
+  const residence = (tank: Tank, flow: number) =>
+    Math.min(MAX_AGE_H, (Math.PI * tank.diameter ** 2 * (result.tankLevels[tank.id] ?? tank.initLevel)) / 4 / (flow / 1000) / 3600);
+
+  const out: Record<string, WaterQuality> = {};
+  for (const n of net.nodes) out[n.id] = n.kind === "reservoir" ? { age: 0, chlorine: options.sourceChlorine } : { age: MAX_AGE_H, chlorine: 0 };
+
+  // Head falls along the flow except across pumps, so highest head first settles most
+  // networks in one pass; further passes handle booster pumps and tanks fed downstream.
+  const order = net.nodes.filter((n) => n.kind !== "reservoir").sort((a, b) => (result.heads[b.id] ?? 0) - (result.heads[a.id] ?? 0));
+  for (let pass = 0; pass < 50; pass++) {
+    let change = 0;
+    for (const n of order) {
+      const ins = inflows.get(n.id);
+      let next: WaterQuality;
+      if (!ins) {
+        // A draining tank: what it holds, aged by the time its outflow takes to empty it.
+        const tankOut = n.kind === "tank" ? net.links.reduce((sum, l) => sum + (l.from === n.id ? result.flows[l.id] ?? 0 : l.to === n.id ? -(result.flows[l.id] ?? 0) : 0), 0) : 0;
+        if (n.kind !== "tank" || tankOut < MIN_FLOW) continue;
+        const age = residence(n, tankOut);
+        next = { age, chlorine: options.sourceChlorine * Math.exp((-options.bulk * age) / 24) };
+      } else {
+        let total = 0;
+        let age = 0;
+        let chlorine = 0;
+        for (const i of ins) {
+          const up = out[i.from];
+          total += i.q;
+          age += i.q * (up.age + i.sec / 3600);
+          chlorine += i.q * up.chlorine * Math.exp((-i.decay * i.sec) / SEC_PER_DAY);
+        }
+        next = { age: age / total, chlorine: chlorine / total };
+        if (n.kind === "tank") {
+          const held = residence(n, total);
+          next = { age: next.age + held, chlorine: next.chlorine * Math.exp((-options.bulk * held) / 24) };
+        }
+        next.age = Math.min(MAX_AGE_H, next.age);
+      }
+      change = Math.max(change, Math.abs(next.age - out[n.id].age), Math.abs(next.chlorine - out[n.id].chlorine));
+      out[n.id] = next;
+    }
+    if (change < 1e-6) break;
+  }
+  return out;
+};
+
+/** Each cell's worst tap: the lowest residual and the oldest water among its junctions. */
+export const cellQuality = (net: Network, nodes: Record<string, WaterQuality>): Map<string, WaterQuality> => {
+  const out = new Map<string, WaterQuality>();
+  for (const n of net.nodes) {
+    const q = nodes[n.id];
+    if (n.kind !== "junction" || !n.cellId || !q) continue;
+    const cell = out.get(n.cellId);
+    out.set(n.cellId, cell ? { age: Math.max(cell.age, q.age), chlorine: Math.min(cell.chlorine, q.chlorine) } : { ...q });
+  }
+  return out;
+};
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+
+import { solveHydraulics } from "./hydraulics";
+import { buildDemoNetwork } from "./network";
+import { applyChanges, describeChange, predictSandbox, sandboxImpacts, solveSandbox, type SandboxChange } from "./sandbox";
+import { testCells } from "./test-cells";
+
+const cells = testCells();
+const net = buildDemoNetwork(cells);
+const live = solveHydraulics(net, { time: 7 * 3600 });
+
+const predict = (changes: SandboxChange[]) => {
+  const sandbox = solveSandbox(net, live, changes);
+  const predicted = predictSandbox(cells, net, live, sandbox);
+  return { sandbox, predicted, impacts: sandboxImpacts(cells, predicted, sandbox.cutOff) };
+};
+
+describe("applyChanges", () => {
+  it("shares extra demand evenly over the section's junctions and leaves the live network alone", () => {
+    const cellId = net.nodes.find((n) => n.kind === "junction" && n.cellId)!.cellId!;
+    const inCell = (n: (typeof net.nodes)[number]) => n.kind === "junction" && n.cellId === cellId;
+    const demand = (nodes: typeof net.nodes) => nodes.filter(inCell).reduce((s, n) => s + (n.kind === "junction" ? n.baseDemand : 0), 0);
+    const changed = applyChanges(net, [{ kind: "demand", cellId, flow: 3.5 }]);
+    expect(demand(changed.nodes)).toBeCloseTo(demand(net.nodes) + 3.5);
+    expect(changed.nodes.filter((n) => !inCell(n))).toEqual(net.nodes.filter((n) => !inCell(n)));
+    expect(applyChanges(net, [{ kind: "demand", cellId: "nowhere", flow: 3.5 }])).toEqual(net);
+  });
+
+  it("raises every reservoir without a node id", () => {
+    const changed = applyChanges(net, [{ kind: "setpoint", delta: 5 }]);
+    for (const [a, b] of net.nodes.map((n, i) => [n, changed.nodes[i]])) {
+      if (a.kind === "reservoir" && b.kind === "reservoir") expect(b.head).toBe(a.head + 5);
+    }
+  });
+});
+
+describe("describeChange", () => {
+  it("names each kind of change", () => {
+    const pump = net.links.find((l) => l.kind === "pump")!.id;
+    expect(describeChange(net, { kind: "link", linkId: pump, status: "closed" })).toBe(`Take pump ${pump} offline`);
+    expect(describeChange(net, { kind: "demand", cellId: "C4-4", flow: 3.5, label: "Green Park colony" })).toBe("Green Park colony: +3.5 L/s in C4-4");
+    expect(describeChange(net, { kind: "setpoint", delta: -2 })).toBe("Lower head at every source by 2 m");
+  });
+});
+
+describe("predictSandbox", () => {
+  it("leaves the grid as it is with no changes", () => {
+    const { sandbox, predicted, impacts } = predict([]);
+    expect(sandbox.cutOff).toEqual([]);
+    expect(predicted).toEqual(cells);
+    expect(impacts).toEqual([]);
+  });
+
+  it("drops pressure and flow to zero in sections cut off from every source", () => {
+    const feeds = net.links.filter((l) => net.nodes.some((n) => n.kind !== "junction" && (n.id === l.from || n.id === l.to)));
+    const { sandbox, predicted, impacts } = predict(feeds.map((l) => ({ kind: "link", linkId: l.id, status: "closed" })));
+    const sections = new Set(net.nodes.flatMap((n) => (n.kind === "junction" && n.cellId ? [n.cellId] : [])));
+    expect([...sandbox.cutOff].sort()).toEqual([...sections].sort());
+    for (const c of predicted) if (sections.has(c.id)) expect(c).toMatchObject({ pressure: 0, flow: 0 });
+    expect(impacts.map((i) => i.cellId).sort()).toEqual([...sections].sort());
+    expect(impacts.every((i) => i.cutOff)).toBe(true);
+  });
+});
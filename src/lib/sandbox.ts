@@ -0,0 +1,139 @@
+import { round1, type GridCell } from "./grid";
+import { applyHydraulics, solveHydraulics, type HydraulicResult } from "./hydraulics";
+import type { Network } from "./network";
+import { cellQuality, simulateQuality, type WaterQuality } from "./quality-transport";
+import { hasQuality, withWqi, type WqiMethod } from "./wqi";
+
+// ------------------------- CHANGES ------------------------- //
+
+/** A hypothetical change, applied to a copy of the network and never to the live one. */
+export type SandboxChange =
+  /** Close or reopen a pipe, valve or pump; a closed pump is offline. */
+  | { kind: "link"; linkId: string; status: "open" | "closed" }
+  /** Extra average demand in a section, L/s, e.g. a new housing colony. */
+  | { kind: "demand"; cellId: string; flow: number; label?: string }
+  /** Head held at a source raised (or lowered) by `delta` m; every reservoir without `nodeId`. */
+  | { kind: "setpoint"; nodeId?: string; delta: number };
+
+// Average draw of one household: 4.5 people at 135 L/day (CPHEEO norm for piped supply), L/s.
+export const HOUSEHOLD_LS = (4.5 * 135) / 86_400;
+
+/**
+ * The network with every change applied in order. Extra demand is shared evenly over
+ * the section's junctions and follows their demand pattern.
+ */
+export const applyChanges = (net: Network, changes: SandboxChange[]): Network => {
+  let { nodes, links } = net;
+  for (const c of changes) {
+    if (c.kind === "link") links = links.map((l) => (l.id === c.linkId ? { ...l, status: c.status } : l));
+    else if (c.kind === "demand") {
+      const count = nodes.filter((n) => n.kind === "junction" && n.cellId === c.cellId).length;
+      if (count === 0) continue;
+      nodes = nodes.map((n) => (n.kind === "junction" && n.cellId === c.cellId ? { ...n, baseDemand: n.baseDemand + c.flow / count } : n));
+    } else nodes = nodes.map((n) => (n.kind === "reservoir" && (c.nodeId === undefined || n.id === c.nodeId) ? { ...n, head: n.head + c.delta } : n));
+  }
+  return { ...net, nodes, links };
+};
+
+/** e.g. "Take pump PU-2 offline" or "Green Park colony: +3.5 L/s in C4-4". */
+export const describeChange = (net: Network, c: SandboxChange): string => {
+  if (c.kind === "link") {
+    const kind = net.links.find((l) => l.id === c.linkId)?.kind ?? "link";
+    if (kind === "pump") return c.status === "closed" ? `Take pump ${c.linkId} offline` : `Run pump ${c.linkId}`;
+    return `${c.status === "closed" ? "Close" : "Open"} ${kind} ${c.linkId}`;
+  }
+  if (c.kind === "demand") return `${c.label || "Extra demand"}: +${round1(c.flow)} L/s in ${c.cellId}`;
+  return `${c.delta >= 0 ? "Raise" : "Lower"} head at ${c.nodeId ?? "every source"} by ${round1(Math.abs(c.delta))} m`;
+};
+
+// ------------------------- PREDICTION ------------------------- //
+
+/** The changed network solved alongside the live one. */
+export type SandboxSolution = {
+  network: Network;
+  result: HydraulicResult;
+  /** Sections whose every junction loses its path to a source. */
+  cutOff: string[];
+  /** Modelled residual per section, live and with the changes, mg/L. */
+  liveResidual: Map<string, WaterQuality>;
+  residual: Map<string, WaterQuality>;
+};
+
+/**
+ * Solves the network with the changes at the live solution's time and tank levels.
+ * Kept apart from `predictSandbox` so telemetry updates do not re-solve it.
+ */
+export const solveSandbox = (net: Network, live: HydraulicResult, changes: SandboxChange[], demandMultiplier = 1): SandboxSolution => {
+  const network = applyChanges(net, changes);
+  const result = solveHydraulics(network, { time: live.time, tankLevels: live.tankLevels, demandMultiplier });
+  const cut = new Set(result.disconnected);
+  const junctions = new Map<string, string[]>();
+  for (const n of network.nodes) if (n.kind === "junction" && n.cellId) junctions.set(n.cellId, [...(junctions.get(n.cellId) ?? []), n.id]);
+  return {
+    network,
+    result,
+    cutOff: [...junctions].filter(([, ids]) => ids.every((id) => cut.has(id))).map(([cellId]) => cellId),
+    liveResidual: cellQuality(net, simulateQuality(net, live)),
+    residual: cellQuality(network, simulateQuality(network, result)),
+  };
+};
+
+// Below this the live residual is too small to scale from, mg/L.
+const MIN_SCALABLE_CHLORINE = 0.01;
+
+/**
+ * The live grid as it would be with the changes; leak risk is left for the caller to
+ * rescore. Each section moves by the difference between the two solutions, so
+ * telemetry offsets from the model carry over. Measured chlorine scales with the
+ * modelled residual, which falls as water ages behind a closed valve, and the WQI is
+ * recomputed from it. Sections cut off lose pressure and flow.
+ */
+export const predictSandbox = (cells: GridCell[], net: Network, live: HydraulicResult, sandbox: SandboxSolution, wqiMethod?: WqiMethod): GridCell[] => {
+  const before = new Map(applyHydraulics(cells, net, live).map((c) => [c.id, c]));
+  const after = new Map(applyHydraulics(cells, sandbox.network, sandbox.result).map((c) => [c.id, c]));
+  const dry = new Set(sandbox.cutOff);
+  return cells.map((c) => {
+    const a = before.get(c.id);
+    const b = after.get(c.id);
+    // Sections without junctions come back unchanged from applyHydraulics.
+    if (!a || !b || a === c) return c;
+    const next: GridCell = dry.has(c.id)
+      ? { ...c, pressure: 0, flow: 0 }
+      : { ...c, pressure: Math.max(0, round1(c.pressure + b.pressure - a.pressure)), flow: Math.max(0, round1(c.flow + b.flow - a.flow)) };
+    const was = sandbox.liveResidual.get(c.id)?.chlorine ?? 0;
+    const now = sandbox.residual.get(c.id)?.chlorine ?? 0;
+    if (!hasQuality(c.quality) || c.quality.chlorine === undefined || Math.abs(now - was) < 1e-6) return next;
+    const chlorine = was < MIN_SCALABLE_CHLORINE ? now : (c.quality.chlorine * now) / was;
+    return withWqi({ ...next, quality: { ...c.quality, chlorine: Math.round(chlorine * 100) / 100 } }, wqiMethod);
+  });
+};
+
+// ------------------------- IMPACT ------------------------- //
+
+/** One section live and predicted. */
+export type CellImpact = {
+  cellId: string;
+  live: GridCell;
+  predicted: GridCell;
+  cutOff: boolean;
+};
+
+// Smaller differences are noise in the comparison, not an effect of the change.
+const MIN_PRESSURE_DELTA = 0.5; // psi
+const MIN_WQI_DELTA = 0.5;
+const MIN_RISK_DELTA = 0.01;
+
+/** Sections the changes move, cut-off ones first, then by the size of the pressure change. */
+export const sandboxImpacts = (live: GridCell[], predicted: GridCell[], cutOff: string[]): CellImpact[] => {
+  const byId = new Map(predicted.map((c) => [c.id, c]));
+  const dry = new Set(cutOff);
+  const out: CellImpact[] = [];
+  for (const c of live) {
+    const p = byId.get(c.id);
+    if (!p) continue;
+    const moved =
+      Math.abs(p.pressure - c.pressure) >= MIN_PRESSURE_DELTA || Math.abs(p.wqi - c.wqi) >= MIN_WQI_DELTA || Math.abs(p.leakRisk - c.leakRisk) >= MIN_RISK_DELTA;
+    if (moved || dry.has(c.id)) out.push({ cellId: c.id, live: c, predicted: p, cutOff: dry.has(c.id) });
+  }
+  return out.sort((a, b) => Number(b.cutOff) - Number(a.cutOff) || Math.abs(b.predicted.pressure - b.live.pressure) - Math.abs(a.predicted.pressure - a.live.pressure));
+};
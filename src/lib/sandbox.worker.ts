@@ -0,0 +1,18 @@
+import type { HydraulicResult } from "./hydraulics";
+import type { Network } from "./network";
+import { solveSandbox, type SandboxChange, type SandboxSolution } from "./sandbox";
+
+export type SandboxRequest = { id: number; network: Network; live: HydraulicResult; changes: SandboxChange[]; demandMultiplier: number };
+export type SandboxResponse = { id: number; solution?: SandboxSolution; error?: string };
+
+// Solves what-if changes off the main thread, apart from the live solver so neither waits on the other.
+self.onmessage = (e: MessageEvent<SandboxRequest>) => {
+  const { id, network, live, changes, demandMultiplier } = e.data;
+  let response: SandboxResponse;
+  try {
+    response = { id, solution: solveSandbox(network, live, changes, demandMultiplier) };
+  } catch (err) {
+    response = { id, error: err instanceof Error ? err.message : String(err) };
+  }
+  self.postMessage(response);
+};
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+
+import { sensorHealth, summarizeSensors, type Sensor } from "./sensors";
+import type { DeviceStatus } from "./telemetry";
+
+const TODAY = new Date("2025-06-06T00:00:00Z");
+const CLOCK = "2025-06-06T10:00:00.000Z";
+
+// Reports every minute, so offline after three minutes of silence.
+const sensor = (id: string, extra: Partial<Sensor> = {}): Sensor => ({
+  id,
+  type: "pressure",
+  cellId: id,
+  firmware: "2.5.0",
+  battery: 80,
+  interval: 60,
+  calibrationDue: "2025-12-01",
+  ...extra,
+});
+
+const secondsBefore = (s: number) => new Date(Date.parse(CLOCK) - s * 1000).toISOString();
+
+describe("sensorHealth", () => {
+  it("takes a sensor offline after three missed reports, judged on the feed clock", () => {
+    const heartbeats = new Map([
+      ["A1", secondsBefore(180)],
+      ["A2", secondsBefore(181)],
+      // Heard of by cell and type rather than by name.
+      ["A3|pressure", secondsBefore(60)],
+    ]);
+    const registry = ["A1", "A2", "A3", "A4"].map((id) => sensor(id));
+    const health = sensorHealth(registry, heartbeats, new Map(), CLOCK, TODAY);
+    expect(health.map((s) => [s.id, s.online])).toEqual([
+      ["A1", true],
+      ["A2", false],
+      ["A3", true],
+      // Never heard from.
+      ["A4", false],
+    ]);
+    // Nothing on the feed yet: nothing to judge by.
+    expect(sensorHealth(registry, heartbeats, new Map(), null, TODAY).every((s) => s.online === null)).toBe(true);
+  });
+
+  it("prefers the device's own battery and firmware reports", () => {
+    const devices = new Map<string, DeviceStatus>([["A1", { sensorId: "A1", timestamp: secondsBefore(30), battery: 19, firmware: "2.5.3" }]]);
+    const [s] = sensorHealth([sensor("A1", { battery: 90 })], new Map(), devices, CLOCK, TODAY);
+    expect(s).toMatchObject({ online: true, battery: 19, lowBattery: true, firmware: "2.5.3", lastSeen: secondsBefore(30) });
+  });
+
+  it("counts calibration days against the calendar, negative once overdue", () => {
+    const registry = [
+      sensor("A1", { calibrationDue: "2025-06-05" }),
+      sensor("A2", { calibrationDue: "2025-06-06" }),
+      sensor("A3", { calibrationDue: "2025-06-20" }),
+      sensor("A4", { calibrationDue: "2025-06-21" }),
+    ];
+    const health = sensorHealth(registry, new Map([["A1", CLOCK]]), new Map(), CLOCK, TODAY);
+    expect(health.map((s) => s.calibrationDays)).toEqual([-1, 0, 14, 15]);
+    expect(summarizeSensors(health)).toEqual({ total: 4, offline: 3, lowBattery: 0, overdue: 1, dueSoon: 2 });
+  });
+});
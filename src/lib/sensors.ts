@@ -0,0 +1,125 @@
+import type { GridCell } from "./grid";
+import type { DeviceStatus, TelemetryReading } from "./telemetry";
+
+// ------------------------- REGISTRY ------------------------- //
+
+export type SensorType = "pressure" | "flow" | "quality";
+
+export const SENSOR_TYPES: Record<SensorType, string> = { pressure: "Pressure", flow: "Flow", quality: "Multiparameter quality" };
+
+/** One logger in the field, as held in the registry. */
+export type Sensor = {
+  id: string;
+  type: SensorType;
+  cellId: string;
+  firmware: string;
+  /** %, as at the last sync; device reports on the feed replace it. */
+  battery: number;
+  /** Seconds between reports; the sensor counts as offline after three missed. */
+  interval: number;
+  /** YYYY-MM-DD. */
+  calibrationDue: string;
+  lastSeen?: string;
+};
+
+// Days between calibrations by type: sondes drift far faster than pressure and flow loggers.
+const CALIBRATION_DAYS: Record<SensorType, number> = { pressure: 365, flow: 365, quality: 90 };
+const FIRMWARE: Record<SensorType, string[]> = { pressure: ["2.4.1", "2.5.0", "2.5.3"], flow: ["1.9.2", "2.0.0"], quality: ["3.1.0", "3.2.4"] };
+const DAY_MS = 86_400_000;
+
+/**
+ * A plausible registry for a city without one: a pressure logger in every cell, a
+ * flow meter in every other and a quality sonde in every third, reporting every
+ * minute. Battery, firmware and calibration dates vary deterministically, so some
+ * are low or overdue from the start.
+ */
+export const demoSensorRegistry = (cells: GridCell[], now = new Date()): Sensor[] =>
+  cells.flatMap((c, i) => {
+    const types: SensorType[] = ["pressure", ...(i % 2 === 0 ? (["flow"] as const) : []), ...(i % 3 === 0 ? (["quality"] as const) : [])];
+    return types.map((type, k) => {
+      const j = i * 3 + k;
+      const cycle = CALIBRATION_DAYS[type];
+      const due = new Date(now.getTime() + (((j * 53) % (cycle + 40)) - 40) * DAY_MS);
+      return {
+        id: `${{ pressure: "PT", flow: "FM", quality: "WQ" }[type]}-${c.id}`,
+        type,
+        cellId: c.id,
+        firmware: FIRMWARE[type][j % FIRMWARE[type].length],
+        battery: 100 - ((j * 37) % 95),
+        interval: 60,
+        calibrationDue: due.toISOString().slice(0, 10),
+      };
+    });
+  });
+
+// ------------------------- HEARTBEATS ------------------------- //
+
+/**
+ * Registry keys a reading vouches for: its logger where it names one, otherwise
+ * "<cell>|<type>" for each kind of measurement it carries.
+ */
+export const readingHeartbeats = (r: TelemetryReading): string[] => {
+  if (r.sensorId) return [r.sensorId];
+  const keys: string[] = [];
+  if (r.pressure !== undefined) keys.push(`${r.cellId}|pressure`);
+  if (r.flow !== undefined) keys.push(`${r.cellId}|flow`);
+  if (r.quality !== undefined || r.wqi !== undefined) keys.push(`${r.cellId}|quality`);
+  return keys;
+};
+
+// ------------------------- HEALTH ------------------------- //
+
+export const LOW_BATTERY = 20; // %
+// Calibrations due within this many days are flagged ahead of time.
+export const CALIBRATION_WARNING_DAYS = 14;
+const MISSED_REPORTS = 3;
+
+export type SensorHealth = Sensor & {
+  /** Null until the feed has delivered anything to judge by. */
+  online: boolean | null;
+  lowBattery: boolean;
+  /** Days until calibration is due; negative once overdue. */
+  calibrationDays: number;
+};
+
+/**
+ * Live state of every registered sensor. Last seen is the latest of the registry,
+ * readings naming the sensor or its cell and type, and its own device reports.
+ * Offline is judged against the newest timestamp on the feed rather than the wall
+ * clock, so replays and scenarios with their own clocks are judged fairly.
+ * Calibration runs on the calendar.
+ */
+export const sensorHealth = (
+  registry: Sensor[],
+  heartbeats: Map<string, string>,
+  devices: Map<string, DeviceStatus>,
+  feedClock: string | null,
+  today = new Date(),
+): SensorHealth[] => {
+  const clock = feedClock ? Date.parse(feedClock) : null;
+  const latest = (...ts: Array<string | undefined>) => ts.filter((t): t is string => !!t).sort((a, b) => Date.parse(b) - Date.parse(a))[0];
+  return registry.map((s) => {
+    const device = devices.get(s.id);
+    const lastSeen = latest(s.lastSeen, heartbeats.get(s.id), heartbeats.get(`${s.cellId}|${s.type}`), device?.timestamp);
+    const battery = device?.battery ?? s.battery;
+    return {
+      ...s,
+      lastSeen,
+      battery,
+      firmware: device?.firmware ?? s.firmware,
+      online: clock === null ? null : !!lastSeen && clock - Date.parse(lastSeen) <= MISSED_REPORTS * s.interval * 1000,
+      lowBattery: battery < LOW_BATTERY,
+      calibrationDays: Math.floor((Date.parse(s.calibrationDue) - today.getTime()) / DAY_MS),
+    };
+  });
+};
+
+export type SensorSummary = { total: number; offline: number; lowBattery: number; overdue: number; dueSoon: number };
+
+export const summarizeSensors = (sensors: SensorHealth[]): SensorSummary => ({
+  total: sensors.length,
+  offline: sensors.filter((s) => s.online === false).length,
+  lowBattery: sensors.filter((s) => s.lowBattery).length,
+  overdue: sensors.filter((s) => s.calibrationDays < 0).length,
+  dueSoon: sensors.filter((s) => s.calibrationDays >= 0 && s.calibrationDays <= CALIBRATION_WARNING_DAYS).length,
+});
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+
+import { cityConfigs } from "./city-config";
+import { parseScenario, runScenario, scenarioCellIds, scenarios, scenariosFor } from "./simulator";
+import { testCells } from "./test-cells";
+
+const cells = testCells();
+
+// Every reading of one cell once a minute, rounded so the fixture stays readable.
+const digest = (readings: ReturnType<typeof runScenario>, cellId: string) =>
+  readings
+    .filter((r) => r.cellId === cellId && Date.parse(r.timestamp) % 60_000 === 0)
+    .map((r) => [r.timestamp.slice(11, 19), r.pressure?.toFixed(2), r.flow?.toFixed(2), r.wqi?.toFixed(2) ?? r.quality?.turbidity?.toFixed(2)].join(" "));
+
+describe("runScenario", () => {
+  it("bundles a scenario for every event type", () => {
+    expect(scenarios.flatMap((s) => s.events.map((e) => e.type)).sort()).toEqual([
+      "contamination",
+      "main-burst",
+      "meter-tamper",
+      "sensor-outage",
+      "valve-closure",
+    ]);
+  });
+
+  for (const scenario of scenarios) {
+    it(`replays ${scenario.id} identically`, () => {
+      const first = runScenario(cells, scenario, 900);
+      expect(runScenario(cells, scenario, 900)).toEqual(first);
+      expect(first[0].timestamp).toBe("2025-09-01T00:00:05.000Z");
+      const e = scenario.events[0];
+      const cellId = "cellId" in e ? e.cellId : "path" in e ? e.path[0] : e.cells[0];
+      expect(digest(first, cellId)).toMatchSnapshot();
+    });
+  }
+});
+
+describe("parseScenario", () => {
+  const parse = (event: Record<string, unknown>) => () => parseScenario("bad", { events: [event] });
+
+  it("rejects events missing the cells they act on", () => {
+    expect(parse({ type: "sensor-outage", at: 60 })).toThrow(/"cells"/);
+    expect(parse({ type: "valve-closure", at: 60, cells: "C1-1" })).toThrow(/"cells"/);
+    expect(parse({ type: "contamination", at: 60, path: [] })).toThrow(/"path"/);
+    expect(parse({ type: "main-burst", at: 60, cellId: 4 })).toThrow(/"cellId"/);
+    expect(parse({ type: "meter-tamper", at: 60 })).toThrow(/"cellId"/);
+  });
+
+  it("rejects malformed settings", () => {
+    expect(parse({ type: "main-burst", at: 60, cellId: "C1-1", severity: "high" })).toThrow(/"severity"/);
+    expect(parse({ type: "contamination", at: 60, path: ["C1-1"], speed: 0 })).toThrow(/"speed"/);
+    expect(parse({ type: "sensor-outage", at: 60, cells: ["C1-1"], until: 30 })).toThrow(/"until"/);
+  });
+
+  it("accepts a well-formed event and fills in defaults", () => {
+    const s = parseScenario("ok", { events: [{ type: "sensor-outage", at: 60, cells: ["C1-1"], until: 120 }] });
+    expect(s).toMatchObject({ name: "ok", seed: 1, stepSec: 5 });
+  });
+});
+
+describe("scenariosFor", () => {
+  it("offers every bundled scenario on the demo grid", () => {
+    expect(scenariosFor(cells)).toEqual(scenarios);
+  });
+
+  it("leaves out scenarios naming cells another layout lacks", () => {
+    const ward = testCells(cityConfigs["ward-4x4"]);
+    const ids = new Set(ward.map((c) => c.id));
+    const playable = scenariosFor(ward);
+    expect(playable.length).toBeLessThan(scenarios.length);
+    for (const s of scenarios) expect(playable.includes(s)).toBe(scenarioCellIds(s).every((id) => ids.has(id)));
+  });
+});
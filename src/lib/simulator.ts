@@ -0,0 +1,284 @@
+import { clamp, deriveLeakRisk, type GridCell } from "./grid";
+import type { TelemetryReading, TelemetrySource } from "./telemetry";
+import { computeWqi, contaminate, driftQuality, type QualitySample } from "./wqi";
+
+// ------------------------- SCENARIO TYPES ------------------------- //
+
+/** All `at` / `until` offsets are seconds of simulated time from the scenario start. */
+export type ScenarioEvent =
+  | {
+      type: "main-burst";
+      at: number;
+      cellId: string;
+      severity?: number; // 0-1, scales flow spike and pressure loss
+      radius?: number; // neighbouring cells (Manhattan distance) that feel the pressure loss
+      until?: number;
+    }
+  | {
+      type: "contamination";
+      at: number;
+      path: string[]; // cells in the order the plume reaches them
+      speed?: number; // cells per minute
+      wqiDrop?: number; // severity at the entry cell, roughly the WQI points lost on the 0–100 scale
+      until?: number;
+    }
+  | {
+      type: "valve-closure";
+      at: number;
+      cells: string[]; // pressure zone fed through the closed valve
+      until?: number;
+    }
+  | {
+      type: "meter-tamper";
+      at: number;
+      cellId: string;
+      factor?: number; // reported / true flow
+      until?: number;
+    }
+  | {
+      type: "sensor-outage";
+      at: number;
+      cells: string[]; // cells whose loggers stop reporting, e.g. behind a failed gateway
+      until?: number;
+    };
+
+export type Scenario = {
+  id: string;
+  name: string;
+  description?: string;
+  seed: number;
+  stepSec: number;
+  start?: string; // ISO-8601 simulated start time
+  events: ScenarioEvent[];
+};
+
+// Per event type: the field naming the cells it hits, and its optional numeric settings.
+const EVENT_FIELDS: Record<ScenarioEvent["type"], { target: "cellId" | "path" | "cells"; numbers: string[] }> = {
+  "main-burst": { target: "cellId", numbers: ["severity", "radius"] },
+  contamination: { target: "path", numbers: ["speed", "wqiDrop"] },
+  "valve-closure": { target: "cells", numbers: [] },
+  "meter-tamper": { target: "cellId", numbers: ["factor"] },
+  "sensor-outage": { target: "cells", numbers: [] },
+};
+const EVENT_TYPES = Object.keys(EVENT_FIELDS);
+
+const isIdList = (v: unknown): v is string[] => Array.isArray(v) && v.length > 0 && v.every((x) => typeof x === "string");
+
+// Checks the fields the engine reads for this event's type, so a bad file fails on load rather than every tick.
+const validateEvent = (id: string, i: number, e: Record<string, unknown>) => {
+  const where = `Scenario ${id}: event ${i} (${e.type})`;
+  const { target, numbers } = EVENT_FIELDS[e.type as ScenarioEvent["type"]];
+  if (target === "cellId" ? typeof e.cellId !== "string" : !isIdList(e[target])) {
+    throw new Error(`${where} needs "${target}" as ${target === "cellId" ? "a cell id" : "a non-empty list of cell ids"}`);
+  }
+  for (const key of [...numbers, "until"]) {
+    if (e[key] !== undefined && (typeof e[key] !== "number" || !Number.isFinite(e[key]))) throw new Error(`${where}: "${key}" must be a number`);
+  }
+  if (e.speed !== undefined && (e.speed as number) <= 0) throw new Error(`${where}: "speed" must be above 0`);
+  if (e.until !== undefined && (e.until as number) <= (e.at as number)) throw new Error(`${where}: "until" must come after "at"`);
+};
+
+/** Validates a parsed scenario file and fills in defaults. Throws with a readable message. */
+export const parseScenario = (id: string, data: unknown): Scenario => {
+  if (!data || typeof data !== "object") throw new Error(`Scenario ${id}: expected an object`);
+  const s = data as Partial<Scenario>;
+  if (!Array.isArray(s.events)) throw new Error(`Scenario ${id}: "events" must be an array`);
+  s.events.forEach((e, i) => {
+    if (!EVENT_TYPES.includes(e?.type)) throw new Error(`Scenario ${id}: event ${i} has unknown type "${e?.type}"`);
+    if (typeof e.at !== "number" || !Number.isFinite(e.at)) throw new Error(`Scenario ${id}: event ${i} is missing "at"`);
+    validateEvent(id, i, e as Record<string, unknown>);
+  });
+  return {
+    id,
+    name: s.name ?? id,
+    description: s.description,
+    seed: s.seed ?? 1,
+    stepSec: s.stepSec ?? 5,
+    start: s.start,
+    events: [...s.events].sort((a, b) => a.at - b.at),
+  };
+};
+
+// Bundled scenario files, keyed by file name (e.g. "main-burst").
+const scenarioFiles = import.meta.glob("../scenarios/*.json", { eager: true, import: "default" });
+
+export const scenarios: Scenario[] = Object.entries(scenarioFiles)
+  .map(([path, data]) => parseScenario(path.replace(/^.*\/|\.json$/g, ""), data))
+  .sort((a, b) => a.name.localeCompare(b.name));
+
+/** Cell ids a scenario's events act on. */
+export const scenarioCellIds = (scenario: Scenario) =>
+  scenario.events.flatMap((e) => ("cellId" in e ? [e.cellId] : "path" in e ? e.path : e.cells));
+
+/** Bundled scenarios that can play on these cells; one naming a cell the layout lacks would do nothing there. */
+export const scenariosFor = (cells: GridCell[]) => {
+  const ids = new Set(cells.map((c) => c.id));
+  return scenarios.filter((s) => scenarioCellIds(s).every((id) => ids.has(id)));
+};
+
+// ------------------------- ENGINE ------------------------- //
+
+/** mulberry32 – small, fast and good enough for repeatable noise. */
+export const seededRandom = (seed: number) => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+type CellState = { base: GridCell; wqi: number; quality?: QualitySample; pressure: number; flow: number };
+
+// `contamination` is the 0–1 severity applied to raw quality; `wqi` the same drop for cells without it.
+// A `silent` cell keeps evolving but sends nothing.
+type Effects = { wqi: number; contamination: number; pressure: number; flow: number; reportedFlow: number; leak: number; silent: boolean };
+
+const active = (e: ScenarioEvent, t: number) => t >= e.at && (e.until === undefined || t < e.until);
+
+// Eases an effect in over `rampSec` so bursts and closures do not jump in a single step.
+const ramp = (t: number, at: number, rampSec: number) => clamp((t - at) / rampSec, 0, 1);
+
+const effectsAt = (cell: GridCell, t: number, events: ScenarioEvent[], byId: Map<string, GridCell>): Effects => {
+  const fx: Effects = { wqi: 0, contamination: 0, pressure: 1, flow: 1, reportedFlow: 1, leak: 0, silent: false };
+  for (const e of events) {
+    if (!active(e, t)) continue;
+    switch (e.type) {
+      case "main-burst": {
+        const origin = byId.get(e.cellId);
+        if (!origin) break;
+        const severity = e.severity ?? 1;
+        const dist = Math.abs(origin.row - cell.row) + Math.abs(origin.col - cell.col);
+        if (dist > (e.radius ?? 1)) break;
+        const k = ramp(t, e.at, 60) * severity;
+        fx.pressure *= 1 - (dist === 0 ? 0.4 : 0.15 / dist) * k;
+        if (dist === 0) {
+          fx.flow *= 1 + 0.8 * k;
+          fx.leak = Math.max(fx.leak, 0.9 * k);
+        }
+        break;
+      }
+      case "contamination": {
+        const idx = e.path.indexOf(cell.id);
+        if (idx < 0) break;
+        const arrival = e.at + (idx / (e.speed ?? 0.2)) * 60;
+        if (t < arrival) break;
+        // Dilutes as it travels; builds up over ~10 minutes once it arrives.
+        const drop = (e.wqiDrop ?? 30) * 0.85 ** idx * ramp(t, arrival, 600);
+        fx.wqi -= drop;
+        fx.contamination += drop / 100;
+        break;
+      }
+      case "valve-closure": {
+        if (!e.cells.includes(cell.id)) break;
+        const k = ramp(t, e.at, 30);
+        fx.pressure *= 1 - 0.7 * k;
+        fx.flow *= 1 - 0.9 * k;
+        break;
+      }
+      case "meter-tamper": {
+        if (e.cellId !== cell.id) break;
+        fx.reportedFlow *= e.factor ?? 0.4;
+        break;
+      }
+      case "sensor-outage": {
+        if (e.cells.includes(cell.id)) fx.silent = true;
+        break;
+      }
+    }
+  }
+  return fx;
+};
+
+export type Simulator = {
+  /** Seconds of simulated time elapsed. */
+  readonly time: number;
+  /** Advances one `stepSec` and returns a reading for every cell not in a sensor outage. */
+  step: () => TelemetryReading[];
+};
+
+type SimulatorOptions = {
+  cells: GridCell[];
+  scenario: Scenario;
+  start?: number; // epoch ms; overrides scenario.start
+};
+
+/**
+ * Seeded engine: the same cells + scenario always produce the same readings.
+ * Each cell follows a mean-reverting random walk with a diurnal demand swing,
+ * and scenario events are layered on top as pure functions of simulated time.
+ */
+export const createSimulator = ({ cells, scenario, start }: SimulatorOptions): Simulator => {
+  const rand = seededRandom(scenario.seed);
+  const noise = () => (rand() - 0.5) * 2;
+  const byId = new Map(cells.map((c) => [c.id, c]));
+  const states: CellState[] = cells.map((c) => ({ base: c, wqi: c.wqi, quality: c.quality, pressure: c.pressure, flow: c.flow }));
+  const t0 = start ?? Date.parse(scenario.start ?? "2025-09-01T00:00:00Z");
+  let time = 0;
+
+  return {
+    get time() {
+      return time;
+    },
+    step: () => {
+      time += scenario.stepSec;
+      const timestamp = new Date(t0 + time * 1000).toISOString();
+      const hour = ((t0 / 1000 + time) / 3600) % 24;
+      const demand = 1 + 0.15 * Math.sin(((hour - 6) / 24) * 2 * Math.PI);
+      const readings = states.map((s) => {
+        s.wqi += (s.base.wqi - s.wqi) * 0.05 + noise() * 0.6;
+        s.pressure += (s.base.pressure / demand - s.pressure) * 0.1 + noise() * 0.4;
+        s.flow += (s.base.flow * demand - s.flow) * 0.1 + noise() * 2;
+        const fx = effectsAt(s.base, time, scenario.events, byId);
+        const pressure = clamp(s.pressure * fx.pressure, 0, 90);
+        const flow = Math.max(0, s.flow * fx.flow);
+        const reading: TelemetryReading = { cellId: s.base.id, timestamp, pressure, flow: flow * fx.reportedFlow };
+        // Cells with raw quality report parameters and the console computes the index.
+        if (s.quality && s.base.quality) {
+          s.quality = driftQuality(s.quality, s.base.quality, noise);
+          reading.quality = contaminate(s.quality, fx.contamination);
+          if (fx.leak > 0) reading.leakRisk = Math.max(deriveLeakRisk(computeWqi(reading.quality).wqi, pressure), fx.leak);
+          return fx.silent ? null : reading;
+        }
+        reading.wqi = clamp(s.wqi + fx.wqi, 0, 100);
+        reading.leakRisk = Math.max(deriveLeakRisk(reading.wqi, pressure), fx.leak);
+        return fx.silent ? null : reading;
+      });
+      return readings.filter((r): r is TelemetryReading => r !== null);
+    },
+  };
+};
+
+/** Runs a scenario headlessly for `durationSec`; handy for regression fixtures. */
+export const runScenario = (cells: GridCell[], scenario: Scenario, durationSec: number) => {
+  const sim = createSimulator({ cells, scenario });
+  const out: TelemetryReading[] = [];
+  while (sim.time < durationSec) out.push(...sim.step());
+  return out;
+};
+
+type SimulatorSourceOptions = {
+  cells: GridCell[];
+  scenario: Scenario;
+  speed?: number; // simulated seconds per wall-clock second
+};
+
+/**
+ * Streams the simulator on the scenario's own clock, so every run shows the same
+ * readings with the same timestamps; at `speed` 1 it keeps pace with the wall clock.
+ */
+export const createSimulatorSource = ({ cells, scenario, speed = 1 }: SimulatorSourceOptions): TelemetrySource => ({
+  kind: "simulator",
+  label: `Scenario: ${scenario.name}`,
+  subscribe: ({ onReadings, onStatus }) => {
+    const sim = createSimulator({ cells, scenario });
+    onStatus?.("live");
+    const timer = setInterval(() => {
+      const batch = sim.step();
+      if (batch.length) onReadings(batch);
+    }, (scenario.stepSec * 1000) / speed);
+    return () => clearInterval(timer);
+  },
+});
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+
+import { advanceTankLevels, solveHydraulics, type HydraulicResult } from "./hydraulics";
+import type { Network } from "./network";
+import { tankAlerts, tankStatus } from "./tanks";
+
+// A tank on a hill feeding one junction, with a small pump topping it up from a reservoir.
+const net: Network = {
+  nodes: [
+    { id: "R", kind: "reservoir", x: 0, y: 0, head: 40 },
+    { id: "T", kind: "tank", x: 1, y: 0, cellId: "C1-1", elevation: 50, initLevel: 3, minLevel: 0.5, maxLevel: 5, diameter: 10 },
+    { id: "J", kind: "junction", x: 2, y: 0, cellId: "C1-2", elevation: 20, baseDemand: 6 },
+  ],
+  links: [
+    { id: "PU", kind: "pump", from: "R", to: "T", status: "open", curve: [{ flow: 2, head: 15 }] },
+    { id: "P", kind: "pipe", from: "T", to: "J", status: "open", length: 500, diameter: 150, roughness: 120, material: "DI" },
+  ],
+  patterns: {},
+  patternStepSec: 3600,
+};
+
+describe("tank levels across solves", () => {
+  it("moves each level by its net inflow over the elapsed time", () => {
+    const r = solveHydraulics(net);
+    const netInflow = r.flows.PU - r.flows.P; // L/s
+    const levels = advanceTankLevels(net, r, 900);
+    expect(levels.T).toBeCloseTo(3 + (netInflow / 1000) * 900 / (Math.PI * 25), 6);
+    expect(levels.T).toBeLessThan(3);
+  });
+
+  it("drains a tank solve by solve until it warns before running dry", () => {
+    let result: HydraulicResult = solveHydraulics(net);
+    let warned: number | null = null;
+    for (let step = 1; step <= 96 && warned === null; step++) {
+      result = solveHydraulics(net, { tankLevels: advanceTankLevels(net, result, 900) });
+      const status = tankStatus(net, result, new Map());
+      if (tankAlerts(status, net, result, []).length) warned = status[0].level;
+    }
+    expect(warned).not.toBeNull();
+    expect(warned!).toBeGreaterThan(0.5);
+  });
+});
@@ -0,0 +1,133 @@
+import { cellsDownstream } from "./contamination";
+import { alertIdSequence, round1, type AlertItem } from "./grid";
+import type { HydraulicResult } from "./hydraulics";
+import type { Network, Tank } from "./network";
+import type { TankReading } from "./telemetry";
+
+// ------------------------- STATUS ------------------------- //
+
+/** A storage tank now: levels in m above its bottom, flows in L/s. */
+export type TankStatus = {
+  id: string;
+  cellId?: string;
+  /** Usable volume between the minimum and maximum level, m³. */
+  capacity: number;
+  level: number;
+  minLevel: number;
+  maxLevel: number;
+  lowLevel: number;
+  highLevel: number;
+  /** Share of the usable volume held, 0–1. */
+  fill: number;
+  inflow: number;
+  outflow: number;
+  /** Hours until the minimum level at the current net draw; null while the tank holds or fills. */
+  hoursToEmpty: number | null;
+  /** Hours until the maximum level at the current net inflow; null while the tank holds or drains. */
+  hoursToFull: number | null;
+  /** Where the level comes from: the tank's level sensor, or the hydraulic model without one. */
+  source: "telemetry" | "model";
+  timestamp?: string;
+};
+
+/** Low and high alarm levels, defaulting to 20% and 95% of the operating range. */
+export const tankThresholds = (tank: Tank) => {
+  const range = tank.maxLevel - tank.minLevel;
+  return { low: tank.lowLevel ?? tank.minLevel + 0.2 * range, high: tank.highLevel ?? tank.minLevel + 0.95 * range };
+};
+
+// L/s held for an hour, in m³.
+const M3_PER_LS_HOUR = 3.6;
+
+/**
+ * Level, flows and time to empty or full for every tank. The latest level reading
+ * wins over the model; inflow and outflow come from the tank's meters where the
+ * reading carries them, otherwise from the flows on its links in the hydraulic solution.
+ */
+export const tankStatus = (net: Network, result: HydraulicResult | null, readings: Map<string, TankReading>): TankStatus[] =>
+  net.nodes.flatMap((tank) => {
+    if (tank.kind !== "tank") return [];
+    let modelIn = 0;
+    let modelOut = 0;
+    for (const l of net.links) {
+      // Positive flow runs from → to; signed here as flow into the tank.
+      const q = l.to === tank.id ? result?.flows[l.id] ?? 0 : l.from === tank.id ? -(result?.flows[l.id] ?? 0) : 0;
+      if (q > 0) modelIn += q;
+      else modelOut -= q;
+    }
+    const reading = readings.get(tank.id);
+    const level = reading?.level ?? result?.tankLevels[tank.id] ?? tank.initLevel;
+    const inflow = reading?.inflow ?? modelIn;
+    const outflow = reading?.outflow ?? modelOut;
+    const area = (Math.PI * tank.diameter ** 2) / 4;
+    const range = tank.maxLevel - tank.minLevel;
+    const draw = outflow - inflow;
+    const { low, high } = tankThresholds(tank);
+    return [{
+      id: tank.id,
+      cellId: tank.cellId,
+      capacity: area * range,
+      level,
+      minLevel: tank.minLevel,
+      maxLevel: tank.maxLevel,
+      lowLevel: low,
+      highLevel: high,
+      fill: range > 0 ? Math.min(1, Math.max(0, (level - tank.minLevel) / range)) : 0,
+      inflow,
+      outflow,
+      hoursToEmpty: draw > 1e-3 ? Math.max(0, ((level - tank.minLevel) * area) / (draw * M3_PER_LS_HOUR)) : null,
+      hoursToFull: draw < -1e-3 ? Math.max(0, ((tank.maxLevel - level) * area) / (-draw * M3_PER_LS_HOUR)) : null,
+      source: reading ? "telemetry" : "model",
+      timestamp: reading?.timestamp,
+    }];
+  });
+
+/** e.g. "40 min" or "3.5 h". */
+export const formatHours = (hours: number) => (hours < 1.5 ? `${Math.round(hours * 60)} min` : `${round1(hours)} h`);
+
+// ------------------------- ALERTS ------------------------- //
+
+// Warn this long before a draining tank reaches its minimum level.
+export const DRY_WARNING_HOURS = 2;
+// Sections further downstream than this mostly draw on other sources.
+const FED_WITHIN_SEC = 2 * 3600;
+
+/**
+ * `Pressure Drop` alerts for the sections a draining tank feeds once it is within two
+ * hours of its minimum level. Fed sections are the tank's own and those its outflow
+ * reaches within two hours at current flows. One alert per section and tank until resolved.
+ */
+export const tankAlerts = (
+  tanks: TankStatus[],
+  net: Network,
+  result: HydraulicResult | null,
+  existing: AlertItem[],
+  now = Date.now(),
+): AlertItem[] => {
+  const nextId = alertIdSequence(existing);
+  const open = new Set(existing.filter((a) => a.rule && a.status !== "resolved").map((a) => `${a.cellId}|${a.rule}`));
+  const out: AlertItem[] = [];
+  for (const t of tanks) {
+    if (t.hoursToEmpty === null || t.hoursToEmpty > DRY_WARNING_HOURS) continue;
+    const fed = new Set(t.cellId ? [t.cellId] : []);
+    if (result) for (const [cellId, sec] of cellsDownstream(net, result, [t.id])) if (sec <= FED_WITHIN_SEC) fed.add(cellId);
+    const rule = `tank:${t.id}`;
+    const empty = t.hoursToEmpty === 0;
+    for (const cellId of fed) {
+      if (open.has(`${cellId}|${rule}`)) continue;
+      out.push({
+        id: nextId(),
+        type: "Pressure Drop",
+        severity: t.hoursToEmpty < 0.5 ? "high" : "medium",
+        cellId,
+        timestamp: new Date(now).toISOString(),
+        description: empty
+          ? `Tank ${t.id} feeding this section is at its minimum level; supply from it has stopped.`
+          : `Tank ${t.id} feeding this section runs dry in ${formatHours(t.hoursToEmpty)} at the current draw (${round1(t.level)} m, ${round1(t.outflow - t.inflow)} L/s net outflow).`,
+        status: "open",
+        rule,
+      });
+    }
+  }
+  return out;
+};
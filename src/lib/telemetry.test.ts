@@ -0,0 +1,24 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { createSimulatorSource, scenarios } from "./simulator";
+import { createMockSource, recordsHistory, telemetrySourceFromEnv } from "./telemetry";
+import { testCells } from "./test-cells";
+
+const cells = testCells();
+
+describe("recordsHistory", () => {
+  afterEach(() => vi.unstubAllEnvs());
+
+  it("records the live mock feed", () => {
+    expect(recordsHistory(createMockSource({ cells }))).toBe(true);
+    expect(recordsHistory(telemetrySourceFromEnv(cells))).toBe(true);
+  });
+
+  it("keeps scenario replays out of history, including one set as the live source by env", () => {
+    expect(recordsHistory(createSimulatorSource({ cells, scenario: scenarios[0] }))).toBe(false);
+    vi.stubEnv("VITE_TELEMETRY_SOURCE", "simulator");
+    const source = telemetrySourceFromEnv(cells);
+    expect(source.kind).toBe("simulator");
+    expect(recordsHistory(source)).toBe(false);
+  });
+});
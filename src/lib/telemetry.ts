@@ -0,0 +1,351 @@
+import { clamp, deriveLeakRisk, round1, type GridCell } from "./grid";
+import { createSimulatorSource, scenariosFor } from "./simulator";
+import { computeWqi, DEFAULT_WQI_METHOD, driftQuality, hasQuality, QUALITY_PARAMS, type QualitySample, type WqiMethod } from "./wqi";
+
+// ------------------------- TYPES ------------------------- //
+
+/** One timestamped sample for a grid cell. Metrics that were not measured are omitted. */
+export type TelemetryReading = {
+  cellId: string;
+  timestamp: string; // ISO-8601
+  wqi?: number;
+  pressure?: number;
+  flow?: number;
+  leakRisk?: number;
+  /** Raw water-quality parameters; when present the WQI is computed from them. */
+  quality?: QualitySample;
+  /** Logger that took the reading. Cell-level feeds leave it out. */
+  sensorId?: string;
+};
+
+/** One level sample from a storage tank's level sensor, with its inlet and outlet meters where fitted. */
+export type TankReading = {
+  tankId: string;
+  timestamp: string; // ISO-8601
+  level: number; // m above tank bottom
+  inflow?: number; // L/s
+  outflow?: number; // L/s
+};
+
+/** A logger's own report, sent alongside or between readings. */
+export type DeviceStatus = {
+  sensorId: string;
+  timestamp: string; // ISO-8601
+  battery?: number; // %
+  firmware?: string;
+};
+
+export type TelemetryStatus = "connecting" | "live" | "reconnecting" | "ended" | "error";
+
+export type TelemetryHandlers = {
+  onReadings: (batch: TelemetryReading[]) => void;
+  onTankReadings?: (batch: TankReading[]) => void;
+  onDeviceStatus?: (batch: DeviceStatus[]) => void;
+  onStatus?: (status: TelemetryStatus, detail?: string) => void;
+};
+
+/**
+ * Anything that can stream readings into the grid. `subscribe` starts the feed and
+ * returns a function that stops it, so a source can be dropped straight into a
+ * React effect.
+ */
+export type TelemetrySource = {
+  kind: "mock" | "websocket" | "replay" | "simulator";
+  label: string;
+  subscribe: (handlers: TelemetryHandlers) => () => void;
+};
+
+/** Scenario replays run on their own clock, so what they send is kept out of history. */
+export const recordsHistory = (source: TelemetrySource) => source.kind !== "simulator";
+
+// ------------------------- READINGS ------------------------- //
+
+const METRICS = ["wqi", "pressure", "flow", "leakRisk"] as const;
+
+export const isTelemetryReading = (value: unknown): value is TelemetryReading => {
+  if (!value || typeof value !== "object") return false;
+  const r = value as Record<string, unknown>;
+  if (typeof r.cellId !== "string" || typeof r.timestamp !== "string") return false;
+  if (Number.isNaN(Date.parse(r.timestamp))) return false;
+  if (!METRICS.every((m) => r[m] === undefined || typeof r[m] === "number")) return false;
+  if (r.quality === undefined) return true;
+  if (!r.quality || typeof r.quality !== "object") return false;
+  const q = r.quality as Record<string, unknown>;
+  return Object.keys(q).every((k) => k in QUALITY_PARAMS && (q[k] === undefined || typeof q[k] === "number"));
+};
+
+export const isTankReading = (value: unknown): value is TankReading => {
+  if (!value || typeof value !== "object") return false;
+  const r = value as Record<string, unknown>;
+  if (typeof r.tankId !== "string" || typeof r.timestamp !== "string" || typeof r.level !== "number") return false;
+  if (Number.isNaN(Date.parse(r.timestamp))) return false;
+  return ["inflow", "outflow"].every((m) => r[m] === undefined || typeof r[m] === "number");
+};
+
+/** Device reports carry a `sensorId` and no `cellId`, which tells them apart from readings. */
+export const isDeviceStatus = (value: unknown): value is DeviceStatus => {
+  if (!value || typeof value !== "object") return false;
+  const r = value as Record<string, unknown>;
+  if (typeof r.sensorId !== "string" || typeof r.timestamp !== "string" || r.cellId !== undefined) return false;
+  if (Number.isNaN(Date.parse(r.timestamp))) return false;
+  return (r.battery === undefined || typeof r.battery === "number") && (r.firmware === undefined || typeof r.firmware === "string");
+};
+
+/**
+ * Fills in `wqi` for readings that carry raw quality parameters, so consumers of the
+ * raw batch (history) see an index too. Computed from the reading's own parameters.
+ */
+export const withComputedWqi = (batch: TelemetryReading[], method: WqiMethod): TelemetryReading[] =>
+  batch.map((r) =>
+    hasQuality(r.quality) ? { ...r, wqi: computeWqi(r.quality, method).wqi } : r,
+  );
+
+/**
+ * Merges a batch into the grid. Leak risk is re-derived unless the reading carries its own.
+ * Raw quality parameters are merged into the cell's last known sample and the WQI is
+ * recomputed from the whole sample, so sensors may report a subset of parameters.
+ */
+export const applyReadings = (cells: GridCell[], batch: TelemetryReading[], method: WqiMethod = DEFAULT_WQI_METHOD): GridCell[] => {
+  if (batch.length === 0) return cells;
+  const byCell = new Map<string, TelemetryReading[]>();
+  for (const r of batch) {
+    const list = byCell.get(r.cellId);
+    if (list) list.push(r);
+    else byCell.set(r.cellId, [r]);
+  }
+  return cells.map((c) => {
+    const readings = byCell.get(c.id);
+    if (!readings) return c;
+    const next = { ...c };
+    readings.sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+    for (const r of readings) {
+      if (r.wqi !== undefined) next.wqi = Math.round(r.wqi);
+      if (hasQuality(r.quality)) {
+        next.quality = { ...next.quality, ...r.quality };
+        next.wqi = Math.round(computeWqi(next.quality, method).wqi);
+      }
+      if (r.pressure !== undefined) next.pressure = round1(r.pressure);
+      if (r.flow !== undefined) next.flow = round1(r.flow);
+      next.leakRisk = r.leakRisk ?? deriveLeakRisk(next.wqi, next.pressure);
+    }
+    return next;
+  });
+};
+
+/** Accepts either a JSON array of readings or newline-delimited JSON (one reading per line). */
+export const parseRecording = (text: string): TelemetryReading[] => {
+  const trimmed = text.trim();
+  if (!trimmed) return [];
+  const raw: unknown[] = trimmed.startsWith("[")
+    ? JSON.parse(trimmed)
+    : trimmed.split(/\r?\n/).filter((l) => l.trim()).map((l) => JSON.parse(l));
+  return raw.filter(isTelemetryReading);
+};
+
+const unpackMessage = (data: unknown): TelemetryReading[] => {
+  if (Array.isArray(data)) return data.filter(isTelemetryReading);
+  if (isTelemetryReading(data)) return [data];
+  if (data && typeof data === "object" && Array.isArray((data as { readings?: unknown }).readings)) {
+    return (data as { readings: unknown[] }).readings.filter(isTelemetryReading);
+  }
+  return [];
+};
+
+const unpackTanks = (data: unknown): TankReading[] => {
+  if (Array.isArray(data)) return data.filter(isTankReading);
+  if (isTankReading(data)) return [data];
+  if (data && typeof data === "object" && Array.isArray((data as { tanks?: unknown }).tanks)) {
+    return (data as { tanks: unknown[] }).tanks.filter(isTankReading);
+  }
+  return [];
+};
+
+const unpackDevices = (data: unknown): DeviceStatus[] => {
+  if (Array.isArray(data)) return data.filter(isDeviceStatus);
+  if (isDeviceStatus(data)) return [data];
+  if (data && typeof data === "object" && Array.isArray((data as { devices?: unknown }).devices)) {
+    return (data as { devices: unknown[] }).devices.filter(isDeviceStatus);
+  }
+  return [];
+};
+
+// ------------------------- SOURCES ------------------------- //
+
+type MockOptions = {
+  cells: GridCell[];
+  intervalMs?: number;
+  /** Values to walk around, read every tick so the walk follows a moving baseline without restarting; defaults to `cells`. */
+  origin?: () => GridCell[];
+};
+
+/** Bench simulator: a bounded random walk around each cell's starting values. */
+export const createMockSource = ({ cells, intervalMs = 2000, origin }: MockOptions): TelemetrySource => ({
+  kind: "mock",
+  label: "Mock simulator",
+  subscribe: ({ onReadings, onStatus }) => {
+    const start = new Map(cells.map((c) => [c.id, c]));
+    const state = new Map(cells.map((c) => [c.id, { ...c }]));
+    onStatus?.("live");
+    const timer = setInterval(() => {
+      const timestamp = new Date().toISOString();
+      const batch: TelemetryReading[] = [];
+      const current = origin ? new Map(origin().map((c) => [c.id, c])) : start;
+      for (const [id, base] of state) {
+        const o = current.get(id) ?? start.get(id)!;
+        base.pressure = clamp(base.pressure + (Math.random() - 0.5) * 1.5 + (o.pressure - base.pressure) * 0.1, 0, 100);
+        base.flow = clamp(base.flow + (Math.random() - 0.5) * 6 + (o.flow - base.flow) * 0.1, 0, 250);
+        if (base.quality && o.quality) {
+          base.quality = driftQuality(base.quality, o.quality, () => (Math.random() - 0.5) * 2);
+          batch.push({ cellId: id, timestamp, quality: base.quality, pressure: base.pressure, flow: base.flow });
+          continue;
+        }
+        base.wqi = clamp(base.wqi + (Math.random() - 0.5) * 2 + (o.wqi - base.wqi) * 0.1, 40, 98);
+        batch.push({ cellId: id, timestamp, wqi: base.wqi, pressure: base.pressure, flow: base.flow });
+      }
+      onReadings(batch);
+    }, intervalMs);
+    return () => clearInterval(timer);
+  },
+});
+
+type WebSocketOptions = {
+  url: string;
+  maxBackoffMs?: number;
+};
+
+/**
+ * Gateway feed. Each message may be a single reading, an array of readings or
+ * `{ readings: [...], tanks: [...], devices: [...] }`; tank level readings are told
+ * apart by their `tankId` and device reports by a `sensorId` without a `cellId`.
+ * Dropped connections are retried with exponential backoff.
+ */
+export const createWebSocketSource = ({ url, maxBackoffMs = 30000 }: WebSocketOptions): TelemetrySource => ({
+  kind: "websocket",
+  label: `Gateway ${url}`,
+  subscribe: ({ onReadings, onTankReadings, onDeviceStatus, onStatus }) => {
+    let socket: WebSocket | null = null;
+    let retry: ReturnType<typeof setTimeout> | null = null;
+    let attempt = 0;
+    let closed = false;
+
+    const connect = () => {
+      onStatus?.(attempt === 0 ? "connecting" : "reconnecting");
+      socket = new WebSocket(url);
+      socket.onopen = () => {
+        attempt = 0;
+        onStatus?.("live");
+      };
+      socket.onmessage = (ev) => {
+        try {
+          const data = JSON.parse(String(ev.data));
+          const batch = unpackMessage(data);
+          if (batch.length) onReadings(batch);
+          const tanks = unpackTanks(data);
+          if (tanks.length) onTankReadings?.(tanks);
+          const devices = unpackDevices(data);
+          if (devices.length) onDeviceStatus?.(devices);
+        } catch {
+          onStatus?.("error", "Malformed telemetry message");
+        }
+      };
+      socket.onclose = () => {
+        if (closed) return;
+        const delay = Math.min(maxBackoffMs, 1000 * 2 ** attempt++);
+        onStatus?.("reconnecting", `Retrying in ${Math.round(delay / 1000)}s`);
+        retry = setTimeout(connect, delay);
+      };
+    };
+
+    connect();
+    return () => {
+      closed = true;
+      if (retry) clearTimeout(retry);
+      socket?.close();
+    };
+  },
+});
+
+type ReplayOptions = {
+  readings?: TelemetryReading[];
+  url?: string;
+  speed?: number;
+  loop?: boolean;
+};
+
+/**
+ * Plays back a recorded session, preserving the original gaps between samples
+ * (divided by `speed`). Readings keep their recorded timestamps.
+ */
+export const createReplaySource = ({ readings, url, speed = 1, loop = false }: ReplayOptions): TelemetrySource => ({
+  kind: "replay",
+  label: url ? `Replay ${url}` : "Recorded replay",
+  subscribe: ({ onReadings, onStatus }) => {
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let stopped = false;
+
+    const play = (frames: TelemetryReading[][], i: number) => {
+      if (stopped) return;
+      if (i >= frames.length) {
+        if (loop && frames.length) play(frames, 0);
+        else onStatus?.("ended");
+        return;
+      }
+      onReadings(frames[i]);
+      const next = frames[i + 1];
+      const gap = next ? Date.parse(next[0].timestamp) - Date.parse(frames[i][0].timestamp) : 0;
+      timer = setTimeout(() => play(frames, i + 1), Math.max(0, gap / speed));
+    };
+
+    onStatus?.("connecting");
+    const load = readings
+      ? Promise.resolve(readings)
+      : fetch(url!).then((res) => {
+          if (!res.ok) throw new Error(`Recording request failed (${res.status})`);
+          return res.text().then(parseRecording);
+        });
+    load
+      .then((all) => {
+        if (stopped) return;
+        onStatus?.("live");
+        play(groupByTimestamp(all), 0);
+      })
+      .catch((err: Error) => onStatus?.("error", err.message));
+
+    return () => {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+    };
+  },
+});
+
+const groupByTimestamp = (readings: TelemetryReading[]): TelemetryReading[][] => {
+  const sorted = [...readings].sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+  const frames: TelemetryReading[][] = [];
+  for (const r of sorted) {
+    const last = frames[frames.length - 1];
+    if (last && last[0].timestamp === r.timestamp) last.push(r);
+    else frames.push([r]);
+  }
+  return frames;
+};
+
+// ------------------------- CONFIGURATION ------------------------- //
+
+/**
+ * Picks the source from Vite env vars so the same build can target the bench
+ * simulator or a real gateway:
+ *   VITE_TELEMETRY_SOURCE = mock | websocket | replay | simulator   (default: mock)
+ *   VITE_TELEMETRY_URL    = ws:// gateway URL, or recording URL for replay
+ *   VITE_SCENARIO         = scenario file name for the simulator (src/scenarios/*.json)
+ * The bench simulator walks around `origin` where given, `cells` otherwise.
+ */
+export const telemetrySourceFromEnv = (cells: GridCell[], origin?: () => GridCell[]): TelemetrySource => {
+  const kind = import.meta.env.VITE_TELEMETRY_SOURCE ?? "mock";
+  const url = import.meta.env.VITE_TELEMETRY_URL;
+  const playable = scenariosFor(cells);
+  const scenario = playable.find((s) => s.id === import.meta.env.VITE_SCENARIO) ?? playable[0];
+  if (kind === "simulator" && scenario) return createSimulatorSource({ cells, scenario });
+  if (kind === "websocket" && url) return createWebSocketSource({ url });
+  if (kind === "replay" && url) return createReplaySource({ url, loop: true });
+  return createMockSource({ cells, origin });
+};
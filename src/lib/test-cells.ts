@@ -0,0 +1,17 @@
+import { cityConfigs, resolveCityLayout, type CityConfig } from "./city-config";
+import type { GridCell } from "./grid";
+import { synthesizeQuality } from "./wqi";
+
+/** A city's cells with fixed readings, for tests. Every other cell reports raw quality. */
+export const testCells = (config: CityConfig = cityConfigs.default): GridCell[] =>
+  resolveCityLayout(config).cells.map((c, i) => ({
+    id: c.id,
+    row: c.row,
+    col: c.col,
+    zone: c.zone,
+    wqi: 80,
+    pressure: 45,
+    flow: 120,
+    leakRisk: 0.1,
+    quality: i % 2 === 0 ? synthesizeQuality(0.2) : undefined,
+  }));
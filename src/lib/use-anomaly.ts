@@ -0,0 +1,32 @@
+import * as React from "react";
+
+import { createAnomalyPipeline, type Detection, type DetectorSpec } from "./anomaly";
+import type { TelemetryReading } from "./telemetry";
+
+/**
+ * Keeps an anomaly pipeline for the given detectors and returns a batch handler to
+ * hand to `useTelemetry`. Changing a detector restarts only that detector; changing
+ * `resetKey` drops all learned state — pass something that changes when the feed starts
+ * over, such as the running scenario, so baselines from one feed are not applied to another.
+ */
+export function useAnomalyDetection(
+  specs: DetectorSpec[],
+  resetKey: unknown,
+  onDetections: (detections: Detection[]) => void,
+) {
+  const specsRef = React.useRef(specs);
+  specsRef.current = specs;
+  const pipeline = React.useMemo(() => createAnomalyPipeline(specsRef.current), [resetKey]);
+  const detectionsRef = React.useRef(onDetections);
+  detectionsRef.current = onDetections;
+
+  React.useEffect(() => pipeline.update(specs), [pipeline, specs]);
+
+  return React.useCallback(
+    (batch: TelemetryReading[]) => {
+      const found = pipeline.process(batch);
+      if (found.length) detectionsRef.current(found);
+    },
+    [pipeline],
+  );
+}
@@ -0,0 +1,82 @@
+import * as React from "react";
+
+import { createHistoryWriter, getHistoryStore, type AggregatePoint, type HistoryPoint, type HistoryRange, type Resolution } from "./history-store";
+import type { TelemetryReading } from "./telemetry";
+
+/** Persists every telemetry batch for the lifetime of the component. Returns the batch handler. */
+export function useHistoryRecorder() {
+  const writer = React.useRef<ReturnType<typeof createHistoryWriter> | null>(null);
+
+  React.useEffect(() => {
+    writer.current = createHistoryWriter();
+    return () => {
+      writer.current?.stop();
+      writer.current = null;
+    };
+  }, []);
+
+  return React.useCallback((batch: TelemetryReading[]) => writer.current?.push(batch), []);
+}
+
+/** Trend points for one cell, refreshed every `refreshMs` while mounted. */
+export function useCellHistory(cellId: string | undefined, range: HistoryRange, refreshMs = 10000) {
+  const [points, setPoints] = React.useState<HistoryPoint[]>([]);
+  const [error, setError] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    // Clear the last cell's series so it is not shown for the new cell or range.
+    setPoints([]);
+    if (!cellId) return;
+    let cancelled = false;
+    const load = () =>
+      getHistoryStore()
+        .then((s) => s.query(cellId, range))
+        .then((p) => {
+          if (cancelled) return;
+          setPoints(p);
+          setError(null);
+        })
+        .catch((err: Error) => !cancelled && setError(err.message));
+    load();
+    const timer = setInterval(load, refreshMs);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [cellId, range, refreshMs]);
+
+  return { points, error };
+}
+
+/** Rollups with min / max for every cell between two instants, refreshed every `refreshMs` while mounted. */
+export function useAggregates(res: Exclude<Resolution, "raw">, from: number, to: number, refreshMs = 60000) {
+  const [buckets, setBuckets] = React.useState<Map<string, AggregatePoint[]>>(new Map());
+  const [error, setError] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    let cancelled = false;
+    const load = () =>
+      getHistoryStore()
+        .then((s) => s.queryAggregates(res, from, to))
+        .then((b) => {
+          if (cancelled) return;
+          setBuckets(b);
+          setError(null);
+        })
+        .catch((err: Error) => !cancelled && setError(err.message));
+    load();
+    const timer = setInterval(load, refreshMs);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [res, from, to, refreshMs]);
+
+  return { buckets, error };
+}
+
+/** Daily rollups for every cell between two instants, refreshed every `refreshMs` while mounted. */
+export function useDailyAggregates(from: number, to: number, refreshMs = 60000) {
+  const { buckets, error } = useAggregates("1d", from, to, refreshMs);
+  return { days: buckets, error };
+}
@@ -0,0 +1,75 @@
+import * as React from "react";
+
+import { advanceTankLevels, solveHydraulics, timeOfDay, type HydraulicResult } from "./hydraulics";
+import type { SolveRequest, SolveResponse } from "./hydraulics.worker";
+import type { Network } from "./network";
+
+// Longest gap between solves, so tank levels and time to empty stay current.
+const MAX_SOLVE_INTERVAL_SEC = 900;
+
+/**
+ * Re-solves the network in a Web Worker whenever it or the demand multiplier
+ * changes, and again every pattern step or 15 minutes, whichever is sooner. Tank
+ * levels carry over from one solve to the next, moved by each tank's net inflow
+ * over the time in between. Falls back to solving on the main thread where workers
+ * are unavailable.
+ */
+export function useHydraulics(network: Network, demandMultiplier = 1) {
+  const [result, setResult] = React.useState<HydraulicResult | null>(null);
+  const [solving, setSolving] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const worker = React.useRef<Worker | null>(null);
+  const latest = React.useRef(0);
+  // The last solution, the network it was solved on and when it was requested (epoch ms).
+  const last = React.useRef<{ result: HydraulicResult; network: Network; at: number } | null>(null);
+  const pending = React.useRef<{ network: Network; at: number } | null>(null);
+
+  React.useEffect(() => {
+    if (typeof Worker === "undefined") return;
+    const w = new Worker(new URL("./hydraulics.worker.ts", import.meta.url), { type: "module" });
+    w.onmessage = (e: MessageEvent<SolveResponse>) => {
+      // Drop answers to requests that have since been superseded.
+      if (e.data.id !== latest.current) return;
+      setSolving(false);
+      if (e.data.result) {
+        if (pending.current) last.current = { result: e.data.result, ...pending.current };
+        setResult(e.data.result);
+        setError(null);
+      } else setError(e.data.error ?? "Solver failed");
+    };
+    worker.current = w;
+    return () => {
+      w.terminate();
+      worker.current = null;
+    };
+  }, []);
+
+  React.useEffect(() => {
+    const solve = () => {
+      const at = Date.now();
+      const prev = last.current;
+      const tankLevels = prev ? advanceTankLevels(prev.network, prev.result, (at - prev.at) / 1000) : undefined;
+      const request: SolveRequest = { id: ++latest.current, network, options: { time: timeOfDay(), demandMultiplier, tankLevels } };
+      pending.current = { network, at };
+      setSolving(true);
+      if (worker.current) {
+        worker.current.postMessage(request);
+        return;
+      }
+      try {
+        const next = solveHydraulics(network, request.options);
+        last.current = { result: next, network, at };
+        setResult(next);
+        setError(null);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : String(err));
+      }
+      setSolving(false);
+    };
+    solve();
+    const timer = setInterval(solve, Math.max(60, Math.min(network.patternStepSec, MAX_SOLVE_INTERVAL_SEC)) * 1000);
+    return () => clearInterval(timer);
+  }, [network, demandMultiplier]);
+
+  return { result, solving, error };
+}
@@ -0,0 +1,62 @@
+import * as React from "react";
+
+import type { HydraulicResult } from "./hydraulics";
+import type { Network } from "./network";
+import { solveSandbox, type SandboxChange, type SandboxSolution } from "./sandbox";
+import type { SandboxRequest, SandboxResponse } from "./sandbox.worker";
+
+/** A sandbox solution with the live network and solution it was compared against. */
+export type SolvedSandbox = { network: Network; live: HydraulicResult; solution: SandboxSolution };
+
+/**
+ * Solves the what-if changes in a Web Worker of its own whenever they, the network or
+ * the live solution change. The last answer stays up while the next one is worked
+ * out. Falls back to solving on the main thread where workers are unavailable.
+ */
+export function useSandbox(network: Network, live: HydraulicResult | null, changes: SandboxChange[], demandMultiplier = 1) {
+  const [solved, setSolved] = React.useState<SolvedSandbox | null>(null);
+  const [solving, setSolving] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const worker = React.useRef<Worker | null>(null);
+  const latest = React.useRef(0);
+  const pending = React.useRef<{ network: Network; live: HydraulicResult } | null>(null);
+
+  React.useEffect(() => {
+    if (typeof Worker === "undefined") return;
+    const w = new Worker(new URL("./sandbox.worker.ts", import.meta.url), { type: "module" });
+    w.onmessage = (e: MessageEvent<SandboxResponse>) => {
+      // Drop answers to requests that have since been superseded.
+      if (e.data.id !== latest.current) return;
+      setSolving(false);
+      if (e.data.solution && pending.current) {
+        setSolved({ ...pending.current, solution: e.data.solution });
+        setError(null);
+      } else setError(e.data.error ?? "Solver failed");
+    };
+    worker.current = w;
+    return () => {
+      w.terminate();
+      worker.current = null;
+    };
+  }, []);
+
+  React.useEffect(() => {
+    if (!live) return;
+    const request: SandboxRequest = { id: ++latest.current, network, live, changes, demandMultiplier };
+    pending.current = { network, live };
+    setSolving(true);
+    if (worker.current) {
+      worker.current.postMessage(request);
+      return;
+    }
+    try {
+      setSolved({ network, live, solution: solveSandbox(network, live, changes, demandMultiplier) });
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+    setSolving(false);
+  }, [network, live, changes, demandMultiplier]);
+
+  return { solved, solving, error };
+}
@@ -0,0 +1,88 @@
+import * as React from "react";
+
+import type { GridCell } from "./grid";
+import { readingHeartbeats } from "./sensors";
+import {
+  applyReadings,
+  withComputedWqi,
+  type DeviceStatus,
+  type TankReading,
+  type TelemetryReading,
+  type TelemetrySource,
+  type TelemetryStatus,
+} from "./telemetry";
+import { DEFAULT_WQI_METHOD, type WqiMethod } from "./wqi";
+
+/**
+ * Subscribes to a telemetry source for the lifetime of the component and folds
+ * every batch into the grid state. `onBatch` sees the raw readings as well, for
+ * consumers that need more than the latest value per cell. Readings with raw quality
+ * parameters get their WQI computed with `wqiMethod` before either sees them. Tank
+ * level readings and device reports are kept as the latest per tank or sensor, and
+ * `heartbeats` holds when each sensor, or each cell and measurement, last reported.
+ */
+export function useTelemetry(
+  source: TelemetrySource,
+  setGrid: React.Dispatch<React.SetStateAction<GridCell[]>>,
+  onBatch?: (batch: TelemetryReading[]) => void,
+  wqiMethod: WqiMethod = DEFAULT_WQI_METHOD,
+) {
+  const [status, setStatus] = React.useState<TelemetryStatus>("connecting");
+  const [detail, setDetail] = React.useState<string | undefined>(undefined);
+  const [lastUpdate, setLastUpdate] = React.useState<string | null>(null);
+  const [tanks, setTanks] = React.useState<Map<string, TankReading>>(new Map());
+  const [heartbeats, setHeartbeats] = React.useState<Map<string, string>>(new Map());
+  const [devices, setDevices] = React.useState<Map<string, DeviceStatus>>(new Map());
+  const batchRef = React.useRef(onBatch);
+  batchRef.current = onBatch;
+  const methodRef = React.useRef(wqiMethod);
+  methodRef.current = wqiMethod;
+
+  React.useEffect(() => {
+    setTanks(new Map());
+    setHeartbeats(new Map());
+    setDevices(new Map());
+    return source.subscribe({
+      onReadings: (raw) => {
+        const batch = withComputedWqi(raw, methodRef.current);
+        setGrid((cells) => applyReadings(cells, batch, methodRef.current));
+        setLastUpdate(batch[batch.length - 1].timestamp);
+        setHeartbeats((prev) => {
+          const next = new Map(prev);
+          for (const r of batch) {
+            for (const key of readingHeartbeats(r)) {
+              const last = next.get(key);
+              if (!last || Date.parse(r.timestamp) >= Date.parse(last)) next.set(key, r.timestamp);
+            }
+          }
+          return next;
+        });
+        batchRef.current?.(batch);
+      },
+      onTankReadings: (batch) =>
+        setTanks((prev) => {
+          const next = new Map(prev);
+          for (const r of batch) {
+            const last = next.get(r.tankId);
+            if (!last || Date.parse(r.timestamp) >= Date.parse(last.timestamp)) next.set(r.tankId, r);
+          }
+          return next;
+        }),
+      onDeviceStatus: (batch) =>
+        setDevices((prev) => {
+          const next = new Map(prev);
+          for (const d of batch) {
+            const last = next.get(d.sensorId);
+            if (!last || Date.parse(d.timestamp) >= Date.parse(last.timestamp)) next.set(d.sensorId, { ...last, ...d });
+          }
+          return next;
+        }),
+      onStatus: (s, d) => {
+        setStatus(s);
+        setDetail(d);
+      },
+    });
+  }, [source, setGrid]);
+
+  return { status, detail, lastUpdate, tanks, heartbeats, devices };
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+
+import { parseBillingMonth, unavoidableLosses, waterBalance } from "./water-balance";
+
+describe("waterBalance", () => {
+  const volumes = { systemInput: 100_000, billedMetered: 60_000, billedUnmetered: 5_000, unbilledAuthorized: 1_000, meterUnderRegistration: 0.05, unauthorized: 500 };
+  const infra = { mainsKm: 10, connections: 1_000, pressure: 50, privatePipeKm: 0 };
+
+  it("splits water losses into apparent and real losses", () => {
+    const b = waterBalance("North", "2025-01", volumes);
+    expect(b.meterInaccuracy).toBeCloseTo((60_000 * 0.05) / 0.95, 6);
+    expect(b.apparentLosses).toBeCloseTo(b.meterInaccuracy + 500, 6);
+    expect(b.apparentLosses + b.realLosses).toBeCloseTo(100_000 - 60_000 - 5_000 - 1_000, 6);
+    expect(b.nrw).toBe(35_000);
+    expect(b.nrwPct).toBe(35);
+    expect(b.ili).toBeNull();
+  });
+
+  it("puts real losses over the unavoidable level in the ILI", () => {
+    const b = waterBalance("North", "2025-01", volumes, infra);
+    expect(unavoidableLosses(infra)).toBe((18 * 10 + 0.8 * 1_000) * 50);
+    expect(b.ili).toBeCloseTo((b.realLosses * 1000) / 31 / 49_000, 6);
+  });
+
+  it("never reports more apparent losses than there are losses", () => {
+    const b = waterBalance("North", "2025-02", { systemInput: 1_000, billedMetered: 990 });
+    expect(b.apparentLosses).toBe(10);
+    expect(b.realLosses).toBe(0);
+  });
+});
+
+describe("parseBillingMonth", () => {
+  const month = (north: Record<string, unknown>) => () => parseBillingMonth("2025-01", { districts: { North: { systemInput: 1_000, billedMetered: 800, ...north } } });
+
+  it("accepts a month with every optional field in range", () => {
+    expect(month({ meterUnderRegistration: 0, unauthorized: 1_000 })().districts.North.systemInput).toBe(1_000);
+  });
+
+  it.each([
+    [{ meterUnderRegistration: 1 }, /meterUnderRegistration must be below 1/],
+    [{ meterUnderRegistration: -0.1 }, /meterUnderRegistration must be a non-negative number/],
+    [{ unauthorized: 1_001 }, /unauthorized exceeds systemInput/],
+    [{ billedMetered: "800" }, /billedMetered must be a non-negative number/],
+  ])("rejects %o", (north, message) => {
+    expect(month(north)).toThrow(message);
+  });
+});
@@ -0,0 +1,211 @@
+import type { GridCell } from "./grid";
+import type { Network } from "./network";
+
+// ------------------------- BILLING DATA ------------------------- //
+
+/** One district's volumes for a month, in m³, as exported from billing and bulk-meter reads. */
+export type DistrictVolumes = {
+  /** Water fed into the district, from its bulk meters. */
+  systemInput: number;
+  /** Billed consumption read from customer meters. */
+  billedMetered: number;
+  /** Billed on a flat rate, e.g. standposts and unmetered connections. Default 0. */
+  billedUnmetered?: number;
+  /** Authorised but not billed, e.g. firefighting and mains flushing. Default 0. */
+  unbilledAuthorized?: number;
+  /** Share of true use customer meters fail to register. Default 3%. */
+  meterUnderRegistration?: number;
+  /** Theft and illegal connections. Default 0.25% of system input. */
+  unauthorized?: number;
+};
+
+/** A month of billing data, keyed by district (zone) name. `month` is "YYYY-MM". */
+export type BillingMonth = { month: string; districts: Record<string, DistrictVolumes> };
+
+const VOLUME_FIELDS = ["systemInput", "billedMetered", "billedUnmetered", "unbilledAuthorized", "meterUnderRegistration", "unauthorized"];
+
+/** Validates a parsed billing file named after its month. Throws with a readable message. */
+export const parseBillingMonth = (id: string, data: unknown): BillingMonth => {
+  if (!/^\d{4}-(0[1-9]|1[0-2])$/.test(id)) throw new Error(`Billing ${id}: file name must be the month as YYYY-MM`);
+  const districts = (data as { districts?: unknown })?.districts;
+  if (!districts || typeof districts !== "object") throw new Error(`Billing ${id}: "districts" must be an object`);
+  for (const [name, v] of Object.entries(districts as Record<string, Record<string, unknown>>)) {
+    for (const field of VOLUME_FIELDS) {
+      const value = v?.[field];
+      if (value === undefined && field !== "systemInput" && field !== "billedMetered") continue;
+      if (typeof value !== "number" || value < 0) throw new Error(`Billing ${id}: ${name}.${field} must be a non-negative number`);
+    }
+    const { meterUnderRegistration, unauthorized, systemInput } = v as DistrictVolumes;
+    // At 1 or more, billed × e / (1 − e) turns infinite or negative.
+    if (meterUnderRegistration !== undefined && meterUnderRegistration >= 1) throw new Error(`Billing ${id}: ${name}.meterUnderRegistration must be below 1`);
+    if (unauthorized !== undefined && unauthorized > systemInput) throw new Error(`Billing ${id}: ${name}.unauthorized exceeds systemInput`);
+  }
+  return { month: id, districts: districts as Record<string, DistrictVolumes> };
+};
+
+// Bundled billing exports, one folder per city and one file per month (e.g. "demo-city/2026-09").
+const billingFiles = import.meta.glob("../billing/*/*.json", { eager: true, import: "default" });
+
+const billingSets = new Map<string, BillingMonth[]>();
+for (const [path, data] of Object.entries(billingFiles)) {
+  const [, set, month] = path.match(/([^/]+)\/([^/]+)\.json$/)!;
+  billingSets.set(set, [...(billingSets.get(set) ?? []), parseBillingMonth(month, data)]);
+}
+
+/**
+ * A city's billing months, oldest first, keeping only the districts in `zones` so
+ * volumes never show against a layout they were not billed for. Months left with no
+ * district are dropped.
+ */
+export const cityBillingMonths = (set: string | undefined, zones: string[]): BillingMonth[] =>
+  (set ? billingSets.get(set) ?? [] : [])
+    .map((m) => ({ ...m, districts: Object.fromEntries(Object.entries(m.districts).filter(([name]) => zones.includes(name))) }))
+    .filter((m) => Object.keys(m.districts).length > 0)
+    .sort((a, b) => a.month.localeCompare(b.month));
+
+// ------------------------- INFRASTRUCTURE ------------------------- //
+
+/** What the unavoidable-loss formula needs to know about a district's network. */
+export type DistrictInfrastructure = {
+  mainsKm: number;
+  connections: number;
+  /** Average operating pressure, m. */
+  pressure: number;
+  /** Service pipe between property line and customer meter, km. 0 when meters sit at the property line. */
+  privatePipeKm: number;
+};
+
+const M_PER_PSI = 1 / 1.42197;
+
+/**
+ * Mains length and service connections per zone from the network, and average
+ * pressure from the live grid. A main between two zones counts half to each.
+ */
+export const districtInfrastructure = (net: Network, cells: GridCell[]): Map<string, DistrictInfrastructure> => {
+  const zoneOf = new Map(cells.map((c) => [c.id, c.zone ?? "Unzoned"]));
+  const nodeZone = new Map(net.nodes.map((n) => [n.id, n.cellId ? zoneOf.get(n.cellId) : undefined]));
+  const out = new Map<string, DistrictInfrastructure>();
+  const get = (zone: string) => {
+    if (!out.has(zone)) out.set(zone, { mainsKm: 0, connections: 0, pressure: 0, privatePipeKm: 0 });
+    return out.get(zone)!;
+  };
+  for (const l of net.links) {
+    if (l.kind !== "pipe") continue;
+    const zones = [nodeZone.get(l.from), nodeZone.get(l.to)].filter((z): z is string => !!z);
+    for (const z of zones) get(z).mainsKm += l.length / 1000 / zones.length;
+  }
+  for (const n of net.nodes) {
+    const zone = nodeZone.get(n.id);
+    if (zone && n.kind === "junction") get(zone).connections += n.connections ?? 0;
+  }
+  const pressures = new Map<string, number[]>();
+  for (const c of cells) {
+    const zone = c.zone ?? "Unzoned";
+    pressures.set(zone, [...(pressures.get(zone) ?? []), c.pressure * M_PER_PSI]);
+  }
+  for (const [zone, ps] of pressures) get(zone).pressure = ps.reduce((a, b) => a + b, 0) / ps.length;
+  return out;
+};
+
+// ------------------------- WATER BALANCE ------------------------- //
+
+/** The IWA standard water balance for one district and month. Volumes in m³. */
+export type WaterBalance = {
+  district: string;
+  month: string;
+  systemInput: number;
+  billedMetered: number;
+  billedUnmetered: number;
+  unbilledAuthorized: number;
+  meterInaccuracy: number;
+  unauthorized: number;
+  /** Apparent losses: meter inaccuracy plus unauthorised consumption. */
+  apparentLosses: number;
+  /** Real losses: leakage and overflows, what is left of water losses after apparent ones. */
+  realLosses: number;
+  /** Non-revenue water: everything not billed. */
+  nrw: number;
+  nrwPct: number;
+  /** Unavoidable annual real losses, L/day; null without network data. */
+  unavoidable: number | null;
+  /** Infrastructure Leakage Index: current over unavoidable real losses. */
+  ili: number | null;
+};
+
+const DEFAULT_METER_UNDER_REGISTRATION = 0.03;
+const DEFAULT_UNAUTHORIZED_SHARE = 0.0025;
+
+const daysIn = (month: string) => {
+  const [y, m] = month.split("-").map(Number);
+  return new Date(y, m, 0).getDate();
+};
+
+/**
+ * Unavoidable annual real losses in L/day (Lambert et al., 1999):
+ * (18 × Lm + 0.8 × Nc + 25 × Lp) × P. Intended for systems with over 3000 connections;
+ * smaller districts get a rougher ILI.
+ */
+export const unavoidableLosses = (infra: DistrictInfrastructure) =>
+  (18 * infra.mainsKm + 0.8 * infra.connections + 25 * infra.privatePipeKm) * infra.pressure;
+
+/** Splits a district-month into the IWA components, with NRW % and the Infrastructure Leakage Index. */
+export const waterBalance = (district: string, month: string, v: DistrictVolumes, infra?: DistrictInfrastructure): WaterBalance => {
+  const billedUnmetered = v.billedUnmetered ?? 0;
+  const unbilledAuthorized = v.unbilledAuthorized ?? 0;
+  const e = v.meterUnderRegistration ?? DEFAULT_METER_UNDER_REGISTRATION;
+  // Meters read (1 − e) of true use, so the unregistered part is billed × e / (1 − e).
+  const meterInaccuracy = (v.billedMetered * e) / (1 - e);
+  const unauthorized = v.unauthorized ?? v.systemInput * DEFAULT_UNAUTHORIZED_SHARE;
+  const losses = v.systemInput - v.billedMetered - billedUnmetered - unbilledAuthorized;
+  const apparentLosses = Math.min(Math.max(0, losses), meterInaccuracy + unauthorized);
+  const realLosses = Math.max(0, losses - apparentLosses);
+  const nrw = v.systemInput - v.billedMetered - billedUnmetered;
+  const uarl = infra ? unavoidableLosses(infra) : 0;
+  return {
+    district,
+    month,
+    systemInput: v.systemInput,
+    billedMetered: v.billedMetered,
+    billedUnmetered,
+    unbilledAuthorized,
+    meterInaccuracy,
+    unauthorized,
+    apparentLosses,
+    realLosses,
+    nrw,
+    nrwPct: v.systemInput > 0 ? (nrw / v.systemInput) * 100 : 0,
+    unavoidable: uarl > 0 ? uarl : null,
+    ili: uarl > 0 ? (realLosses * 1000) / daysIn(month) / uarl : null,
+  };
+};
+
+export const ALL_DISTRICTS = "All districts";
+
+const SUMMED = ["systemInput", "billedMetered", "billedUnmetered", "unbilledAuthorized", "meterInaccuracy", "unauthorized", "apparentLosses", "realLosses", "nrw"] as const;
+
+// Whole-city balance: volumes add up, and so does unavoidable leakage, so ILI is the ratio of the sums.
+const combine = (month: string, parts: WaterBalance[]): WaterBalance => {
+  const total = { district: ALL_DISTRICTS, month } as WaterBalance;
+  for (const f of SUMMED) total[f] = parts.reduce((acc, b) => acc + b[f], 0);
+  total.nrwPct = total.systemInput > 0 ? (total.nrw / total.systemInput) * 100 : 0;
+  const uarl = parts.every((b) => b.unavoidable !== null) ? parts.reduce((acc, b) => acc + b.unavoidable!, 0) : 0;
+  total.unavoidable = uarl > 0 ? uarl : null;
+  total.ili = uarl > 0 ? (total.realLosses * 1000) / daysIn(month) / uarl : null;
+  return total;
+};
+
+/**
+ * Monthly balances for one district, or the whole city with `ALL_DISTRICTS`, oldest
+ * first. Months without billing data for the district are skipped.
+ */
+export const balanceTrend = (
+  months: BillingMonth[],
+  district: string,
+  infra: Map<string, DistrictInfrastructure>,
+): WaterBalance[] =>
+  months.flatMap((m) => {
+    const names = district === ALL_DISTRICTS ? Object.keys(m.districts) : [district];
+    const parts = names.filter((n) => m.districts[n]).map((n) => waterBalance(n, m.month, m.districts[n], infra.get(n)));
+    if (parts.length === 0) return [];
+    return district === ALL_DISTRICTS ? [combine(m.month, parts)] : parts;
+  });
@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+
+import { classifyWqi, computeWqi } from "./wqi";
+
+describe("computeWqi", () => {
+  it("weighted arithmetic: ratings against limits, weighted by 1 / limit", () => {
+    // q = 100 × (8 − 7) / (8.5 − 7), 100 × 2.5 / 5, 100 × 250 / 500; w = 1/8.5, 1/5, 1/500.
+    // Σ q·w / Σ w = 17.943 / 0.3196 = 56.13, flipped to 43.9.
+    const r = computeWqi({ ph: 8, turbidity: 2.5, tds: 250 }, "weighted");
+    expect(r.wqi).toBe(43.9);
+    expect(r.subIndices.map((s) => s.score)).toEqual([33.3, 50, 50]);
+    expect(classifyWqi(r.wqi, "weighted")).toBe("Moderate");
+  });
+
+  it("CCME: scope and amplitude of exceedances", () => {
+    // Turbidity fails 1 of 4: F1 = F2 = 25. Excursion 10 / 5 − 1 = 1, nse = 0.25, F3 = 0.25 / 0.0125 = 20.
+    // 100 − √(25² + 25² + 20²) / 1.732 = 76.5.
+    const r = computeWqi({ ph: 7, turbidity: 10, nitrate: 20, ecoli: 0 }, "ccme");
+    expect(r.wqi).toBe(76.5);
+    expect(r.subIndices.filter((s) => s.failing).map((s) => s.param)).toEqual(["turbidity"]);
+    expect(classifyWqi(r.wqi, "ccme")).toBe("Moderate");
+  });
+
+  it("NSF: Q-values weighted over the parameters measured", () => {
+    // Q = 93, 98, 86 at each curve's best; (93 × 0.11 + 98 × 0.08 + 86 × 0.07) / 0.26 = 92.7.
+    const r = computeWqi({ ph: 7.5, turbidity: 0, tds: 0 }, "nsf");
+    expect(r.wqi).toBe(92.7);
+    expect(r.subIndices.reduce((sum, s) => sum + s.weight, 0)).toBeCloseTo(1, 9);
+    expect(classifyWqi(r.wqi, "nsf")).toBe("Excellent");
+  });
+
+  it("flags E. coli as failing at any count", () => {
+    expect(computeWqi({ ecoli: 1 }, "nsf").subIndices[0].failing).toBe(true);
+    expect(computeWqi({ ecoli: 0 }, "nsf").subIndices[0].failing).toBe(false);
+  });
+
+  it("throws when nothing was measured", () => {
+    expect(() => computeWqi({})).toThrow(/no water-quality parameters/);
+  });
+});
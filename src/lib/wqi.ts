@@ -0,0 +1,283 @@
+import { clamp, deriveLeakRisk, round1, round2, type GridCell } from "./grid";
+
+// ------------------------- PARAMETERS ------------------------- //
+
+export type QualityParam = "ph" | "turbidity" | "tds" | "chlorine" | "dissolvedOxygen" | "nitrate" | "ecoli";
+
+/** Raw water-quality readings for a cell. Parameters that were not measured are omitted. */
+export type QualitySample = Partial<Record<QualityParam, number>>;
+
+type ParamSpec = {
+  label: string;
+  unit: string;
+  ideal: number;
+  /** Drinking-water limits (IS 10500 acceptable / WHO guideline). */
+  min?: number;
+  max?: number;
+  /** Any detection fails; `max` is then the smallest countable value. */
+  mustBeAbsent?: boolean;
+  /** Relative importance in the NSF-style index. */
+  weight: number;
+};
+
+export const QUALITY_PARAMS: Record<QualityParam, ParamSpec> = {
+  ph: { label: "pH", unit: "", ideal: 7, min: 6.5, max: 8.5, weight: 0.11 },
+  turbidity: { label: "Turbidity", unit: "NTU", ideal: 0, max: 5, weight: 0.08 },
+  tds: { label: "TDS", unit: "mg/L", ideal: 0, max: 500, weight: 0.07 },
+  chlorine: { label: "Residual chlorine", unit: "mg/L", ideal: 0.5, min: 0.2, max: 1, weight: 0.1 },
+  dissolvedOxygen: { label: "Dissolved oxygen", unit: "mg/L", ideal: 14.6, min: 5, weight: 0.17 },
+  nitrate: { label: "Nitrate", unit: "mg/L", ideal: 0, max: 45, weight: 0.1 },
+  ecoli: { label: "E. coli", unit: "CFU/100 mL", ideal: 0, max: 1, mustBeAbsent: true, weight: 0.16 },
+};
+
+export const QUALITY_PARAM_KEYS = Object.keys(QUALITY_PARAMS) as QualityParam[];
+
+const measured = (sample: QualitySample) =>
+  QUALITY_PARAM_KEYS.filter((p) => typeof sample[p] === "number" && !Number.isNaN(sample[p]));
+
+/** True when at least one parameter carries a usable value. */
+export const hasQuality = (sample: QualitySample | undefined): sample is QualitySample =>
+  !!sample && measured(sample).length > 0;
+
+/**
+ * Distance from the ideal value as a fraction of the distance to the limit on that
+ * side: 0 at ideal, 1 at the limit, above 1 outside it.
+ */
+const deviation = (p: QualityParam, v: number) => {
+  const s = QUALITY_PARAMS[p];
+  if (v >= s.ideal) return s.max === undefined ? 0 : (v - s.ideal) / (s.max - s.ideal);
+  return s.min === undefined ? 0 : (s.ideal - v) / (s.ideal - s.min);
+};
+
+const outOfLimits = (p: QualityParam, v: number) => {
+  const s = QUALITY_PARAMS[p];
+  return s.mustBeAbsent ? v > 0 : (s.min !== undefined && v < s.min) || (s.max !== undefined && v > s.max);
+};
+
+// ------------------------- METHODS ------------------------- //
+
+export type WqiMethod = "weighted" | "ccme" | "nsf";
+
+export const WQI_METHODS: Record<WqiMethod, { label: string; description: string }> = {
+  weighted: {
+    label: "Weighted arithmetic",
+    description: "Quality ratings against drinking-water limits, weighted by 1 / limit (Brown / Tiwari-Mishra).",
+  },
+  ccme: {
+    label: "CCME WQI",
+    description: "Scope, frequency and amplitude of limit exceedances (Canadian Council of Ministers of the Environment).",
+  },
+  nsf: {
+    label: "NSF WQI",
+    description: "Weighted sum of parameter Q-values from the National Sanitation Foundation curves.",
+  },
+};
+
+export const DEFAULT_WQI_METHOD: WqiMethod = "nsf";
+
+export type SubIndex = {
+  param: QualityParam;
+  value: number;
+  /** 0–100, higher is better. */
+  score: number;
+  /** Share of the index this parameter carries, 0–1. */
+  weight: number;
+  failing: boolean;
+};
+
+export type WqiResult = {
+  method: WqiMethod;
+  /** 0–100, higher is better, whatever the method's native scale. */
+  wqi: number;
+  subIndices: SubIndex[];
+};
+
+// NSF Q-value curves, fitted to the published charts. Chlorine is not an NSF
+// parameter; it scores 100 at its ideal and 50 at either limit.
+const nsfQ: Record<QualityParam, (v: number) => number> = {
+  ph: (v) => 93 * Math.exp(-(((v - 7.5) / 1.7) ** 2)),
+  turbidity: (v) => 98 * Math.exp(-v / 55),
+  tds: (v) => 86 * Math.exp(-v / 600),
+  chlorine: (v) => 100 / (1 + deviation("chlorine", v) ** 2),
+  // The curve is on % saturation; 8.26 mg/L is saturation at 25 °C.
+  dissolvedOxygen: (v) => 100 * Math.exp(-(((Math.min(v / 8.26, 1) * 100 - 100) / 40) ** 2)),
+  // Nitrate as NO3 converted to nitrate-nitrogen.
+  nitrate: (v) => 98 * Math.exp(-v / 4.43 / 14),
+  ecoli: (v) => Math.max(2, 98 - 27 * Math.log10(1 + v)),
+};
+
+const weighted = (sample: QualitySample, params: QualityParam[]): WqiResult => {
+  // Unit weight is inversely proportional to the limit, so strict limits dominate.
+  const w = params.map((p) => 1 / (QUALITY_PARAMS[p].max ?? QUALITY_PARAMS[p].min ?? 1));
+  const total = w.reduce((a, b) => a + b, 0);
+  const q = params.map((p) => 100 * deviation(p, sample[p]!));
+  // Native scale is 0 (pure) upwards, > 100 unfit for drinking; flipped onto 0–100.
+  const raw = q.reduce((sum, qi, i) => sum + qi * w[i], 0) / total;
+  return {
+    method: "weighted",
+    wqi: round1(clamp(100 - raw, 0, 100)),
+    subIndices: params.map((p, i) => ({
+      param: p,
+      value: sample[p]!,
+      score: round1(clamp(100 - q[i], 0, 100)),
+      weight: w[i] / total,
+      failing: outOfLimits(p, sample[p]!),
+    })),
+  };
+};
+
+// Ratio by which a value exceeds its limit, 0 when within limits.
+const excursion = (p: QualityParam, v: number) => {
+  const s = QUALITY_PARAMS[p];
+  if (s.mustBeAbsent) return v > 0 ? v / s.max! : 0;
+  if (s.max !== undefined && v > s.max) return v / s.max - 1;
+  if (s.min !== undefined && v < s.min) return s.min / Math.max(v, 1e-3) - 1;
+  return 0;
+};
+
+const ccme = (sample: QualitySample, params: QualityParam[]): WqiResult => {
+  const failing = params.filter((p) => outOfLimits(p, sample[p]!));
+  // With one sample per parameter, F2 (failed tests) equals F1 (failed variables).
+  const f1 = (100 * failing.length) / params.length;
+  const nse = params.reduce((sum, p) => sum + excursion(p, sample[p]!), 0) / params.length;
+  const f3 = nse / (0.01 * nse + 0.01);
+  const wqi = 100 - Math.sqrt(f1 * f1 + f1 * f1 + f3 * f3) / 1.732;
+  return {
+    method: "ccme",
+    wqi: round1(clamp(wqi, 0, 100)),
+    subIndices: params.map((p) => ({
+      param: p,
+      value: sample[p]!,
+      score: round1(100 / (1 + excursion(p, sample[p]!))),
+      weight: 1 / params.length,
+      failing: outOfLimits(p, sample[p]!),
+    })),
+  };
+};
+
+const nsf = (sample: QualitySample, params: QualityParam[]): WqiResult => {
+  // Weights are renormalised over the parameters actually measured.
+  const total = params.reduce((sum, p) => sum + QUALITY_PARAMS[p].weight, 0);
+  const subIndices = params.map((p) => ({
+    param: p,
+    value: sample[p]!,
+    score: round1(clamp(nsfQ[p](sample[p]!), 0, 100)),
+    weight: QUALITY_PARAMS[p].weight / total,
+    failing: outOfLimits(p, sample[p]!),
+  }));
+  return { method: "nsf", wqi: round1(subIndices.reduce((sum, s) => sum + s.score * s.weight, 0)), subIndices };
+};
+
+/** Computes the index from raw parameters. Throws when nothing usable was measured. */
+export const computeWqi = (sample: QualitySample, method: WqiMethod = DEFAULT_WQI_METHOD): WqiResult => {
+  const params = measured(sample);
+  if (params.length === 0) throw new Error("WQI: no water-quality parameters measured");
+  return method === "weighted" ? weighted(sample, params) : method === "ccme" ? ccme(sample, params) : nsf(sample, params);
+};
+
+// ------------------------- CLASSIFICATION ------------------------- //
+
+export type WqiClass = "Excellent" | "Good" | "Moderate" | "Poor";
+
+// Lower bounds for Excellent / Good / Moderate on each method's published scale
+// (weighted arithmetic flipped: native 0–25 excellent, 26–50 good, 51–75 poor).
+const CLASS_BOUNDS: Record<WqiMethod, [number, number, number]> = {
+  weighted: [75, 50, 25],
+  ccme: [95, 80, 65],
+  nsf: [91, 71, 51],
+};
+
+export const classifyWqi = (wqi: number, method: WqiMethod = DEFAULT_WQI_METHOD): WqiClass => {
+  const [excellent, good, moderate] = CLASS_BOUNDS[method];
+  if (wqi >= excellent) return "Excellent";
+  if (wqi >= good) return "Good";
+  if (wqi >= moderate) return "Moderate";
+  return "Poor";
+};
+
+const formatValue = (p: QualityParam, v: number) => {
+  const { unit } = QUALITY_PARAMS[p];
+  return `${round1(v)}${unit ? ` ${unit}` : ""}`;
+};
+
+/** Plain-language reasons, worst first: parameters outside limits, then the biggest drags on the score. */
+export const explainWqi = (result: WqiResult, limit = 3): string[] => {
+  const ranked = [...result.subIndices].sort((a, b) => (100 - b.score) * b.weight - (100 - a.score) * a.weight);
+  const reasons = ranked
+    .filter((s) => s.failing)
+    .map((s) => {
+      const spec = QUALITY_PARAMS[s.param];
+      const value = formatValue(s.param, s.value);
+      if (spec.mustBeAbsent) return `${spec.label} detected at ${value} (must be absent)`;
+      if (spec.min !== undefined && s.value < spec.min) return `${spec.label} ${value} is below the minimum of ${formatValue(s.param, spec.min)}`;
+      return `${spec.label} ${value} exceeds the limit of ${formatValue(s.param, spec.max!)}`;
+    });
+  for (const s of ranked) {
+    if (reasons.length >= limit) break;
+    if (s.failing || s.score >= 80) continue;
+    reasons.push(`${QUALITY_PARAMS[s.param].label} ${formatValue(s.param, s.value)} scores ${Math.round(s.score)} / 100`);
+  }
+  return reasons.slice(0, limit);
+};
+
+// ------------------------- CELLS ------------------------- //
+
+/** Recomputes a cell's WQI (and the leak risk that depends on it) from its raw parameters. */
+export const withWqi = (cell: GridCell, method: WqiMethod = DEFAULT_WQI_METHOD): GridCell => {
+  if (!hasQuality(cell.quality)) return cell;
+  const wqi = computeWqi(cell.quality, method).wqi;
+  return { ...cell, wqi, leakRisk: deriveLeakRisk(wqi, cell.pressure) };
+};
+
+/**
+ * Plausible raw parameters for a synthetic cell. `degradation` runs from 0
+ * (clean supply) to 1 (poor: low chlorine, turbid, E. coli present).
+ */
+export const synthesizeQuality = (degradation: number): QualitySample => {
+  const d = clamp(degradation, 0, 1);
+  return {
+    ph: round1(7.3 + 0.9 * d),
+    turbidity: round1(0.4 + 7 * d),
+    tds: Math.round(150 + 500 * d),
+    chlorine: Math.round((0.55 - 0.45 * d) * 100) / 100,
+    dissolvedOxygen: round1(8 - 4 * d),
+    nitrate: round1(8 + 40 * d),
+    ecoli: d > 0.5 ? Math.round((d - 0.5) * 40) : 0,
+  };
+};
+
+/**
+ * One step of a mean-reverting random walk on each parameter, scaled to the width
+ * of its limits. `noise` returns values in [-1, 1].
+ */
+export const driftQuality = (q: QualitySample, origin: QualitySample, noise: () => number): QualitySample => {
+  const next: QualitySample = {};
+  for (const p of QUALITY_PARAM_KEYS) {
+    const v = q[p];
+    const o = origin[p];
+    if (v === undefined || o === undefined) continue;
+    const spec = QUALITY_PARAMS[p];
+    const span = Math.abs((spec.max ?? spec.min ?? 1) - spec.ideal);
+    const stepped = Math.max(0, v + noise() * span * 0.01 + (o - v) * 0.1);
+    // Counts stay whole.
+    next[p] = spec.mustBeAbsent ? Math.round(stepped) : round2(stepped);
+  }
+  return next;
+};
+
+/**
+ * Shifts a sample towards a contamination signature (intrusion through a break or
+ * cross-connection): chlorine demand eats the residual, turbidity and E. coli rise.
+ * `severity` 0–1.
+ */
+export const contaminate = (sample: QualitySample, severity: number): QualitySample => {
+  const k = clamp(severity, 0, 1);
+  if (k === 0) return sample;
+  return {
+    ...sample,
+    chlorine: sample.chlorine === undefined ? undefined : sample.chlorine * Math.max(0, 1 - 2.5 * k),
+    turbidity: sample.turbidity === undefined ? undefined : sample.turbidity + 30 * k,
+    ecoli: sample.ecoli === undefined ? undefined : sample.ecoli + 300 * k,
+    nitrate: sample.nitrate === undefined ? undefined : sample.nitrate + 30 * k,
+  };
+};
@@ -0,0 +1,12 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_TELEMETRY_SOURCE?: "mock" | "websocket" | "replay" | "simulator";
+  readonly VITE_TELEMETRY_URL?: string;
+  readonly VITE_SCENARIO?: string;
+  readonly VITE_CITY?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}